@@ -0,0 +1,34 @@
+// cli/erase-user.ts
+import { Pseudonymizer } from '../utils/pseudonymizer';
+import { FileUserKeyStore } from '../utils/user-key-store';
+
+/**
+ * Handles a data-subject erasure request by destroying the user's data key.
+ * Their encrypted HCS entries stay on the ledger but can no longer be decrypted
+ * (HederaTopicReader reports them as `erased`).
+ *
+ *   ts-node src/cli/erase-user.ts <userId>
+ */
+async function main() {
+  const userId = process.argv[2];
+  if (!userId) {
+    throw new Error('Usage: erase-user <userId>');
+  }
+
+  const store = FileUserKeyStore.fromEnv();
+  if (!store) {
+    throw new Error('Missing HCS_USER_KEYSTORE_PATH in environment');
+  }
+
+  const subject = Pseudonymizer.fromEnv().pseudonymize(userId, 'user');
+  const deleted = await store.deleteKey(subject);
+
+  console.log(deleted
+    ? `Erased: entries about ${userId} are no longer readable`
+    : `No data key held for ${userId}; nothing to erase`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
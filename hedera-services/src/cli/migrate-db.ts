@@ -0,0 +1,29 @@
+// cli/migrate-db.ts
+import { PostgresLedgerRepository } from '../utils/postgres-ledger-repository';
+
+/**
+ * Applies pending ledger repository migrations to DATABASE_URL.
+ *
+ *   ts-node src/cli/migrate-db.ts
+ *
+ * Safe to run from several deployments at once: migrations are serialized with
+ * an advisory lock and each runs in its own transaction.
+ */
+async function main() {
+  const repository = PostgresLedgerRepository.fromEnv();
+  if (!repository) {
+    throw new Error('Missing DATABASE_URL in environment');
+  }
+
+  try {
+    const applied = await repository.migrate();
+    console.log(applied.length > 0 ? `Applied migrations ${applied.join(', ')}` : 'Database schema is up to date');
+  } finally {
+    await repository.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+// cli/replay-outbox.ts
+import { HederaOutboxDispatcher } from '../services/hedera/outbox-dispatcher.service';
+import { hederaNetworkFromEnv } from '../utils/network';
+
+/**
+ * Lists the outbox's dead letters, or re-queues them and delivers them to HCS.
+ *
+ *   ts-node src/cli/replay-outbox.ts --list
+ *   ts-node src/cli/replay-outbox.ts --all | <recordId>...
+ *
+ * Fix the cause first (missing topic, exhausted operator balance, ...): replayed
+ * records get a fresh attempt budget and go back to the dead letters if it runs out.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const ids = args.filter(arg => !arg.startsWith('--'));
+  if (!args.includes('--list') && !args.includes('--all') && ids.length === 0) {
+    throw new Error('Usage: replay-outbox --list | --all | <recordId>...');
+  }
+
+  const dispatcher = new HederaOutboxDispatcher(hederaNetworkFromEnv());
+
+  if (args.includes('--list')) {
+    const dead = await dispatcher.deadLetters();
+    for (const record of dead) {
+      console.log(`${record.id}  ${record.event.type}  ${record.dedupKey}  attempts=${record.attempts}  ${record.lastError}`);
+    }
+    console.log(`${dead.length} dead letters`);
+    return;
+  }
+
+  const requeued = await dispatcher.replay(args.includes('--all') ? undefined : ids);
+  const result = await dispatcher.dispatch();
+
+  console.log(`Replayed ${requeued}: ${result.delivered} delivered, ${result.deadLettered} dead-lettered, ${result.remaining} still pending`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
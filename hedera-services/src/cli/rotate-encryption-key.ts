@@ -0,0 +1,57 @@
+// cli/rotate-encryption-key.ts
+import * as fs from 'fs';
+import { HederaTopicReader } from '../services/hedera/topic-reader.service';
+import { DEFAULT_KEY_ID, EncryptionKeyring } from '../utils/keyring';
+import { hederaNetworkFromEnv } from '../utils/network';
+import { FileUserKeyStore } from '../utils/user-key-store';
+
+/**
+ * Rotates an HCS encryption key and prints the new HCS_ENCRYPTION_KEYS value.
+ *
+ *   ts-node src/cli/rotate-encryption-key.ts [keyId] [--export <topicId> <file>]
+ *
+ * With --export, the topic's encrypted entries are re-encrypted under the new
+ * key and written to <file> as JSON lines before anything else happens, so the
+ * archive is readable even after the retired versions are destroyed.
+ *
+ * Rotating the HCS key also re-wraps the per-user data keys at
+ * HCS_USER_KEYSTORE_PATH under the new version, so destroying a retired version
+ * never erases data subjects by accident. Processes still holding the old keyring
+ * cannot unwrap them until they are restarted with the printed value.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const exportIndex = args.indexOf('--export');
+  const exportTarget = exportIndex >= 0 ? { topicId: args[exportIndex + 1], file: args[exportIndex + 2] } : null;
+  const keyId = args.find((arg, i) => !arg.startsWith('--') && (exportIndex < 0 || i < exportIndex || i > exportIndex + 2)) || DEFAULT_KEY_ID;
+
+  if (exportTarget && (!exportTarget.topicId || !exportTarget.file)) {
+    throw new Error('Usage: rotate-encryption-key [keyId] [--export <topicId> <file>]');
+  }
+
+  const keyring = EncryptionKeyring.fromEnv();
+  const rotated = keyring.rotate(keyId);
+
+  if (exportTarget) {
+    const reader = new HederaTopicReader(hederaNetworkFromEnv(), { keyring });
+    const lines: string[] = [];
+    for await (const entry of reader.exportReencrypted(exportTarget.topicId)) {
+      lines.push(JSON.stringify(entry));
+    }
+    fs.writeFileSync(exportTarget.file, lines.join('\n') + (lines.length ? '\n' : ''));
+    console.log(`✅ Exported ${lines.length} entries from ${exportTarget.topicId} under ${keyId} v${rotated.version}`);
+  }
+
+  const userKeys = keyId === DEFAULT_KEY_ID ? FileUserKeyStore.fromEnv(keyring) : null;
+  if (userKeys) {
+    await userKeys.rewrapKeys();
+  }
+
+  console.log('Store the updated keyring and restart writers:');
+  console.log(`HCS_ENCRYPTION_KEYS=${keyring.serialize()}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,12 +1,21 @@
 // examples/complete-tontine-cycle.ts
 import { HederaTokenService } from '../services/hedera/token.service';
 import { HederaConsensusService } from '../services/hedera/consensus.service';
+import { HederaOutboxDispatcher } from '../services/hedera/outbox-dispatcher.service';
 import { HederaSmartContractService } from '../services/hedera/smart-contract.service';
+import { TontineAuditVerifier } from '../services/hedera/tontine-audit.service';
+import { HederaAccountService } from '../services/hedera/account.service';
+import { HederaScheduleService } from '../services/hedera/schedule.service';
+import { exampleNetwork } from './example-network';
 
 async function completeTontineCycleExample() {
-  const tokenService = new HederaTokenService();
-  const consensusService = new HederaConsensusService();
-  const contractService = new HederaSmartContractService();
+  const network = await exampleNetwork();
+  const tokenService = new HederaTokenService(network);
+  const consensusService = new HederaConsensusService(network);
+  const scheduleService = new HederaScheduleService(network);
+  const contractService = new HederaSmartContractService(network, { schedules: scheduleService });
+  // Activity goes through the outbox, so an HCS outage after a contract call delays the entry instead of losing it
+  const outbox = new HederaOutboxDispatcher(network, { consensus: consensusService });
 
   // Step 1: Create tontine smart contract
   const tontine = await contractService.createTontineCircle({
@@ -19,14 +28,14 @@ async function completeTontineCycleExample() {
   console.log(`Tontine created: ${tontine.tontineContractId}`);
 
   // Step 2: Log creation to HCS
-  await consensusService.logTontineActivity({
+  await outbox.logTontineActivity({
     tontineId: tontine.tontineContractId,
     activityType: 'CREATED',
     metadata: {
       name: 'Lagos Tech Workers 2025',
       timestamp: new Date().toISOString()
     }
-  });
+  }, `${tontine.tontineContractId}:CREATED`);
 
   // Step 3: Members join tontine (simulated)
   for (let position = 1; position <= 12; position++) {
@@ -35,11 +44,11 @@ async function completeTontineCycleExample() {
       position
     );
 
-    await consensusService.logTontineActivity({
+    await outbox.logTontineActivity({
       tontineId: tontine.tontineContractId,
       activityType: 'MEMBER_JOINED',
       metadata: { position }
-    });
+    }, `${tontine.tontineContractId}:MEMBER_JOINED:${position}`);
   }
 
   // Step 4: Monthly contributions (simulated for one cycle)
@@ -50,24 +59,37 @@ async function completeTontineCycleExample() {
         1000000
       );
 
-      await consensusService.logTontineActivity({
+      await outbox.logTontineActivity({
         tontineId: tontine.tontineContractId,
         activityType: 'CONTRIBUTION',
         cycle,
         amount: 1000000
-      });
+      }, `${tontine.tontineContractId}:CONTRIBUTION:${cycle}:${member}`);
     }
 
-    await consensusService.logTontineActivity({
+    await outbox.logTontineActivity({
       tontineId: tontine.tontineContractId,
       activityType: 'PAYOUT',
       cycle,
       amount: 12000000 // 12 x 1M
-    });
+    }, `${tontine.tontineContractId}:PAYOUT:${cycle}`);
   }
 
+  // Step 4b: A member pre-authorizes next month's contribution; it executes on its due date
+  const accountService = new HederaAccountService(network);
+  const member = await accountService.onboardUser('tontine-member-demo-001');
+  const [nextContribution] = await contractService.preauthorizeTontineContributions({
+    tontineContractId: tontine.tontineContractId,
+    memberAccountId: member.accountId,
+    memberSigner: await accountService.getSigner(member.accountId),
+    amount: 1000000,
+    firstDueAt: new Date(Date.now() + 30 * 24 * 3600 * 1000)
+  });
+  const scheduled = await scheduleService.getSchedule(nextContribution.scheduleId);
+  console.log(`Next contribution ${scheduled.scheduleId}: ${scheduled.state} until ${scheduled.expiresAt?.toISOString()}`);
+
   // Step 5: Mark as completed (simulated)
-  await consensusService.logTontineActivity({
+  await outbox.logTontineActivity({
     tontineId: tontine.tontineContractId,
     activityType: 'COMPLETED',
     metadata: {
@@ -75,9 +97,22 @@ async function completeTontineCycleExample() {
       totalDistributed: 144000000,
       completedAt: new Date().toISOString()
     }
-  });
+  }, `${tontine.tontineContractId}:COMPLETED`);
+
+  // Retry anything the outbox could not deliver yet
+  const pending = await outbox.dispatch();
+  if (pending.remaining > 0) {
+    console.warn(`${pending.remaining} audit entries still pending in the outbox`);
+  }
 
   console.log('Complete tontine cycle executed on Hedera!');
+
+  // Step 6: Replay the HCS trail and cross-check it against the contract
+  // (the shortened demo reports the 11 cycles it skipped)
+  const audit = await new TontineAuditVerifier(network).verifyTontine(tontine.tontineContractId);
+  for (const anomaly of audit.anomalies) {
+    console.log(`Audit anomaly ${anomaly.code}: ${anomaly.message}`);
+  }
 }
 
 completeTontineCycleExample().catch(console.error);
\ No newline at end of file
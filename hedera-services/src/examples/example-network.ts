@@ -0,0 +1,58 @@
+// examples/example-network.ts
+import { TopicCreateTransaction } from '@hashgraph/sdk';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { HederaSimulator } from '../simulator/hedera-simulator';
+import { SimulatedSigningService } from '../simulator/signing-service';
+import { createTontineFactoryContract } from '../simulator/tontine-contract';
+import { HederaNetwork, hederaNetworkFromEnv } from '../utils/network';
+import { InMemorySigner } from '../utils/signer';
+
+/**
+ * Returns the network the examples run against. With HEDERA_NETWORK=simulator
+ * everything runs in-process: accounts, topics and the tontine factory are
+ * created in the simulator and their ids are written to process.env. The
+ * treasury key is handed to a stand-in remote signing service, so the examples
+ * only ever reach it through a RemoteSigner.
+ */
+export async function exampleNetwork(): Promise<HederaNetwork> {
+  if (process.env.HEDERA_NETWORK !== 'simulator') {
+    return hederaNetworkFromEnv();
+  }
+
+  const simulator = new HederaSimulator();
+  const treasury = simulator.createAccount();
+  const operator = simulator.createAccount();
+
+  const signingService = new SimulatedSigningService();
+  process.env.HEDERA_SIGNING_SERVICE_URL = await signingService.start();
+  process.env.HEDERA_SIGNING_SERVICE_TOKEN = signingService.authToken;
+  process.env.HEDERA_TREASURY_ACCOUNT_ID = treasury.accountId;
+  process.env.HEDERA_TREASURY_PUBLIC_KEY = signingService.addKey(treasury.accountId, treasury.privateKey);
+  delete process.env.HEDERA_TREASURY_PRIVATE_KEY;
+  process.env.HEDERA_OPERATOR_ACCOUNT_ID = operator.accountId;
+  process.env.HEDERA_OPERATOR_PRIVATE_KEY = operator.privateKey.toStringDer();
+  process.env.HCS_ENCRYPTION_KEY = process.env.HCS_ENCRYPTION_KEY || crypto.randomBytes(32).toString('hex');
+  process.env.HCS_PSEUDONYM_SECRET = process.env.HCS_PSEUDONYM_SECRET || crypto.randomBytes(32).toString('hex');
+  process.env.HCS_USER_KEYSTORE_PATH = process.env.HCS_USER_KEYSTORE_PATH
+    || path.join(os.tmpdir(), `afrione-simulator-user-keys-${process.pid}.json`);
+  process.env.HCS_OUTBOX_PATH = process.env.HCS_OUTBOX_PATH
+    || path.join(os.tmpdir(), `afrione-simulator-outbox-${process.pid}.json`);
+  process.env.HEDERA_KEYSTORE_PATH = process.env.HEDERA_KEYSTORE_PATH
+    || path.join(os.tmpdir(), `afrione-simulator-account-keys-${process.pid}.json`);
+  process.env.HEDERA_KEYSTORE_KEYS = process.env.HEDERA_KEYSTORE_KEYS
+    || `keystore:1:active:${crypto.randomBytes(32).toString('hex')}`;
+
+  const ledger = simulator.connect(new InMemorySigner(operator.privateKey, operator.accountId));
+  for (const name of ['TRANSACTIONS', 'TONTINES', 'COMPLIANCE', 'SECURITY']) {
+    const { receipt } = await ledger.submit(new TopicCreateTransaction().setTopicMemo(`AfriOne ${name.toLowerCase()} (simulator)`));
+    process.env[`HCS_${name}_TOPIC_ID`] = receipt.topicId;
+  }
+
+  process.env.TONTINE_FACTORY_CONTRACT_ID = simulator.registerContract(createTontineFactoryContract(simulator));
+
+  console.log('Running examples against the in-process Hedera simulator');
+
+  return simulator;
+}
@@ -1,9 +1,13 @@
 // examples/file-storage.ts
 import { HederaFileService } from '../services/hedera/file.service';
+import { PrivateKey } from '@hashgraph/sdk';
 import * as fs from 'fs';
+import { InMemorySigner } from '../utils/signer';
+import { exampleNetwork } from './example-network';
 
 async function demoFileStorage() {
-  const fileService = new HederaFileService();
+  const network = await exampleNetwork();
+  const fileService = new HederaFileService(network);
 
   // Example 1: Store a property deed document
   const deedContent = fs.readFileSync('path/to/deed.pdf'); // Replace with actual file
@@ -24,8 +28,8 @@ async function demoFileStorage() {
   console.log(`Retrieved ${retrieved.length} bytes from file`);
 
   // Example 4: Grant access to investor (add their public key)
-  const investorKey = PrivateKey.generate(); // Simulate
-  await fileService.grantAccess(deedFile.fileId, [investorKey]);
+  const investorSigner = new InMemorySigner(PrivateKey.generate()); // Simulate
+  await fileService.grantAccess(deedFile.fileId, [investorSigner]);
 
   // Example 5: Clean up (in prod, only on expiration)
    await fileService.deleteFile(deedFile.fileId);
@@ -1,48 +1,168 @@
 // examples/property-tokenization.ts
+import { HederaAccountService } from '../services/hedera/account.service';
+import { HederaDistributionService } from '../services/hedera/distribution.service';
+import { HederaNftService } from '../services/hedera/nft.service';
 import { HederaTokenService } from '../services/hedera/token.service';
+import { signTransfer } from '../services/hedera/transfer-builder';
+import { CostTracker, withCostAttribution } from '../utils/cost-tracker';
+import { InMemoryLedgerRepository } from '../utils/ledger-repository';
+import { createHip412Metadata } from '../utils/nft-metadata';
+import { PostgresLedgerRepository } from '../utils/postgres-ledger-repository';
+import { signerFromEnv } from '../utils/signer';
+import { TransactionMonitor } from '../utils/transaction-monitor';
+import { exampleNetwork } from './example-network';
 
-const TREASURY_ACCOUNT = process.env.HEDERA_TREASURY_ACCOUNT_ID!;
-const TREASURY_PRIVATE_KEY = process.env.HEDERA_TREASURY_PRIVATE_KEY!;
+const PROPERTY_ID = 'VIA-BLK-A';
 
 async function tokenizeLagosProperty() {
-  const tokenService = new HederaTokenService();
+  const network = await exampleNetwork();
+  const TREASURY_ACCOUNT = process.env.HEDERA_TREASURY_ACCOUNT_ID!;
+  const treasury = signerFromEnv('TREASURY'); // In-memory key, or the remote signing service in the simulator
+  // Off-ledger records of every token, transfer and deed, in PostgreSQL when DATABASE_URL is set
+  const repository = PostgresLedgerRepository.fromEnv() ?? new InMemoryLedgerRepository();
+  const tokenService = new HederaTokenService(network, { repository });
+  const nftService = new HederaNftService(network, { repository });
+  const distributionService = new HederaDistributionService(network);
 
   const propertyToken = await tokenService.createFungibleToken({
     name: "Victoria Island Apartment Block A",
     symbol: "VIA-BLK-A",
     decimals: 2,
-    initialSupply: 500000, // 5,000 shares
-    maxSupply: 500000,
+    initialSupply: '5000', // Shares
+    maxSupply: '5000',
     kycRequired: true,
     freezeDefault: false
   });
 
   console.log(`Property tokenized: ${propertyToken.tokenId}`);
   
-  // Simulate investor (replace with real user data)
-  const investorAccountId = '0.0.9999'; // Example
-  const investorPrivateKey = 'example-key'; // From DB
+  // Onboard the investor: a custodial account whose key only lives in the encrypted keystore
+  const accountService = new HederaAccountService(network);
+  const { accountId: investorAccountId } = await accountService.onboardUser('investor-demo-001', { initialBalance: '5' });
+  const investor = await accountService.getSigner(investorAccountId);
   
   await tokenService.associateTokenToAccount(
     investorAccountId,
-    investorPrivateKey,
+    investor,
     propertyToken.tokenId
   );
 
+  // VIA-BLK-A requires KYC, so the investor must be approved before receiving shares
+  await tokenService.grantKyc(propertyToken.tokenId, investorAccountId, {
+    reason: "Investor KYC approved"
+  });
+
+  // Fund the investor with NGN stablecoin
+  const ngnToken = await tokenService.createFungibleToken({
+    name: "AfriOne Naira",
+    symbol: "NGNC",
+    decimals: 2,
+    initialSupply: '10000000'
+  });
+  await tokenService.associateTokenToAccount(investorAccountId, investor, ngnToken.tokenId);
   await tokenService.transferTokens({
+    tokenId: ngnToken.tokenId,
+    fromAccountId: TREASURY_ACCOUNT,
+    fromSigner: treasury,
+    toAccountId: investorAccountId,
+    amount: '250000.00'
+  });
+
+  // Shares against payment in one atomic transfer, signed by each side separately
+  const swap = await tokenService.newTransfer()
+    .sendToken(ngnToken.tokenId, investorAccountId, TREASURY_ACCOUNT, '100000.00') // NGN
+    .sendToken(propertyToken.tokenId, TREASURY_ACCOUNT, investorAccountId, '10.00') // Shares
+    .setMemo("Property investment - VIA Block A")
+    .prepare();
+
+  const signedByInvestor = await signTransfer(swap.bytes, investor); // e.g. in the investor's wallet
+  const signedByTreasury = await signTransfer(swap.bytes, treasury);
+  const investment = await tokenService.submitSignedTransfer([signedByInvestor, signedByTreasury]);
+  const shares = investment.legs.find(leg => leg.asset === propertyToken.tokenId && leg.change === 'credit')!;
+
+  // Rent collected for the quarter goes to shareholders pro rata; unsold shares in the treasury get nothing
+  const rent = await distributionService.distribute({
     tokenId: propertyToken.tokenId,
+    asset: ngnToken.tokenId,
+    totalAmount: '37500.00',
+    memo: "VIA Block A rent - Q1"
+  });
+  console.log(`Rent distribution ${rent.distributionId}: ${rent.status}, ${rent.paidAmount} NGN to ${rent.payouts.length} holders`);
+
+  // The title deed itself is a single NFT whose HIP-412 metadata lives on HFS
+  const deeds = await tokenService.createNFTCollection({
+    name: "AfriOne Property Deeds",
+    symbol: "AFRI-DEED",
+    maxSupply: 1000,
+    wipeable: true,
+    // 2.5% of every resale goes back to the platform; a deed given away costs the recipient 50 HBAR
+    customFees: [{
+      kind: 'royalty',
+      numerator: 25,
+      denominator: 1000,
+      collectorAccountId: TREASURY_ACCOUNT,
+      fallbackFee: { amount: '50' }
+    }],
+    feeScheduleUpdatable: true
+  });
+
+  const deed = await nftService.mintNFTs(deeds.tokenId, [{
+    metadata: createHip412Metadata({
+      name: "Deed - Victoria Island Apartment Block A",
+      description: "Certificate of occupancy backing the VIA-BLK-A shares",
+      image: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      type: "image/png",
+      properties: { shareTokenId: propertyToken.tokenId, location: "Victoria Island, Lagos" }
+    })
+  }]);
+
+  await tokenService.associateTokenToAccount(investorAccountId, investor, deeds.tokenId);
+  await nftService.transferNFT({
+    tokenId: deeds.tokenId,
+    serial: deed.serials[0],
     fromAccountId: TREASURY_ACCOUNT,
-    fromPrivateKey: TREASURY_PRIVATE_KEY,
+    fromSigner: treasury,
     toAccountId: investorAccountId,
-    amount: 1000, // 10.00 shares
-    memo: "Property investment - VIA Block A"
+    memo: "Deed custody - VIA Block A"
+  });
+
+  const held = await nftService.getOwnedNFTs(investorAccountId, { tokenId: deeds.tokenId });
+  console.log(`Investor holds deed serials: ${held.map(nft => nft.serial).join(', ')}`);
+
+  const received = await repository.listTransfers({ accountId: investorAccountId });
+  console.log(`Investor transfers on record: ${received.map(transfer => `${transfer.tokenId} (${transfer.transactionId})`).join(', ')}`);
+
+  // The services hand each transaction to the network's monitor; await the mirror node's record of the deed transfer
+  const deedTransfer = received[received.length - 1];
+  const outcome = await TransactionMonitor.forNetwork(network).track(deedTransfer.transactionId);
+  console.log(`Deed transfer ${outcome.status} at ${outcome.consensusTimestamp}, fee ${outcome.chargedFee} tinybars`);
+
+  // What a resale of the deed to another buyer for NGN 120,000 would cost the investor
+  const resale = await tokenService.previewTransferFees({
+    tokenId: deeds.tokenId,
+    fromAccountId: investorAccountId,
+    toAccountId: '0.0.5005', // Prospective buyer
+    payment: { asset: ngnToken.tokenId, amount: '120000.00' }
   });
+  for (const fee of resale.fees) {
+    console.log(`Resale ${fee.kind} fee: ${fee.amount} ${fee.asset} to ${fee.collectorAccountId}`);
+  }
+
+  // Network fees actually paid for the property so far, at the exchange rate when each was charged
+  const costs = await CostTracker.forNetwork(network).summarize('service', { propertyId: PROPERTY_ID });
+  for (const cost of costs) {
+    console.log(`Fees paid by ${cost.key}: ${cost.transactions} transactions, ${cost.feeTinybars} tinybars ($${cost.feeUsd.toFixed(4)})`);
+  }
 
   return {
     propertyTokenId: propertyToken.tokenId,
-    investorShares: 10,
-    investmentValue: 100000 // NGN
+    deedTokenId: deeds.tokenId,
+    deedSerial: deed.serials[0],
+    investorShares: shares.amount.toString(),
+    investmentValue: 100000, // NGN
+    rentDistributed: rent.paidAmount.toString()
   };
 }
 
-tokenizeLagosProperty().catch(console.error);
\ No newline at end of file
+// Every fee paid along the way is attributed to the property
+withCostAttribution({ propertyId: PROPERTY_ID }, tokenizeLagosProperty).catch(console.error);
\ No newline at end of file
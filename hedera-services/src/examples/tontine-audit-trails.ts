@@ -1,8 +1,10 @@
 // examples/tontine-audit-trail.ts
 import { HederaConsensusService } from '../services/hedera/consensus.service';
+import { exampleNetwork } from './example-network';
 
 async function createTontineAuditTrail() {
-  const consensusService = new HederaConsensusService();
+  const network = await exampleNetwork();
+  const consensusService = new HederaConsensusService(network);
 
   // 1. Log tontine creation
   await consensusService.logTontineActivity({
@@ -0,0 +1,99 @@
+// services/hedera/account.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { InMemoryAccountKeyStore } from '../../utils/account-key-store';
+import { Signer } from '../../utils/signer';
+import { HederaAccountService } from './account.service';
+import { HederaTokenService } from './token.service';
+
+describe('HederaAccountService', () => {
+  let env: TestEnvironment;
+  let accounts: HederaAccountService;
+  let tokens: HederaTokenService;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    accounts = new HederaAccountService(env.simulator);
+    tokens = new HederaTokenService(env.simulator);
+  });
+
+  afterEach(() => env.cleanup());
+
+  const payTreasury = (accountId: string, signer: Signer) =>
+    tokens.newTransfer().sendHbar(accountId, env.treasury.accountId, '0.1').execute([signer]);
+
+  test('onboards a user once, with an EVM alias the account can be found by', async () => {
+    const onboarded = await accounts.onboardUser('user-1');
+    const again = await accounts.onboardUser('user-1');
+
+    assert.equal(onboarded.created, true);
+    assert.equal(onboarded.keyType, 'ECDSA_SECP256K1');
+    assert.deepEqual({ ...again, transactionId: onboarded.transactionId, created: true }, onboarded);
+    assert.equal(again.created, false);
+    assert.equal(await accounts.findUserAccount('user-1'), onboarded.accountId);
+    assert.equal(await accounts.resolveAccountId(`0x${onboarded.evmAddress}`), onboarded.accountId);
+
+    const info = await accounts.getAccountInfo(onboarded.evmAddress);
+    assert.equal(info.accountId, onboarded.accountId);
+    assert.equal(info.balance.toString(), '1.00000000');
+    assert.equal(info.maxAutomaticTokenAssociations, 10);
+    assert.equal(info.custodial, true);
+  });
+
+  test('receives tokens through automatic associations and signs with the stored key', async () => {
+    const { accountId } = await accounts.onboardUser('user-1');
+    const { tokenId } = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '100' });
+
+    await tokens.transferTokens({ tokenId, fromAccountId: env.treasury.accountId, fromSigner: env.treasury.signer, toAccountId: accountId, amount: '12.5' });
+    await payTreasury(accountId, await accounts.getSigner(accountId));
+
+    const balances = await accounts.getBalances(accountId);
+    assert.deepEqual(balances.tokens.map(amount => [amount.tokenId, amount.toString()]), [[tokenId, '12.50']]);
+    assert.equal(balances.hbar.toString(), '0.90000000');
+  });
+
+  test('rotates the key and retires signers opened with the old one', async () => {
+    const { accountId, publicKey } = await accounts.createAccount({ initialBalance: '1' });
+    const oldSigner = await accounts.getSigner(accountId);
+
+    const rotated = await accounts.rotateAccountKey(accountId);
+
+    assert.notEqual(rotated.publicKey, publicKey);
+    assert.equal((await accounts.getAccountInfo(accountId)).publicKey, rotated.publicKey);
+    await assert.rejects(payTreasury(accountId, oldSigner), /changed since the signer was opened/);
+    await payTreasury(accountId, await accounts.getSigner(accountId));
+  });
+
+  test('commits a staged key once the ledger shows an interrupted rotation went through', async () => {
+    const keyStore = new CrashingKeyStore();
+    const custodian = new HederaAccountService(env.simulator, { keyStore });
+    const { accountId } = await custodian.createAccount({ initialBalance: '1' });
+
+    keyStore.crashOnCommit = true;
+    await assert.rejects(custodian.rotateAccountKey(accountId), /Crashed before commit/);
+    keyStore.crashOnCommit = false;
+    const staged = await keyStore.getStagedKey(accountId);
+
+    const signer = await custodian.getSigner(accountId);
+
+    assert.equal(signer.publicKey.toString(), staged!.publicKey.toString());
+    assert.equal(await keyStore.getStagedKey(accountId), null);
+    await payTreasury(accountId, signer);
+  });
+
+  test('only gives EVM aliases to ECDSA keys', async () => {
+    await assert.rejects(accounts.createAccount({ keyType: 'ED25519', evmAlias: true }), /needs an ECDSA_SECP256K1 key/);
+  });
+});
+
+class CrashingKeyStore extends InMemoryAccountKeyStore {
+  crashOnCommit = false;
+
+  async commitKey(accountId: string): Promise<void> {
+    if (this.crashOnCommit) {
+      throw new Error('Crashed before commit');
+    }
+    return super.commitKey(accountId);
+  }
+}
@@ -0,0 +1,316 @@
+// services/hedera/account.service.ts
+import {
+  AccountCreateTransaction,
+  AccountId,
+  AccountUpdateTransaction,
+  Hbar,
+  PrivateKey,
+  PublicKey
+} from '@hashgraph/sdk';
+import { AccountKeyStore, FileAccountKeyStore } from '../../utils/account-key-store';
+import { CostTracker } from '../../utils/cost-tracker';
+import { executeWithRetry } from '../../utils/error-handler';
+import { MirrorNodeClient } from '../../utils/mirror-node-client';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { InMemorySigner, KeystoreSigner, Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { TokenAmount, TokenAmountInput, TokenDecimalsCache } from '../../utils/token-amount';
+import { HederaLedger, LedgerAccountInfo } from './ledger';
+import { HBAR, HBAR_DECIMALS } from './transfer-builder';
+
+// What onboardUser gives a new platform user unless told otherwise
+const ONBOARDING_DEFAULTS: AccountConfig = {
+  keyType: 'ECDSA_SECP256K1',
+  evmAlias: true,
+  initialBalance: '1',
+  maxAutomaticTokenAssociations: 10
+};
+
+/**
+ * Custodial Hedera accounts. Keys are generated here and only ever stored in the
+ * AccountKeyStore (HEDERA_KEYSTORE_PATH by default); results carry public keys
+ * and EVM addresses, and other services sign for an account through `getSigner`,
+ * never with its private key. The operator pays for account creation,
+ * initial balances and key updates.
+ */
+export class HederaAccountService {
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
+  private operatorAccountId: AccountId;
+  private operator: Signer;
+  private decimals: TokenDecimalsCache;
+  private keyStore: AccountKeyStore | null;
+  private mirror: MirrorNodeClient;
+
+  constructor(network: HederaNetwork = hederaNetworkFromEnv(), options: { keyStore?: AccountKeyStore; costs?: CostTracker } = {}) {
+    this.network = network;
+    this.operator = signerFromEnv('OPERATOR');
+    this.operatorAccountId = AccountId.fromString(signerAccountId(this.operator));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.operator), 'account');
+    this.decimals = new TokenDecimalsCache(this.ledger);
+    this.keyStore = options.keyStore ?? FileAccountKeyStore.fromEnv();
+    this.mirror = MirrorNodeClient.forNetwork(network);
+  }
+
+  /**
+   * Creates an account with a freshly generated key, kept in the key store.
+   * `evmAlias` (ECDSA only) makes the key's EVM address the account's alias, so
+   * wallets and contracts can address it as 0x…
+   */
+  async createAccount(config: AccountConfig = {}): Promise<AccountCreationResult> {
+    const keyStore = this.store();
+    const keyType = config.keyType ?? 'ED25519';
+    if (config.evmAlias && keyType !== 'ECDSA_SECP256K1') {
+      throw new Error('An EVM address alias needs an ECDSA_SECP256K1 key');
+    }
+    const initialBalance = TokenAmount.from(HBAR, config.initialBalance ?? 0n, HBAR_DECIMALS);
+    const privateKey = keyType === 'ECDSA_SECP256K1' ? PrivateKey.generateECDSA() : PrivateKey.generateED25519();
+
+    const submission = await executeWithRetry(async () => {
+      const accountCreateTx = new AccountCreateTransaction()
+        .setInitialBalance(Hbar.fromTinybars(initialBalance.units.toString()))
+        .setMaxAutomaticTokenAssociations(config.maxAutomaticTokenAssociations ?? 0);
+
+      if (config.evmAlias) {
+        accountCreateTx.setECDSAKeyWithAlias(privateKey.publicKey);
+      } else {
+        accountCreateTx.setKeyWithoutAlias(privateKey.publicKey);
+      }
+
+      if (config.memo) {
+        accountCreateTx.setAccountMemo(config.memo);
+      }
+
+      // The alias key signs to prove the alias belongs to the account's key
+      return this.ledger.submit(accountCreateTx, config.evmAlias ? [new InMemorySigner(privateKey)] : []);
+    });
+
+    const accountId = submission.receipt.accountId!;
+    await keyStore.saveKey(accountId, privateKey, config.userId);
+
+    console.log(`✅ Account created: ${accountId}${config.userId ? ` for user ${config.userId}` : ''}`);
+
+    return {
+      success: true,
+      accountId,
+      publicKey: privateKey.publicKey.toString(),
+      keyType,
+      evmAddress: config.evmAlias ? privateKey.publicKey.toEvmAddress() : AccountId.fromString(accountId).toSolidityAddress(),
+      created: true,
+      transactionId: submission.transactionId,
+      explorerUrl: this.network.explorerUrl('account', accountId)
+    };
+  }
+
+  /**
+   * One-call onboarding of a platform user: an ECDSA account with an EVM alias,
+   * 1 HBAR and 10 automatic token association slots unless overridden. Returns the
+   * user's existing custodial account (created: false) when they already have one.
+   */
+  async onboardUser(userId: string, config: Omit<AccountConfig, 'userId'> = {}): Promise<AccountCreationResult> {
+    const existing = await this.store().findAccount(userId);
+    if (existing) {
+      const account = await this.getAccountInfo(existing);
+      return {
+        success: true,
+        accountId: existing,
+        publicKey: account.publicKey,
+        keyType: account.keyType as AccountKeyType,
+        evmAddress: account.evmAddress,
+        created: false,
+        transactionId: null,
+        explorerUrl: this.network.explorerUrl('account', existing)
+      };
+    }
+
+    return this.createAccount({ ...ONBOARDING_DEFAULTS, ...config, userId });
+  }
+
+  /**
+   * Replaces the key of a custodial account with a newly generated one (same key
+   * type unless given). The new key is staged in the key store before the update is
+   * submitted, so it survives an update whose outcome is unknown.
+   */
+  async rotateAccountKey(accountId: string, options: { keyType?: AccountKeyType } = {}): Promise<KeyRotationResult> {
+    const currentSigner = await this.getSigner(accountId);
+    const keyType = options.keyType ?? (currentSigner.publicKey.type === 'secp256k1' ? 'ECDSA_SECP256K1' : 'ED25519');
+    const newKey = keyType === 'ECDSA_SECP256K1' ? PrivateKey.generateECDSA() : PrivateKey.generateED25519();
+
+    const keyStore = this.store();
+    await keyStore.stageKey(accountId, newKey);
+
+    // Both keys sign: the current one authorizes the update, the new one proves possession
+    const submission = await executeWithRetry(() => this.ledger.submit(
+      new AccountUpdateTransaction()
+        .setAccountId(AccountId.fromString(accountId))
+        .setKey(newKey.publicKey),
+      [currentSigner, new InMemorySigner(newKey)]
+    ));
+    await keyStore.commitKey(accountId);
+
+    console.log(`✅ Key rotated for account ${accountId}`);
+
+    return {
+      success: true,
+      accountId,
+      publicKey: newKey.publicKey.toString(),
+      keyType,
+      transactionId: submission.transactionId,
+      status: submission.receipt.status
+    };
+  }
+
+  /**
+   * Key, EVM address, HBAR balance and settings of an account, by id or EVM address
+   */
+  async getAccountInfo(account: string): Promise<AccountDetails> {
+    const accountId = await this.resolveAccountId(account);
+    const info = await executeWithRetry(() => this.ledger.getAccountInfo(accountId));
+
+    return {
+      accountId: info.accountId,
+      publicKey: info.key,
+      keyType: keyTypeOf(info),
+      evmAddress: info.evmAddress ?? AccountId.fromString(info.accountId).toSolidityAddress(),
+      balance: TokenAmount.fromUnits(HBAR, info.balanceTinybars, HBAR_DECIMALS),
+      memo: info.memo,
+      maxAutomaticTokenAssociations: info.maxAutomaticTokenAssociations,
+      deleted: info.deleted,
+      custodial: this.keyStore ? (await this.keyStore.getKey(info.accountId)) !== null : false
+    };
+  }
+
+  /**
+   * HBAR and token balances of an account, by id or EVM address
+   */
+  async getBalances(account: string): Promise<AccountBalances> {
+    const accountId = await this.resolveAccountId(account);
+    const balance = await executeWithRetry(() => this.ledger.getAccountBalance(accountId));
+
+    const tokens: TokenAmount[] = [];
+    for (const [tokenId, units] of balance.tokens) {
+      tokens.push(await this.decimals.fromUnits(tokenId, units));
+    }
+
+    return {
+      accountId,
+      hbar: TokenAmount.fromUnits(HBAR, balance.hbarTinybars, HBAR_DECIMALS),
+      tokens
+    };
+  }
+
+  /**
+   * Account id behind an EVM address (0x…, alias or long-zero) via the mirror node;
+   * account ids are returned unchanged
+   */
+  async resolveAccountId(account: string): Promise<string> {
+    if (!/^(0x)?[0-9a-fA-F]{40}$/.test(account)) {
+      return AccountId.fromString(account).toString();
+    }
+
+    const evmAddress = account.startsWith('0x') ? account : `0x${account}`;
+    const mirrorAccount = await this.mirror.getAccount(evmAddress);
+    if (!mirrorAccount) {
+      throw new Error(`No account with EVM address ${evmAddress}`);
+    }
+    return mirrorAccount.account;
+  }
+
+  /**
+   * Signer for a custodial account, for services that sign on the user's behalf;
+   * the key stays in the key store
+   */
+  async getSigner(accountId: string): Promise<Signer> {
+    const keyStore = this.store();
+    await this.settleStagedKey(accountId);
+
+    return KeystoreSigner.open(keyStore, accountId);
+  }
+
+  /**
+   * Custodial account of a platform user, if onboarded
+   */
+  async findUserAccount(userId: string): Promise<string | null> {
+    return this.store().findAccount(userId);
+  }
+
+  /**
+   * Commits a key left staged by an interrupted rotation if the ledger shows the update went through
+   */
+  private async settleStagedKey(accountId: string): Promise<void> {
+    const keyStore = this.store();
+    const staged = await keyStore.getStagedKey(accountId);
+    if (!staged) {
+      return;
+    }
+
+    const info = await executeWithRetry(() => this.ledger.getAccountInfo(accountId));
+    if (info.key === staged.publicKey.toString()) {
+      await keyStore.commitKey(accountId);
+      console.log(`✅ Committed staged key for account ${accountId}`);
+    }
+  }
+
+  private store(): AccountKeyStore {
+    if (!this.keyStore) {
+      throw new Error('No account key store configured (set HEDERA_KEYSTORE_PATH and HEDERA_KEYSTORE_KEYS)');
+    }
+    return this.keyStore;
+  }
+}
+
+function keyTypeOf(info: LedgerAccountInfo): AccountKeyType | 'KEY_LIST' {
+  try {
+    return PublicKey.fromString(info.key).type === 'secp256k1' ? 'ECDSA_SECP256K1' : 'ED25519';
+  } catch {
+    return 'KEY_LIST';
+  }
+}
+
+export type AccountKeyType = 'ED25519' | 'ECDSA_SECP256K1';
+
+export interface AccountConfig {
+  keyType?: AccountKeyType; // Default ED25519
+  evmAlias?: boolean; // ECDSA only: the key's EVM address becomes the account alias
+  initialBalance?: TokenAmountInput; // HBAR from the operator, e.g. '1.5'
+  maxAutomaticTokenAssociations?: number; // Tokens the account can receive without associating first; -1: unlimited
+  memo?: string;
+  userId?: string; // Platform user the account belongs to (see onboardUser)
+}
+
+export interface AccountCreationResult {
+  success: boolean;
+  accountId: string;
+  publicKey: string; // DER hex
+  keyType: AccountKeyType;
+  evmAddress: string; // Hex without 0x: the alias, or the long-zero address of the account id
+  created: boolean; // False when onboardUser found an existing account
+  transactionId: string | null;
+  explorerUrl: string;
+}
+
+export interface KeyRotationResult {
+  success: boolean;
+  accountId: string;
+  publicKey: string;
+  keyType: AccountKeyType;
+  transactionId: string;
+  status: string;
+}
+
+export interface AccountDetails {
+  accountId: string;
+  publicKey: string; // DER hex, or the key list's string form
+  keyType: AccountKeyType | 'KEY_LIST';
+  evmAddress: string;
+  balance: TokenAmount; // HBAR
+  memo: string;
+  maxAutomaticTokenAssociations: number;
+  deleted: boolean;
+  custodial: boolean; // Key held in the key store
+}
+
+export interface AccountBalances {
+  accountId: string;
+  hbar: TokenAmount;
+  tokens: TokenAmount[]; // One per associated token, in its decimals (NFT collections count serials)
+}
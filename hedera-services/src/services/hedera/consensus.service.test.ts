@@ -0,0 +1,76 @@
+// services/hedera/consensus.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { HederaConsensusService } from './consensus.service';
+import { TransactionLogEntry } from './hcs-messages';
+import { HederaTopicReader } from './topic-reader.service';
+
+describe('HederaConsensusService', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+  });
+
+  afterEach(() => env.cleanup());
+
+  test('splits a message above the chunk size and reads it back whole', async () => {
+    const consensus = new HederaConsensusService(env.simulator, { chunkSize: 100 });
+
+    const result = await consensus.logTransaction(walletTransaction('tx-1'));
+
+    assert.ok(result.chunks.length > 1);
+    assert.deepEqual(result.chunks.map(chunk => chunk.sequenceNumber), result.chunks.map((_, i) => i + 1));
+    assert.equal(result.sequenceNumber, result.chunks.length);
+    assert.equal(result.transactionId, result.chunks[0].transactionId);
+
+    const [entry] = await new HederaTopicReader(env.simulator).getMessages(env.topicId('TRANSACTIONS'));
+    assert.equal(entry.status, 'ok');
+    assert.equal(entry.chunks.length, result.chunks.length);
+    assert.equal((entry.entry as TransactionLogEntry).data.transactionId, 'tx-1');
+  });
+
+  test('reports a chunk group cut off by the end of a range as incomplete', async () => {
+    const consensus = new HederaConsensusService(env.simulator, { chunkSize: 100 });
+    await consensus.logTransaction(walletTransaction('tx-1'));
+
+    const entries = await new HederaTopicReader(env.simulator).getMessages(env.topicId('TRANSACTIONS'), { toSequence: 1 });
+
+    assert.deepEqual(entries.map(entry => entry.status), ['incomplete']);
+  });
+
+  test('rejects a message needing more chunks than allowed without submitting anything', async () => {
+    const consensus = new HederaConsensusService(env.simulator, { chunkSize: 100, maxChunks: 2 });
+
+    await assert.rejects(consensus.logTransaction(walletTransaction('tx-1')), /needs \d+ chunks; the maximum is 2/);
+    assert.deepEqual(env.simulator.getTopicMessages(env.topicId('TRANSACTIONS')), []);
+  });
+
+  test('returns the exact consensus timestamp, running hash and fee from the transaction records', async () => {
+    const consensus = new HederaConsensusService(env.simulator, { chunkSize: 100 });
+
+    const result = await consensus.logTransaction(walletTransaction('tx-1'));
+
+    const messages = env.simulator.getTopicMessages(env.topicId('TRANSACTIONS'));
+    const last = messages[messages.length - 1];
+    assert.match(result.consensusTimestampExact, /^\d+\.\d{9}$/);
+    assert.equal(result.consensusTimestampExact, last.consensusTimestamp);
+    const [seconds, nanos] = last.consensusTimestamp.split('.');
+    assert.equal(result.consensusTimestamp, new Date(Number(seconds) * 1000 + Math.floor(Number(nanos) / 1_000_000)).toISOString());
+    assert.equal(result.runningHash, last.runningHash.toString('hex'));
+    assert.equal(result.runningHashVersion, last.runningHashVersion);
+
+    const chunkTimestamps = result.chunks.map(chunk => chunk.consensusTimestamp);
+    assert.deepEqual(chunkTimestamps, messages.map(message => message.consensusTimestamp));
+    const fees = env.simulator.getTransactionRecords()
+      .filter(record => chunkTimestamps.includes(record.consensusTimestamp))
+      .reduce((sum, record) => sum + record.chargedTxFee, 0n);
+    assert.ok(fees > 0n);
+    assert.equal(BigInt(result.chargedFeeTinybars), fees);
+  });
+});
+
+function walletTransaction(transactionId: string): Parameters<HederaConsensusService['logTransaction']>[0] {
+  return { transactionId, userId: 'user-1', type: 'TRANSFER', amount: 100, currency: 'NGN', recipientId: 'user-2', status: 'COMPLETED' };
+}
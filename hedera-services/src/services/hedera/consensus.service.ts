@@ -1,21 +1,53 @@
 // services/hedera/consensus.service.ts
 import {
-  Client,
   TopicCreateTransaction,
   TopicMessageSubmitTransaction,
   TopicId,
-  TopicInfoQuery,
-  PrivateKey,
   AccountId
 } from '@hashgraph/sdk';
-import * as crypto from 'crypto';
+import { CostTracker } from '../../utils/cost-tracker';
+import { encryptEnvelope } from '../../utils/encryption';
+import { EncryptionKeyring } from '../../utils/keyring';
+import { PseudonymDomain, Pseudonymizer } from '../../utils/pseudonymizer';
+import { FileUserKeyStore, UserKeyStore } from '../../utils/user-key-store';
 import { executeWithRetry } from '../../utils/error-handler';
-import { monitorTransaction } from '../../utils/transaction-monitor';
+import { LedgerRepository, recordOffLedger } from '../../utils/ledger-repository';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { PostgresLedgerRepository } from '../../utils/postgres-ledger-repository';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { HederaLedger } from './ledger';
+import { EventSchemaRegistry, HcsEvent } from './event-schemas';
+import {
+  ComplianceEventType,
+  SecuritySeverity,
+  TontineActivityType,
+  defaultEventSchemas
+} from './hcs-messages';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
+
+const DEFAULT_MAX_CHUNKS = 20;
+const DEFAULT_CHUNK_SIZE = 1024; // Bytes of message per chunk transaction
+
+export class MessageTooLargeError extends Error {
+  constructor(public bytes: number, public chunkCount: number, public maxChunks: number) {
+    super(`Message of ${bytes} bytes needs ${chunkCount} chunks; the maximum is ${maxChunks}`);
+    this.name = 'MessageTooLargeError';
+  }
+}
 
 export class HederaConsensusService {
-  private client: Client;
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
   private operatorAccountId: AccountId;
-  private operatorPrivateKey: PrivateKey;
+  private operator: Signer;
+  private maxChunks: number;
+  private chunkSize: number;
+  private keyring: EncryptionKeyring | null;
+  private pseudonymizer: Pseudonymizer | null;
+  private userKeys: UserKeyStore | null | undefined; // undefined until looked up in the environment
+  private schemas: EventSchemaRegistry;
+  private repository: LedgerRepository | null;
+  private monitor: TransactionMonitor;
   
   private topicIds: {
     transactions: TopicId | null;
@@ -29,21 +61,39 @@ export class HederaConsensusService {
     security: null
   };
 
-  constructor() {
-    if (!process.env.HEDERA_OPERATOR_ACCOUNT_ID || !process.env.HEDERA_OPERATOR_PRIVATE_KEY) {
-      throw new Error('Missing operator credentials in environment');
-    }
-    this.client = Client.forMainnet();
-    this.operatorAccountId = AccountId.fromString(process.env.HEDERA_OPERATOR_ACCOUNT_ID);
-    this.operatorPrivateKey = PrivateKey.fromString(process.env.HEDERA_OPERATOR_PRIVATE_KEY);
-    this.client.setOperator(this.operatorAccountId, this.operatorPrivateKey);
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: {
+      maxChunks?: number;
+      chunkSize?: number;
+      keyring?: EncryptionKeyring;
+      pseudonymizer?: Pseudonymizer;
+      userKeys?: UserKeyStore | null; // null disables per-user keys
+      schemas?: EventSchemaRegistry;
+      repository?: LedgerRepository;
+      monitor?: TransactionMonitor;
+      costs?: CostTracker;
+    } = {}
+  ) {
+    this.network = network;
+    this.operator = signerFromEnv('OPERATOR');
+    this.operatorAccountId = AccountId.fromString(signerAccountId(this.operator));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.operator), 'consensus');
+    this.maxChunks = options.maxChunks ?? Number(process.env.HCS_MAX_CHUNKS || DEFAULT_MAX_CHUNKS);
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.keyring = options.keyring ?? null;
+    this.pseudonymizer = options.pseudonymizer ?? null;
+    this.userKeys = options.userKeys;
+    this.schemas = options.schemas ?? defaultEventSchemas;
+    this.repository = options.repository ?? PostgresLedgerRepository.fromEnv();
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
     this.loadTopicIds();
   }
 
   async createTopic(topicConfig: {
     memo: string;
-    adminKey?: PrivateKey;
-    submitKey?: PrivateKey;
+    adminKey?: Signer; // Signs the create, as the network requires of a new admin key
+    submitKey?: Signer;
     autoRenewPeriod?: number;
   }): Promise<TopicCreationResult> {
     return executeWithRetry(async () => {
@@ -51,230 +101,230 @@ export class HederaConsensusService {
         .setTopicMemo(topicConfig.memo);
 
       if (topicConfig.adminKey) {
-        topicCreateTx.setAdminKey(topicConfig.adminKey);
+        topicCreateTx.setAdminKey(topicConfig.adminKey.publicKey);
       }
 
       if (topicConfig.submitKey) {
-        topicCreateTx.setSubmitKey(topicConfig.submitKey);
+        topicCreateTx.setSubmitKey(topicConfig.submitKey.publicKey);
       }
 
       if (topicConfig.autoRenewPeriod) {
         topicCreateTx.setAutoRenewPeriod(topicConfig.autoRenewPeriod);
       }
 
-      const topicCreateSubmit = await topicCreateTx.execute(this.client);
-      const topicCreateReceipt = await topicCreateSubmit.getReceipt(this.client);
-      const topicId = topicCreateReceipt.topicId!;
+      const topicCreateSubmit = await this.ledger.submit(topicCreateTx, topicConfig.adminKey ? [topicConfig.adminKey] : []);
+      const topicId = topicCreateSubmit.receipt.topicId!;
+
+      console.log(`✅ HCS Topic created: ${topicId}`);
 
-      console.log(`✅ HCS Topic created: ${topicId.toString()}`);
+      await recordOffLedger(this.repository, topicCreateSubmit.transactionId, repository => repository.saveTopic({
+        topicId,
+        memo: topicConfig.memo,
+        transactionId: topicCreateSubmit.transactionId,
+        createdAt: new Date()
+      }));
 
-      await monitorTransaction(topicCreateSubmit.transactionId.toString());
+      this.monitor.watch(topicCreateSubmit.transactionId);
 
       return {
         success: true,
-        topicId: topicId.toString(),
-        transactionId: topicCreateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/topic/${topicId.toString()}`
+        topicId,
+        transactionId: topicCreateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('topic', topicId)
       };
     });
   }
 
+  /**
+   * Submits a JSON message, split into chunk transactions when it exceeds the chunk size.
+   * Chunks share the first chunk's transaction id, which HederaTopicReader uses to reassemble them.
+   * Encrypted messages about a data subject (their pseudonym) are first encrypted with the
+   * subject's own data key when a user key store is configured, then with the keyring.
+   */
   async submitMessage(
     topicId: string,
-    message: any,
-    encrypt: boolean = false
+    message: HcsEvent,
+    encrypt: boolean = false,
+    subject?: string
   ): Promise<MessageSubmitResult> {
-    return executeWithRetry(async () => {
-      const topic = TopicId.fromString(topicId);
-      
-      let messageString = JSON.stringify(message);
-
-      if (encrypt) {
-        if (!process.env.HCS_ENCRYPTION_KEY) {
-          throw new Error('Missing HCS_ENCRYPTION_KEY in environment');
-        }
-        messageString = this.encryptMessage(messageString);
-      }
+    const topic = TopicId.fromString(topicId);
+    this.schemas.validate(message);
 
-      const messageBuffer = Buffer.from(messageString, 'utf-8');
+    let messageString = JSON.stringify(message);
 
-      const submitTx = new TopicMessageSubmitTransaction()
-        .setTopicId(topic)
-        .setMessage(messageBuffer);
+    if (encrypt) {
+      // Loaded on first use so unencrypted logging works without keys configured
+      this.keyring = this.keyring || EncryptionKeyring.fromEnv();
+      if (this.userKeys === undefined) {
+        this.userKeys = FileUserKeyStore.fromEnv(this.keyring);
+      }
 
-      const submitResponse = await submitTx.execute(this.client);
-      const submitReceipt = await submitResponse.getReceipt(this.client);
+      if (subject && this.userKeys) {
+        messageString = encryptEnvelope(messageString, await this.userKeys.getOrCreateKey(subject));
+      }
+      messageString = this.keyring.encrypt(messageString);
+    }
 
-      const consensusTimestamp = new Date(); // Approximate; use mirror node for exact
+    const messageBuffer = Buffer.from(messageString, 'utf-8');
 
-      console.log(`✅ Message submitted to topic ${topicId}`);
+    const chunkCount = Math.max(1, Math.ceil(messageBuffer.length / this.chunkSize));
+    if (chunkCount > this.maxChunks) {
+      // Not retryable: the message would be rejected on every attempt
+      throw new MessageTooLargeError(messageBuffer.length, chunkCount, this.maxChunks);
+    }
 
-      await monitorTransaction(submitResponse.transactionId.toString());
+    const chunkSubmissions = await executeWithRetry(async () => {
+      const submitTx = new TopicMessageSubmitTransaction()
+        .setTopicId(topic)
+        .setMessage(messageBuffer)
+        .setChunkSize(this.chunkSize)
+        .setMaxChunks(this.maxChunks);
 
-      return {
-        success: true,
-        topicId,
-        transactionId: submitResponse.transactionId.toString(),
-        consensusTimestamp: consensusTimestamp.toISOString(),
-        sequenceNumber: submitReceipt.topicSequenceNumber?.toNumber() || 0
-      };
+      return this.ledger.submitTopicMessage(submitTx);
     });
-  }
 
-  async logTransaction(transaction: {
-    transactionId: string;
-    userId: string;
-    type: string;
-    amount: number;
-    currency: string;
-    recipientId?: string;
-    status: string;
-    metadata?: any;
-  }): Promise<void> {
-    if (!this.topicIds.transactions) {
-      throw new Error('Transactions topic not initialized');
+    console.log(`✅ Message submitted to topic ${topicId}${chunkCount > 1 ? ` in ${chunkCount} chunks` : ''}`);
+
+    // Fetched separately so a failed record query never resubmits the message
+    const chunks: MessageChunkRecord[] = [];
+    for (const submission of chunkSubmissions) {
+      const record = await executeWithRetry(() => this.ledger.getRecord(submission.transactionId));
+      chunks.push({
+        transactionId: submission.transactionId,
+        sequenceNumber: record.receipt.topicSequenceNumber || 0,
+        consensusTimestamp: record.consensusTimestamp,
+        runningHash: Buffer.from(record.receipt.topicRunningHash || []).toString('hex'),
+        runningHashVersion: record.receipt.topicRunningHashVersion || 0,
+        chargedFeeTinybars: Number(record.transactionFeeTinybars)
+      });
     }
 
-    const logEntry = {
-      type: 'TRANSACTION_LOG',
-      timestamp: new Date().toISOString(),
-      data: {
-        transactionId: transaction.transactionId,
-        userId: this.hashUserId(transaction.userId),
-        transactionType: transaction.type,
-        amount: transaction.amount,
-        currency: transaction.currency,
-        recipientId: transaction.recipientId ? this.hashUserId(transaction.recipientId) : null,
-        status: transaction.status,
-        metadata: transaction.metadata
-      }
+    this.monitor.watch(chunks[0].transactionId);
+
+    // A chunked message is complete once its last chunk reaches consensus
+    const last = chunks[chunks.length - 1];
+    return {
+      success: true,
+      topicId,
+      transactionId: chunks[0].transactionId,
+      consensusTimestamp: toIsoTimestamp(last.consensusTimestamp),
+      consensusTimestampExact: last.consensusTimestamp,
+      sequenceNumber: last.sequenceNumber,
+      runningHash: last.runningHash,
+      runningHashVersion: last.runningHashVersion,
+      chargedFeeTinybars: chunks.reduce((sum, chunk) => sum + chunk.chargedFeeTinybars, 0),
+      chunks
     };
+  }
 
-    await this.submitMessage(
-      this.topicIds.transactions.toString(),
-      logEntry,
-      false
-    );
+  /**
+   * Validates `data` against the latest schema registered for `type`, pseudonymizes
+   * the fields the schema marks, and submits it to the schema's topic
+   * (encrypted, and under the data subject's key, when the schema says so)
+   */
+  async logEvent(type: string, data: { [field: string]: unknown }): Promise<MessageSubmitResult> {
+    return this.submitEvent(this.buildEvent(type, data));
+  }
 
-    console.log(`Transaction ${transaction.transactionId} logged to HCS`);
+  /**
+   * Submits an envelope built by `buildEvent` (possibly earlier, e.g. from the outbox)
+   * to its schema's topic, encrypted the way the schema says
+   */
+  async submitEvent(event: HcsEvent): Promise<MessageSubmitResult> {
+    const schema = this.schemas.latest(event.type);
+    const topicId = this.resolveTopicId(schema.topic);
+    const subject = schema.subjectField ? event.data[schema.subjectField] : undefined;
+
+    return this.submitMessage(topicId, event, schema.encrypt ?? false, typeof subject === 'string' ? subject : undefined);
   }
 
-  async logTontineActivity(activity: {
-    tontineId: string;
-    activityType: 'CREATED' | 'MEMBER_JOINED' | 'CONTRIBUTION' | 'PAYOUT' | 'COMPLETED';
-    userId?: string;
-    amount?: number;
-    cycle?: number;
-    metadata?: any;
-  }): Promise<void> {
-    if (!this.topicIds.tontines) {
-      throw new Error('Tontines topic not initialized');
-    }
+  /**
+   * Builds the envelope `logEvent` would submit, pseudonymized and validated, without submitting it
+   */
+  buildEvent(type: string, data: { [field: string]: unknown }): HcsEvent {
+    const schema = this.schemas.latest(type);
 
-    const logEntry = {
-      type: 'TONTINE_ACTIVITY',
-      timestamp: new Date().toISOString(),
-      data: {
-        tontineId: activity.tontineId,
-        activityType: activity.activityType,
-        userId: activity.userId ? this.hashUserId(activity.userId) : null,
-        amount: activity.amount,
-        cycle: activity.cycle,
-        metadata: activity.metadata
+    const pseudonymized: { [field: string]: unknown } = { ...data };
+    for (const [name, spec] of Object.entries(schema.fields)) {
+      if (spec.kind === 'string' && spec.pseudonymize && typeof pseudonymized[name] === 'string') {
+        pseudonymized[name] = this.pseudonymize(pseudonymized[name] as string, spec.pseudonymize);
       }
-    };
+    }
+
+    return this.schemas.createEvent(type, pseudonymized);
+  }
+
+  async logTransaction(transaction: TransactionLogInput): Promise<MessageSubmitResult> {
+    const result = await this.logEvent('TRANSACTION_LOG', transactionLogData(transaction));
+
+    console.log(`Transaction ${transaction.transactionId} logged to HCS`);
+
+    return result;
+  }
 
-    await this.submitMessage(
-      this.topicIds.tontines.toString(),
-      logEntry,
-      false
-    );
+  async logTontineActivity(activity: TontineActivityInput): Promise<MessageSubmitResult> {
+    const result = await this.logEvent('TONTINE_ACTIVITY', tontineActivityData(activity));
 
     console.log(`Tontine activity logged: ${activity.activityType}`);
+
+    return result;
   }
 
   async logComplianceEvent(complianceEvent: {
     userId: string;
-    eventType: 'KYC_COMPLETED' | 'AML_SCREENING' | 'SANCTIONS_CHECK' | 'RISK_ASSESSMENT';
+    eventType: ComplianceEventType;
     result: string;
     score?: number;
-    metadata?: any;
-  }): Promise<void> {
-    if (!this.topicIds.compliance) {
-      throw new Error('Compliance topic not initialized');
-    }
-
-    const logEntry = {
-      type: 'COMPLIANCE_EVENT',
-      timestamp: new Date().toISOString(),
-      data: {
-        userId: this.hashUserId(complianceEvent.userId),
-        eventType: complianceEvent.eventType,
-        result: complianceEvent.result,
-        score: complianceEvent.score,
-        metadata: complianceEvent.metadata
-      }
-    };
-
-    await this.submitMessage(
-      this.topicIds.compliance.toString(),
-      logEntry,
-      true
-    );
+    metadata?: Record<string, unknown>;
+  }): Promise<MessageSubmitResult> {
+    const result = await this.logEvent('COMPLIANCE_EVENT', {
+      userId: complianceEvent.userId,
+      eventType: complianceEvent.eventType,
+      result: complianceEvent.result,
+      score: complianceEvent.score,
+      metadata: complianceEvent.metadata
+    });
 
     console.log(`Compliance event logged: ${complianceEvent.eventType}`);
+
+    return result;
   }
 
   async logSecurityEvent(securityEvent: {
     userId?: string;
     eventType: string;
-    severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    severity: SecuritySeverity;
     ipAddress?: string;
     deviceId?: string;
     description: string;
-  }): Promise<void> {
-    if (!this.topicIds.security) {
-      throw new Error('Security topic not initialized');
-    }
-
-    const logEntry = {
-      type: 'SECURITY_EVENT',
-      timestamp: new Date().toISOString(),
-      data: {
-        userId: securityEvent.userId ? this.hashUserId(securityEvent.userId) : null,
-        eventType: securityEvent.eventType,
-        severity: securityEvent.severity,
-        ipAddress: securityEvent.ipAddress ? this.hashIpAddress(securityEvent.ipAddress) : null,
-        deviceId: securityEvent.deviceId,
-        description: securityEvent.description
-      }
-    };
-
-    await this.submitMessage(
-      this.topicIds.security.toString(),
-      logEntry,
-      true
-    );
+  }): Promise<MessageSubmitResult> {
+    const result = await this.logEvent('SECURITY_EVENT', {
+      userId: securityEvent.userId ?? null,
+      eventType: securityEvent.eventType,
+      severity: securityEvent.severity,
+      ipAddress: securityEvent.ipAddress ?? null,
+      deviceId: securityEvent.deviceId,
+      description: securityEvent.description
+    });
 
     console.log(`Security event logged: ${securityEvent.eventType} - ${securityEvent.severity}`);
+
+    return result;
   }
 
-  async getTopicInfo(topicId: string): Promise<any> {
+  async getTopicInfo(topicId: string): Promise<TopicInfo> {
     return executeWithRetry(async () => {
-      const query = new TopicInfoQuery()
-        .setTopicId(TopicId.fromString(topicId));
-
-      const info = await query.execute(this.client);
+      const info = await this.ledger.getTopicInfo(topicId);
 
       return {
-        topicId: info.topicId.toString(),
-        memo: info.topicMemo,
-        runningHash: info.runningHash.toString(),
-        sequenceNumber: info.sequenceNumber.toNumber(),
+        topicId: info.topicId,
+        memo: info.memo,
+        runningHash: Buffer.from(info.runningHash).toString('hex'),
+        sequenceNumber: info.sequenceNumber,
         expirationTime: info.expirationTime,
-        adminKey: info.adminKey?.toString(),
-        submitKey: info.submitKey?.toString(),
-        autoRenewPeriod: info.autoRenewPeriod
+        adminKey: info.adminKey,
+        submitKey: info.submitKey,
+        autoRenewPeriod: info.autoRenewPeriodSeconds
       };
     });
   }
@@ -288,27 +338,55 @@ export class HederaConsensusService {
     };
   }
 
-  private encryptMessage(message: string): string {
-    const algorithm = 'aes-256-gcm';
-    const key = Buffer.from(process.env.HCS_ENCRYPTION_KEY!, 'hex');
-    const iv = crypto.randomBytes(16);
-    
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(message, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    const authTag = cipher.getAuthTag();
-    
-    return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+  /**
+   * Maps a schema's logical topic to its id: the four built-in topics, otherwise HCS_<TOPIC>_TOPIC_ID
+   */
+  private resolveTopicId(topic: string): string {
+    const known = topic in this.topicIds ? this.topicIds[topic as keyof typeof this.topicIds] : undefined;
+    const topicId = known?.toString() || process.env[`HCS_${topic.toUpperCase()}_TOPIC_ID`];
+    if (!topicId) {
+      throw new Error(`${topic.charAt(0).toUpperCase()}${topic.slice(1)} topic not initialized`);
+    }
+    return topicId;
   }
 
-  private hashUserId(userId: string): string {
-    return crypto.createHash('sha256').update(userId).digest('hex').substring(0, 16);
+  private pseudonymize(value: string, domain: PseudonymDomain): string {
+    this.pseudonymizer = this.pseudonymizer || Pseudonymizer.fromEnv();
+    return this.pseudonymizer.pseudonymize(value, domain);
   }
+}
 
-  private hashIpAddress(ip: string): string {
-    return crypto.createHash('sha256').update(ip).digest('hex').substring(0, 16);
-  }
+
+/**
+ * TRANSACTION_LOG data for a wallet transaction, shared with HederaTransactionBatcher and the outbox
+ */
+export function transactionLogData(transaction: TransactionLogInput): { [field: string]: unknown } {
+  return {
+    transactionId: transaction.transactionId,
+    userId: transaction.userId,
+    transactionType: transaction.type,
+    amount: transaction.amount,
+    currency: transaction.currency,
+    recipientId: transaction.recipientId ?? null,
+    status: transaction.status,
+    metadata: transaction.metadata
+  };
+}
+
+export function tontineActivityData(activity: TontineActivityInput): { [field: string]: unknown } {
+  return {
+    tontineId: activity.tontineId,
+    activityType: activity.activityType,
+    userId: activity.userId ?? null,
+    amount: activity.amount,
+    cycle: activity.cycle,
+    metadata: activity.metadata
+  };
+}
+
+function toIsoTimestamp(consensusTimestamp: string): string {
+  const [seconds, nanos = '0'] = consensusTimestamp.split('.');
+  return new Date(Number(seconds) * 1000 + Math.floor(Number(nanos.padEnd(9, '0')) / 1_000_000)).toISOString();
 }
 
 // Type definitions (unchanged)
@@ -319,10 +397,58 @@ interface TopicCreationResult {
   explorerUrl: string;
 }
 
-interface MessageSubmitResult {
+export interface TransactionLogInput {
+  transactionId: string;
+  userId: string;
+  type: string;
+  amount: number;
+  currency: string;
+  recipientId?: string;
+  status: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TontineActivityInput {
+  tontineId: string;
+  activityType: TontineActivityType;
+  userId?: string;
+  amount?: number;
+  cycle?: number;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Verifiable receipt for a logged message, taken from the transaction records
+ */
+export interface MessageSubmitResult {
   success: boolean;
   topicId: string;
+  transactionId: string; // Of the first chunk, shared as initial transaction id by all chunks
+  consensusTimestamp: string; // ISO-8601 (millisecond precision)
+  consensusTimestampExact: string; // "seconds.nanos" as recorded by the network
+  sequenceNumber: number; // Of the last chunk
+  runningHash: string; // Topic running hash after the last chunk (hex)
+  runningHashVersion: number;
+  chargedFeeTinybars: number;
+  chunks: MessageChunkRecord[];
+}
+
+export interface TopicInfo {
+  topicId: string;
+  memo: string;
+  runningHash: string; // Hex
+  sequenceNumber: number;
+  expirationTime: Date | null;
+  adminKey?: string;
+  submitKey?: string;
+  autoRenewPeriod: number | null; // Seconds
+}
+
+export interface MessageChunkRecord {
   transactionId: string;
-  consensusTimestamp: string;
   sequenceNumber: number;
-}
\ No newline at end of file
+  consensusTimestamp: string; // "seconds.nanos"
+  runningHash: string;
+  runningHashVersion: number;
+  chargedFeeTinybars: number;
+}
@@ -0,0 +1,101 @@
+// services/hedera/distribution.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestAccount, TestEnvironment } from '../../simulator/test-environment';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
+import { HederaDistributionService } from './distribution.service';
+import { HederaTokenService } from './token.service';
+
+describe('HederaDistributionService', () => {
+  let env: TestEnvironment;
+  let tokens: HederaTokenService;
+  let distributions: HederaDistributionService;
+  let holders: TestAccount[];
+  let sharesId: string;
+  let stablecoinId: string;
+
+  // Three holders of one share each; the last one is not associated with the stablecoin
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    tokens = new HederaTokenService(env.simulator);
+    distributions = new HederaDistributionService(env.simulator);
+    holders = [env.account(), env.account(), env.account()];
+    ({ tokenId: sharesId } = await tokens.createFungibleToken({ name: 'Ikoyi shares', symbol: 'IKY', decimals: 0, initialSupply: '100' }));
+    ({ tokenId: stablecoinId } = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '1000' }));
+    for (const [i, holder] of holders.entries()) {
+      await tokens.associateTokenToAccount(holder.accountId, holder.signer, sharesId);
+      if (i < 2) {
+        await tokens.associateTokenToAccount(holder.accountId, holder.signer, stablecoinId);
+      }
+      await sendShares(env.treasury, holder, '1');
+    }
+  });
+
+  afterEach(() => env.cleanup());
+
+  const sendShares = (from: TestAccount, to: TestAccount, amount: string) => tokens.transferTokens({
+    tokenId: sharesId,
+    fromAccountId: from.accountId,
+    fromSigner: from.signer,
+    toAccountId: to.accountId,
+    amount
+  });
+
+  test('splits the whole amount by largest remainder, leaving out the treasury', async () => {
+    const plan = await distributions.previewDistribution({ tokenId: sharesId, asset: stablecoinId, totalAmount: '1' });
+
+    assert.equal(plan.snapshot.totalShares.toString(), '3');
+    assert.deepEqual(plan.snapshot.excludedAccounts, [env.treasury.accountId]);
+    assert.deepEqual(plan.allocations.map(allocation => [allocation.accountId, allocation.amount.toString()]), [
+      [holders[0].accountId, '0.34'],
+      [holders[1].accountId, '0.33'],
+      [holders[2].accountId, '0.33']
+    ]);
+  });
+
+  test('retries a failed transfer holder by holder and pays everyone it can', async () => {
+    const result = await distributions.distribute({ tokenId: sharesId, asset: stablecoinId, totalAmount: '10', distributionId: 'rent-2026-10' });
+
+    assert.equal(result.status, 'PARTIAL');
+    assert.equal(result.paidAmount.toString(), '6.67');
+    assert.deepEqual(result.payouts.map(payout => payout.status), ['PAID', 'PAID', 'FAILED']);
+    assert.equal(result.payouts[2].batch, 4);
+    assert.deepEqual(result.batches.map(batch => [batch.holders, batch.transactionId !== null]), [[3, false], [1, true], [1, true], [1, false]]);
+    assert.ok(result.batches.every(batch => batch.auditEvent));
+    assert.ok(result.summaryEvent);
+    assert.equal((await tokens.getTokenBalance(holders[0].accountId, stablecoinId)).toString(), '3.34');
+  });
+
+  test('pays holders once when a transfer lands but its response and receipt are lost', async () => {
+    const monitor = new TransactionMonitor(env.simulator, { initialDelayMs: 1, maxDelayMs: 1 });
+    distributions = new HederaDistributionService(env.simulator, { monitor });
+    env.simulator.injectSubmissionFaults({ responseLost: true, receiptLost: true });
+
+    const result = await distributions.distribute({ tokenId: sharesId, asset: stablecoinId, totalAmount: '10', excludeAccounts: [holders[2].accountId] });
+
+    assert.equal(result.status, 'COMPLETED');
+    assert.deepEqual(result.batches.map(batch => [batch.holders, batch.status]), [[2, 'SUCCESS']]);
+    assert.equal((await tokens.getTokenBalance(holders[0].accountId, stablecoinId)).toString(), '5.00');
+    assert.equal((await tokens.getTokenBalance(holders[1].accountId, stablecoinId)).toString(), '5.00');
+  });
+
+  test('pays by the balances of an earlier snapshot', async () => {
+    const snapshot = await distributions.snapshotHolders(sharesId, { excludeAccounts: [holders[2].accountId] });
+    await sendShares(holders[1], holders[0], '1');
+
+    const result = await distributions.distribute({ tokenId: sharesId, asset: stablecoinId, totalAmount: '5', snapshot });
+
+    assert.equal(result.status, 'COMPLETED');
+    assert.deepEqual(result.payouts.map(payout => payout.amount.toString()), ['2.50', '2.50']);
+  });
+
+  test('pays nobody when the payer cannot cover the whole amount', async () => {
+    const records = env.simulator.getTransactionRecords().length;
+
+    await assert.rejects(
+      distributions.distribute({ tokenId: sharesId, asset: stablecoinId, totalAmount: '1000.01' }),
+      new RegExp(`Payer ${env.treasury.accountId} holds 1000.00 ${stablecoinId}; the distribution needs 1000.01`)
+    );
+    assert.equal(env.simulator.getTransactionRecords().length, records);
+  });
+});
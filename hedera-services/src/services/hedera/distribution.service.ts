@@ -0,0 +1,421 @@
+// services/hedera/distribution.service.ts
+import * as crypto from 'crypto';
+import { CostTracker } from '../../utils/cost-tracker';
+import { executeWithRetry, LedgerStatusError, TransactionOutcomeUnknownError } from '../../utils/error-handler';
+import { MirrorNodeClient } from '../../utils/mirror-node-client';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { TokenAmount, TokenAmountInput, TokenDecimalsCache } from '../../utils/token-amount';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
+import { HederaLedger } from './ledger';
+import { HederaConsensusService, MessageSubmitResult } from './consensus.service';
+import { DistributionStatus } from './hcs-messages';
+import { HBAR, HBAR_DECIMALS, TransferBuilder } from './transfer-builder';
+
+const MAX_PAYOUTS_PER_TRANSFER = 9; // 10 adjustments per transfer, one of them the payer's debit
+/**
+ * Where holder balances for a snapshot come from. The default reads the mirror
+ * node; implement this over the platform's own transfer records to snapshot from
+ * the database instead.
+ */
+export interface HolderBalanceSource {
+  /**
+   * Balances in base units as of `at`, and the consensus timestamp they reflect
+   */
+  holderBalances(tokenId: string, at: Date): Promise<{ timestamp: string; balances: { accountId: string; units: bigint }[] }>;
+}
+
+/**
+ * Reads `/api/v1/tokens/{id}/balances`. The mirror node builds balance snapshots
+ * periodically (every 15 minutes on the public networks), so the returned
+ * timestamp may be somewhat earlier than `at`.
+ */
+export class MirrorHolderBalanceSource implements HolderBalanceSource {
+  private mirror: MirrorNodeClient;
+
+  constructor(network: HederaNetwork) {
+    this.mirror = MirrorNodeClient.forNetwork(network);
+  }
+
+  async holderBalances(tokenId: string, at: Date): Promise<{ timestamp: string; balances: { accountId: string; units: bigint }[] }> {
+    const { timestamp, balances } = await this.mirror.getTokenBalances(tokenId, at);
+    if (!timestamp) {
+      throw new Error(`Mirror node has no balance snapshot of ${tokenId} at or before ${at.toISOString()}`);
+    }
+    return { timestamp, balances: balances.map(balance => ({ accountId: balance.account, units: BigInt(balance.balance) })) };
+  }
+}
+
+/**
+ * Pays income (e.g. rent collected on a tokenized property) to the holders of a
+ * fungible token in proportion to their balances at a snapshot time. The
+ * treasury and any excluded accounts do not take part.
+ *
+ * Shares are floored to the payout asset's base units and the units left over are
+ * handed out one each by largest remainder (ties: larger holding, then lower
+ * account id), so the same snapshot always splits the same way and the whole
+ * amount is paid. Payouts go out in transfers of up to 9 holders; when the network
+ * rejects a transfer its holders are retried one by one so only the holders at
+ * fault (e.g. not associated with the stablecoin) are left unpaid. A transfer whose
+ * outcome is unknown is looked up on the mirror node by its id before anyone is
+ * paid again, and its holders are left UNCONFIRMED if it does not turn up there.
+ * Each transfer is logged as a
+ * DISTRIBUTION_PAYOUT event and the run as a DISTRIBUTION event on the
+ * transactions topic.
+ */
+export class HederaDistributionService {
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
+  private treasury: Signer;
+  private decimals: TokenDecimalsCache;
+  private consensus: HederaConsensusService | null;
+  private balanceSource: HolderBalanceSource;
+  private monitor: TransactionMonitor;
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: { consensus?: HederaConsensusService; balanceSource?: HolderBalanceSource; monitor?: TransactionMonitor; costs?: CostTracker } = {}
+  ) {
+    this.network = network;
+    this.treasury = signerFromEnv('TREASURY');
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.treasury), 'distribution');
+    this.decimals = new TokenDecimalsCache(this.ledger);
+    this.consensus = options.consensus ?? null;
+    this.balanceSource = options.balanceSource ?? new MirrorHolderBalanceSource(network);
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
+  }
+
+  /**
+   * Holders of `tokenId` with a positive balance at `at` (default now), without
+   * the token's treasury and `excludeAccounts`
+   */
+  async snapshotHolders(tokenId: string, options: { at?: Date; excludeAccounts?: string[] } = {}): Promise<HolderSnapshot> {
+    const info = await executeWithRetry(() => this.ledger.getTokenInfo(tokenId));
+    if (info.type !== 'FUNGIBLE_COMMON') {
+      throw new Error(`Distributions need a fungible token; ${tokenId} is ${info.type}`);
+    }
+    this.decimals.remember(tokenId, info.decimals);
+
+    const at = options.at ?? new Date();
+    const excluded = new Set([info.treasuryAccountId, ...(options.excludeAccounts ?? [])]);
+    const { timestamp, balances } = await executeWithRetry(() => this.balanceSource.holderBalances(tokenId, at));
+
+    const holders = balances
+      .filter(balance => balance.units > 0n && !excluded.has(balance.accountId))
+      .sort((a, b) => compareAccountIds(a.accountId, b.accountId))
+      .map(balance => ({ accountId: balance.accountId, shares: TokenAmount.fromUnits(tokenId, balance.units, info.decimals) }));
+    const totalUnits = holders.reduce((sum, holder) => sum + holder.shares.units, 0n);
+
+    return {
+      tokenId,
+      timestamp,
+      holders,
+      totalShares: TokenAmount.fromUnits(tokenId, totalUnits, info.decimals),
+      excludedAccounts: [...excluded].filter((accountId): accountId is string => !!accountId)
+    };
+  }
+
+  /**
+   * Takes (or uses the given) snapshot and computes each holder's share of
+   * `totalAmount` without paying anything
+   */
+  async previewDistribution(config: DistributionConfig): Promise<DistributionPlan> {
+    const snapshot = config.snapshot
+      ?? await this.snapshotHolders(config.tokenId, { at: config.at, excludeAccounts: config.excludeAccounts });
+    if (snapshot.tokenId !== config.tokenId) {
+      throw new Error(`Snapshot of ${snapshot.tokenId} used for a distribution to ${config.tokenId} holders`);
+    }
+    if (snapshot.holders.length === 0) {
+      throw new Error(`${config.tokenId} has no holders to distribute to at ${snapshot.timestamp}`);
+    }
+
+    const totalAmount = config.asset === HBAR
+      ? TokenAmount.from(HBAR, config.totalAmount, HBAR_DECIMALS)
+      : await this.decimals.amount(config.asset, config.totalAmount);
+    if (totalAmount.isZero()) {
+      throw new Error('Distribution amount must be positive');
+    }
+
+    const units = allocate(snapshot.holders.map(holder => holder.shares.units), totalAmount.units);
+    return {
+      snapshot,
+      asset: config.asset,
+      totalAmount,
+      allocations: snapshot.holders.map((holder, i) => ({
+        accountId: holder.accountId,
+        shares: holder.shares,
+        amount: TokenAmount.fromUnits(config.asset, units[i], totalAmount.decimals)
+      }))
+    };
+  }
+
+  /**
+   * Snapshots the holders, pays each their share of `totalAmount` from the payer
+   * (default the treasury) and logs the results to HCS. Holders whose share rounds
+   * to zero are skipped. Fails before paying anyone if the payer's balance does
+   * not cover the whole amount.
+   */
+  async distribute(config: DistributionConfig): Promise<DistributionResult> {
+    const plan = await this.previewDistribution(config);
+    const distributionId = config.distributionId || `dist-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const payer = config.payer ?? this.treasury;
+    const payerAccountId = signerAccountId(payer);
+    const memo = config.memo || `Distribution ${distributionId}`;
+
+    const balance = await executeWithRetry(() => this.ledger.getAccountBalance(payerAccountId));
+    const available = plan.asset === HBAR ? balance.hbarTinybars : balance.tokens.get(plan.asset) ?? 0n;
+    if (available < plan.totalAmount.units) {
+      const have = TokenAmount.fromUnits(plan.asset, available, plan.totalAmount.decimals);
+      throw new Error(`Payer ${payerAccountId} holds ${have} ${plan.asset}; the distribution needs ${plan.totalAmount}`);
+    }
+
+    const payouts: HolderPayout[] = plan.allocations
+      .filter(allocation => allocation.amount.isZero())
+      .map(allocation => ({ ...allocation, status: 'SKIPPED', transactionId: null, batch: null }));
+    const batches: DistributionBatch[] = [];
+
+    // Only a transfer the network REJECTED is worth splitting: an UNKNOWN one may have gone through
+    const pay = async (allocations: DistributionAllocation[]): Promise<'PAID' | 'REJECTED' | 'FAILED' | 'UNKNOWN'> => {
+      const batch = batches.length + 1;
+      let transactionId: string | null = null;
+      let status: string;
+      let outcome: 'PAID' | 'REJECTED' | 'FAILED' | 'UNKNOWN';
+      let error: string | undefined;
+      try {
+        const builder = new TransferBuilder(this.ledger, this.decimals, this.network, this.monitor).setMemo(memo);
+        for (const allocation of allocations) {
+          if (plan.asset === HBAR) {
+            builder.sendHbar(payerAccountId, allocation.accountId, allocation.amount);
+          } else {
+            builder.sendToken(plan.asset, payerAccountId, allocation.accountId, allocation.amount);
+          }
+        }
+        const transfer = await builder.execute([payer]);
+        transactionId = transfer.transactionId;
+        status = transfer.status;
+        outcome = 'PAID';
+      } catch (caught: any) {
+        if (caught instanceof TransactionOutcomeUnknownError) {
+          // The transfer may have gone through: paying its holders again could pay them twice
+          const record = await this.monitor.track(caught.transactionId);
+          if (record.status === 'SUCCESS') {
+            transactionId = caught.transactionId;
+            status = 'SUCCESS';
+            outcome = 'PAID';
+          } else if (record.status === 'FAILED') {
+            status = record.result!;
+            outcome = 'REJECTED';
+            error = `transaction ${caught.transactionId} failed with status ${status}`;
+          } else {
+            transactionId = caught.transactionId;
+            status = 'UNKNOWN';
+            outcome = 'UNKNOWN';
+            error = caught.message;
+          }
+        } else {
+          status = caught.status?.toString() || 'FAILED';
+          outcome = caught instanceof LedgerStatusError ? 'REJECTED' : 'FAILED';
+          error = caught.message;
+        }
+      }
+
+      const auditEvent = await this.logPayout(distributionId, batch, transactionId, status, allocations);
+      batches.push({ batch, transactionId, status, holders: allocations.length, auditEvent });
+      if (outcome !== 'REJECTED' || allocations.length === 1) {
+        const payoutStatus: HolderPayout['status'] = outcome === 'PAID' ? 'PAID' : outcome === 'UNKNOWN' ? 'UNCONFIRMED' : 'FAILED';
+        payouts.push(...allocations.map(allocation => ({
+          ...allocation,
+          status: payoutStatus,
+          transactionId,
+          batch,
+          ...(outcome === 'PAID' ? {} : { error })
+        })));
+      }
+      return outcome;
+    };
+
+    const payable = plan.allocations.filter(allocation => !allocation.amount.isZero());
+    for (let i = 0; i < payable.length; i += MAX_PAYOUTS_PER_TRANSFER) {
+      const chunk = payable.slice(i, i + MAX_PAYOUTS_PER_TRANSFER);
+      if (await pay(chunk) === 'REJECTED' && chunk.length > 1) {
+        for (const allocation of chunk) {
+          await pay([allocation]);
+        }
+      }
+    }
+
+    payouts.sort((a, b) => compareAccountIds(a.accountId, b.accountId));
+    const paidCount = payouts.filter(payout => payout.status === 'PAID').length;
+    const status: DistributionStatus = paidCount === payable.length ? 'COMPLETED' : paidCount > 0 ? 'PARTIAL' : 'FAILED';
+    const paidUnits = payouts.filter(payout => payout.status === 'PAID').reduce((sum, payout) => sum + payout.amount.units, 0n);
+
+    if (status === 'COMPLETED') {
+      console.log(`✅ Distribution ${distributionId}: ${plan.totalAmount} ${plan.asset} paid to ${paidCount} holders of ${plan.snapshot.tokenId}`);
+    } else {
+      console.warn(`Distribution ${distributionId} ${status}: ${payable.length - paidCount} of ${payable.length} payouts failed`);
+    }
+
+    let summaryEvent: MessageSubmitResult | null = null;
+    try {
+      summaryEvent = await this.audit().logEvent('DISTRIBUTION', {
+        distributionId,
+        tokenId: plan.snapshot.tokenId,
+        snapshotTimestamp: plan.snapshot.timestamp,
+        asset: plan.asset,
+        totalAmount: plan.totalAmount.toString(),
+        totalShares: plan.snapshot.totalShares.toString(),
+        holderCount: plan.allocations.length,
+        paidCount,
+        status,
+        metadata: {
+          payerAccountId,
+          paidAmount: TokenAmount.fromUnits(plan.asset, paidUnits, plan.totalAmount.decimals).toString(),
+          excludedAccounts: plan.snapshot.excludedAccounts,
+          payoutTransactions: batches.filter(batch => batch.status === 'SUCCESS').map(batch => batch.transactionId)
+        }
+      });
+    } catch (caught: any) {
+      console.error(`Distribution ${distributionId} summary was not logged:`, caught.message);
+    }
+
+    return {
+      success: status === 'COMPLETED',
+      distributionId,
+      status,
+      tokenId: plan.snapshot.tokenId,
+      snapshotTimestamp: plan.snapshot.timestamp,
+      asset: plan.asset,
+      totalAmount: plan.totalAmount,
+      paidAmount: TokenAmount.fromUnits(plan.asset, paidUnits, plan.totalAmount.decimals),
+      payouts,
+      batches,
+      summaryEvent
+    };
+  }
+
+  /**
+   * Logs one payout transfer; a logging failure leaves the payout as is and returns null
+   */
+  private async logPayout(
+    distributionId: string,
+    batch: number,
+    transactionId: string | null,
+    status: string,
+    allocations: DistributionAllocation[]
+  ): Promise<MessageSubmitResult | null> {
+    try {
+      return await this.audit().logEvent('DISTRIBUTION_PAYOUT', {
+        distributionId,
+        batch,
+        transactionId,
+        status,
+        payouts: allocations.map(allocation => ({
+          accountId: allocation.accountId,
+          shares: allocation.shares.toString(),
+          amount: allocation.amount.toString()
+        }))
+      });
+    } catch (error: any) {
+      console.error(`Distribution ${distributionId} batch ${batch} was not logged:`, error.message);
+      return null;
+    }
+  }
+
+  private audit(): HederaConsensusService {
+    if (!this.consensus) {
+      this.consensus = new HederaConsensusService(this.network);
+    }
+    return this.consensus;
+  }
+}
+
+/**
+ * Splits `total` base units in proportion to `weights` (largest remainder; ties go
+ * to the larger weight, then the earlier entry)
+ */
+function allocate(weights: bigint[], total: bigint): bigint[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  const shares = weights.map(weight => total * weight / totalWeight);
+  const remainders = weights.map(weight => total * weight % totalWeight);
+
+  let leftover = total - shares.reduce((sum, share) => sum + share, 0n);
+  const order = weights.map((_, i) => i).sort((a, b) =>
+    remainders[a] !== remainders[b] ? (remainders[b] > remainders[a] ? 1 : -1)
+      : weights[a] !== weights[b] ? (weights[b] > weights[a] ? 1 : -1)
+        : a - b);
+  for (const i of order) {
+    if (leftover === 0n) break;
+    shares[i] += 1n;
+    leftover -= 1n;
+  }
+
+  return shares;
+}
+
+function compareAccountIds(a: string, b: string): number {
+  const x = a.split('.').map(Number);
+  const y = b.split('.').map(Number);
+  return x[0] - y[0] || x[1] - y[1] || x[2] - y[2];
+}
+
+export interface DistributionConfig {
+  tokenId: string; // Token whose holders are paid
+  asset: string; // HBAR or the token id of the stablecoin paid out
+  totalAmount: TokenAmountInput; // In HBAR / whole stablecoin, or bigint base units
+  at?: Date; // Snapshot time; default now
+  snapshot?: HolderSnapshot; // Taken earlier with snapshotHolders(); `at` and `excludeAccounts` are then ignored
+  excludeAccounts?: string[]; // Besides the treasury, e.g. the issuer's own holdings
+  payer?: Signer; // Account the income is paid from; default the treasury
+  distributionId?: string;
+  memo?: string;
+}
+
+export interface HolderSnapshot {
+  tokenId: string;
+  timestamp: string; // Consensus timestamp the balances reflect
+  holders: { accountId: string; shares: TokenAmount }[]; // Ordered by account id
+  totalShares: TokenAmount;
+  excludedAccounts: string[];
+}
+
+export interface DistributionAllocation {
+  accountId: string;
+  shares: TokenAmount;
+  amount: TokenAmount; // Of the payout asset
+}
+
+export interface DistributionPlan {
+  snapshot: HolderSnapshot;
+  asset: string;
+  totalAmount: TokenAmount;
+  allocations: DistributionAllocation[]; // Amounts add up to totalAmount exactly
+}
+
+export interface HolderPayout extends DistributionAllocation {
+  status: 'PAID' | 'FAILED' | 'UNCONFIRMED' | 'SKIPPED'; // UNCONFIRMED: transfer outcome unknown; SKIPPED: share rounds to zero
+  transactionId: string | null; // Also set when UNCONFIRMED, to reconcile by
+  batch: number | null;
+  error?: string;
+}
+
+export interface DistributionBatch {
+  batch: number;
+  transactionId: string | null; // Null when the transfer failed
+  status: string; // Receipt status, or UNKNOWN when the transfer's outcome could not be found out
+  holders: number;
+  auditEvent: MessageSubmitResult | null; // Null if the DISTRIBUTION_PAYOUT event could not be logged
+}
+
+export interface DistributionResult {
+  success: boolean;
+  distributionId: string;
+  status: DistributionStatus;
+  tokenId: string;
+  snapshotTimestamp: string;
+  asset: string;
+  totalAmount: TokenAmount;
+  paidAmount: TokenAmount;
+  payouts: HolderPayout[];
+  batches: DistributionBatch[];
+  summaryEvent: MessageSubmitResult | null;
+}
@@ -0,0 +1,76 @@
+// services/hedera/event-schemas.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { HederaConsensusService } from './consensus.service';
+import { EventSchemaRegistry, EventValidationError } from './event-schemas';
+import { HederaTopicReader } from './topic-reader.service';
+
+describe('EventSchemaRegistry', () => {
+  const registry = () => new EventSchemaRegistry()
+    .register({
+      type: 'PAYMENT',
+      version: 1,
+      topic: 'TRANSACTIONS',
+      fields: { amount: { kind: 'number', min: 0 }, currency: { kind: 'string', oneOf: ['NGN', 'KES'] } }
+    })
+    .register({
+      type: 'PAYMENT',
+      version: 2,
+      topic: 'TRANSACTIONS',
+      fields: { amountMinor: { kind: 'number', integer: true }, currency: { kind: 'string' }, memo: { kind: 'string', optional: true } },
+      upcast: data => ({ amountMinor: Math.round(Number(data.amount) * 100), currency: data.currency })
+    });
+
+  test('validates new events against the latest version', () => {
+    const event = registry().createEvent('PAYMENT', { amountMinor: 1250, currency: 'NGN' }, new Date('2026-01-01T00:00:00Z'));
+
+    assert.deepEqual(event, { type: 'PAYMENT', schemaVersion: 2, timestamp: '2026-01-01T00:00:00.000Z', data: { amountMinor: 1250, currency: 'NGN' } });
+    assert.throws(() => registry().createEvent('PAYMENT', { amountMinor: 12.5 }), (error: unknown) =>
+      error instanceof EventValidationError
+        && error.eventType === 'PAYMENT'
+        && error.problems.join('; ') === 'amountMinor must be an integer; currency is required');
+    assert.throws(() => registry().createEvent('REFUND', {}), /Unknown event type REFUND/);
+  });
+
+  test('upcasts entries written with an older version, treating a missing version as 1', () => {
+    const written = JSON.stringify({ type: 'PAYMENT', timestamp: '2026-01-01T00:00:00Z', data: { amount: 12.5, currency: 'KES' } });
+
+    const parsed = registry().parse(written);
+
+    assert.equal(parsed.schemaVersion, 2);
+    assert.deepEqual(parsed.data, { amountMinor: 1250, currency: 'KES' });
+    assert.throws(() => registry().parse(written.replace('"KES"', '"USD"')), /currency must be one of NGN, KES/);
+    assert.throws(() => registry().parse(written.replace('"type"', '"schemaVersion":3,"type"')), /Unknown schema version PAYMENT v3/);
+  });
+
+  test('refuses registering the same version twice', () => {
+    assert.throws(() => registry().register({ type: 'PAYMENT', version: 2, topic: 'TRANSACTIONS', fields: {} }), /already registered/);
+  });
+
+  describe('with the services', () => {
+    let env: TestEnvironment;
+
+    beforeEach(async () => {
+      env = await createTestEnvironment();
+    });
+
+    afterEach(() => env.cleanup());
+
+    test('rejects invalid events before submitting and reports invalid entries as malformed', async () => {
+      const consensus = new HederaConsensusService(env.simulator, { schemas: registry() });
+
+      await assert.rejects(consensus.logEvent('PAYMENT', { amountMinor: -1 }), EventValidationError);
+      assert.deepEqual(env.simulator.getTopicMessages(env.topicId('TRANSACTIONS')), []);
+
+      await consensus.logEvent('PAYMENT', { amountMinor: 500, currency: 'NGN' });
+      await consensus.submitMessage(env.topicId('TRANSACTIONS'), { type: 'PAYMENT', schemaVersion: 1, timestamp: new Date().toISOString(), data: { amount: 5, currency: 'NGN' } });
+      // A reader that only knows version 2
+      const reader = new HederaTopicReader(env.simulator, { schemas: new EventSchemaRegistry().register(registry().latest('PAYMENT')) });
+
+      const entries = await reader.getMessages(env.topicId('TRANSACTIONS'));
+      assert.deepEqual(entries.map(entry => entry.status), ['ok', 'malformed']);
+      assert.match(entries[1].error!, /Unknown schema version PAYMENT v1/);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+// services/hedera/event-schemas.ts
+import { PseudonymDomain } from '../../utils/pseudonymizer';
+
+const DEFAULT_MAX_METADATA_BYTES = 8192;
+
+export type FieldSpec =
+  | { kind: 'string'; optional?: boolean; nullable?: boolean; oneOf?: readonly string[]; pseudonymize?: PseudonymDomain }
+  | { kind: 'number'; optional?: boolean; nullable?: boolean; min?: number; integer?: boolean }
+  | { kind: 'boolean'; optional?: boolean; nullable?: boolean }
+  | { kind: 'metadata'; optional?: boolean; maxBytes?: number }; // Free-form JSON, size-limited
+
+/**
+ * One version of one event type
+ */
+export interface EventSchema {
+  type: string;
+  version: number;
+  fields: { [name: string]: FieldSpec };
+  topic: string; // Logical topic, resolved to HCS_<TOPIC>_TOPIC_ID
+  encrypt?: boolean;
+  subjectField?: string; // Field naming the data subject, whose key also encrypts the payload
+  /**
+   * Converts `data` of the previous version into this version
+   */
+  upcast?: (data: EventData) => EventData;
+}
+
+/**
+ * The `data` of an event, checked field by field against its schema
+ */
+export type EventData = { [field: string]: unknown };
+
+export interface HcsEvent<T = any> {
+  type: string;
+  schemaVersion: number;
+  timestamp: string;
+  eventId?: string; // Set by the outbox; delivery is at-least-once, so readers dedupe on it
+  data: T;
+}
+
+export class EventValidationError extends Error {
+  constructor(public eventType: string, public problems: string[]) {
+    super(`Invalid ${eventType} event: ${problems.join('; ')}`);
+    this.name = 'EventValidationError';
+  }
+}
+
+/**
+ * Registry of event schemas keyed by type and version. Writers validate against
+ * the latest version; readers validate against the version an entry was written
+ * with and upcast it to the latest.
+ */
+export class EventSchemaRegistry {
+  private schemas = new Map<string, EventSchema[]>();
+
+  register(schema: EventSchema): this {
+    const versions = this.schemas.get(schema.type) || [];
+    if (versions.some(s => s.version === schema.version)) {
+      throw new Error(`Schema ${schema.type} v${schema.version} is already registered`);
+    }
+
+    versions.push(schema);
+    versions.sort((a, b) => a.version - b.version);
+    this.schemas.set(schema.type, versions);
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.schemas.has(type);
+  }
+
+  types(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  latest(type: string): EventSchema {
+    const versions = this.schemas.get(type);
+    if (!versions) {
+      throw new Error(`Unknown event type ${type}`);
+    }
+    return versions[versions.length - 1];
+  }
+
+  /**
+   * Validates data for submission against the latest version and builds the envelope
+   */
+  createEvent(type: string, data: unknown, timestamp: Date = new Date()): HcsEvent {
+    const schema = this.latest(type);
+    validateFields(schema, data);
+
+    return {
+      type,
+      schemaVersion: schema.version,
+      timestamp: timestamp.toISOString(),
+      data
+    };
+  }
+
+  /**
+   * Checks an already built envelope against the schema version it names
+   */
+  validate(event: HcsEvent): void {
+    const schema = this.schemas.get(event.type)?.find(s => s.version === event.schemaVersion);
+    if (!schema) {
+      throw new Error(`Unknown schema ${event.type} v${event.schemaVersion}`);
+    }
+    validateFields(schema, event.data);
+  }
+
+  /**
+   * Parses an envelope, validates it against the schema version it was written
+   * with (entries without schemaVersion are version 1) and upcasts it to the latest
+   */
+  parse(json: string): HcsEvent {
+    let value: any;
+    try {
+      value = JSON.parse(json);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON: ${error.message}`);
+    }
+
+    if (!value || typeof value !== 'object' || typeof value.type !== 'string') {
+      throw new Error('Missing entry type');
+    }
+    if (typeof value.timestamp !== 'string' || isNaN(Date.parse(value.timestamp))) {
+      throw new Error('Missing or invalid timestamp');
+    }
+    if (!value.data || typeof value.data !== 'object') {
+      throw new Error('Missing entry data');
+    }
+
+    const versions = this.schemas.get(value.type);
+    if (!versions) {
+      throw new Error(`Unknown entry type ${value.type}`);
+    }
+
+    const writtenVersion = value.schemaVersion ?? 1;
+    const index = versions.findIndex(s => s.version === writtenVersion);
+    if (index < 0) {
+      throw new Error(`Unknown schema version ${value.type} v${writtenVersion}`);
+    }
+    validateFields(versions[index], value.data);
+
+    let data = value.data;
+    for (const schema of versions.slice(index + 1)) {
+      if (!schema.upcast) {
+        throw new Error(`No upcast to ${schema.type} v${schema.version}`);
+      }
+      data = schema.upcast(data);
+    }
+
+    return {
+      type: value.type,
+      schemaVersion: versions[versions.length - 1].version,
+      timestamp: value.timestamp,
+      ...(typeof value.eventId === 'string' ? { eventId: value.eventId } : {}),
+      data
+    };
+  }
+}
+
+function validateFields(schema: EventSchema, data: unknown): void {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new EventValidationError(schema.type, ['data must be an object']);
+  }
+
+  const record = data as { [field: string]: unknown };
+  const problems: string[] = [];
+
+  for (const [name, spec] of Object.entries(schema.fields)) {
+    const value = record[name];
+    if (value === undefined) {
+      if (!spec.optional) problems.push(`${name} is required`);
+      continue;
+    }
+    if (value === null) {
+      if (!('nullable' in spec && spec.nullable)) problems.push(`${name} must not be null`);
+      continue;
+    }
+
+    switch (spec.kind) {
+      case 'string':
+        if (typeof value !== 'string') {
+          problems.push(`${name} must be a string`);
+        } else if (spec.oneOf && !spec.oneOf.includes(value)) {
+          problems.push(`${name} must be one of ${spec.oneOf.join(', ')}`);
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value)) {
+          problems.push(`${name} must be a finite number`);
+        } else if (spec.min !== undefined && value < spec.min) {
+          problems.push(`${name} must be at least ${spec.min}`);
+        } else if (spec.integer && !Number.isInteger(value)) {
+          problems.push(`${name} must be an integer`);
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') problems.push(`${name} must be a boolean`);
+        break;
+      case 'metadata': {
+        const maxBytes = spec.maxBytes ?? DEFAULT_MAX_METADATA_BYTES;
+        const size = Buffer.byteLength(JSON.stringify(value) || '', 'utf-8');
+        if (size > maxBytes) problems.push(`${name} is ${size} bytes; the limit is ${maxBytes}`);
+        break;
+      }
+    }
+  }
+
+  for (const name of Object.keys(record)) {
+    if (!(name in schema.fields) && record[name] !== undefined) {
+      problems.push(`${name} is not part of ${schema.type} v${schema.version}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new EventValidationError(schema.type, problems);
+  }
+}
@@ -1,32 +1,39 @@
 // services/hedera/file.service.ts
 import {
-  Client,
   FileCreateTransaction,
   FileAppendTransaction,
   FileUpdateTransaction,
   FileDeleteTransaction,
-  FileContentsQuery,
   FileId,
-  AccountId,
-  PrivateKey,
-  Hbar
+  AccountId
 } from '@hashgraph/sdk';
+import { CostTracker } from '../../utils/cost-tracker';
 import { executeWithRetry } from '../../utils/error-handler';
-import { monitorTransaction } from '../../utils/transaction-monitor';
+import { LedgerRepository, recordOffLedger } from '../../utils/ledger-repository';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { PostgresLedgerRepository } from '../../utils/postgres-ledger-repository';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { HederaLedger } from './ledger';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
 
 export class HederaFileService {
-  private client: Client;
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
   private operatorAccountId: AccountId;
-  private operatorPrivateKey: PrivateKey;
-
-  constructor() {
-    if (!process.env.HEDERA_OPERATOR_ACCOUNT_ID || !process.env.HEDERA_OPERATOR_PRIVATE_KEY) {
-      throw new Error('Missing operator credentials in environment');
-    }
-    this.client = Client.forMainnet();
-    this.operatorAccountId = AccountId.fromString(process.env.HEDERA_OPERATOR_ACCOUNT_ID);
-    this.operatorPrivateKey = PrivateKey.fromString(process.env.HEDERA_OPERATOR_PRIVATE_KEY);
-    this.client.setOperator(this.operatorAccountId, this.operatorPrivateKey);
+  private operator: Signer;
+  private repository: LedgerRepository | null;
+  private monitor: TransactionMonitor;
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: { repository?: LedgerRepository; monitor?: TransactionMonitor; costs?: CostTracker } = {}
+  ) {
+    this.network = network;
+    this.operator = signerFromEnv('OPERATOR');
+    this.operatorAccountId = AccountId.fromString(signerAccountId(this.operator));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.operator), 'file');
+    this.repository = options.repository ?? PostgresLedgerRepository.fromEnv();
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
   }
 
   /**
@@ -38,7 +45,7 @@ export class HederaFileService {
   async createFile(fileConfig: {
     contents: Buffer | string;
     fileName?: string;
-    keys?: PrivateKey[]; // Access keys
+    keys?: Signer[]; // Access keys; each signs the create
     expirationTime?: Date; // Optional expiration
     memo?: string;
   }): Promise<FileOperationResult> {
@@ -57,7 +64,7 @@ export class HederaFileService {
       // Create first chunk
       let fileCreateTx = new FileCreateTransaction()
         .setContents(chunks[0])
-        .setKeys(fileConfig.keys || [this.operatorPrivateKey.publicKey]);
+        .setKeys(fileConfig.keys ? fileConfig.keys.map(key => key.publicKey) : [this.operator.publicKey]);
 
       if (fileConfig.expirationTime) {
         fileCreateTx.setExpirationTime(fileConfig.expirationTime);
@@ -67,11 +74,10 @@ export class HederaFileService {
         fileCreateTx.setTransactionMemo(fileConfig.memo);
       }
 
-      const fileCreateSubmit = await fileCreateTx.execute(this.client);
-      const fileCreateReceipt = await fileCreateSubmit.getReceipt(this.client);
-      let fileId = fileCreateReceipt.fileId!;
+      const fileCreateSubmit = await this.ledger.submit(fileCreateTx, fileConfig.keys);
+      const fileId = fileCreateSubmit.receipt.fileId!;
 
-      console.log(`✅ File created: ${fileId.toString()}`);
+      console.log(`✅ File created: ${fileId}`);
 
       // Append remaining chunks
       for (let i = 1; i < chunks.length; i++) {
@@ -79,25 +85,28 @@ export class HederaFileService {
           .setFileId(fileId)
           .setContents(chunks[i]);
 
-        await appendTx.execute(this.client);
+        await this.ledger.submit(appendTx, fileConfig.keys);
       }
 
       // Store metadata (e.g., fileName -> fileId mapping)
-      await this.storeFileMetadata({
-        fileId: fileId.toString(),
+      await recordOffLedger(this.repository, fileCreateSubmit.transactionId, repository => repository.saveFile({
+        fileId,
         fileName: fileConfig.fileName || 'unnamed',
         size: contents.length,
+        memo: fileConfig.memo ?? null,
+        transactionId: fileCreateSubmit.transactionId,
         createdAt: new Date(),
-        transactionId: fileCreateSubmit.transactionId.toString()
-      });
+        deletedAt: null,
+        deleteTransactionId: null
+      }));
 
-      await monitorTransaction(fileCreateSubmit.transactionId.toString());
+      this.monitor.watch(fileCreateSubmit.transactionId);
 
       return {
         success: true,
-        fileId: fileId.toString(),
-        transactionId: fileCreateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/file/${fileId.toString()}`
+        fileId,
+        transactionId: fileCreateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('file', fileId)
       };
     });
   }
@@ -121,18 +130,17 @@ export class HederaFileService {
         .setFileId(file)
         .setContents(appendContents);
 
-      const updateSubmit = await updateTx.execute(this.client);
-      const updateReceipt = await updateSubmit.getReceipt(this.client);
+      const updateSubmit = await this.ledger.submit(updateTx);
 
       console.log(`✅ File ${fileId} updated`);
 
-      await monitorTransaction(updateSubmit.transactionId.toString());
+      this.monitor.watch(updateSubmit.transactionId);
 
       return {
         success: true,
         fileId,
-        transactionId: updateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/file/${fileId}`
+        transactionId: updateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('file', fileId)
       };
     });
   }
@@ -144,14 +152,11 @@ export class HederaFileService {
    */
   async getFileContents(fileId: string): Promise<Buffer> {
     return executeWithRetry(async () => {
-      const query = new FileContentsQuery()
-        .setFileId(FileId.fromString(fileId));
-
-      const contents = await query.execute(this.client);
+      const contents = await this.ledger.getFileContents(fileId);
 
       console.log(`✅ Retrieved contents for file ${fileId}`);
 
-      return contents;
+      return Buffer.from(contents);
     });
   }
 
@@ -164,18 +169,20 @@ export class HederaFileService {
       const deleteTx = new FileDeleteTransaction()
         .setFileId(FileId.fromString(fileId));
 
-      const deleteSubmit = await deleteTx.execute(this.client);
-      const deleteReceipt = await deleteSubmit.getReceipt(this.client);
+      const deleteSubmit = await this.ledger.submit(deleteTx);
 
       console.log(`✅ File ${fileId} deleted`);
 
-      await monitorTransaction(deleteSubmit.transactionId.toString());
+      await recordOffLedger(this.repository, deleteSubmit.transactionId, repository =>
+        repository.markFileDeleted(fileId, deleteSubmit.transactionId, new Date()));
+
+      this.monitor.watch(deleteSubmit.transactionId);
 
       return {
         success: true,
         fileId,
-        transactionId: deleteSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/file/${fileId}`
+        transactionId: deleteSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('file', fileId)
       };
     });
   }
@@ -183,11 +190,11 @@ export class HederaFileService {
   /**
    * Grants access to a file by adding keys
    * @param fileId - Target file ID
-   * @param keys - Public keys to add (read/write)
+   * @param keys - Signers of the keys to set (read/write); each signs the update
    */
   async grantAccess(
     fileId: string,
-    keys: PrivateKey[]
+    keys: Signer[]
   ): Promise<FileOperationResult> {
     return executeWithRetry(async () => {
       // For simplicity, update file with new keys (full update required for key changes)
@@ -195,27 +202,20 @@ export class HederaFileService {
         .setFileId(FileId.fromString(fileId))
         .setKeys(keys.map(k => k.publicKey));
 
-      const updateSubmit = await updateTx.execute(this.client);
-      const updateReceipt = await updateSubmit.getReceipt(this.client);
+      const updateSubmit = await this.ledger.submit(updateTx, keys);
 
       console.log(`✅ Access granted to file ${fileId}`);
 
-      await monitorTransaction(updateSubmit.transactionId.toString());
+      this.monitor.watch(updateSubmit.transactionId);
 
       return {
         success: true,
         fileId,
-        transactionId: updateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/file/${fileId}`
+        transactionId: updateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('file', fileId)
       };
     });
   }
-
-  // Helper method for database operations
-  private async storeFileMetadata(metadata: any): Promise<void> {
-    // e.g., await prisma.file.create({ data: metadata });
-    console.log('Stored file metadata:', metadata);
-  }
 }
 
 // Type definitions
@@ -0,0 +1,246 @@
+// services/hedera/hcs-messages.ts
+import { EventSchemaRegistry } from './event-schemas';
+
+/**
+ * JSON envelopes written to the AfriOne HCS topics by HederaConsensusService
+ * and parsed back by HederaTopicReader
+ */
+export const TONTINE_ACTIVITY_TYPES = ['CREATED', 'MEMBER_JOINED', 'CONTRIBUTION', 'PAYOUT', 'COMPLETED'] as const;
+export const COMPLIANCE_EVENT_TYPES = [
+  'KYC_COMPLETED',
+  'AML_SCREENING',
+  'SANCTIONS_CHECK',
+  'RISK_ASSESSMENT',
+  // Token controls applied by HederaTokenService / HederaNftService
+  'TOKEN_KYC_GRANTED',
+  'TOKEN_KYC_REVOKED',
+  'TOKEN_ACCOUNT_FROZEN',
+  'TOKEN_ACCOUNT_UNFROZEN',
+  'TOKEN_WIPED',
+  'TOKEN_PAUSED',
+  'TOKEN_UNPAUSED'
+] as const;
+export const SECURITY_SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+export const DISTRIBUTION_STATUSES = ['COMPLETED', 'PARTIAL', 'FAILED'] as const;
+
+export type TontineActivityType = typeof TONTINE_ACTIVITY_TYPES[number];
+export type ComplianceEventType = typeof COMPLIANCE_EVENT_TYPES[number];
+export type SecuritySeverity = typeof SECURITY_SEVERITIES[number];
+export type DistributionStatus = typeof DISTRIBUTION_STATUSES[number];
+
+/**
+ * Registry holding the built-in event types. Register further types (loan,
+ * property, ...) here or in a registry passed to the consensus service and reader.
+ */
+export const defaultEventSchemas = new EventSchemaRegistry()
+  .register({
+    type: 'TRANSACTION_LOG',
+    version: 1,
+    topic: 'transactions',
+    fields: {
+      transactionId: { kind: 'string' },
+      userId: { kind: 'string', pseudonymize: 'user' },
+      transactionType: { kind: 'string' },
+      amount: { kind: 'number', min: 0 },
+      currency: { kind: 'string' },
+      recipientId: { kind: 'string', nullable: true, pseudonymize: 'user' },
+      status: { kind: 'string' },
+      metadata: { kind: 'metadata', optional: true }
+    }
+  })
+  .register({
+    type: 'TRANSACTION_BATCH', // Merkle root anchoring a batch of TRANSACTION_LOG events kept off-ledger
+    version: 1,
+    topic: 'transactions',
+    fields: {
+      batchId: { kind: 'string' },
+      merkleRoot: { kind: 'string' },
+      algorithm: { kind: 'string' },
+      leafCount: { kind: 'number', min: 1, integer: true },
+      firstTimestamp: { kind: 'string' },
+      lastTimestamp: { kind: 'string' }
+    }
+  })
+  .register({
+    type: 'TONTINE_ACTIVITY',
+    version: 1,
+    topic: 'tontines',
+    fields: {
+      tontineId: { kind: 'string' },
+      activityType: { kind: 'string', oneOf: TONTINE_ACTIVITY_TYPES },
+      userId: { kind: 'string', nullable: true, pseudonymize: 'user' },
+      amount: { kind: 'number', optional: true, min: 0 },
+      cycle: { kind: 'number', optional: true, min: 1, integer: true },
+      metadata: { kind: 'metadata', optional: true, maxBytes: 16384 } // Completion summaries are large
+    }
+  })
+  .register({
+    type: 'COMPLIANCE_EVENT',
+    version: 1,
+    topic: 'compliance',
+    encrypt: true,
+    subjectField: 'userId',
+    fields: {
+      userId: { kind: 'string', pseudonymize: 'user' },
+      eventType: { kind: 'string', oneOf: COMPLIANCE_EVENT_TYPES },
+      result: { kind: 'string' },
+      score: { kind: 'number', optional: true },
+      metadata: { kind: 'metadata', optional: true }
+    }
+  })
+  .register({
+    type: 'SECURITY_EVENT',
+    version: 1,
+    topic: 'security',
+    encrypt: true,
+    subjectField: 'userId',
+    fields: {
+      userId: { kind: 'string', nullable: true, pseudonymize: 'user' },
+      eventType: { kind: 'string' },
+      severity: { kind: 'string', oneOf: SECURITY_SEVERITIES },
+      ipAddress: { kind: 'string', nullable: true, pseudonymize: 'ip' },
+      deviceId: { kind: 'string', optional: true },
+      description: { kind: 'string' }
+    }
+  })
+  .register({
+    type: 'DISTRIBUTION_PAYOUT', // One payout transfer of a distribution to token holders
+    version: 1,
+    topic: 'transactions',
+    fields: {
+      distributionId: { kind: 'string' },
+      batch: { kind: 'number', min: 1, integer: true },
+      transactionId: { kind: 'string', nullable: true }, // Null when the transfer failed
+      status: { kind: 'string' },
+      payouts: { kind: 'metadata', maxBytes: 8192 } // [{ accountId, shares, amount }]
+    }
+  })
+  .register({
+    type: 'DISTRIBUTION', // Summary logged after the payouts of a distribution
+    version: 1,
+    topic: 'transactions',
+    fields: {
+      distributionId: { kind: 'string' },
+      tokenId: { kind: 'string' },
+      snapshotTimestamp: { kind: 'string' },
+      asset: { kind: 'string' }, // HBAR or a token id
+      totalAmount: { kind: 'string' }, // Decimal strings, exact
+      totalShares: { kind: 'string' },
+      holderCount: { kind: 'number', min: 0, integer: true },
+      paidCount: { kind: 'number', min: 0, integer: true },
+      status: { kind: 'string', oneOf: DISTRIBUTION_STATUSES },
+      metadata: { kind: 'metadata', optional: true }
+    }
+  });
+
+export interface TransactionLogEntry {
+  type: 'TRANSACTION_LOG';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    transactionId: string;
+    userId: string;
+    transactionType: string;
+    amount: number;
+    currency: string;
+    recipientId: string | null;
+    status: string;
+    metadata?: any;
+  };
+}
+
+export interface TransactionBatchEntry {
+  type: 'TRANSACTION_BATCH';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    batchId: string;
+    merkleRoot: string; // Hex
+    algorithm: string;
+    leafCount: number;
+    firstTimestamp: string; // Of the first and last batched event
+    lastTimestamp: string;
+  };
+}
+
+export interface TontineActivityEntry {
+  type: 'TONTINE_ACTIVITY';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    tontineId: string;
+    activityType: TontineActivityType;
+    userId: string | null;
+    amount?: number;
+    cycle?: number;
+    metadata?: any;
+  };
+}
+
+export interface ComplianceEventEntry {
+  type: 'COMPLIANCE_EVENT';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    userId: string;
+    eventType: ComplianceEventType;
+    result: string;
+    score?: number;
+    metadata?: any;
+  };
+}
+
+export interface SecurityEventEntry {
+  type: 'SECURITY_EVENT';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    userId: string | null;
+    eventType: string;
+    severity: SecuritySeverity;
+    ipAddress: string | null;
+    deviceId?: string;
+    description: string;
+  };
+}
+
+export interface DistributionPayoutEntry {
+  type: 'DISTRIBUTION_PAYOUT';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    distributionId: string;
+    batch: number;
+    transactionId: string | null;
+    status: string;
+    payouts: { accountId: string; shares: string; amount: string }[];
+  };
+}
+
+export interface DistributionEntry {
+  type: 'DISTRIBUTION';
+  schemaVersion: number;
+  timestamp: string;
+  data: {
+    distributionId: string;
+    tokenId: string;
+    snapshotTimestamp: string;
+    asset: string;
+    totalAmount: string;
+    totalShares: string;
+    holderCount: number;
+    paidCount: number;
+    status: DistributionStatus;
+    metadata?: any;
+  };
+}
+
+export type HcsLogEntry =
+  | TransactionLogEntry
+  | TransactionBatchEntry
+  | TontineActivityEntry
+  | ComplianceEventEntry
+  | SecurityEventEntry
+  | DistributionPayoutEntry
+  | DistributionEntry;
+
@@ -0,0 +1,521 @@
+// services/hedera/ledger.ts
+import {
+  Client,
+  AccountId,
+  PublicKey,
+  Transaction,
+  TransactionReceipt,
+  TopicMessageSubmitTransaction,
+  TransactionId,
+  TransactionReceiptQuery,
+  TransactionRecord,
+  TransactionRecordQuery,
+  StatusError,
+  MaxAttemptsOrTimeoutError,
+  AccountBalanceQuery,
+  AccountInfoQuery,
+  TopicInfoQuery,
+  TopicId,
+  TokenInfoQuery,
+  TokenId,
+  TokenType,
+  ScheduleInfoQuery,
+  ScheduleId,
+  FileContentsQuery,
+  FileId,
+  ContractCallQuery,
+  ContractFunctionParameters,
+  ContractFunctionResult,
+  ContractId
+} from '@hashgraph/sdk';
+import { TokenCustomFee, fromSdkCustomFees } from '../../utils/custom-fees';
+import {
+  LedgerStatusError,
+  OperationCancelledError,
+  RetryExhaustedError,
+  RetryOptions,
+  TransactionOutcomeUnknownError,
+  classifyError,
+  executeWithRetry,
+  hederaStatusOf,
+  markSubmitted
+} from '../../utils/error-handler';
+import { RUNNING_HASH_VERSION } from '../../utils/running-hash';
+import { Signer } from '../../utils/signer';
+
+/**
+ * The execution surface the Hedera services depend on. Implemented by
+ * `createClientLedger` for real networks and by the in-process simulator
+ * for offline development and tests.
+ */
+export interface HederaLedger {
+  operatorAccountId: AccountId;
+  operatorPublicKey: PublicKey;
+
+  /**
+   * Freezes (if needed), signs with the given signers, executes and waits for the receipt.
+   * Busy nodes and lost responses are retried with the same signed transaction, so it
+   * reaches consensus at most once (see `submitIdempotently`); `retry` overrides the
+   * ledger's submission budget. Throws LedgerStatusError when the network rejects it
+   * or the receipt status is not SUCCESS, and TransactionOutcomeUnknownError when
+   * its fate can't be told.
+   */
+  submit(transaction: Transaction, signers?: Signer[], retry?: RetryOptions): Promise<LedgerSubmission>;
+
+  /**
+   * Freezes the transaction with the operator as payer, so it can be serialized and
+   * signed by other parties before `submit`. It must be submitted within the
+   * transaction valid duration (120 seconds by default).
+   */
+  freeze(transaction: Transaction): Transaction;
+
+  /**
+   * Submits a topic message as one transaction per chunk (sharing the first chunk's
+   * transaction id as initial transaction id) and returns every chunk's submission in order
+   */
+  submitTopicMessage(transaction: TopicMessageSubmitTransaction, signers?: Signer[]): Promise<LedgerSubmission[]>;
+
+  /**
+   * Fetches the record of a transaction that has reached consensus. Like
+   * TransactionRecordQuery, throws LedgerStatusError when its receipt status is not
+   * SUCCESS unless `validateStatus` is false, which returns the record (fee and
+   * status) of a failed transaction too.
+   */
+  getRecord(transactionId: string, options?: { validateStatus?: boolean }): Promise<LedgerRecord>;
+
+  getAccountBalance(accountId: string): Promise<LedgerAccountBalance>;
+  getAccountInfo(accountId: string): Promise<LedgerAccountInfo>;
+  getTopicInfo(topicId: string): Promise<LedgerTopicInfo>;
+  getTokenInfo(tokenId: string): Promise<LedgerTokenInfo>;
+  getScheduleInfo(scheduleId: string): Promise<LedgerScheduleInfo>;
+  getFileContents(fileId: string): Promise<Uint8Array>;
+  callContract(
+    contractId: string,
+    functionName: string,
+    functionParams: ContractFunctionParameters | undefined,
+    gas: number
+  ): Promise<ContractFunctionResult>;
+}
+
+export interface LedgerSubmission {
+  transactionId: string;
+  receipt: LedgerReceipt;
+}
+
+export interface LedgerReceipt {
+  status: string;
+  accountId?: string;
+  fileId?: string;
+  contractId?: string;
+  topicId?: string;
+  tokenId?: string;
+  topicSequenceNumber?: number;
+  topicRunningHash?: Uint8Array;
+  topicRunningHashVersion?: number;
+  totalSupply?: bigint;
+  scheduleId?: string;
+  scheduledTransactionId?: string; // Of the transaction a ScheduleCreate/ScheduleSign refers to
+  serials: number[];
+}
+
+export interface LedgerRecord {
+  transactionId: string;
+  consensusTimestamp: string; // "seconds.nanos"
+  receipt: LedgerReceipt;
+  transactionFeeTinybars: bigint;
+  memo: string;
+  transfers: { accountId: string; amountTinybars: bigint }[];
+}
+
+export interface LedgerAccountBalance {
+  accountId: string;
+  hbarTinybars: bigint;
+  tokens: Map<string, bigint>;
+}
+
+export interface LedgerAccountInfo {
+  accountId: string;
+  key: string; // DER hex public key, or the key list's string form
+  evmAddress: string | null; // Hex without 0x: the ECDSA alias, or the long-zero address of the account number
+  balanceTinybars: bigint;
+  memo: string;
+  maxAutomaticTokenAssociations: number; // -1: unlimited
+  deleted: boolean;
+}
+
+export interface LedgerTopicInfo {
+  topicId: string;
+  memo: string;
+  runningHash: Uint8Array;
+  sequenceNumber: number;
+  expirationTime: Date | null;
+  adminKey?: string;
+  submitKey?: string;
+  autoRenewPeriodSeconds: number | null;
+}
+
+export interface LedgerTokenInfo {
+  tokenId: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  type: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+  treasuryAccountId: string | null;
+  totalSupply: bigint; // Base units
+  maxSupply: bigint | null; // Null for infinite supply
+  pauseStatus: 'PAUSED' | 'UNPAUSED' | 'NOT_APPLICABLE'; // NOT_APPLICABLE without a pause key
+  customFees: TokenCustomFee[];
+}
+
+export interface LedgerScheduleInfo {
+  scheduleId: string;
+  creatorAccountId: string | null;
+  payerAccountId: string | null; // Pays for the scheduled transaction
+  transactionType: string; // SDK class name of the scheduled transaction, e.g. TransferTransaction
+  scheduledTransactionId: string | null;
+  memo: string;
+  adminKey?: string;
+  signatories: string[]; // Public keys that have signed so far
+  expirationTime: Date | null;
+  waitForExpiry: boolean; // Executes at expirationTime rather than as soon as it is fully signed
+  executedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+/**
+ * Ledger backed by an SDK client connected to a real Hedera network
+ */
+export function createClientLedger(
+  client: Client,
+  operatorAccountId: AccountId,
+  operatorPublicKey: PublicKey
+): HederaLedger {
+  // A resubmission must keep its id for the network to deduplicate it, not get a fresh one
+  const freeze = (transaction: Transaction): Transaction =>
+    transaction.setRegenerateTransactionId(false).freezeWith(client);
+
+  return {
+    operatorAccountId,
+    operatorPublicKey,
+
+    async submit(transaction: Transaction, signers: Signer[] = [], retry: RetryOptions = {}): Promise<LedgerSubmission> {
+      if (!transaction.isFrozen()) {
+        freeze(transaction);
+      }
+      for (const signer of signers) {
+        await transaction.signWith(signer.publicKey, message => signer.sign(message));
+      }
+
+      const transactionId = transaction.transactionId!.toString();
+      return submitIdempotently(
+        transactionId,
+        async () => {
+          try {
+            const response = await transaction.execute(client);
+            return toLedgerReceipt(await response.getReceipt(client));
+          } catch (error) {
+            throw toLedgerStatusError(error, transactionId);
+          }
+        },
+        async () => {
+          try {
+            const receipt = await new TransactionReceiptQuery()
+              .setTransactionId(TransactionId.fromString(transactionId))
+              .setValidateStatus(false)
+              .execute(client);
+            return toLedgerReceipt(receipt);
+          } catch (error) {
+            // The nodes don't know the id (yet): sending it again is safe, they deduplicate it
+            if (hederaStatusOf(error) === 'RECEIPT_NOT_FOUND' || error instanceof MaxAttemptsOrTimeoutError) {
+              return null;
+            }
+            throw error;
+          }
+        },
+        retry
+      );
+    },
+
+    freeze,
+
+    async submitTopicMessage(
+      transaction: TopicMessageSubmitTransaction,
+      signers: Signer[] = []
+    ): Promise<LedgerSubmission[]> {
+      if (!transaction.isFrozen()) {
+        transaction.freezeWith(client);
+      }
+      for (const signer of signers) {
+        await transaction.signWith(signer.publicKey, message => signer.sign(message));
+      }
+
+      const submissions: LedgerSubmission[] = [];
+      try {
+        const responses = await transaction.executeAll(client);
+        for (const response of responses) {
+          const receipt = await response.getReceipt(client);
+          submissions.push({
+            transactionId: response.transactionId.toString(),
+            receipt: toLedgerReceipt(receipt)
+          });
+        }
+      } catch (error) {
+        // Chunks already sent can't be taken back; a retry would post the message again
+        const initialTransactionId = transaction.transactionId!.toString();
+        if (classifyError(error) === 'TERMINAL') {
+          throw toLedgerStatusError(error, initialTransactionId);
+        }
+        throw new TransactionOutcomeUnknownError(initialTransactionId, error);
+      }
+
+      markSubmitted(submissions[0].transactionId);
+      return submissions;
+    },
+
+    async getRecord(transactionId: string, options: { validateStatus?: boolean } = {}): Promise<LedgerRecord> {
+      let record: TransactionRecord;
+      try {
+        record = await new TransactionRecordQuery()
+          .setTransactionId(TransactionId.fromString(transactionId))
+          .setValidateReceiptStatus(options.validateStatus ?? true)
+          .execute(client);
+      } catch (error) {
+        throw toLedgerStatusError(error, transactionId);
+      }
+
+      const { seconds, nanos } = record.consensusTimestamp;
+      return {
+        transactionId: record.transactionId.toString(),
+        consensusTimestamp: `${seconds.toString()}.${nanos.toString().padStart(9, '0')}`,
+        receipt: toLedgerReceipt(record.receipt),
+        transactionFeeTinybars: BigInt(record.transactionFee.toTinybars().toString()),
+        memo: record.transactionMemo,
+        transfers: record.transfers.map(transfer => ({
+          accountId: transfer.accountId.toString(),
+          amountTinybars: BigInt(transfer.amount.toTinybars().toString())
+        }))
+      };
+    },
+
+    async getAccountBalance(accountId: string): Promise<LedgerAccountBalance> {
+      const balance = await new AccountBalanceQuery()
+        .setAccountId(AccountId.fromString(accountId))
+        .execute(client);
+
+      const tokens = new Map<string, bigint>();
+      if (balance.tokens) {
+        for (const [tokenId, amount] of balance.tokens) {
+          tokens.set(tokenId.toString(), BigInt(amount.toString()));
+        }
+      }
+
+      return {
+        accountId,
+        hbarTinybars: BigInt(balance.hbars.toTinybars().toString()),
+        tokens
+      };
+    },
+
+    async getAccountInfo(accountId: string): Promise<LedgerAccountInfo> {
+      const info = await new AccountInfoQuery()
+        .setAccountId(AccountId.fromString(accountId))
+        .execute(client);
+
+      return {
+        accountId: info.accountId.toString(),
+        key: info.key.toString(),
+        evmAddress: info.contractAccountId,
+        balanceTinybars: BigInt(info.balance.toTinybars().toString()),
+        memo: info.accountMemo,
+        maxAutomaticTokenAssociations: info.maxAutomaticTokenAssociations.toNumber(),
+        deleted: info.isDeleted
+      };
+    },
+
+    async getTopicInfo(topicId: string): Promise<LedgerTopicInfo> {
+      const info = await new TopicInfoQuery()
+        .setTopicId(TopicId.fromString(topicId))
+        .execute(client);
+
+      return {
+        topicId: info.topicId.toString(),
+        memo: info.topicMemo,
+        runningHash: info.runningHash,
+        sequenceNumber: info.sequenceNumber.toNumber(),
+        expirationTime: info.expirationTime ? info.expirationTime.toDate() : null,
+        adminKey: info.adminKey?.toString(),
+        submitKey: info.submitKey?.toString(),
+        autoRenewPeriodSeconds: info.autoRenewPeriod ? info.autoRenewPeriod.seconds.toNumber() : null
+      };
+    },
+
+    async getTokenInfo(tokenId: string): Promise<LedgerTokenInfo> {
+      const info = await new TokenInfoQuery()
+        .setTokenId(TokenId.fromString(tokenId))
+        .execute(client);
+
+      return {
+        tokenId: info.tokenId.toString(),
+        name: info.name,
+        symbol: info.symbol,
+        decimals: info.decimals,
+        type: info.tokenType === TokenType.NonFungibleUnique ? 'NON_FUNGIBLE_UNIQUE' : 'FUNGIBLE_COMMON',
+        treasuryAccountId: info.treasuryAccountId?.toString() ?? null,
+        totalSupply: BigInt(info.totalSupply.toString()),
+        maxSupply: info.maxSupply && !info.maxSupply.isZero() ? BigInt(info.maxSupply.toString()) : null,
+        pauseStatus: info.pauseStatus === null ? 'NOT_APPLICABLE' : (info.pauseStatus ? 'PAUSED' : 'UNPAUSED'),
+        customFees: fromSdkCustomFees(info.customFees)
+      };
+    },
+
+    async getScheduleInfo(scheduleId: string): Promise<LedgerScheduleInfo> {
+      const info = await new ScheduleInfoQuery()
+        .setScheduleId(ScheduleId.fromString(scheduleId))
+        .execute(client)
+        .catch(error => { throw toLedgerStatusError(error, 'query'); });
+
+      return {
+        scheduleId: info.scheduleId.toString(),
+        creatorAccountId: info.creatorAccountId?.toString() ?? null,
+        payerAccountId: info.payerAccountId?.toString() ?? null,
+        transactionType: info.scheduledTransaction.constructor.name,
+        scheduledTransactionId: info.scheduledTransactionId?.toString() ?? null,
+        memo: info.scheduleMemo ?? '',
+        adminKey: info.adminKey?.toString(),
+        signatories: info.signers ? info.signers.toArray().map(key => key.toString()) : [],
+        expirationTime: info.expirationTime ? info.expirationTime.toDate() : null,
+        waitForExpiry: info.waitForExpiry,
+        executedAt: info.executed ? info.executed.toDate() : null,
+        deletedAt: info.deleted ? info.deleted.toDate() : null
+      };
+    },
+
+    async getFileContents(fileId: string): Promise<Uint8Array> {
+      return new FileContentsQuery()
+        .setFileId(FileId.fromString(fileId))
+        .execute(client);
+    },
+
+    async callContract(
+      contractId: string,
+      functionName: string,
+      functionParams: ContractFunctionParameters | undefined,
+      gas: number
+    ): Promise<ContractFunctionResult> {
+      return new ContractCallQuery()
+        .setContractId(ContractId.fromString(contractId))
+        .setGas(gas)
+        .setFunction(functionName, functionParams)
+        .execute(client);
+    }
+  };
+}
+
+const DEFAULT_SUBMIT_RETRY: RetryOptions = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 90_000 // Well inside the 120 s valid duration and the 180 s the nodes keep receipts
+};
+
+/**
+ * Submits one frozen, signed transaction until it reaches consensus without ever
+ * creating a second one: `send` executes the same transaction (same id and
+ * signatures) each time and the network deduplicates it. Once an attempt may have
+ * reached a node (a lost response, a timeout, DUPLICATE_TRANSACTION), the receipt
+ * for the id is looked up before sending again, and a terminal rejection of a
+ * later send is only believed once the lookup finds nothing. When the budget runs
+ * out on such a transaction, TransactionOutcomeUnknownError is thrown.
+ * Shared by the SDK ledger and the simulator.
+ * @param lookupReceipt - Receipt for the id, or null while the network doesn't know it
+ */
+export async function submitIdempotently(
+  transactionId: string,
+  send: () => Promise<LedgerReceipt>,
+  lookupReceipt: () => Promise<LedgerReceipt | null>,
+  retry: RetryOptions = {}
+): Promise<LedgerSubmission> {
+  let mayHaveLanded = false;
+  const landed = async (): Promise<LedgerReceipt | null> => {
+    const receipt = await lookupReceipt();
+    if (receipt && receipt.status !== 'SUCCESS') {
+      throw new LedgerStatusError(receipt.status, transactionId);
+    }
+    return receipt;
+  };
+
+  let receipt: LedgerReceipt;
+  try {
+    receipt = await executeWithRetry(async () => {
+      if (mayHaveLanded) {
+        const earlier = await landed();
+        if (earlier) {
+          console.log(`Transaction ${transactionId} had already reached consensus`);
+          return earlier;
+        }
+      }
+
+      try {
+        return await send();
+      } catch (error) {
+        const disposition = classifyError(error);
+        if (disposition === 'UNKNOWN_OUTCOME') {
+          mayHaveLanded = true;
+        } else if (disposition === 'TERMINAL' && mayHaveLanded) {
+          // e.g. TRANSACTION_EXPIRED for a resend, while the first send went through
+          const earlier = await landed();
+          if (earlier) return earlier;
+        }
+        throw error;
+      }
+    }, { label: `Transaction ${transactionId}`, ...DEFAULT_SUBMIT_RETRY, ...retry });
+  } catch (error) {
+    if (!mayHaveLanded || !(error instanceof RetryExhaustedError || error instanceof OperationCancelledError)) {
+      throw error;
+    }
+
+    // A last look before giving up: the send that timed out may have gone through since
+    let earlier: LedgerReceipt | null = null;
+    try {
+      earlier = await landed();
+    } catch (lookupError) {
+      if (lookupError instanceof LedgerStatusError) throw lookupError;
+    }
+    if (!earlier) {
+      throw new TransactionOutcomeUnknownError(transactionId, error);
+    }
+    receipt = earlier;
+  }
+
+  markSubmitted(transactionId);
+  return { transactionId, receipt };
+}
+
+/**
+ * SDK precheck and receipt errors as LedgerStatusError; other errors unchanged
+ */
+function toLedgerStatusError(error: unknown, transactionId: string): unknown {
+  if (error instanceof StatusError) {
+    return new LedgerStatusError(error.status.toString(), error.transactionId?.toString() ?? transactionId, error.message);
+  }
+  return error;
+}
+
+function toLedgerReceipt(receipt: TransactionReceipt): LedgerReceipt {
+  return {
+    status: receipt.status.toString(),
+    accountId: receipt.accountId?.toString(),
+    fileId: receipt.fileId?.toString(),
+    contractId: receipt.contractId?.toString(),
+    topicId: receipt.topicId?.toString(),
+    tokenId: receipt.tokenId?.toString(),
+    topicSequenceNumber: receipt.topicSequenceNumber?.toNumber(),
+    topicRunningHash: receipt.topicRunningHash || undefined,
+    // The SDK does not expose the receipt's running hash version; the network has only produced version 3 since 2020
+    topicRunningHashVersion: receipt.topicRunningHash ? RUNNING_HASH_VERSION : undefined,
+    totalSupply: receipt.totalSupply ? BigInt(receipt.totalSupply.toString()) : undefined,
+    scheduleId: receipt.scheduleId?.toString(),
+    scheduledTransactionId: receipt.scheduledTransactionId?.toString(),
+    serials: receipt.serials.map(serial => serial.toNumber())
+  };
+}
@@ -0,0 +1,95 @@
+// services/hedera/nft.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { LedgerStatusError } from '../../utils/error-handler';
+import { createHip412Metadata } from '../../utils/nft-metadata';
+import { HederaNftService, NftMintError, NftMintItem } from './nft.service';
+import { HederaTokenService } from './token.service';
+
+describe('HederaNftService', () => {
+  let env: TestEnvironment;
+  let tokens: HederaTokenService;
+  let nfts: HederaNftService;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    tokens = new HederaTokenService(env.simulator);
+    nfts = new HederaNftService(env.simulator);
+  });
+
+  afterEach(() => env.cleanup());
+
+  const deed = (name: string): NftMintItem =>
+    ({ metadata: createHip412Metadata({ name, image: 'ipfs://deed.png', type: 'image/png' }) });
+
+  const fileCreations = () => env.simulator.getTransactionRecords().filter(record => record.name === 'FILECREATE').length;
+
+  test('mints serials whose metadata can be loaded back from HFS', async () => {
+    const { tokenId } = await tokens.createNFTCollection({ name: 'Deeds', symbol: 'DEED', maxSupply: 100 });
+
+    const result = await nfts.mintNFTs(tokenId, [deed('Plot 1'), deed('Plot 2')]);
+
+    assert.deepEqual(result.serials, [1, 2]);
+    const metadata = await nfts.getNftMetadata(result.nfts[1].pointer, result.nfts[1].checksum!);
+    assert.equal(metadata!.name, 'Plot 2');
+  });
+
+  test('keeps metadata off-ledger when storing only its hash', async () => {
+    const { tokenId } = await tokens.createNFTCollection({ name: 'Receipts', symbol: 'WHR', maxSupply: 100 });
+    const uploads = fileCreations();
+
+    const [nft] = (await nfts.mintNFTs(tokenId, [{ ...deed('Lot 7'), storage: 'hash' }])).nfts;
+
+    assert.equal(fileCreations(), uploads);
+    assert.deepEqual(nft.pointer, { kind: 'hash', sha256: nft.checksum });
+    assert.equal(JSON.parse(nft.metadataJson!).name, 'Lot 7');
+  });
+
+  test('transfers, wipes and burns serials', async () => {
+    const { tokenId } = await tokens.createNFTCollection({ name: 'Receipts', symbol: 'WHR', maxSupply: 100, wipeable: true });
+    const holder = env.account();
+    await tokens.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+    await nfts.mintNFTs(tokenId, [1, 2, 3].map(i => ({ pointer: { kind: 'uri', uri: `ipfs://lot-${i}` } })));
+
+    await nfts.transferNFT({ tokenId, serial: 1, fromAccountId: env.treasury.accountId, fromSigner: env.treasury.signer, toAccountId: holder.accountId });
+    await nfts.transferNFT({ tokenId, serial: 2, fromAccountId: env.treasury.accountId, fromSigner: env.treasury.signer, toAccountId: holder.accountId });
+    assert.deepEqual((await nfts.getOwnedNFTs(holder.accountId, { tokenId })).map(nft => nft.serial).sort(), [1, 2]);
+
+    const wiped = await nfts.wipeNFTs(tokenId, holder.accountId, [2], { reason: 'Receipt redeemed' });
+    await nfts.burnNFTs(tokenId, [3]);
+
+    assert.ok(wiped.complianceEvent);
+    assert.deepEqual((await nfts.getOwnedNFTs(holder.accountId, { tokenId })).map(nft => nft.serial), [1]);
+    assert.deepEqual(await nfts.getOwnedNFTs(env.treasury.accountId, { tokenId }), []);
+  });
+
+  test('reports minted serials and uploaded files when a batch fails, and resumes from them', async () => {
+    const { tokenId } = await tokens.createNFTCollection({ name: 'Deeds', symbol: 'DEED', maxSupply: 10 });
+    const items: NftMintItem[] = [
+      ...Array.from({ length: 10 }, (_, i): NftMintItem => ({ pointer: { kind: 'uri', uri: `ipfs://deed-${i}` } })),
+      deed('Plot 11'),
+      deed('Plot 12')
+    ];
+
+    const error: NftMintError = await nfts.mintNFTs(tokenId, items).then(
+      () => assert.fail('Expected the second batch to fail'),
+      error => error
+    );
+
+    assert.ok(error instanceof NftMintError);
+    assert.ok(error.cause instanceof LedgerStatusError && error.cause.status === 'TOKEN_MAX_SUPPLY_REACHED');
+    assert.deepEqual(error.result.serials, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.equal(error.result.transactionIds.length, 1);
+    assert.equal(error.uploadedFileIds.length, 2);
+    assert.deepEqual(error.remaining, error.uploadedFileIds.map(fileId => ({ pointer: { kind: 'hfs', fileId } })));
+
+    const { tokenId: larger } = await tokens.createNFTCollection({ name: 'Deeds 2', symbol: 'DEED2', maxSupply: 100 });
+    const uploads = fileCreations();
+    const resumed = await nfts.mintNFTs(larger, error.remaining);
+
+    assert.equal(fileCreations(), uploads);
+    assert.deepEqual(resumed.serials, [1, 2]);
+    assert.equal((await nfts.getNftMetadata(resumed.nfts[1].pointer))!.name, 'Plot 12');
+  });
+});
@@ -0,0 +1,391 @@
+// services/hedera/nft.service.ts
+import {
+  AccountId,
+  NftId,
+  TokenBurnTransaction,
+  TokenId,
+  TokenMintTransaction,
+  TokenWipeTransaction,
+  TransferTransaction
+} from '@hashgraph/sdk';
+import { CostTracker } from '../../utils/cost-tracker';
+import { executeWithRetry } from '../../utils/error-handler';
+import { LedgerRepository, recordOffLedger } from '../../utils/ledger-repository';
+import { MirrorNodeClient } from '../../utils/mirror-node-client';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { PostgresLedgerRepository } from '../../utils/postgres-ledger-repository';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import {
+  Hip412Metadata,
+  NftMetadataPointer,
+  decodeMetadataPointer,
+  encodeMetadataPointer,
+  metadataChecksum,
+  serializeMetadata
+} from '../../utils/nft-metadata';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
+import { HederaConsensusService, MessageSubmitResult } from './consensus.service';
+import { HederaFileService } from './file.service';
+import { HederaLedger } from './ledger';
+import { TokenComplianceContext } from './token.service';
+
+const MAX_MINT_BATCH = 10; // Serials per TokenMintTransaction
+const MAX_NFT_TRANSFER_BATCH = 10; // Serials per burn/wipe transaction
+
+/**
+ * A mint that stopped part way. `result` holds the serials minted before the
+ * failure and `remaining` the items that were not minted, as `{ pointer }` items
+ * where their metadata was already prepared: pass `remaining` to `mintNFTs()` to
+ * finish without uploading the metadata again. `uploadedFileIds` are the HFS
+ * files behind those remaining items. When `cause` is a TransactionOutcomeUnknownError
+ * the first remaining batch may have been minted after all: reconcile it first.
+ */
+export class NftMintError extends Error {
+  constructor(
+    public result: NftMintResult,
+    public remaining: NftMintItem[],
+    public uploadedFileIds: string[],
+    public cause: unknown
+  ) {
+    super(`Minting ${result.tokenId} stopped after ${result.serials.length} serials with ${remaining.length} items left: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'NftMintError';
+  }
+}
+
+/**
+ * Serial-level operations on NFT collections created with
+ * `HederaTokenService.createNFTCollection` (property deeds, warehouse receipts).
+ * The treasury holds the supply and wipe keys.
+ */
+export class HederaNftService {
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
+  private treasuryAccountId: AccountId;
+  private treasury: Signer;
+  private fileService: HederaFileService | null;
+  private consensus: HederaConsensusService | null;
+  private repository: LedgerRepository | null;
+  private monitor: TransactionMonitor;
+  private mirror: MirrorNodeClient;
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: { fileService?: HederaFileService; consensus?: HederaConsensusService; repository?: LedgerRepository; monitor?: TransactionMonitor; costs?: CostTracker } = {}
+  ) {
+    this.network = network;
+    this.treasury = signerFromEnv('TREASURY');
+    this.treasuryAccountId = AccountId.fromString(signerAccountId(this.treasury));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.treasury), 'nft');
+    this.fileService = options.fileService ?? null;
+    this.consensus = options.consensus ?? null;
+    this.repository = options.repository ?? PostgresLedgerRepository.fromEnv();
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
+    this.mirror = MirrorNodeClient.forNetwork(network);
+  }
+
+  /**
+   * Mints one serial per item into the treasury, in batches of 10. HIP-412 metadata
+   * is stored on HFS (`hfs://<fileId>` on the serial) or, with `storage: 'hash'`,
+   * only its SHA-256 is put on the serial and the caller keeps the JSON.
+   * A failure part way throws `NftMintError` with what was minted and what is left.
+   */
+  async mintNFTs(tokenId: string, items: NftMintItem[]): Promise<NftMintResult> {
+    if (items.length === 0) {
+      throw new Error('Nothing to mint');
+    }
+
+    const minted: MintedNft[] = [];
+    const transactionIds: string[] = [];
+    const prepared: PreparedNft[] = [];
+
+    const partial = (cause: unknown, mintedItems: number) => {
+      const unminted = prepared.slice(mintedItems);
+      return new NftMintError(
+        { success: false, tokenId, serials: minted.map(nft => nft.serial), nfts: minted, transactionIds },
+        [
+          ...unminted.map(item => ({ pointer: decodeMetadataPointer(item.pointer) })),
+          ...items.slice(prepared.length)
+        ],
+        unminted.filter(item => item.fileId).map(item => item.fileId!),
+        cause
+      );
+    };
+
+    // Pointers are prepared (and metadata files uploaded) before anything is minted
+    for (const item of items) {
+      try {
+        prepared.push(await this.preparePointer(tokenId, item));
+      } catch (error) {
+        throw partial(error, 0);
+      }
+    }
+
+    for (let i = 0; i < prepared.length; i += MAX_MINT_BATCH) {
+      const batch = prepared.slice(i, i + MAX_MINT_BATCH);
+      let mintSubmit;
+      try {
+        mintSubmit = await executeWithRetry(() => this.ledger.submit(
+          new TokenMintTransaction()
+            .setTokenId(TokenId.fromString(tokenId))
+            .setMetadata(batch.map(item => item.pointer))
+        ));
+      } catch (error) {
+        throw partial(error, i);
+      }
+
+      transactionIds.push(mintSubmit.transactionId);
+      mintSubmit.receipt.serials.forEach((serial, index) => {
+        const item = batch[index];
+        minted.push({
+          serial,
+          pointer: decodeMetadataPointer(item.pointer),
+          fileId: item.fileId,
+          metadataJson: item.json,
+          checksum: item.json ? metadataChecksum(item.json) : null
+        });
+      });
+    }
+
+    console.log(`✅ Minted ${minted.length} NFTs of ${tokenId} (serials ${minted[0].serial}-${minted[minted.length - 1].serial})`);
+
+    return {
+      success: true,
+      tokenId,
+      serials: minted.map(nft => nft.serial),
+      nfts: minted,
+      transactionIds
+    };
+  }
+
+  async transferNFT(transferDetails: {
+    tokenId: string;
+    serial: number;
+    fromAccountId: string;
+    fromSigner: Signer;
+    toAccountId: string;
+    memo?: string;
+  }): Promise<NftOperationResult> {
+    return executeWithRetry(async () => {
+      const transferTx = new TransferTransaction().addNftTransfer(
+        new NftId(TokenId.fromString(transferDetails.tokenId), transferDetails.serial),
+        AccountId.fromString(transferDetails.fromAccountId),
+        AccountId.fromString(transferDetails.toAccountId)
+      );
+
+      if (transferDetails.memo) {
+        transferTx.setTransactionMemo(transferDetails.memo);
+      }
+
+      const txResponse = await this.ledger.submit(transferTx, [transferDetails.fromSigner]);
+
+      console.log(`✅ Transferred NFT ${transferDetails.tokenId}/${transferDetails.serial} from ${transferDetails.fromAccountId} to ${transferDetails.toAccountId}`);
+
+      await recordOffLedger(this.repository, txResponse.transactionId, repository => repository.saveTransfer({
+        transactionId: txResponse.transactionId,
+        tokenId: transferDetails.tokenId,
+        fromAccountId: transferDetails.fromAccountId,
+        toAccountId: transferDetails.toAccountId,
+        amount: 1n,
+        serial: transferDetails.serial,
+        memo: transferDetails.memo ?? null,
+        timestamp: new Date()
+      }));
+
+      this.monitor.watch(txResponse.transactionId);
+
+      return {
+        success: true,
+        tokenId: transferDetails.tokenId,
+        serials: [transferDetails.serial],
+        transactionIds: [txResponse.transactionId],
+        explorerUrl: this.network.explorerUrl('transaction', txResponse.transactionId)
+      };
+    });
+  }
+
+  /**
+   * Burns serials held by the treasury (e.g. a deed returned for cancellation)
+   */
+  async burnNFTs(tokenId: string, serials: number[]): Promise<NftOperationResult> {
+    const transactionIds = await this.inBatches(serials, batch => new TokenBurnTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setSerials(batch));
+
+    console.log(`✅ Burned ${serials.length} NFTs of ${tokenId}`);
+
+    return this.operationResult(tokenId, serials, transactionIds);
+  }
+
+  /**
+   * Removes serials from a holder's account (e.g. a warehouse receipt redeemed
+   * off-ledger) and logs a TOKEN_WIPED compliance event, like
+   * `HederaTokenService.wipeTokens`. The collection must have been created with `wipeable: true`.
+   */
+  async wipeNFTs(
+    tokenId: string,
+    accountId: string,
+    serials: number[],
+    context: TokenComplianceContext = {}
+  ): Promise<NftOperationResult> {
+    const transactionIds = await this.inBatches(serials, batch => new TokenWipeTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setAccountId(AccountId.fromString(accountId))
+      .setSerials(batch));
+
+    console.log(`✅ Wiped ${serials.length} NFTs of ${tokenId} from ${accountId}`);
+
+    let complianceEvent: MessageSubmitResult | null = null;
+    try {
+      complianceEvent = await this.compliance().logComplianceEvent({
+        userId: context.userId || accountId,
+        eventType: 'TOKEN_WIPED',
+        result: 'SUCCESS',
+        metadata: { tokenId, accountId, transactionIds, serials, reason: context.reason }
+      });
+    } catch (error: any) {
+      console.error(`Compliance event TOKEN_WIPED for ${transactionIds.join(', ')} was not logged:`, error.message);
+    }
+
+    return { ...this.operationResult(tokenId, serials, transactionIds), complianceEvent };
+  }
+
+  /**
+   * NFTs the account holds according to the mirror node, optionally for one collection
+   */
+  async getOwnedNFTs(accountId: string, options: { tokenId?: string } = {}): Promise<OwnedNft[]> {
+    const owned: OwnedNft[] = [];
+    for await (const nft of this.mirror.listAccountNfts(accountId, { tokenId: options.tokenId })) {
+      const metadata = Buffer.from(nft.metadata || '', 'base64');
+      owned.push({
+        tokenId: nft.token_id,
+        serial: nft.serial_number,
+        pointer: decodeMetadataPointer(metadata),
+        createdTimestamp: nft.created_timestamp,
+        modifiedTimestamp: nft.modified_timestamp
+      });
+    }
+
+    return owned;
+  }
+
+  /**
+   * Loads the HIP-412 JSON behind an `hfs://` pointer and, when a checksum is
+   * given, checks it; returns null for pointers this service cannot resolve
+   */
+  async getNftMetadata(pointer: NftMetadataPointer, expectedChecksum?: string): Promise<Hip412Metadata | null> {
+    if (pointer.kind !== 'hfs') {
+      return null;
+    }
+
+    const json = (await this.files().getFileContents(pointer.fileId)).toString('utf-8');
+    if (expectedChecksum && metadataChecksum(json) !== expectedChecksum) {
+      throw new Error(`Metadata in ${pointer.fileId} does not match checksum ${expectedChecksum}`);
+    }
+    return JSON.parse(json);
+  }
+
+  private async preparePointer(
+    tokenId: string,
+    item: NftMintItem
+  ): Promise<PreparedNft> {
+    if ('pointer' in item) {
+      return { pointer: encodeMetadataPointer(item.pointer), json: null, fileId: null };
+    }
+
+    const json = serializeMetadata(item.metadata);
+    if (item.storage === 'hash') {
+      return { pointer: encodeMetadataPointer({ kind: 'hash', sha256: metadataChecksum(json) }), json, fileId: null };
+    }
+
+    const file = await this.files().createFile({
+      contents: json,
+      fileName: `${item.metadata.name}.json`,
+      memo: `NFT metadata for ${tokenId}`
+    });
+    return { pointer: encodeMetadataPointer({ kind: 'hfs', fileId: file.fileId }), json, fileId: file.fileId };
+  }
+
+  private async inBatches(
+    serials: number[],
+    build: (batch: number[]) => TokenBurnTransaction | TokenWipeTransaction
+  ): Promise<string[]> {
+    if (serials.length === 0) {
+      throw new Error('No serials given');
+    }
+
+    const transactionIds: string[] = [];
+    for (let i = 0; i < serials.length; i += MAX_NFT_TRANSFER_BATCH) {
+      const batch = serials.slice(i, i + MAX_NFT_TRANSFER_BATCH);
+      const submission = await executeWithRetry(() => this.ledger.submit(build(batch)));
+      transactionIds.push(submission.transactionId);
+    }
+    return transactionIds;
+  }
+
+  private operationResult(tokenId: string, serials: number[], transactionIds: string[]): NftOperationResult {
+    return {
+      success: true,
+      tokenId,
+      serials,
+      transactionIds,
+      explorerUrl: this.network.explorerUrl('transaction', transactionIds[transactionIds.length - 1])
+    };
+  }
+
+  private compliance(): HederaConsensusService {
+    if (!this.consensus) {
+      this.consensus = new HederaConsensusService(this.network);
+    }
+    return this.consensus;
+  }
+
+  private files(): HederaFileService {
+    if (!this.fileService) {
+      this.fileService = new HederaFileService(this.network, { repository: this.repository ?? undefined, monitor: this.monitor });
+    }
+    return this.fileService;
+  }
+}
+
+export type NftMintItem =
+  | { metadata: Hip412Metadata; storage?: 'hfs' | 'hash' } // Defaults to 'hfs'
+  | { pointer: NftMetadataPointer };
+
+interface PreparedNft {
+  pointer: Buffer;
+  json: string | null;
+  fileId: string | null;
+}
+
+export interface MintedNft {
+  serial: number;
+  pointer: NftMetadataPointer;
+  fileId: string | null; // HFS file holding the metadata JSON
+  metadataJson: string | null; // Keep this when storage is 'hash'
+  checksum: string | null; // SHA-256 of metadataJson
+}
+
+export interface NftMintResult {
+  success: boolean;
+  tokenId: string;
+  serials: number[];
+  nfts: MintedNft[];
+  transactionIds: string[]; // One per batch of 10
+}
+
+export interface NftOperationResult {
+  success: boolean;
+  tokenId: string;
+  serials: number[];
+  transactionIds: string[];
+  explorerUrl: string;
+  complianceEvent?: MessageSubmitResult | null; // Wipes only; null if the event could not be logged
+}
+
+export interface OwnedNft {
+  tokenId: string;
+  serial: number;
+  pointer: NftMetadataPointer;
+  createdTimestamp: string;
+  modifiedTimestamp: string;
+}
@@ -0,0 +1,82 @@
+// services/hedera/outbox-dispatcher.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { HederaConsensusService, MessageSubmitResult, TransactionLogInput, transactionLogData } from './consensus.service';
+import { HcsEvent } from './event-schemas';
+import { HederaOutboxDispatcher } from './outbox-dispatcher.service';
+import { HederaTopicReader } from './topic-reader.service';
+
+describe('HederaOutboxDispatcher', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+  });
+
+  afterEach(() => env.cleanup());
+
+  const loggedTransactionIds = async () => (await new HederaTopicReader(env.simulator).getMessages(env.topicId('TRANSACTIONS')))
+    .map(entry => entry.entry!.data.transactionId);
+
+  test('delivers recorded events with their record id as eventId, once per dedup key', async () => {
+    const outbox = new HederaOutboxDispatcher(env.simulator);
+
+    const record = await outbox.logTransaction(walletTransaction('tx-1'));
+    const again = await outbox.logTransaction(walletTransaction('tx-1'));
+
+    assert.equal(record.status, 'delivered');
+    assert.equal(again.id, record.id);
+    assert.equal(record.receipt!.sequenceNumber, 1);
+    const entries = await new HederaTopicReader(env.simulator).getMessages(env.topicId('TRANSACTIONS'));
+    assert.deepEqual(entries.map(entry => entry.entry!.eventId), [record.id]);
+  });
+
+  test('keeps a failed delivery pending ahead of later events and delivers them in order', async () => {
+    const consensus = new UnavailableConsensus(env.simulator);
+    const outbox = new HederaOutboxDispatcher(env.simulator, { consensus, retryDelayMs: 0 });
+
+    consensus.outages = 1;
+    const failed = await outbox.logTransaction(walletTransaction('tx-1'));
+    const queued = await outbox.record('TRANSACTION_LOG', transactionLogData(walletTransaction('tx-2')));
+
+    assert.equal(failed.status, 'pending');
+    assert.equal(failed.attempts, 1);
+    assert.match(failed.lastError!, /HCS unavailable/);
+    assert.equal(queued.status, 'pending');
+    assert.deepEqual(await loggedTransactionIds(), []);
+
+    assert.deepEqual(await outbox.dispatch(), { delivered: 2, deadLettered: 0, failed: 0, remaining: 0 });
+    assert.deepEqual(await loggedTransactionIds(), ['tx-1', 'tx-2']);
+  });
+
+  test('dead-letters events that can never be accepted and re-queues them on replay', async () => {
+    const consensus = new HederaConsensusService(env.simulator, { chunkSize: 100, maxChunks: 1 });
+    const outbox = new HederaOutboxDispatcher(env.simulator, { consensus });
+
+    const record = await outbox.logTransaction(walletTransaction('tx-1'));
+
+    assert.equal(record.status, 'dead');
+    assert.deepEqual((await outbox.deadLetters()).map(dead => dead.id), [record.id]);
+    await assert.rejects(outbox.replay(['evt-unknown']), /Not dead letters: evt-unknown/);
+
+    assert.equal(await outbox.replay([record.id]), 1);
+    assert.deepEqual(await outbox.deadLetters(), []);
+  });
+});
+
+class UnavailableConsensus extends HederaConsensusService {
+  outages = 0; // Submissions to fail before HCS is reachable again
+
+  async submitEvent(event: HcsEvent): Promise<MessageSubmitResult> {
+    if (this.outages > 0) {
+      this.outages--;
+      throw new Error('HCS unavailable');
+    }
+    return super.submitEvent(event);
+  }
+}
+
+function walletTransaction(transactionId: string): TransactionLogInput {
+  return { transactionId, userId: 'user-1', type: 'TRANSFER', amount: 100, currency: 'NGN', recipientId: 'user-2', status: 'COMPLETED' };
+}
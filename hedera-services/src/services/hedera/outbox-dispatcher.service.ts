@@ -0,0 +1,240 @@
+// services/hedera/outbox-dispatcher.service.ts
+import * as crypto from 'crypto';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { FileOutboxStore, OutboxRecord, OutboxStore } from '../../utils/outbox-store';
+import {
+  HederaConsensusService,
+  MessageTooLargeError,
+  TontineActivityInput,
+  TransactionLogInput,
+  tontineActivityData,
+  transactionLogData
+} from './consensus.service';
+import { EventValidationError } from './event-schemas';
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const DISPATCH_BATCH_SIZE = 100;
+
+/**
+ * Delivers audit events to HCS through a durable outbox. Events are recorded
+ * first and delivered afterwards, at least once: a crash between submission and
+ * marking a record delivered resubmits it, so every envelope carries the record
+ * id as `eventId` for readers to dedupe on.
+ *
+ * Records are delivered in the order they were recorded. A failed delivery
+ * blocks the records behind it until it succeeds or, after `maxAttempts`, is
+ * moved to the dead letters; events that can never be accepted (invalid or too
+ * large) are dead-lettered at once. Dead letters are re-queued with `replay()`.
+ */
+export class HederaOutboxDispatcher {
+  private consensus: HederaConsensusService;
+  private store: OutboxStore;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: {
+      consensus?: HederaConsensusService;
+      store?: OutboxStore;
+      maxAttempts?: number;
+      retryDelayMs?: number; // First retry delay, doubled on each further attempt
+    } = {}
+  ) {
+    const store = options.store ?? FileOutboxStore.fromEnv();
+    if (!store) {
+      throw new Error('Missing HCS_OUTBOX_PATH in environment');
+    }
+
+    this.consensus = options.consensus ?? new HederaConsensusService(network);
+    this.store = store;
+    this.maxAttempts = options.maxAttempts ?? Number(process.env.HCS_OUTBOX_MAX_ATTEMPTS || DEFAULT_MAX_ATTEMPTS);
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Builds the event (pseudonymized and validated, so invalid data fails here) and
+   * records it for delivery. Recording an already known `dedupKey` returns the
+   * existing record instead of adding a second one.
+   */
+  async record(type: string, data: { [field: string]: unknown }, dedupKey?: string): Promise<OutboxRecord> {
+    const id = `evt-${crypto.randomBytes(12).toString('hex')}`;
+    const now = new Date().toISOString();
+
+    return this.store.add({
+      id,
+      dedupKey: dedupKey || id,
+      event: { ...this.consensus.buildEvent(type, data), eventId: id },
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    });
+  }
+
+  /**
+   * Records the transaction (deduped on its transaction id) and attempts delivery
+   */
+  async logTransaction(transaction: TransactionLogInput): Promise<OutboxRecord> {
+    const record = await this.record('TRANSACTION_LOG', transactionLogData(transaction), `TRANSACTION_LOG:${transaction.transactionId}`);
+    return this.deliverNow(record);
+  }
+
+  /**
+   * Records the activity and attempts delivery. Pass a `dedupKey` naming the business
+   * event (e.g. `<tontineId>:CONTRIBUTION:<cycle>:<member>`) so retried flows do not log it twice.
+   */
+  async logTontineActivity(activity: TontineActivityInput, dedupKey?: string): Promise<OutboxRecord> {
+    const record = await this.record('TONTINE_ACTIVITY', tontineActivityData(activity), dedupKey && `TONTINE_ACTIVITY:${dedupKey}`);
+    return this.deliverNow(record);
+  }
+
+  /**
+   * Delivers the due records once, in order; failures are recorded on the records
+   * rather than thrown
+   */
+  dispatch(): Promise<OutboxDispatchResult> {
+    // Passes run one at a time so records are never delivered out of order or twice
+    const run = this.dispatching.then(() => this.dispatchDue());
+    this.dispatching = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Dispatches every `pollIntervalMs` until `stop()`
+   */
+  start(pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    const poll = async () => {
+      try {
+        await this.dispatch();
+      } catch (error: any) {
+        console.error('Outbox dispatch failed:', error.message);
+      }
+      if (this.pollTimer) {
+        this.pollTimer = setTimeout(poll, pollIntervalMs);
+      }
+    };
+    this.pollTimer = setTimeout(poll, 0);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async deadLetters(): Promise<OutboxRecord[]> {
+    return this.store.list('dead');
+  }
+
+  /**
+   * Re-queues dead letters (all of them, or the given record ids) with a fresh
+   * attempt budget; returns how many were re-queued
+   */
+  async replay(ids?: string[]): Promise<number> {
+    const dead = await this.store.list('dead');
+    const selected = ids ? dead.filter(record => ids.includes(record.id)) : dead;
+
+    const unknown = (ids || []).filter(id => !dead.some(record => record.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Not dead letters: ${unknown.join(', ')}`);
+    }
+
+    for (const record of selected) {
+      await this.store.update({ ...record, status: 'pending', attempts: 0, nextAttemptAt: new Date().toISOString() });
+    }
+
+    if (selected.length > 0) {
+      console.log(`✅ Re-queued ${selected.length} dead letters`);
+    }
+
+    return selected.length;
+  }
+
+  private async deliverNow(record: OutboxRecord): Promise<OutboxRecord> {
+    if (record.status === 'pending') {
+      await this.dispatch();
+    }
+    return (await this.store.get(record.id)) || record;
+  }
+
+  private async dispatchDue(): Promise<OutboxDispatchResult> {
+    const result: OutboxDispatchResult = { delivered: 0, deadLettered: 0, failed: 0, remaining: 0 };
+
+    for (const record of await this.store.due(new Date(), DISPATCH_BATCH_SIZE)) {
+      const delivered = await this.deliver(record);
+      if (delivered.status === 'delivered') {
+        result.delivered++;
+      } else if (delivered.status === 'dead') {
+        result.deadLettered++;
+      } else {
+        // Later records wait so the audit trail keeps the recorded order
+        result.failed++;
+        break;
+      }
+    }
+
+    result.remaining = (await this.store.list('pending')).length;
+    return result;
+  }
+
+  private async deliver(record: OutboxRecord): Promise<OutboxRecord> {
+    const attempts = record.attempts + 1;
+    let updated: OutboxRecord;
+
+    try {
+      const submitted = await this.consensus.submitEvent(record.event);
+      updated = {
+        ...record,
+        status: 'delivered',
+        attempts,
+        deliveredAt: new Date().toISOString(),
+        lastError: undefined,
+        receipt: {
+          topicId: submitted.topicId,
+          transactionId: submitted.transactionId,
+          sequenceNumber: submitted.sequenceNumber,
+          consensusTimestamp: submitted.consensusTimestampExact
+        }
+      };
+    } catch (error: any) {
+      const permanent = error instanceof EventValidationError || error instanceof MessageTooLargeError;
+      const dead = permanent || attempts >= this.maxAttempts;
+      const delay = Math.min(this.retryDelayMs * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+      updated = {
+        ...record,
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        nextAttemptAt: new Date(Date.now() + (dead ? 0 : delay)).toISOString(),
+        lastError: error.message
+      };
+
+      if (dead) {
+        console.error(`Outbox record ${record.id} (${record.event.type}) moved to dead letters: ${error.message}`);
+      } else {
+        console.warn(`Outbox delivery of ${record.id} failed (attempt ${attempts}): ${error.message}. Retrying in ${delay}ms`);
+      }
+    }
+
+    await this.store.update(updated);
+    return updated;
+  }
+}
+
+export interface OutboxDispatchResult {
+  delivered: number;
+  deadLettered: number;
+  failed: number; // Deliveries that will be retried
+  remaining: number; // Pending records after the pass
+}
@@ -0,0 +1,84 @@
+// services/hedera/schedule.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { Hbar, TransferTransaction } from '@hashgraph/sdk';
+import { createTestEnvironment, TestAccount, TestEnvironment } from '../../simulator/test-environment';
+import { LedgerStatusError } from '../../utils/error-handler';
+import { HederaScheduleService } from './schedule.service';
+
+describe('HederaScheduleService', () => {
+  let env: TestEnvironment;
+  let schedules: HederaScheduleService;
+  let payer: TestAccount;
+  let payee: TestAccount;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    schedules = new HederaScheduleService(env.simulator);
+    payer = env.account();
+    payee = env.account();
+  });
+
+  afterEach(() => env.cleanup());
+
+  const transfer = () => new TransferTransaction()
+    .addHbarTransfer(payer.accountId, Hbar.fromTinybars(-500))
+    .addHbarTransfer(payee.accountId, Hbar.fromTinybars(500));
+
+  test('executes a scheduled transfer once the sender signs', async () => {
+    const created = await schedules.scheduleTransaction(transfer(), { memo: 'contribution' });
+    assert.equal(created.state, 'PENDING');
+
+    const signed = await schedules.signSchedule(created.scheduleId, payer.signer);
+
+    assert.equal(signed.state, 'EXECUTED');
+    assert.equal(signed.executionStatus, 'SUCCESS');
+    const schedule = await schedules.getSchedule(created.scheduleId);
+    assert.ok(schedule.signatories.includes(payer.privateKey.publicKey.toString()));
+  });
+
+  test('reports why an executed transfer failed', async () => {
+    const broke = env.account(100n);
+    const created = await schedules.scheduleTransaction(new TransferTransaction()
+      .addHbarTransfer(broke.accountId, Hbar.fromTinybars(-500))
+      .addHbarTransfer(payee.accountId, Hbar.fromTinybars(500)));
+
+    const signed = await schedules.signSchedule(created.scheduleId, broke.signer);
+    const schedule = await schedules.getSchedule(created.scheduleId);
+
+    assert.equal(signed.executionStatus, 'INSUFFICIENT_ACCOUNT_BALANCE');
+    assert.equal(schedule.state, 'EXECUTED');
+    assert.equal(schedule.executionStatus, 'INSUFFICIENT_ACCOUNT_BALANCE');
+  });
+
+  test('reports when a schedule executed after the network has forgotten it', async () => {
+    const created = await schedules.scheduleTransaction(transfer(), { expiresAt: new Date(Date.now() + 60_000) });
+    await schedules.signSchedule(created.scheduleId, payer.signer);
+    const { executedAt } = await schedules.getSchedule(created.scheduleId);
+
+    env.simulator.advanceClock(120_000);
+    const schedule = await schedules.getSchedule(created.scheduleId);
+
+    assert.equal(schedule.state, 'EXECUTED');
+    assert.equal(schedule.transactionType, null); // From the mirror node
+    assert.equal(schedule.executedAt!.getTime(), Math.floor(executedAt!.getTime() / 1000) * 1000);
+  });
+
+  test('reports an expired schedule from the mirror node with the signing key prefixes', async () => {
+    const created = await schedules.scheduleTransaction(transfer(), {
+      expiresAt: new Date(Date.now() + 60_000),
+      signers: [env.treasury.signer]
+    });
+
+    env.simulator.advanceClock(120_000);
+    const schedule = await schedules.getSchedule(created.scheduleId);
+
+    assert.equal(schedule.state, 'EXPIRED');
+    assert.ok(schedule.signatories.includes(env.treasury.privateKey.publicKey.toStringRaw()));
+  });
+
+  test('rethrows unknown schedules', async () => {
+    await assert.rejects(schedules.getSchedule('0.0.999999'), (error: unknown) =>
+      error instanceof LedgerStatusError && error.status === 'INVALID_SCHEDULE_ID');
+  });
+});
@@ -0,0 +1,243 @@
+// services/hedera/schedule.service.ts
+import {
+  AccountId,
+  ScheduleCreateTransaction,
+  ScheduleDeleteTransaction,
+  ScheduleId,
+  ScheduleSignTransaction,
+  Timestamp,
+  Transaction
+} from '@hashgraph/sdk';
+import { CostTracker } from '../../utils/cost-tracker';
+import { LedgerStatusError, executeWithRetry } from '../../utils/error-handler';
+import { MirrorNodeClient } from '../../utils/mirror-node-client';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { HederaLedger, LedgerScheduleInfo } from './ledger';
+
+export const MAX_SCHEDULE_LIFETIME_MS = 62 * 24 * 3600 * 1000; // Furthest expiry the network accepts
+
+/**
+ * Scheduled (multi-signature) transactions. Any transaction the other services
+ * build can be wrapped in a ScheduleCreate; it executes once the signatures on the
+ * create plus those added with `signSchedule` satisfy every key it needs, or, with
+ * `waitForExpiry`, at its expiry time if they do by then. The operator creates
+ * schedules and holds their admin key, so it can delete them while pending.
+ */
+export class HederaScheduleService {
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
+  private operatorAccountId: AccountId;
+  private operator: Signer;
+  private mirror: MirrorNodeClient;
+
+  constructor(network: HederaNetwork = hederaNetworkFromEnv(), options: { costs?: CostTracker } = {}) {
+    this.network = network;
+    this.operator = signerFromEnv('OPERATOR');
+    this.operatorAccountId = AccountId.fromString(signerAccountId(this.operator));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.operator), 'schedule');
+    this.mirror = MirrorNodeClient.forNetwork(network);
+  }
+
+  /**
+   * Wraps an unfrozen transaction in a ScheduleCreate. `signers` sign the create
+   * and count towards the scheduled transaction; its fee is paid by
+   * `payerAccountId` (default the operator), whose signature it then also needs.
+   */
+  async scheduleTransaction(transaction: Transaction, options: ScheduleOptions = {}): Promise<ScheduleCreationResult> {
+    if (options.expiresAt && options.expiresAt.getTime() > Date.now() + MAX_SCHEDULE_LIFETIME_MS) {
+      throw new Error(`Schedules can expire at most 62 days ahead; ${options.expiresAt.toISOString()} is too far`);
+    }
+    if (options.waitForExpiry && !options.expiresAt) {
+      throw new Error('waitForExpiry needs an expiresAt time');
+    }
+
+    const submission = await executeWithRetry(async () => {
+      const scheduleTx = new ScheduleCreateTransaction()
+        .setScheduledTransaction(transaction)
+        .setAdminKey(this.operator.publicKey);
+
+      if (options.payerAccountId) {
+        scheduleTx.setPayerAccountId(AccountId.fromString(options.payerAccountId));
+      }
+      if (options.memo) {
+        scheduleTx.setScheduleMemo(options.memo);
+      }
+      if (options.expiresAt) {
+        scheduleTx.setExpirationTime(Timestamp.fromDate(options.expiresAt));
+      }
+      if (options.waitForExpiry) {
+        scheduleTx.setWaitForExpiry(true);
+      }
+
+      return this.ledger.submit(scheduleTx, options.signers);
+    });
+
+    const scheduleId = submission.receipt.scheduleId!;
+    const schedule = await this.getSchedule(scheduleId);
+
+    console.log(`✅ Schedule created: ${scheduleId} (${schedule.transactionType}, ${schedule.state})`);
+
+    return {
+      success: true,
+      scheduleId,
+      scheduledTransactionId: submission.receipt.scheduledTransactionId!,
+      transactionId: submission.transactionId,
+      state: schedule.state,
+      explorerUrl: this.network.explorerUrl('transaction', submission.transactionId)
+    };
+  }
+
+  /**
+   * Adds a party's signature; the scheduled transaction executes in the same
+   * round if this completes its required signatures (unless it waits for expiry)
+   */
+  async signSchedule(scheduleId: string, signer: Signer): Promise<ScheduleSignResult> {
+    const submission = await executeWithRetry(() => this.ledger.submit(
+      new ScheduleSignTransaction().setScheduleId(ScheduleId.fromString(scheduleId)),
+      [signer]
+    ));
+    const schedule = await this.getSchedule(scheduleId);
+
+    console.log(`✅ Schedule ${scheduleId} signed by ${signer.publicKey.toStringRaw().slice(0, 8)}… (${schedule.state})`);
+
+    return {
+      success: true,
+      scheduleId,
+      transactionId: submission.transactionId,
+      state: schedule.state,
+      executionStatus: schedule.executionStatus
+    };
+  }
+
+  /**
+   * Current state of a schedule. The network forgets schedules once they expire,
+   * executed or not, so those are looked up on the mirror node.
+   */
+  async getSchedule(scheduleId: string): Promise<ScheduleStatus> {
+    let info: LedgerScheduleInfo;
+    try {
+      info = await executeWithRetry(() => this.ledger.getScheduleInfo(scheduleId));
+    } catch (error) {
+      if (!(error instanceof LedgerStatusError) || error.status !== 'INVALID_SCHEDULE_ID') throw error;
+      const expired = await this.getExpiredSchedule(scheduleId);
+      if (!expired) throw error;
+      return expired;
+    }
+
+    // Read without validating the status, which is how a failed scheduled transaction reports why
+    const executionStatus = info.executedAt && info.scheduledTransactionId
+      ? (await executeWithRetry(() => this.ledger.getRecord(info.scheduledTransactionId!, { validateStatus: false }))).receipt.status
+      : null;
+
+    return {
+      scheduleId,
+      state: info.deletedAt ? 'DELETED' : info.executedAt ? 'EXECUTED' : 'PENDING',
+      transactionType: info.transactionType,
+      scheduledTransactionId: info.scheduledTransactionId,
+      memo: info.memo,
+      creatorAccountId: info.creatorAccountId,
+      payerAccountId: info.payerAccountId,
+      signatories: info.signatories,
+      expiresAt: info.expirationTime,
+      waitForExpiry: info.waitForExpiry,
+      executedAt: info.executedAt,
+      deletedAt: info.deletedAt,
+      executionStatus
+    };
+  }
+
+  /**
+   * Deletes a pending schedule so it can no longer be signed or executed
+   */
+  async deleteSchedule(scheduleId: string): Promise<ScheduleDeletionResult> {
+    return executeWithRetry(async () => {
+      const submission = await this.ledger.submit(
+        new ScheduleDeleteTransaction().setScheduleId(ScheduleId.fromString(scheduleId))
+      );
+
+      console.log(`✅ Schedule deleted: ${scheduleId}`);
+
+      return {
+        success: true,
+        scheduleId,
+        transactionId: submission.transactionId,
+        status: submission.receipt.status
+      };
+    });
+  }
+
+  private async getExpiredSchedule(scheduleId: string): Promise<ScheduleStatus | null> {
+    const schedule = await this.mirror.getSchedule(scheduleId);
+    if (!schedule) {
+      return null;
+    }
+
+    return {
+      scheduleId,
+      state: schedule.deleted ? 'DELETED' : schedule.executed_timestamp ? 'EXECUTED' : 'EXPIRED',
+      transactionType: null,
+      scheduledTransactionId: null,
+      memo: schedule.memo,
+      creatorAccountId: schedule.creator_account_id,
+      payerAccountId: schedule.payer_account_id,
+      // The mirror node only keeps the prefix of each signing key, which may be shorter than the key
+      signatories: schedule.signatures.map(signature => Buffer.from(signature.public_key_prefix, 'base64').toString('hex')),
+      expiresAt: schedule.expiration_time ? new Date(Number(schedule.expiration_time.split('.')[0]) * 1000) : null,
+      waitForExpiry: schedule.wait_for_expiry,
+      executedAt: schedule.executed_timestamp ? new Date(Number(schedule.executed_timestamp.split('.')[0]) * 1000) : null,
+      deletedAt: null,
+      executionStatus: null
+    };
+  }
+}
+
+export interface ScheduleOptions {
+  payerAccountId?: string; // Pays the scheduled transaction's fee; default the operator
+  memo?: string;
+  expiresAt?: Date; // Default 30 minutes after creation; at most 62 days ahead
+  waitForExpiry?: boolean; // Execute at expiresAt instead of as soon as fully signed
+  signers?: Signer[]; // Sign the ScheduleCreate; their signatures count towards the scheduled transaction
+}
+
+export type ScheduleState = 'PENDING' | 'EXECUTED' | 'DELETED' | 'EXPIRED';
+
+export interface ScheduleCreationResult {
+  success: boolean;
+  scheduleId: string;
+  scheduledTransactionId: string; // Record of the scheduled transaction once it executes
+  transactionId: string; // Of the ScheduleCreate
+  state: ScheduleState; // EXECUTED when the creator's signatures were already enough
+  explorerUrl: string;
+}
+
+export interface ScheduleSignResult {
+  success: boolean;
+  scheduleId: string;
+  transactionId: string;
+  state: ScheduleState;
+  executionStatus: string | null; // Status of the scheduled transaction once executed
+}
+
+export interface ScheduleStatus {
+  scheduleId: string;
+  state: ScheduleState;
+  transactionType: string | null; // Null for expired schedules (from the mirror node)
+  scheduledTransactionId: string | null;
+  memo: string;
+  creatorAccountId: string | null;
+  payerAccountId: string | null;
+  signatories: string[]; // Public keys that have signed; for expired schedules, hex prefixes of their raw bytes
+  expiresAt: Date | null;
+  waitForExpiry: boolean;
+  executedAt: Date | null;
+  deletedAt: Date | null;
+  executionStatus: string | null; // e.g. SUCCESS, or why the executed transaction failed
+}
+
+export interface ScheduleDeletionResult {
+  success: boolean;
+  scheduleId: string;
+  transactionId: string;
+  status: string;
+}
@@ -1,35 +1,46 @@
 // services/hedera/smart-contract.service.ts
 import {
-  Client,
   ContractCreateTransaction,
   ContractExecuteTransaction,
-  ContractCallQuery,
   ContractFunctionParameters,
   ContractId,
   AccountId,
-  PrivateKey,
   Hbar,
   FileCreateTransaction,
-  FileAppendTransaction
+  FileAppendTransaction,
+  FileId
 } from '@hashgraph/sdk';
-import * as fs from 'fs';
+import { CostTracker, withCostAttribution } from '../../utils/cost-tracker';
 import { executeWithRetry } from '../../utils/error-handler';
+import { LedgerRepository, recordOffLedger } from '../../utils/ledger-repository';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { PostgresLedgerRepository } from '../../utils/postgres-ledger-repository';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { HederaLedger } from './ledger';
+import { HederaScheduleService, MAX_SCHEDULE_LIFETIME_MS, ScheduleCreationResult } from './schedule.service';
 import { estimateGas } from '../../utils/gas-estimator';
-import { monitorTransaction } from '../../utils/transaction-monitor';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
 
 export class HederaSmartContractService {
-  private client: Client;
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
   private operatorAccountId: AccountId;
-  private operatorPrivateKey: PrivateKey;
-
-  constructor() {
-    if (!process.env.HEDERA_OPERATOR_ACCOUNT_ID || !process.env.HEDERA_OPERATOR_PRIVATE_KEY) {
-      throw new Error('Missing operator credentials in environment');
-    }
-    this.client = Client.forMainnet();
-    this.operatorAccountId = AccountId.fromString(process.env.HEDERA_OPERATOR_ACCOUNT_ID);
-    this.operatorPrivateKey = PrivateKey.fromString(process.env.HEDERA_OPERATOR_PRIVATE_KEY);
-    this.client.setOperator(this.operatorAccountId, this.operatorPrivateKey);
+  private operator: Signer;
+  private schedules: HederaScheduleService | null;
+  private repository: LedgerRepository | null;
+  private monitor: TransactionMonitor;
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: { schedules?: HederaScheduleService; repository?: LedgerRepository; monitor?: TransactionMonitor; costs?: CostTracker } = {}
+  ) {
+    this.network = network;
+    this.operator = signerFromEnv('OPERATOR');
+    this.operatorAccountId = AccountId.fromString(signerAccountId(this.operator));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.operator), 'smart-contract');
+    this.schedules = options.schedules ?? null;
+    this.repository = options.repository ?? PostgresLedgerRepository.fromEnv();
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
   }
 
   async deployContract(
@@ -43,25 +54,31 @@ export class HederaSmartContractService {
       const contractCreateTx = new ContractCreateTransaction()
         .setBytecode(bytecode)
         .setGas(gas)
-        .setAdminKey(this.operatorPrivateKey.publicKey);
+        .setAdminKey(this.operator.publicKey);
 
       if (constructorParams) {
         contractCreateTx.setConstructorParameters(constructorParams);
       }
 
-      const contractCreateSubmit = await contractCreateTx.execute(this.client);
-      const contractCreateReceipt = await contractCreateSubmit.getReceipt(this.client);
-      const contractId = contractCreateReceipt.contractId!;
+      const contractCreateSubmit = await this.ledger.submit(contractCreateTx);
+      const contractId = contractCreateSubmit.receipt.contractId!;
 
-      console.log(`✅ Smart contract deployed: ${contractId.toString()}`);
+      console.log(`✅ Smart contract deployed: ${contractId}`);
 
-      await monitorTransaction(contractCreateSubmit.transactionId.toString());
+      await recordOffLedger(this.repository, contractCreateSubmit.transactionId, repository => repository.saveContract({
+        contractId,
+        bytecodeFileId: null,
+        transactionId: contractCreateSubmit.transactionId,
+        createdAt: new Date()
+      }));
+
+      this.monitor.watch(contractCreateSubmit.transactionId);
 
       return {
         success: true,
-        contractId: contractId.toString(),
-        transactionId: contractCreateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/contract/${contractId.toString()}`
+        contractId,
+        transactionId: contractCreateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('contract', contractId)
       };
     });
   }
@@ -76,12 +93,11 @@ export class HederaSmartContractService {
 
       // Step 1: Create file
       const fileCreateTx = new FileCreateTransaction()
-        .setKeys([this.operatorPrivateKey.publicKey])
+        .setKeys([this.operator.publicKey])
         .setContents(bytecode.slice(0, 4096));
 
-      const fileCreateSubmit = await fileCreateTx.execute(this.client);
-      const fileCreateReceipt = await fileCreateSubmit.getReceipt(this.client);
-      const fileId = fileCreateReceipt.fileId!;
+      const fileCreateSubmit = await this.ledger.submit(fileCreateTx);
+      const fileId = FileId.fromString(fileCreateSubmit.receipt.fileId!);
 
       console.log(`File created for large contract: ${fileId.toString()}`);
 
@@ -92,7 +108,7 @@ export class HederaSmartContractService {
         const fileAppendTx = new FileAppendTransaction()
           .setFileId(fileId)
           .setContents(chunk);
-        await fileAppendTx.execute(this.client);
+        await this.ledger.submit(fileAppendTx);
         offset += 4096;
       }
 
@@ -100,25 +116,31 @@ export class HederaSmartContractService {
       const contractCreateTx = new ContractCreateTransaction()
         .setBytecodeFileId(fileId)
         .setGas(gas)
-        .setAdminKey(this.operatorPrivateKey.publicKey);
+        .setAdminKey(this.operator.publicKey);
 
       if (constructorParams) {
         contractCreateTx.setConstructorParameters(constructorParams);
       }
 
-      const contractCreateSubmit = await contractCreateTx.execute(this.client);
-      const contractCreateReceipt = await contractCreateSubmit.getReceipt(this.client);
-      const contractId = contractCreateReceipt.contractId!;
+      const contractCreateSubmit = await this.ledger.submit(contractCreateTx);
+      const contractId = contractCreateSubmit.receipt.contractId!;
 
-      console.log(`✅ Large contract deployed: ${contractId.toString()}`);
+      console.log(`✅ Large contract deployed: ${contractId}`);
 
-      await monitorTransaction(contractCreateSubmit.transactionId.toString());
+      await recordOffLedger(this.repository, contractCreateSubmit.transactionId, repository => repository.saveContract({
+        contractId,
+        bytecodeFileId: fileId.toString(),
+        transactionId: contractCreateSubmit.transactionId,
+        createdAt: new Date()
+      }));
+
+      this.monitor.watch(contractCreateSubmit.transactionId);
 
       return {
         success: true,
-        contractId: contractId.toString(),
-        transactionId: contractCreateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/contract/${contractId.toString()}`
+        contractId,
+        transactionId: contractCreateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('contract', contractId)
       };
     });
   }
@@ -133,7 +155,7 @@ export class HederaSmartContractService {
     return executeWithRetry(async () => {
       const contract = ContractId.fromString(contractId);
 
-      const estimatedGas = await estimateGas(contractId, functionName, functionParams || new ContractFunctionParameters());
+      const estimatedGas = await estimateGas(this.ledger, contractId, functionName, functionParams || new ContractFunctionParameters());
       const finalGas = Math.max(gas, estimatedGas);
 
       const contractExecuteTx = new ContractExecuteTransaction()
@@ -145,20 +167,18 @@ export class HederaSmartContractService {
         contractExecuteTx.setPayableAmount(payableAmount);
       }
 
-      const contractExecuteSubmit = await contractExecuteTx.execute(this.client);
-      const contractExecuteReceipt = await contractExecuteSubmit.getReceipt(this.client);
+      const contractExecuteSubmit = await this.ledger.submit(contractExecuteTx);
 
       console.log(`✅ Contract function executed: ${functionName}`);
 
-      await monitorTransaction(contractExecuteSubmit.transactionId.toString());
+      this.monitor.watch(contractExecuteSubmit.transactionId);
 
       return {
         success: true,
         contractId,
         functionName,
-        transactionId: contractExecuteSubmit.transactionId.toString(),
-        status: contractExecuteReceipt.status.toString(),
-        gasUsed: contractExecuteReceipt.gasUsed?.toNumber() || 0
+        transactionId: contractExecuteSubmit.transactionId,
+        status: contractExecuteSubmit.receipt.status
       };
     });
   }
@@ -169,14 +189,7 @@ export class HederaSmartContractService {
     functionParams?: ContractFunctionParameters
   ): Promise<any> {
     return executeWithRetry(async () => {
-      const contract = ContractId.fromString(contractId);
-
-      const contractQuery = new ContractCallQuery()
-        .setContractId(contract)
-        .setGas(50000)
-        .setFunction(functionName, functionParams);
-
-      const contractCallResult = await contractQuery.execute(this.client);
+      const contractCallResult = await this.ledger.callContract(contractId, functionName, functionParams, 50000);
 
       console.log(`✅ Contract queried: ${functionName}`);
 
@@ -197,99 +210,179 @@ export class HederaSmartContractService {
     totalMembers: number;
     cycleDuration: number;
   }): Promise<TontineCreationResult> {
-    if (!process.env.TONTINE_FACTORY_CONTRACT_ID) {
+    const TONTINE_FACTORY_CONTRACT = process.env.TONTINE_FACTORY_CONTRACT_ID;
+    if (!TONTINE_FACTORY_CONTRACT) {
       throw new Error('Missing TONTINE_FACTORY_CONTRACT_ID in environment');
     }
-    return executeWithRetry(async () => {
-      const TONTINE_FACTORY_CONTRACT = process.env.TONTINE_FACTORY_CONTRACT_ID;
-
-      const functionParams = new ContractFunctionParameters()
-        .addString(tontineParams.name)
-        .addUint256(BigInt(tontineParams.monthlyAmount))
-        .addUint8(tontineParams.totalMembers)
-        .addUint256(BigInt(tontineParams.cycleDuration));
 
-      const result = await this.executeContractFunction(
-        TONTINE_FACTORY_CONTRACT,
-        'createTontine',
-        functionParams,
-        150000
-      );
-
-      const queryResult = await this.queryContractFunction(
-        TONTINE_FACTORY_CONTRACT,
-        'getLatestTontineId'
-      );
-
-      const tontineContractId = queryResult.getAddress(0).toString();
-
-      return {
-        success: true,
-        tontineContractId,
-        factoryTransactionId: result.transactionId,
-        explorerUrl: `https://hashscan.io/mainnet/contract/${tontineContractId}`
-      };
-    });
+    // Not retried as a whole: each call retries itself, and re-running the flow after
+    // createTontine went through would create a second tontine
+    const functionParams = new ContractFunctionParameters()
+      .addString(tontineParams.name)
+      .addUint256(tontineParams.monthlyAmount)
+      .addUint8(tontineParams.totalMembers)
+      .addUint256(tontineParams.cycleDuration);
+
+    const result = await this.executeContractFunction(
+      TONTINE_FACTORY_CONTRACT,
+      'createTontine',
+      functionParams,
+      150000
+    );
+
+    const queryResult = await this.queryContractFunction(
+      TONTINE_FACTORY_CONTRACT,
+      'getLatestTontineId'
+    );
+
+    const tontineContractId = ContractId.fromEvmAddress(0, 0, queryResult.getAddress(0)).toString();
+
+    await recordOffLedger(this.repository, result.transactionId, repository => repository.saveTontine({
+      tontineContractId,
+      factoryContractId: TONTINE_FACTORY_CONTRACT,
+      name: tontineParams.name,
+      monthlyAmount: BigInt(tontineParams.monthlyAmount),
+      totalMembers: tontineParams.totalMembers,
+      cycleDuration: tontineParams.cycleDuration,
+      transactionId: result.transactionId,
+      createdAt: new Date()
+    }));
+
+    return {
+      success: true,
+      tontineContractId,
+      factoryTransactionId: result.transactionId,
+      explorerUrl: this.network.explorerUrl('contract', tontineContractId)
+    };
   }
 
   async joinTontineCircle(
     tontineContractId: string,
     position: number
   ): Promise<ContractExecutionResult> {
-    return executeWithRetry(async () => {
-      const functionParams = new ContractFunctionParameters()
-        .addUint8(position);
-
-      const result = await this.executeContractFunction(
-        tontineContractId,
-        'joinTontine',
-        functionParams,
-        100000
-      );
-
-      console.log(`Joined tontine at position ${position}`);
-
-      return result;
-    });
+    const functionParams = new ContractFunctionParameters()
+      .addUint8(position);
+
+    const result = await withCostAttribution({ tontineId: tontineContractId }, () => this.executeContractFunction(
+      tontineContractId,
+      'joinTontine',
+      functionParams,
+      100000
+    ));
+
+    console.log(`Joined tontine at position ${position}`);
+
+    await recordOffLedger(this.repository, result.transactionId, repository => repository.saveTontineActivity({
+      transactionId: result.transactionId,
+      tontineContractId,
+      activityType: 'JOIN',
+      accountId: this.operatorAccountId.toString(),
+      position,
+      amount: null,
+      timestamp: new Date()
+    }));
+
+    return result;
   }
 
   async makeTontineContribution(
     tontineContractId: string,
     amount: number
   ): Promise<ContractExecutionResult> {
-    return executeWithRetry(async () => {
-      const payableAmount = new Hbar(amount / 100000000); // Assuming HBAR units
+    const payableAmount = new Hbar(amount / 100000000); // Assuming HBAR units
+
+    const result = await withCostAttribution({ tontineId: tontineContractId }, () => this.executeContractFunction(
+      tontineContractId,
+      'contributeMonthly',
+      undefined,
+      150000,
+      payableAmount
+    ));
+
+    console.log(`Contributed ${amount} to tontine`);
+
+    await recordOffLedger(this.repository, result.transactionId, repository => repository.saveTontineActivity({
+      transactionId: result.transactionId,
+      tontineContractId,
+      activityType: 'CONTRIBUTION',
+      accountId: this.operatorAccountId.toString(),
+      position: null,
+      amount: BigInt(amount),
+      timestamp: new Date()
+    }));
+
+    return result;
+  }
 
-      const result = await this.executeContractFunction(
-        tontineContractId,
-        'contributeMonthly',
-        undefined,
-        150000,
-        payableAmount
-      );
+  /**
+   * Pre-authorizes a member's monthly contributions: one schedule per cycle, paid
+   * and signed by the member now and executed at its due date. The network keeps
+   * schedules for at most 62 days, so only the cycles due within that window can
+   * be authorized at once; the member can cancel by asking the operator to delete them.
+   */
+  async preauthorizeTontineContributions(authorization: {
+    tontineContractId: string;
+    memberAccountId: string;
+    memberSigner: Signer;
+    amount: number; // Tinybars per cycle, as in makeTontineContribution
+    firstDueAt: Date;
+    cycles?: number; // Default 1
+    intervalDays?: number; // Default 30
+  }): Promise<ScheduleCreationResult[]> {
+    const cycles = authorization.cycles ?? 1;
+    const intervalMs = (authorization.intervalDays ?? 30) * 24 * 3600 * 1000;
+    const dueDates = Array.from({ length: cycles }, (_, cycle) => new Date(authorization.firstDueAt.getTime() + cycle * intervalMs));
+
+    const lastDueAt = dueDates[dueDates.length - 1];
+    if (lastDueAt.getTime() > Date.now() + MAX_SCHEDULE_LIFETIME_MS) {
+      throw new Error(`Contribution due ${lastDueAt.toISOString()} is more than 62 days away and cannot be scheduled yet`);
+    }
 
-      console.log(`Contributed ${amount} to tontine`);
+    const schedules: ScheduleCreationResult[] = [];
+    for (const dueAt of dueDates) {
+      const contributionTx = new ContractExecuteTransaction()
+        .setContractId(ContractId.fromString(authorization.tontineContractId))
+        .setGas(150000)
+        .setFunction('contributeMonthly')
+        .setPayableAmount(Hbar.fromTinybars(authorization.amount));
+
+      schedules.push(await withCostAttribution({ tontineId: authorization.tontineContractId }, () =>
+        this.scheduler().scheduleTransaction(contributionTx, {
+          payerAccountId: authorization.memberAccountId,
+          memo: `Tontine ${authorization.tontineContractId} contribution due ${dueAt.toISOString().slice(0, 10)}`,
+          expiresAt: dueAt,
+          waitForExpiry: true,
+          signers: [authorization.memberSigner]
+        })
+      ));
+    }
 
-      return result;
-    });
+    console.log(`✅ Pre-authorized ${cycles} contribution(s) from ${authorization.memberAccountId} to ${authorization.tontineContractId}`);
+
+    return schedules;
   }
 
   async getTontineStatus(tontineContractId: string): Promise<TontineStatus> {
-    return executeWithRetry(async () => {
-      const result = await this.queryContractFunction(
-        tontineContractId,
-        'getTontineInfo'
-      );
+    const result = await this.queryContractFunction(
+      tontineContractId,
+      'getTontineInfo'
+    );
+
+    return {
+      name: result.getString(0),
+      monthlyAmount: result.getUint256(1).toNumber(),
+      totalMembers: result.getUint256(2).toNumber(),
+      currentMembers: result.getUint256(3).toNumber(),
+      currentCycle: result.getUint256(4).toNumber(),
+      isActive: result.getBool(5)
+    };
+  }
 
-      return {
-        name: result.getString(0),
-        monthlyAmount: result.getUint256(1).toNumber(),
-        totalMembers: result.getUint256(2).toNumber(),
-        currentMembers: result.getUint256(3).toNumber(),
-        currentCycle: result.getUint256(4).toNumber(),
-        isActive: result.getBool(5)
-      };
-    });
+  private scheduler(): HederaScheduleService {
+    if (!this.schedules) {
+      this.schedules = new HederaScheduleService(this.network);
+    }
+    return this.schedules;
   }
 }
 
@@ -307,7 +400,6 @@ interface ContractExecutionResult {
   functionName: string;
   transactionId: string;
   status: string;
-  gasUsed: number;
 }
 
 interface TontineCreationResult {
@@ -317,7 +409,7 @@ interface TontineCreationResult {
   explorerUrl: string;
 }
 
-interface TontineStatus {
+export interface TontineStatus {
   name: string;
   monthlyAmount: number;
   totalMembers: number;
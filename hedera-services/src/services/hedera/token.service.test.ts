@@ -0,0 +1,199 @@
+// services/hedera/token.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestAccount, TestEnvironment } from '../../simulator/test-environment';
+import { CustomFeeValidationError } from '../../utils/custom-fees';
+import { LedgerStatusError } from '../../utils/error-handler';
+import { HederaTopicReader } from './topic-reader.service';
+import { HederaTokenService } from './token.service';
+
+describe('HederaTokenService compliance controls', () => {
+  let env: TestEnvironment;
+  let tokens: HederaTokenService;
+  let holder: TestAccount;
+  let tokenId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    tokens = new HederaTokenService(env.simulator);
+    holder = env.account();
+    ({ tokenId } = await tokens.createFungibleToken({
+      name: 'Naira Stable',
+      symbol: 'NGNS',
+      decimals: 2,
+      initialSupply: '10000',
+      kycRequired: true,
+      freezeDefault: false,
+      wipeable: true,
+      pausable: true
+    }));
+    await tokens.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+  });
+
+  afterEach(() => env.cleanup());
+
+  const sendToHolder = (amount: string) => tokens.transferTokens({
+    tokenId,
+    fromAccountId: env.treasury.accountId,
+    fromSigner: env.treasury.signer,
+    toAccountId: holder.accountId,
+    amount
+  });
+
+  const rejectsWith = (promise: Promise<unknown>, status: string) =>
+    assert.rejects(promise, error => error instanceof LedgerStatusError && error.status === status);
+
+  test('only sends tokens to an account once its KYC is granted', async () => {
+    await rejectsWith(sendToHolder('10'), 'ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN');
+
+    const granted = await tokens.grantKyc(tokenId, holder.accountId, { userId: 'user-1', reason: 'BVN verified' });
+    await sendToHolder('10');
+
+    assert.equal(granted.status, 'SUCCESS');
+    assert.ok(granted.complianceEvent);
+    const status = await tokens.getAccountTokenStatus(holder.accountId, tokenId);
+    assert.equal(status.kycStatus, 'GRANTED');
+    assert.equal(status.balance.toString(), '10.00');
+
+    await tokens.revokeKyc(tokenId, holder.accountId);
+    assert.equal((await tokens.getAccountTokenStatus(holder.accountId, tokenId)).kycStatus, 'REVOKED');
+    await rejectsWith(sendToHolder('1'), 'ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN');
+  });
+
+  test('blocks transfers to a frozen account and to everyone while the token is paused', async () => {
+    await tokens.grantKyc(tokenId, holder.accountId);
+
+    await tokens.freezeAccount(tokenId, holder.accountId, { reason: 'Court order' });
+    assert.equal((await tokens.getAccountTokenStatus(holder.accountId, tokenId)).freezeStatus, 'FROZEN');
+    await rejectsWith(sendToHolder('1'), 'ACCOUNT_FROZEN_FOR_TOKEN');
+    await tokens.unfreezeAccount(tokenId, holder.accountId);
+
+    const paused = await tokens.pauseToken(tokenId, { reason: 'Incident' });
+    assert.equal(paused.accountId, null);
+    assert.equal((await tokens.getAccountTokenStatus(holder.accountId, tokenId)).paused, true);
+    await rejectsWith(sendToHolder('1'), 'TOKEN_IS_PAUSED');
+    await tokens.unpauseToken(tokenId);
+
+    await sendToHolder('1');
+    const status = await tokens.getAccountTokenStatus(holder.accountId, tokenId);
+    assert.equal(status.freezeStatus, 'UNFROZEN');
+    assert.equal(status.paused, false);
+  });
+
+  test('wipes tokens from a holder and logs every control on the compliance topic', async () => {
+    await tokens.grantKyc(tokenId, holder.accountId, { userId: 'user-1' });
+    await sendToHolder('25');
+
+    await tokens.wipeTokens(tokenId, holder.accountId, '10.5', { userId: 'user-1', reason: 'Chargeback' });
+
+    assert.equal((await tokens.getAccountTokenStatus(holder.accountId, tokenId)).balance.toString(), '14.50');
+    const entries = await new HederaTopicReader(env.simulator).getMessages(env.topicId('COMPLIANCE'));
+    assert.deepEqual(entries.map(entry => entry.entry?.data.eventType), ['TOKEN_KYC_GRANTED', 'TOKEN_WIPED']);
+    assert.equal(entries[1].entry!.data.metadata.amount, '10.50');
+    assert.equal(entries[1].entry!.data.metadata.reason, 'Chargeback');
+  });
+});
+
+describe('HederaTokenService custom fees', () => {
+  let env: TestEnvironment;
+  let tokens: HederaTokenService;
+  let collector: TestAccount;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    tokens = new HederaTokenService(env.simulator);
+    collector = env.account();
+  });
+
+  afterEach(() => env.cleanup());
+
+  const createStablecoin = (feeScheduleUpdatable = false) => tokens.createFungibleToken({
+    name: 'Naira Stable',
+    symbol: 'NGNS',
+    decimals: 2,
+    initialSupply: '10000',
+    feeScheduleUpdatable,
+    customFees: [
+      { kind: 'fixed', amount: '0.01', collectorAccountId: collector.accountId },
+      { kind: 'fractional', numerator: 1, denominator: 100, minimum: '0.50', maximum: '20', collectorAccountId: collector.accountId }
+    ]
+  });
+
+  test('stores fees in base units and previews what a holder-to-holder transfer is charged', async () => {
+    const { tokenId } = await createStablecoin();
+
+    assert.deepEqual((await tokens.getCustomFees(tokenId)).map(fee => fee.kind === 'fixed' ? fee.units : fee.kind), [1_000_000n, 'fractional']);
+
+    const preview = await tokens.previewTransferFees({ tokenId, fromAccountId: '0.0.9001', toAccountId: '0.0.9002', amount: '30' });
+    assert.deepEqual(preview.fees.map(fee => [fee.kind, fee.asset, fee.amount.toString(), fee.deductedFromTransfer]), [
+      ['fixed', 'HBAR', '0.01000000', false],
+      ['fractional', tokenId, '0.50', true] // 1% of 30 is below the minimum
+    ]);
+    assert.equal(preview.amountReceived.toString(), '29.50');
+
+    const large = await tokens.previewTransferFees({ tokenId, fromAccountId: '0.0.9001', toAccountId: '0.0.9002', amount: '5000' });
+    assert.equal(large.fees[1].amount.toString(), '20.00'); // Capped at the maximum
+  });
+
+  test('charges nothing to the treasury or to the collector', async () => {
+    const { tokenId } = await createStablecoin();
+
+    const fromTreasury = await tokens.previewTransferFees({ tokenId, fromAccountId: env.treasury.accountId, toAccountId: '0.0.9002', amount: '100' });
+    const fromCollector = await tokens.previewTransferFees({ tokenId, fromAccountId: collector.accountId, toAccountId: '0.0.9002', amount: '100' });
+
+    assert.deepEqual(fromTreasury.fees, []);
+    assert.deepEqual(fromCollector.fees, []);
+    assert.equal(fromCollector.amountReceived.toString(), '100.00');
+  });
+
+  test('takes NFT royalties from the payment, or the fallback fee from the buyer', async () => {
+    const { tokenId } = await tokens.createNFTCollection({
+      name: 'Art',
+      symbol: 'ART',
+      maxSupply: 10,
+      customFees: [{ kind: 'royalty', numerator: 1, denominator: 10, fallbackFee: { amount: '2' }, collectorAccountId: collector.accountId }]
+    });
+    const sale = { tokenId, fromAccountId: '0.0.9001', toAccountId: '0.0.9002' };
+
+    const paid = await tokens.previewTransferFees({ ...sale, payment: { asset: 'HBAR', amount: '50' } });
+    const gift = await tokens.previewTransferFees(sale);
+
+    assert.deepEqual(paid.fees.map(fee => [fee.payerAccountId, fee.amount.toString()]), [['0.0.9001', '5.00000000']]);
+    assert.deepEqual(gift.fees.map(fee => [fee.payerAccountId, fee.amount.toString()]), [['0.0.9002', '2.00000000']]);
+  });
+
+  test('rejects fee schedules the network would reject before submitting them', async () => {
+    const error = await tokens.createFungibleToken({
+      name: 'Bad',
+      symbol: 'BAD',
+      decimals: 0,
+      initialSupply: '1',
+      customFees: [
+        { kind: 'royalty', numerator: 1, denominator: 10, collectorAccountId: collector.accountId },
+        { kind: 'fractional', numerator: 3, denominator: 2, collectorAccountId: collector.accountId }
+      ]
+    }).then(() => assert.fail('Expected the fees to be rejected'), error => error);
+
+    assert.ok(error instanceof CustomFeeValidationError);
+    assert.deepEqual(error.problems, [
+      'royalty fees are only allowed on NFTs',
+      `fractional fee to ${collector.accountId} needs an integer fraction between 0 and 1, got 3/2`
+    ]);
+  });
+
+  test('replaces the fees only of tokens created with a fee schedule key', async () => {
+    const { tokenId: fixedSchedule } = await createStablecoin();
+    const { tokenId: updatable } = await createStablecoin(true);
+
+    await assert.rejects(
+      tokens.updateCustomFees(fixedSchedule, []),
+      error => error instanceof LedgerStatusError && error.status === 'TOKEN_HAS_NO_FEE_SCHEDULE_KEY'
+    );
+    const updated = await tokens.updateCustomFees(updatable, [{ kind: 'fixed', amount: '1', denominatingTokenId: updatable, collectorAccountId: collector.accountId }]);
+
+    assert.equal(updated.status, 'SUCCESS');
+    assert.deepEqual(await tokens.getCustomFees(updatable), [
+      { kind: 'fixed', units: 100n, denominatingTokenId: updatable, collectorAccountId: collector.accountId, allCollectorsAreExempt: false }
+    ]);
+  });
+});
@@ -1,90 +1,181 @@
 // services/hedera/token.service.ts
 import {
-  Client,
   TokenCreateTransaction,
   TokenType,
   TokenSupplyType,
   TokenAssociateTransaction,
   TransferTransaction,
   AccountId,
-  PrivateKey,
   TokenId,
-  Hbar,
   TokenMintTransaction,
   TokenBurnTransaction,
-  AccountBalanceQuery
+  TokenGrantKycTransaction,
+  TokenRevokeKycTransaction,
+  TokenFreezeTransaction,
+  TokenUnfreezeTransaction,
+  TokenWipeTransaction,
+  TokenPauseTransaction,
+  TokenUnpauseTransaction,
+  TokenFeeScheduleUpdateTransaction,
+  Transaction,
+  KeyList,
+  PublicKey,
+  Key
 } from '@hashgraph/sdk';
+import {
+  CustomFeeConfig,
+  CustomFeeValidationError,
+  TokenCustomFee,
+  assessTransferFees,
+  customFeeProblems,
+  resolveCustomFees,
+  toSdkCustomFees
+} from '../../utils/custom-fees';
+import { CostTracker } from '../../utils/cost-tracker';
 import { executeWithRetry } from '../../utils/error-handler';
+import { LedgerRepository, recordOffLedger } from '../../utils/ledger-repository';
+import { MirrorNodeClient, collect } from '../../utils/mirror-node-client';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { PostgresLedgerRepository } from '../../utils/postgres-ledger-repository';
+import { Signer, signerAccountId, signerFromEnv } from '../../utils/signer';
+import { TokenAmount, TokenAmountInput, TokenDecimalsCache } from '../../utils/token-amount';
+import { HederaLedger, LedgerTokenInfo } from './ledger';
+import { HederaConsensusService, MessageSubmitResult } from './consensus.service';
+import { ComplianceEventType } from './hcs-messages';
+import { HederaScheduleService, ScheduleCreationResult } from './schedule.service';
+import {
+  HBAR,
+  HBAR_DECIMALS,
+  MultiPartyTransferResult,
+  TransferBuilder,
+  completeTransfer,
+  mergeSignedTransfers
+} from './transfer-builder';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
 
 export class HederaTokenService {
-  private client: Client;
+  private network: HederaNetwork;
+  private ledger: HederaLedger;
   private treasuryAccountId: AccountId;
-  private treasuryPrivateKey: PrivateKey;
+  private treasury: Signer;
+  private decimals: TokenDecimalsCache;
+  private consensus: HederaConsensusService | null;
+  private schedules: HederaScheduleService | null;
+  private repository: LedgerRepository | null;
+  private monitor: TransactionMonitor;
+  private mirror: MirrorNodeClient;
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: { consensus?: HederaConsensusService; schedules?: HederaScheduleService; repository?: LedgerRepository; monitor?: TransactionMonitor; costs?: CostTracker } = {}
+  ) {
+    this.network = network;
+    this.treasury = signerFromEnv('TREASURY');
+    this.treasuryAccountId = AccountId.fromString(signerAccountId(this.treasury));
+    this.ledger = (options.costs ?? CostTracker.forNetwork(network)).track(network.connect(this.treasury), 'token');
+    this.decimals = new TokenDecimalsCache(this.ledger);
+    this.consensus = options.consensus ?? null;
+    this.schedules = options.schedules ?? null;
+    this.repository = options.repository ?? PostgresLedgerRepository.fromEnv();
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
+    this.mirror = MirrorNodeClient.forNetwork(network);
+  }
 
-  constructor() {
-    if (!process.env.HEDERA_TREASURY_ACCOUNT_ID || !process.env.HEDERA_TREASURY_PRIVATE_KEY) {
-      throw new Error('Missing treasury credentials in environment');
-    }
-    this.client = Client.forMainnet();
-    this.treasuryAccountId = AccountId.fromString(process.env.HEDERA_TREASURY_ACCOUNT_ID);
-    this.treasuryPrivateKey = PrivateKey.fromString(process.env.HEDERA_TREASURY_PRIVATE_KEY);
-    this.client.setOperator(this.treasuryAccountId, this.treasuryPrivateKey);
+  /**
+   * Builds an amount of `tokenId` from a decimal string or bigint base units, using the token's decimals
+   */
+  async amount(tokenId: string, value: TokenAmountInput): Promise<TokenAmount> {
+    return this.decimals.amount(tokenId, value);
   }
 
   async createFungibleToken(tokenConfig: {
     name: string;
     symbol: string;
     decimals: number;
-    initialSupply: number;
-    maxSupply?: number;
+    initialSupply: TokenAmountInput; // In whole tokens ("5000") or bigint base units
+    maxSupply?: TokenAmountInput;
     kycRequired?: boolean;
     freezeDefault?: boolean;
+    wipeable?: boolean; // Treasury may wipe balances (see wipeTokens)
+    pausable?: boolean; // Treasury may pause all operations on the token
+    customFees?: CustomFeeConfig[]; // Fixed and fractional fees charged on every transfer
+    feeScheduleUpdatable?: boolean; // Treasury may replace the custom fees later (see updateCustomFees)
+    supplyCoSigners?: SupplyCoSigners; // Mints and burns need co-signatures (see scheduleMint)
   }): Promise<TokenCreationResult> {
+    // Scaled before the token exists, so the symbol stands in for its id in error messages
+    const initialSupply = TokenAmount.from(tokenConfig.symbol, tokenConfig.initialSupply, tokenConfig.decimals);
+    const maxSupply = tokenConfig.maxSupply !== undefined
+      ? TokenAmount.from(tokenConfig.symbol, tokenConfig.maxSupply, tokenConfig.decimals)
+      : null;
+    const customFees = await this.resolveFees(
+      tokenConfig.customFees ?? [],
+      { tokenId: tokenConfig.symbol, decimals: tokenConfig.decimals, type: 'FUNGIBLE_COMMON' }
+    );
+
     return executeWithRetry(async () => {
       const tokenCreateTx = new TokenCreateTransaction()
         .setTokenName(tokenConfig.name)
         .setTokenSymbol(tokenConfig.symbol)
         .setDecimals(tokenConfig.decimals)
-        .setInitialSupply(tokenConfig.initialSupply)
+        .setInitialSupply(initialSupply.toNumber())
         .setTreasuryAccountId(this.treasuryAccountId)
-        .setAdminKey(this.treasuryPrivateKey.publicKey)
-        .setSupplyKey(this.treasuryPrivateKey.publicKey)
+        .setAdminKey(this.treasury.publicKey)
+        .setSupplyKey(this.supplyKey(tokenConfig.supplyCoSigners))
         .setTokenType(TokenType.FungibleCommon)
-        .setSupplyType(tokenConfig.maxSupply ? TokenSupplyType.Finite : TokenSupplyType.Infinite);
+        .setSupplyType(maxSupply ? TokenSupplyType.Finite : TokenSupplyType.Infinite);
 
       if (tokenConfig.kycRequired) {
-        tokenCreateTx.setKycKey(this.treasuryPrivateKey.publicKey);
+        tokenCreateTx.setKycKey(this.treasury.publicKey);
       }
 
       if (tokenConfig.freezeDefault !== undefined) {
-        tokenCreateTx.setFreezeKey(this.treasuryPrivateKey.publicKey).setFreezeDefault(tokenConfig.freezeDefault);
+        tokenCreateTx.setFreezeKey(this.treasury.publicKey).setFreezeDefault(tokenConfig.freezeDefault);
       }
 
-      if (tokenConfig.maxSupply) {
-        tokenCreateTx.setMaxSupply(tokenConfig.maxSupply);
+      if (tokenConfig.wipeable) {
+        tokenCreateTx.setWipeKey(this.treasury.publicKey);
       }
 
-      const tokenCreateSubmit = await tokenCreateTx.execute(this.client);
-      const tokenCreateReceipt = await tokenCreateSubmit.getReceipt(this.client);
-      const tokenId = tokenCreateReceipt.tokenId!;
+      if (tokenConfig.pausable) {
+        tokenCreateTx.setPauseKey(this.treasury.publicKey);
+      }
+
+      if (tokenConfig.feeScheduleUpdatable) {
+        tokenCreateTx.setFeeScheduleKey(this.treasury.publicKey);
+      }
 
-      console.log(`✅ Token created: ${tokenId.toString()}`);
+      if (customFees.length > 0) {
+        tokenCreateTx.setCustomFees(toSdkCustomFees(customFees));
+      }
 
-      await this.storeTokenMetadata({
-        tokenId: tokenId.toString(),
+      if (maxSupply) {
+        tokenCreateTx.setMaxSupply(maxSupply.toNumber());
+      }
+
+      const tokenCreateSubmit = await this.ledger.submit(tokenCreateTx);
+      const tokenId = tokenCreateSubmit.receipt.tokenId!;
+      this.decimals.remember(tokenId, tokenConfig.decimals);
+
+      console.log(`✅ Token created: ${tokenId}`);
+
+      await recordOffLedger(this.repository, tokenCreateSubmit.transactionId, repository => repository.saveToken({
+        tokenId,
         name: tokenConfig.name,
         symbol: tokenConfig.symbol,
+        tokenType: 'FUNGIBLE_COMMON',
         decimals: tokenConfig.decimals,
-        type: 'FUNGIBLE',
-        createdAt: new Date(),
-        transactionId: tokenCreateSubmit.transactionId.toString()
-      });
+        initialSupply: initialSupply.units,
+        maxSupply: maxSupply?.units ?? null,
+        treasuryAccountId: this.treasuryAccountId.toString(),
+        transactionId: tokenCreateSubmit.transactionId,
+        createdAt: new Date()
+      }));
 
       return {
         success: true,
-        tokenId: tokenId.toString(),
-        transactionId: tokenCreateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/token/${tokenId.toString()}`
+        tokenId,
+        transactionId: tokenCreateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('token', tokenId)
       };
     });
   }
@@ -93,7 +184,15 @@ export class HederaTokenService {
     name: string;
     symbol: string;
     maxSupply: number;
+    wipeable?: boolean; // Treasury may wipe serials from holders (see HederaNftService.wipeNFTs)
+    customFees?: CustomFeeConfig[]; // Fixed and royalty fees charged on every serial transfer
+    feeScheduleUpdatable?: boolean; // Treasury may replace the custom fees later (see updateCustomFees)
   }): Promise<TokenCreationResult> {
+    const customFees = await this.resolveFees(
+      nftConfig.customFees ?? [],
+      { tokenId: nftConfig.symbol, decimals: 0, type: 'NON_FUNGIBLE_UNIQUE' }
+    );
+
     return executeWithRetry(async () => {
       const nftCreate = new TokenCreateTransaction()
         .setTokenName(nftConfig.name)
@@ -102,52 +201,72 @@ export class HederaTokenService {
         .setSupplyType(TokenSupplyType.Finite)
         .setMaxSupply(nftConfig.maxSupply)
         .setTreasuryAccountId(this.treasuryAccountId)
-        .setAdminKey(this.treasuryPrivateKey.publicKey)
-        .setSupplyKey(this.treasuryPrivateKey.publicKey)
+        .setAdminKey(this.treasury.publicKey)
+        .setSupplyKey(this.treasury.publicKey)
         .setFreezeDefault(false);
 
-      const nftCreateSubmit = await nftCreate.execute(this.client);
-      const nftCreateReceipt = await nftCreateSubmit.getReceipt(this.client);
-      const tokenId = nftCreateReceipt.tokenId!;
+      if (nftConfig.wipeable) {
+        nftCreate.setWipeKey(this.treasury.publicKey);
+      }
+
+      if (nftConfig.feeScheduleUpdatable) {
+        nftCreate.setFeeScheduleKey(this.treasury.publicKey);
+      }
+
+      if (customFees.length > 0) {
+        nftCreate.setCustomFees(toSdkCustomFees(customFees));
+      }
+
+      const nftCreateSubmit = await this.ledger.submit(nftCreate);
+      const tokenId = nftCreateSubmit.receipt.tokenId!;
 
-      console.log(`✅ NFT Collection created: ${tokenId.toString()}`);
+      console.log(`✅ NFT Collection created: ${tokenId}`);
+
+      await recordOffLedger(this.repository, nftCreateSubmit.transactionId, repository => repository.saveToken({
+        tokenId,
+        name: nftConfig.name,
+        symbol: nftConfig.symbol,
+        tokenType: 'NON_FUNGIBLE_UNIQUE',
+        decimals: 0,
+        initialSupply: 0n,
+        maxSupply: BigInt(nftConfig.maxSupply),
+        treasuryAccountId: this.treasuryAccountId.toString(),
+        transactionId: nftCreateSubmit.transactionId,
+        createdAt: new Date()
+      }));
 
       return {
         success: true,
-        tokenId: tokenId.toString(),
-        transactionId: nftCreateSubmit.transactionId.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/token/${tokenId.toString()}`
+        tokenId,
+        transactionId: nftCreateSubmit.transactionId,
+        explorerUrl: this.network.explorerUrl('token', tokenId)
       };
     });
   }
 
   async associateTokenToAccount(
     userAccountId: string,
-    userPrivateKey: string,
+    userSigner: Signer,
     tokenId: string
   ): Promise<AssociationResult> {
     return executeWithRetry(async () => {
       const accountId = AccountId.fromString(userAccountId);
-      const privateKey = PrivateKey.fromString(userPrivateKey);
       const token = TokenId.fromString(tokenId);
 
       const associateTx = new TokenAssociateTransaction()
         .setAccountId(accountId)
-        .setTokenIds([token])
-        .freezeWith(this.client);
+        .setTokenIds([token]);
 
-      const signTx = await associateTx.sign(privateKey);
-      const txResponse = await signTx.execute(this.client);
-      const receipt = await txResponse.getReceipt(this.client);
+      const txResponse = await this.ledger.submit(associateTx, [userSigner]);
 
       console.log(`✅ Token ${tokenId} associated with account ${userAccountId}`);
 
-      await monitorTransaction(txResponse.transactionId.toString());
+      this.monitor.watch(txResponse.transactionId);
 
       return {
         success: true,
-        transactionId: txResponse.transactionId.toString(),
-        status: receipt.status.toString()
+        transactionId: txResponse.transactionId,
+        status: txResponse.receipt.status
       };
     });
   }
@@ -155,72 +274,95 @@ export class HederaTokenService {
   async transferTokens(transferDetails: {
     tokenId: string;
     fromAccountId: string;
-    fromPrivateKey: string;
+    fromSigner: Signer;
     toAccountId: string;
-    amount: number;
+    amount: TokenAmountInput;
     memo?: string;
   }): Promise<TransferResult> {
+    const amount = await this.decimals.amount(transferDetails.tokenId, transferDetails.amount);
+
     return executeWithRetry(async () => {
       const tokenIdObj = TokenId.fromString(transferDetails.tokenId);
       const fromAccount = AccountId.fromString(transferDetails.fromAccountId);
       const toAccount = AccountId.fromString(transferDetails.toAccountId);
-      const privateKey = PrivateKey.fromString(transferDetails.fromPrivateKey);
 
       const transferTx = new TransferTransaction()
-        .addTokenTransfer(tokenIdObj, fromAccount, -transferDetails.amount)
-        .addTokenTransfer(tokenIdObj, toAccount, transferDetails.amount);
+        .addTokenTransfer(tokenIdObj, fromAccount, -amount.toNumber())
+        .addTokenTransfer(tokenIdObj, toAccount, amount.toNumber());
 
       if (transferDetails.memo) {
         transferTx.setTransactionMemo(transferDetails.memo);
       }
 
-      const freezeTx = await transferTx.freezeWith(this.client);
-      const signTx = await freezeTx.sign(privateKey);
-      const txResponse = await signTx.execute(this.client);
-      const receipt = await txResponse.getReceipt(this.client);
+      const txResponse = await this.ledger.submit(transferTx, [transferDetails.fromSigner]);
 
-      console.log(`✅ Transferred ${transferDetails.amount} tokens from ${transferDetails.fromAccountId} to ${transferDetails.toAccountId}`);
+      console.log(`✅ Transferred ${amount} tokens from ${transferDetails.fromAccountId} to ${transferDetails.toAccountId}`);
 
-      await this.recordTokenTransfer({
+      await recordOffLedger(this.repository, txResponse.transactionId, repository => repository.saveTransfer({
+        transactionId: txResponse.transactionId,
         tokenId: transferDetails.tokenId,
-        from: transferDetails.fromAccountId,
-        to: transferDetails.toAccountId,
-        amount: transferDetails.amount,
-        transactionId: txResponse.transactionId.toString(),
+        fromAccountId: transferDetails.fromAccountId,
+        toAccountId: transferDetails.toAccountId,
+        amount: amount.units,
+        serial: null,
+        memo: transferDetails.memo ?? null,
         timestamp: new Date()
-      });
+      }));
 
-      await monitorTransaction(txResponse.transactionId.toString());
+      this.monitor.watch(txResponse.transactionId);
 
       return {
         success: true,
-        transactionId: txResponse.transactionId.toString(),
-        status: receipt.status.toString(),
-        explorerUrl: `https://hashscan.io/mainnet/transaction/${txResponse.transactionId.toString()}`
+        transactionId: txResponse.transactionId,
+        status: txResponse.receipt.status,
+        amount,
+        explorerUrl: this.network.explorerUrl('transaction', txResponse.transactionId)
       };
     });
   }
 
+  /**
+   * Starts an atomic transfer of several HBAR, token and NFT legs between any accounts
+   */
+  newTransfer(): TransferBuilder {
+    return new TransferBuilder(this.ledger, this.decimals, this.network, this.monitor);
+  }
+
+  /**
+   * Submits a transfer from `TransferBuilder.prepare()` once every required party has
+   * signed it with `signTransfer()`. Pass one copy per party (signed in parallel) or
+   * the last copy of a chain of signers.
+   */
+  async submitSignedTransfer(signedCopies: string[]): Promise<MultiPartyTransferResult> {
+    const transferTx = mergeSignedTransfers(signedCopies);
+
+    // Not retried: the signed bytes carry a fixed transaction id, so a resubmission would be a duplicate
+    const submission = await this.ledger.submit(transferTx);
+
+    return completeTransfer(transferTx, submission.transactionId, submission.receipt.status, this.decimals, this.network, this.monitor);
+  }
+
   async mintTokenSupply(
     tokenId: string,
-    amount: number,
+    amountInput: TokenAmountInput,
     recipientAccountId?: string
   ): Promise<MintResult> {
+    const amount = await this.decimals.amount(tokenId, amountInput);
+
     return executeWithRetry(async () => {
       const token = TokenId.fromString(tokenId);
 
-      const mintTx = await new TokenMintTransaction()
-        .setTokenId(token)
-        .setAmount(new Hbar(amount))
-        .execute(this.client);
-
-      const receipt = await mintTx.getReceipt(this.client);
+      const mintTx = await this.ledger.submit(
+        new TokenMintTransaction()
+          .setTokenId(token)
+          .setAmount(amount.toNumber())
+      );
 
       if (recipientAccountId) {
         await this.transferTokens({
           tokenId,
           fromAccountId: this.treasuryAccountId.toString(),
-          fromPrivateKey: this.treasuryPrivateKey.toString(),
+          fromSigner: this.treasury,
           toAccountId: recipientAccountId,
           amount
         });
@@ -230,24 +372,49 @@ export class HederaTokenService {
         success: true,
         tokenId,
         amountMinted: amount,
-        transactionId: mintTx.transactionId.toString()
+        transactionId: mintTx.transactionId
       };
     });
   }
 
+  /**
+   * Schedules a mint of a token whose supply key needs co-signers: the treasury signs
+   * now and the mint executes once enough co-signers have added their signatures
+   * with `HederaScheduleService.signSchedule` before the schedule expires
+   */
+  async scheduleMint(
+    tokenId: string,
+    amountInput: TokenAmountInput,
+    options: { memo?: string; expiresAt?: Date } = {}
+  ): Promise<ScheduleCreationResult> {
+    const amount = await this.decimals.amount(tokenId, amountInput);
+
+    return this.scheduler().scheduleTransaction(
+      new TokenMintTransaction()
+        .setTokenId(TokenId.fromString(tokenId))
+        .setAmount(amount.toNumber()),
+      {
+        memo: options.memo ?? `Mint ${amount} ${tokenId}`,
+        expiresAt: options.expiresAt,
+        signers: [this.treasury]
+      }
+    );
+  }
+
   async burnTokenSupply(
     tokenId: string,
-    amount: number
+    amountInput: TokenAmountInput
   ): Promise<BurnResult> {
+    const amount = await this.decimals.amount(tokenId, amountInput);
+
     return executeWithRetry(async () => {
       const token = TokenId.fromString(tokenId);
 
-      const burnTx = await new TokenBurnTransaction()
-        .setTokenId(token)
-        .setAmount(new Hbar(amount))
-        .execute(this.client);
-
-      const receipt = await burnTx.getReceipt(this.client);
+      const burnTx = await this.ledger.submit(
+        new TokenBurnTransaction()
+          .setTokenId(token)
+          .setAmount(amount.toNumber())
+      );
 
       console.log(`✅ Burned ${amount} tokens from ${tokenId}`);
 
@@ -255,7 +422,7 @@ export class HederaTokenService {
         success: true,
         tokenId,
         amountBurned: amount,
-        transactionId: burnTx.transactionId.toString()
+        transactionId: burnTx.transactionId
       };
     });
   }
@@ -263,27 +430,269 @@ export class HederaTokenService {
   async getTokenBalance(
     accountId: string,
     tokenId: string
-  ): Promise<number> {
+  ): Promise<TokenAmount> {
     return executeWithRetry(async () => {
-      const query = new AccountBalanceQuery()
-        .setAccountId(AccountId.fromString(accountId));
+      const balance = await this.ledger.getAccountBalance(accountId);
+      const tokenBalance = balance.tokens.get(TokenId.fromString(tokenId).toString());
+
+      return this.decimals.fromUnits(tokenId, tokenBalance ?? 0n);
+    });
+  }
+
+  /**
+   * Grants KYC for the token to an associated account; required before a token
+   * created with `kycRequired` can be sent to or from it
+   */
+  async grantKyc(tokenId: string, accountId: string, context: TokenComplianceContext = {}): Promise<TokenComplianceResult> {
+    return this.applyTokenControl('TOKEN_KYC_GRANTED', tokenId, accountId, context, () => new TokenGrantKycTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setAccountId(AccountId.fromString(accountId)));
+  }
+
+  async revokeKyc(tokenId: string, accountId: string, context: TokenComplianceContext = {}): Promise<TokenComplianceResult> {
+    return this.applyTokenControl('TOKEN_KYC_REVOKED', tokenId, accountId, context, () => new TokenRevokeKycTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setAccountId(AccountId.fromString(accountId)));
+  }
 
-      const balance = await query.execute(this.client);
-      const tokenBalance = balance.tokens?.get(TokenId.fromString(tokenId));
+  /**
+   * Freezes the account's balance of the token; the token needs a freeze key (`freezeDefault` set at creation)
+   */
+  async freezeAccount(tokenId: string, accountId: string, context: TokenComplianceContext = {}): Promise<TokenComplianceResult> {
+    return this.applyTokenControl('TOKEN_ACCOUNT_FROZEN', tokenId, accountId, context, () => new TokenFreezeTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setAccountId(AccountId.fromString(accountId)));
+  }
+
+  async unfreezeAccount(tokenId: string, accountId: string, context: TokenComplianceContext = {}): Promise<TokenComplianceResult> {
+    return this.applyTokenControl('TOKEN_ACCOUNT_UNFROZEN', tokenId, accountId, context, () => new TokenUnfreezeTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setAccountId(AccountId.fromString(accountId)));
+  }
+
+  /**
+   * Removes an amount of the token from a holder (not the treasury) and from the
+   * total supply; the token must have been created with `wipeable: true`
+   */
+  async wipeTokens(
+    tokenId: string,
+    accountId: string,
+    amountInput: TokenAmountInput,
+    context: TokenComplianceContext = {}
+  ): Promise<TokenComplianceResult> {
+    const amount = await this.decimals.amount(tokenId, amountInput);
+
+    return this.applyTokenControl('TOKEN_WIPED', tokenId, accountId, context, () => new TokenWipeTransaction()
+      .setTokenId(TokenId.fromString(tokenId))
+      .setAccountId(AccountId.fromString(accountId))
+      .setAmount(amount.toNumber()), { amount: amount.toString() });
+  }
+
+  /**
+   * Suspends every operation on the token (transfers, mints, KYC, ...) until
+   * `unpauseToken`; the token must have been created with `pausable: true`
+   */
+  async pauseToken(tokenId: string, context: TokenComplianceContext = {}): Promise<TokenComplianceResult> {
+    return this.applyTokenControl('TOKEN_PAUSED', tokenId, null, context, () => new TokenPauseTransaction()
+      .setTokenId(TokenId.fromString(tokenId)));
+  }
+
+  async unpauseToken(tokenId: string, context: TokenComplianceContext = {}): Promise<TokenComplianceResult> {
+    return this.applyTokenControl('TOKEN_UNPAUSED', tokenId, null, context, () => new TokenUnpauseTransaction()
+      .setTokenId(TokenId.fromString(tokenId)));
+  }
+
+  /**
+   * Association, KYC and freeze status of the account for the token, from the
+   * mirror node (so a change made a few seconds ago may not show yet)
+   */
+  async getAccountTokenStatus(accountId: string, tokenId: string): Promise<AccountTokenStatus> {
+    const [relationships, info] = await Promise.all([
+      collect(this.mirror.listAccountTokens(accountId, { tokenId, limit: 1 })),
+      executeWithRetry(() => this.ledger.getTokenInfo(tokenId))
+    ]);
+    const relationship = relationships[0];
+    this.decimals.remember(tokenId, info.decimals);
+
+    return {
+      accountId,
+      tokenId,
+      associated: !!relationship,
+      kycStatus: relationship?.kyc_status ?? 'NOT_APPLICABLE',
+      freezeStatus: relationship?.freeze_status ?? 'NOT_APPLICABLE',
+      paused: info.pauseStatus === 'PAUSED',
+      balance: await this.decimals.fromUnits(tokenId, BigInt(relationship?.balance ?? 0))
+    };
+  }
+
+  /**
+   * Replaces the custom fees of a token created with `feeScheduleUpdatable`; an
+   * empty list removes them all
+   */
+  async updateCustomFees(tokenId: string, fees: CustomFeeConfig[]): Promise<CustomFeeUpdateResult> {
+    const info = await executeWithRetry(() => this.ledger.getTokenInfo(tokenId));
+    this.decimals.remember(tokenId, info.decimals);
+    const customFees = await this.resolveFees(fees, info);
+
+    return executeWithRetry(async () => {
+      const updateTx = new TokenFeeScheduleUpdateTransaction()
+        .setTokenId(TokenId.fromString(tokenId))
+        .setCustomFees(toSdkCustomFees(customFees));
 
-      return tokenBalance ? tokenBalance.toBigNumber().toNumber() : 0;
+      const submission = await this.ledger.submit(updateTx);
+
+      console.log(`✅ Custom fees updated: ${tokenId} (${customFees.length} fees)`);
+
+      return {
+        success: true,
+        tokenId,
+        customFees,
+        transactionId: submission.transactionId,
+        status: submission.receipt.status,
+        explorerUrl: this.network.explorerUrl('transaction', submission.transactionId)
+      };
+    });
+  }
+
+  async getCustomFees(tokenId: string): Promise<TokenCustomFee[]> {
+    const info = await executeWithRetry(() => this.ledger.getTokenInfo(tokenId));
+    return info.customFees;
+  }
+
+  /**
+   * Custom fees the network would charge for a transfer of the token, from its
+   * current fee schedule. For NFTs, `payment` is what the buyer pays the seller
+   * in the same transaction; royalties are taken from it, or the fallback fee is
+   * charged to the buyer when there is none.
+   */
+  async previewTransferFees(transfer: {
+    tokenId: string;
+    fromAccountId: string;
+    toAccountId: string;
+    amount?: TokenAmountInput; // Fungible tokens only; an NFT transfer moves one serial
+    payment?: { asset: string; amount: TokenAmountInput }; // HBAR or a token id
+  }): Promise<TransferFeePreview> {
+    const info = await executeWithRetry(() => this.ledger.getTokenInfo(transfer.tokenId));
+    this.decimals.remember(transfer.tokenId, info.decimals);
+
+    const isNft = info.type === 'NON_FUNGIBLE_UNIQUE';
+    if (!isNft && transfer.amount === undefined) {
+      throw new Error(`An amount is required to preview fees of fungible token ${transfer.tokenId}`);
+    }
+    const amount = isNft
+      ? TokenAmount.fromUnits(transfer.tokenId, 1n, 0)
+      : TokenAmount.from(transfer.tokenId, transfer.amount!, info.decimals);
+    const payment = transfer.payment ? await this.assetAmount(transfer.payment.asset, transfer.payment.amount) : null;
+
+    const assessed = assessTransferFees(info, {
+      fromAccountId: transfer.fromAccountId,
+      toAccountId: transfer.toAccountId,
+      units: amount.units,
+      payment: payment ? { asset: transfer.payment!.asset, units: payment.units } : undefined
     });
+
+    const fees: PreviewedCustomFee[] = [];
+    let received = amount.units;
+    for (const fee of assessed) {
+      const { units, ...rest } = fee;
+      fees.push({ ...rest, amount: await this.assetAmount(fee.asset, units) });
+      if (fee.kind === 'fractional' && fee.deductedFromTransfer) {
+        received -= units;
+      }
+    }
+
+    return {
+      tokenId: transfer.tokenId,
+      amount,
+      amountReceived: TokenAmount.fromUnits(transfer.tokenId, received, amount.decimals),
+      fees
+    };
+  }
+
+  /**
+   * Resolves configured fees to base units and rejects schedules the network would reject
+   */
+  private async resolveFees(
+    fees: CustomFeeConfig[],
+    token: { tokenId: string; decimals: number; type: LedgerTokenInfo['type'] }
+  ): Promise<TokenCustomFee[]> {
+    const resolved = await resolveCustomFees(fees, token, tokenId => this.decimals.getDecimals(tokenId));
+    const problems = customFeeProblems(resolved, token.type);
+    if (problems.length > 0) {
+      throw new CustomFeeValidationError(problems);
+    }
+    return resolved;
+  }
+
+  private async assetAmount(asset: string, value: TokenAmountInput): Promise<TokenAmount> {
+    return asset === HBAR ? TokenAmount.from(HBAR, value, HBAR_DECIMALS) : this.decimals.amount(asset, value);
+  }
+
+  /**
+   * Submits a treasury-signed token control and logs it as a compliance event. The
+   * subject of the event is `context.userId`, else the account (or the treasury
+   * for token-wide controls). If logging fails the control stays applied and
+   * `complianceEvent` is null.
+   */
+  private async applyTokenControl(
+    eventType: ComplianceEventType,
+    tokenId: string,
+    accountId: string | null,
+    context: TokenComplianceContext,
+    build: () => Transaction,
+    details: { [field: string]: unknown } = {}
+  ): Promise<TokenComplianceResult> {
+    const submission = await executeWithRetry(() => this.ledger.submit(build()));
+
+    console.log(`✅ ${eventType} for ${tokenId}${accountId ? ` / ${accountId}` : ''}`);
+
+    let complianceEvent: MessageSubmitResult | null = null;
+    try {
+      complianceEvent = await this.compliance().logComplianceEvent({
+        userId: context.userId || accountId || this.treasuryAccountId.toString(),
+        eventType,
+        result: submission.receipt.status,
+        metadata: { tokenId, accountId, transactionId: submission.transactionId, reason: context.reason, ...details }
+      });
+    } catch (error: any) {
+      console.error(`Compliance event ${eventType} for ${submission.transactionId} was not logged:`, error.message);
+    }
+
+    return {
+      success: true,
+      tokenId,
+      accountId,
+      transactionId: submission.transactionId,
+      status: submission.receipt.status,
+      complianceEvent,
+      explorerUrl: this.network.explorerUrl('transaction', submission.transactionId)
+    };
+  }
+
+  private supplyKey(coSigners?: SupplyCoSigners): Key {
+    if (!coSigners) {
+      return this.treasury.publicKey;
+    }
+
+    const keys = [this.treasury.publicKey, ...coSigners.publicKeys.map(key => PublicKey.fromString(key))];
+    if (!Number.isInteger(coSigners.threshold) || coSigners.threshold < 2 || coSigners.threshold > keys.length) {
+      throw new Error(`Supply threshold must be between 2 and ${keys.length} signatures, got ${coSigners.threshold}`);
+    }
+    return KeyList.of(...keys).setThreshold(coSigners.threshold);
   }
 
-  // Helper methods for database operations (implement with your DB client)
-  private async storeTokenMetadata(metadata: any): Promise<void> {
-    // e.g., await prisma.token.create({ data: metadata });
-    console.log('Stored metadata:', metadata);
+  private scheduler(): HederaScheduleService {
+    if (!this.schedules) {
+      this.schedules = new HederaScheduleService(this.network);
+    }
+    return this.schedules;
   }
 
-  private async recordTokenTransfer(transfer: any): Promise<void> {
-    // e.g., await prisma.transfer.create({ data: transfer });
-    console.log('Recorded transfer:', transfer);
+  private compliance(): HederaConsensusService {
+    if (!this.consensus) {
+      this.consensus = new HederaConsensusService(this.network);
+    }
+    return this.consensus;
   }
 }
 
@@ -305,19 +714,75 @@ interface TransferResult {
   success: boolean;
   transactionId: string;
   status: string;
+  amount: TokenAmount;
   explorerUrl: string;
 }
 
 interface MintResult {
   success: boolean;
   tokenId: string;
-  amountMinted: number;
+  amountMinted: TokenAmount;
   transactionId: string;
 }
 
 interface BurnResult {
   success: boolean;
   tokenId: string;
-  amountBurned: number;
+  amountBurned: TokenAmount;
+  transactionId: string;
+}
+
+export interface SupplyCoSigners {
+  publicKeys: string[]; // Co-signers besides the treasury
+  threshold: number; // Signatures needed, counting the treasury's
+}
+
+export interface TokenComplianceContext {
+  userId?: string; // Platform user the control concerns; defaults to the account id
+  reason?: string; // Recorded in the compliance event
+}
+
+export interface TokenComplianceResult {
+  success: boolean;
+  tokenId: string;
+  accountId: string | null; // Null for token-wide controls (pause/unpause)
+  transactionId: string;
+  status: string;
+  complianceEvent: MessageSubmitResult | null; // Null if the event could not be logged
+  explorerUrl: string;
+}
+
+export interface AccountTokenStatus {
+  accountId: string;
+  tokenId: string;
+  associated: boolean;
+  kycStatus: 'GRANTED' | 'REVOKED' | 'NOT_APPLICABLE'; // NOT_APPLICABLE without a KYC key
+  freezeStatus: 'FROZEN' | 'UNFROZEN' | 'NOT_APPLICABLE'; // NOT_APPLICABLE without a freeze key
+  paused: boolean;
+  balance: TokenAmount;
+}
+
+export interface CustomFeeUpdateResult {
+  success: boolean;
+  tokenId: string;
+  customFees: TokenCustomFee[];
   transactionId: string;
-}
\ No newline at end of file
+  status: string;
+  explorerUrl: string;
+}
+
+export interface PreviewedCustomFee {
+  kind: TokenCustomFee['kind'];
+  payerAccountId: string;
+  collectorAccountId: string;
+  asset: string; // HBAR or a token id
+  amount: TokenAmount;
+  deductedFromTransfer: boolean; // Taken out of the amount moved (fractional) or the seller's payment (royalty)
+}
+
+export interface TransferFeePreview {
+  tokenId: string;
+  amount: TokenAmount; // As sent by the sender
+  amountReceived: TokenAmount; // After fractional fees deducted from the transfer
+  fees: PreviewedCustomFee[];
+}
@@ -0,0 +1,148 @@
+// services/hedera/tontine-audit.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { HederaConsensusService, TontineActivityInput, tontineActivityData } from './consensus.service';
+import { HcsEvent } from './event-schemas';
+import { HederaSmartContractService } from './smart-contract.service';
+import { TontineAuditVerifier } from './tontine-audit.service';
+
+describe('TontineAuditVerifier', () => {
+  let env: TestEnvironment;
+  let consensus: HederaConsensusService;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    consensus = new HederaConsensusService(env.simulator);
+  });
+
+  afterEach(() => env.cleanup());
+
+  // Envelopes as the outbox builds them, with an eventId per recorded event
+  const event = (eventId: string, activity: Omit<TontineActivityInput, 'tontineId'>): HcsEvent =>
+    ({ ...consensus.buildEvent('TONTINE_ACTIVITY', tontineActivityData({ tontineId: 'circle-1', ...activity })), eventId });
+
+  const logCycle = async (payout: HcsEvent) => {
+    await consensus.submitEvent(event('e-1', { activityType: 'CREATED', metadata: { name: 'Circle', monthlyAmount: 100, totalMembers: 2 } }));
+    await consensus.submitEvent(event('e-2', { activityType: 'MEMBER_JOINED', userId: 'user-1', metadata: { position: 1 } }));
+    await consensus.submitEvent(event('e-3', { activityType: 'MEMBER_JOINED', userId: 'user-2', metadata: { position: 2 } }));
+    await consensus.submitEvent(event('e-4', { activityType: 'CONTRIBUTION', userId: 'user-1', amount: 100, cycle: 1 }));
+    const contribution = event('e-5', { activityType: 'CONTRIBUTION', userId: 'user-2', amount: 100, cycle: 1 });
+    await consensus.submitEvent(contribution);
+    await consensus.submitEvent(contribution); // Redelivered
+    await consensus.submitEvent(payout);
+  };
+
+  test('replays an event delivered twice only once', async () => {
+    const payout = event('e-6', { activityType: 'PAYOUT', userId: 'user-1', amount: 200, cycle: 1 });
+    await logCycle(payout);
+    await consensus.submitEvent(payout); // Redelivered
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.deepEqual(report.anomalies, []);
+    assert.equal(report.verified, true);
+    assert.equal(report.state.entriesReplayed, 6);
+    assert.equal(report.state.redeliveriesSkipped, 2);
+    assert.equal(report.state.totalContributed, 200n);
+    assert.equal(report.state.totalPaidOut, 200n);
+  });
+
+  test('still flags a second payout recorded as a separate event', async () => {
+    await logCycle(event('e-6', { activityType: 'PAYOUT', userId: 'user-1', amount: 200, cycle: 1 }));
+    await consensus.submitEvent(event('e-7', { activityType: 'PAYOUT', userId: 'user-2', amount: 200, cycle: 1 }));
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.equal(report.verified, false);
+    assert.deepEqual(report.anomalies.map(anomaly => anomaly.code), ['DUPLICATE_PAYOUT']);
+  });
+
+  test('flags positions taken twice and payouts that do not match the contributions', async () => {
+    const log = (activity: Omit<TontineActivityInput, 'tontineId'>) => consensus.logTontineActivity({ tontineId: 'circle-1', ...activity });
+    await log({ activityType: 'CREATED', metadata: { monthlyAmount: 100, totalMembers: 2 } });
+    await log({ activityType: 'MEMBER_JOINED', userId: 'user-1', metadata: { position: 1 } });
+    await log({ activityType: 'MEMBER_JOINED', userId: 'user-2', metadata: { position: 1 } });
+    await log({ activityType: 'CONTRIBUTION', userId: 'user-1', amount: 100, cycle: 1 });
+    await log({ activityType: 'PAYOUT', userId: 'user-1', amount: 200, cycle: 1 });
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.deepEqual(report.anomalies.map(anomaly => anomaly.code), [
+      'DUPLICATE_POSITION',
+      'PAYOUT_BEFORE_ALL_CONTRIBUTIONS',
+      'PAYOUT_AMOUNT_MISMATCH'
+    ]);
+    assert.deepEqual(report.state.members.map(member => member.position), [1]);
+  });
+
+  test('counts members rather than contributions before a payout', async () => {
+    const log = (activity: Omit<TontineActivityInput, 'tontineId'>) => consensus.logTontineActivity({ tontineId: 'circle-1', ...activity });
+    await log({ activityType: 'CREATED', metadata: { monthlyAmount: 100, totalMembers: 2 } });
+    await log({ activityType: 'MEMBER_JOINED', userId: 'user-1', metadata: { position: 1 } });
+    await log({ activityType: 'MEMBER_JOINED', userId: 'user-2', metadata: { position: 2 } });
+    await log({ activityType: 'CONTRIBUTION', userId: 'user-1', amount: 100, cycle: 1 });
+    await log({ activityType: 'CONTRIBUTION', userId: 'user-1', amount: 100, cycle: 1 });
+    await log({ activityType: 'PAYOUT', userId: 'user-1', amount: 200, cycle: 1 });
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.deepEqual(report.anomalies.map(anomaly => anomaly.code), ['DUPLICATE_CONTRIBUTION', 'PAYOUT_BEFORE_ALL_CONTRIBUTIONS']);
+  });
+
+  test('rejects amounts that are not whole base units', async () => {
+    await consensus.logTontineActivity({ tontineId: 'circle-1', activityType: 'CREATED', metadata: { totalMembers: 1 } });
+    await consensus.logTontineActivity({ tontineId: 'circle-1', activityType: 'CONTRIBUTION', userId: 'user-1', amount: 0.1, cycle: 1 });
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.deepEqual(report.anomalies.map(anomaly => anomaly.code), ['INVALID_ENTRY']);
+    assert.equal(report.state.totalContributed, 0n);
+  });
+
+  test('reports entries it cannot read instead of skipping them', async () => {
+    await consensus.logTontineActivity({ tontineId: 'circle-1', activityType: 'CREATED', metadata: { totalMembers: 2 } });
+    env.simulator.getTopicMessages(env.topicId('TONTINES'))[0].message = Buffer.from('{}');
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.equal(report.verified, false);
+    assert.deepEqual(report.anomalies.map(anomaly => [anomaly.code, anomaly.sequenceNumber]), [['UNVERIFIABLE_ENTRY', 1]]);
+  });
+
+  test('leaves unreadable entries of other circles to their own audits', async () => {
+    await consensus.logTontineActivity({ tontineId: 'circle-1', activityType: 'CREATED', metadata: { totalMembers: 2 } });
+    const malformed = (tontineId: string) => new TopicMessageSubmitTransaction()
+      .setTopicId(env.topicId('TONTINES'))
+      .setMessage(JSON.stringify({ type: 'TONTINE_ACTIVITY', schemaVersion: 1, timestamp: new Date().toISOString(), data: { tontineId } }));
+    const ledger = env.simulator.connect(env.operator.signer);
+    await ledger.submitTopicMessage(malformed('circle-2'));
+    await ledger.submitTopicMessage(malformed('circle-1'));
+
+    const report = await new TontineAuditVerifier(env.simulator).verifyTontine('circle-1');
+
+    assert.deepEqual(report.anomalies.map(anomaly => [anomaly.code, anomaly.sequenceNumber]), [['UNVERIFIABLE_ENTRY', 3]]);
+  });
+
+  test('cross-checks the replayed state against the tontine contract', async () => {
+    const contracts = new HederaSmartContractService(env.simulator);
+    const { tontineContractId } = await contracts.createTontineCircle({
+      name: 'Lagos circle',
+      monthlyAmount: 1_000_000,
+      totalMembers: 3,
+      cycleDuration: 2_592_000
+    });
+    await contracts.joinTontineCircle(tontineContractId, 1);
+    const log = (activity: Omit<TontineActivityInput, 'tontineId'>) => consensus.logTontineActivity({ tontineId: tontineContractId, ...activity });
+    await log({ activityType: 'CREATED', metadata: { name: 'Lagos circle', monthlyAmount: 1_000_000, totalMembers: 3 } });
+    await log({ activityType: 'MEMBER_JOINED', userId: 'user-1', metadata: { position: 1 } });
+
+    const verifier = new TontineAuditVerifier(env.simulator);
+    assert.deepEqual((await verifier.verifyTontine(tontineContractId)).anomalies, []);
+
+    await contracts.joinTontineCircle(tontineContractId, 2); // Not logged
+    const report = await verifier.verifyTontine(tontineContractId);
+    assert.deepEqual(report.anomalies.map(anomaly => anomaly.message), ['members: audit trail has 1, contract has 2']);
+  });
+});
@@ -0,0 +1,359 @@
+// services/hedera/tontine-audit.service.ts
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { TontineActivityEntry } from './hcs-messages';
+import { HederaSmartContractService, TontineStatus } from './smart-contract.service';
+import { HederaTopicReader, TopicLogEntry, TopicReaderOptions } from './topic-reader.service';
+
+/**
+ * Replays the tontines HCS topic for one circle, rebuilds its state from the
+ * logged activity and flags anything that breaks the circle's rules. When a
+ * contract id is given the rebuilt state is also compared with the contract.
+ * Outbox redeliveries (entries repeating an `eventId`) are replayed once.
+ * Amounts are whole base units (tinybars) and are summed as bigints.
+ */
+export class TontineAuditVerifier {
+  private network: HederaNetwork;
+  private reader: HederaTopicReader;
+  private contractService: HederaSmartContractService | null = null;
+
+  constructor(network: HederaNetwork = hederaNetworkFromEnv(), options: TopicReaderOptions = {}) {
+    this.network = network;
+    this.reader = new HederaTopicReader(network, options);
+  }
+
+  async verifyTontine(
+    tontineId: string,
+    options: {
+      contractId?: string; // Defaults to tontineId when it is a contract id
+      topicId?: string;
+    } = {}
+  ): Promise<TontineAuditReport> {
+    const topicId = options.topicId || process.env.HCS_TONTINES_TOPIC_ID;
+    if (!topicId) {
+      throw new Error('Tontines topic not initialized');
+    }
+
+    const anomalies: TontineAuditAnomaly[] = [];
+    const activity: { entry: TontineActivityEntry; log: TopicLogEntry }[] = [];
+    const seenEventIds = new Set<string>();
+    let redeliveries = 0;
+
+    for await (const log of this.reader.readMessages(topicId)) {
+      if (log.status !== 'ok') {
+        // Unreadable entries of other circles are their audits' concern
+        const circle = circleOf(log.payload);
+        if (circle !== null && circle !== tontineId) {
+          continue;
+        }
+        anomalies.push({
+          code: 'UNVERIFIABLE_ENTRY',
+          message: `Entry at sequence ${log.sequenceNumber} is ${log.status}: ${log.error}`,
+          sequenceNumber: log.sequenceNumber
+        });
+        continue;
+      }
+      if (log.entry!.type !== 'TONTINE_ACTIVITY' || log.entry!.data.tontineId !== tontineId) {
+        continue;
+      }
+
+      const eventId = log.entry!.eventId;
+      if (eventId) {
+        if (seenEventIds.has(eventId)) {
+          redeliveries++;
+          continue;
+        }
+        seenEventIds.add(eventId);
+      }
+      activity.push({ entry: log.entry as TontineActivityEntry, log });
+    }
+
+    const contractId = options.contractId || (/^\d+\.\d+\.\d+$/.test(tontineId) ? tontineId : undefined);
+    const contractStatus = contractId ? await this.getContractStatus(contractId) : null;
+
+    const state = replay(tontineId, activity, contractStatus, anomalies);
+    state.redeliveriesSkipped = redeliveries;
+
+    if (contractStatus) {
+      crossCheck(state, contractStatus, anomalies);
+    }
+
+    if (anomalies.length === 0) {
+      console.log(`✅ Tontine ${tontineId} audit trail verified (${state.entriesReplayed} entries)`);
+    } else {
+      console.warn(`Tontine ${tontineId} audit trail has ${anomalies.length} anomalies`);
+    }
+
+    return {
+      tontineId,
+      topicId,
+      verified: anomalies.length === 0,
+      state,
+      anomalies,
+      contractStatus
+    };
+  }
+
+  private async getContractStatus(contractId: string): Promise<TontineStatus> {
+    if (!this.contractService) {
+      this.contractService = new HederaSmartContractService(this.network);
+    }
+    return this.contractService.getTontineStatus(contractId);
+  }
+}
+
+function replay(
+  tontineId: string,
+  activity: { entry: TontineActivityEntry; log: TopicLogEntry }[],
+  contractStatus: TontineStatus | null,
+  anomalies: TontineAuditAnomaly[]
+): TontineAuditState {
+  const state: TontineAuditState = {
+    tontineId,
+    name: null,
+    monthlyAmount: null,
+    totalMembers: null,
+    created: false,
+    completed: false,
+    members: [],
+    cycles: [],
+    totalContributed: 0n,
+    totalPaidOut: 0n,
+    entriesReplayed: activity.length,
+    redeliveriesSkipped: 0
+  };
+
+  let lastSequence = 0;
+  let lastTimestamp = '';
+
+  for (const { entry, log } of activity) {
+    const { data } = entry;
+    const sequenceNumber = log.sequenceNumber;
+    const flag = (code: TontineAnomalyCode, message: string, cycle?: number) =>
+      anomalies.push({ code, message, sequenceNumber, cycle });
+
+    if (sequenceNumber <= lastSequence || log.consensusTimestamp < lastTimestamp) {
+      flag('OUT_OF_ORDER', `Sequence ${sequenceNumber} arrived after sequence ${lastSequence}`);
+    }
+    lastSequence = Math.max(lastSequence, sequenceNumber);
+    lastTimestamp = log.consensusTimestamp > lastTimestamp ? log.consensusTimestamp : lastTimestamp;
+
+    if (!state.created && data.activityType !== 'CREATED') {
+      flag('MISSING_CREATED', `${data.activityType} logged before the tontine was created`);
+    }
+    if (state.completed) {
+      flag('EVENT_AFTER_COMPLETION', `${data.activityType} logged after the tontine completed`);
+    }
+
+    switch (data.activityType) {
+      case 'CREATED': {
+        if (state.created) {
+          flag('DUPLICATE_CREATED', 'Tontine created more than once');
+          break;
+        }
+        state.created = true;
+        state.name = data.metadata?.name ?? null;
+        state.monthlyAmount = data.metadata?.monthlyAmount ?? contractStatus?.monthlyAmount ?? null;
+        state.totalMembers = data.metadata?.totalMembers ?? contractStatus?.totalMembers ?? null;
+        break;
+      }
+
+      case 'MEMBER_JOINED': {
+        const position = data.metadata?.position;
+        if (typeof position !== 'number' || position < 1 || (state.totalMembers !== null && position > state.totalMembers)) {
+          flag('INVALID_POSITION', `Member joined with invalid position ${position}`);
+          break;
+        }
+        if (state.members.some(m => m.position === position)) {
+          flag('DUPLICATE_POSITION', `Position ${position} taken more than once`);
+          break;
+        }
+        state.members.push({ position, userId: data.userId, sequenceNumber });
+        break;
+      }
+
+      case 'CONTRIBUTION': {
+        const amount = baseUnits(data.amount);
+        if (typeof data.cycle !== 'number' || amount === null) {
+          flag('INVALID_ENTRY', 'Contribution without cycle or whole amount');
+          break;
+        }
+        const cycle = cycleState(state, data.cycle);
+        if (cycle.payout) {
+          flag('CONTRIBUTION_AFTER_PAYOUT', `Contribution to cycle ${data.cycle} after its payout`, data.cycle);
+        }
+        if (data.userId !== null && cycle.contributions.some(c => c.userId === data.userId)) {
+          flag('DUPLICATE_CONTRIBUTION', `${data.userId} contributed to cycle ${data.cycle} more than once`, data.cycle);
+        }
+        if (state.monthlyAmount !== null && amount !== baseUnits(state.monthlyAmount)) {
+          flag('CONTRIBUTION_AMOUNT_MISMATCH', `Contribution of ${amount}, expected ${state.monthlyAmount}`, data.cycle);
+        }
+        cycle.contributions.push({ userId: data.userId, amount, sequenceNumber });
+        cycle.contributedAmount += amount;
+        state.totalContributed += amount;
+        break;
+      }
+
+      case 'PAYOUT': {
+        const amount = baseUnits(data.amount);
+        if (typeof data.cycle !== 'number' || amount === null) {
+          flag('INVALID_ENTRY', 'Payout without cycle or whole amount');
+          break;
+        }
+        const cycle = cycleState(state, data.cycle);
+        if (cycle.payout) {
+          flag('DUPLICATE_PAYOUT', `Cycle ${data.cycle} paid out more than once`, data.cycle);
+          break;
+        }
+
+        const expectedContributors = state.totalMembers ?? state.members.length;
+        const contributors = contributorCount(cycle);
+        if (contributors < expectedContributors) {
+          flag(
+            'PAYOUT_BEFORE_ALL_CONTRIBUTIONS',
+            `Cycle ${data.cycle} paid out after contributions from ${contributors} of ${expectedContributors} members`,
+            data.cycle
+          );
+        }
+        if (amount !== cycle.contributedAmount) {
+          flag(
+            'PAYOUT_AMOUNT_MISMATCH',
+            `Cycle ${data.cycle} paid out ${amount} but contributions total ${cycle.contributedAmount}`,
+            data.cycle
+          );
+        }
+
+        cycle.payout = { userId: data.userId, amount, sequenceNumber };
+        state.totalPaidOut += amount;
+        break;
+      }
+
+      case 'COMPLETED': {
+        state.completed = true;
+
+        const expectedCycles = data.metadata?.totalCycles ?? data.cycle ?? state.totalMembers;
+        const paidCycles = state.cycles.filter(c => c.payout).length;
+        if (typeof expectedCycles === 'number' && paidCycles !== expectedCycles) {
+          flag('MISSING_CYCLE', `Completed after ${paidCycles} paid cycles, expected ${expectedCycles}`);
+        }
+
+        const totalDistributed = data.metadata?.totalDistributed;
+        if (typeof totalDistributed === 'number' && baseUnits(totalDistributed) !== state.totalPaidOut) {
+          flag('TOTAL_MISMATCH', `Completion reports ${totalDistributed} distributed but payouts total ${state.totalPaidOut}`);
+        }
+        break;
+      }
+    }
+  }
+
+  state.cycles.sort((a, b) => a.cycle - b.cycle);
+  state.cycles.forEach((cycle, index) => {
+    if (cycle.cycle !== index + 1) {
+      anomalies.push({ code: 'MISSING_CYCLE', message: `Cycle ${index + 1} has no activity before cycle ${cycle.cycle}`, cycle: index + 1 });
+    }
+  });
+
+  return state;
+}
+
+// Logged amounts are JSON numbers; null when missing or not a whole number of base units
+function baseUnits(amount: number | undefined): bigint | null {
+  return typeof amount === 'number' && Number.isSafeInteger(amount) ? BigInt(amount) : null;
+}
+
+// Members who contributed to a cycle; contributions logged without a user count once each
+function contributorCount(cycle: TontineCycleState): number {
+  const anonymous = cycle.contributions.filter(c => c.userId === null).length;
+  return new Set(cycle.contributions.filter(c => c.userId !== null).map(c => c.userId)).size + anonymous;
+}
+
+// The circle an unreadable entry's payload names, or null when it names none
+function circleOf(payload: string | null): string | null {
+  try {
+    const tontineId = payload ? JSON.parse(payload)?.data?.tontineId : undefined;
+    return typeof tontineId === 'string' ? tontineId : null;
+  } catch {
+    return null;
+  }
+}
+
+function cycleState(state: TontineAuditState, cycle: number): TontineCycleState {
+  let existing = state.cycles.find(c => c.cycle === cycle);
+  if (!existing) {
+    existing = { cycle, contributions: [], contributedAmount: 0n, payout: null };
+    state.cycles.push(existing);
+  }
+  return existing;
+}
+
+function crossCheck(state: TontineAuditState, status: TontineStatus, anomalies: TontineAuditAnomaly[]): void {
+  const mismatch = (field: string, logged: unknown, onChain: unknown) => anomalies.push({
+    code: 'CONTRACT_MISMATCH',
+    message: `${field}: audit trail has ${logged}, contract has ${onChain}`
+  });
+
+  if (state.name !== null && state.name !== status.name) mismatch('name', state.name, status.name);
+  if (state.monthlyAmount !== status.monthlyAmount) mismatch('monthlyAmount', state.monthlyAmount, status.monthlyAmount);
+  if (state.totalMembers !== status.totalMembers) mismatch('totalMembers', state.totalMembers, status.totalMembers);
+  if (state.members.length !== status.currentMembers) mismatch('members', state.members.length, status.currentMembers);
+
+  const loggedCycle = state.cycles.filter(c => c.payout).length + 1;
+  if (loggedCycle !== status.currentCycle) mismatch('currentCycle', loggedCycle, status.currentCycle);
+  if (state.completed === status.isActive) mismatch('isActive', !state.completed, status.isActive);
+}
+
+export type TontineAnomalyCode =
+  | 'UNVERIFIABLE_ENTRY'
+  | 'OUT_OF_ORDER'
+  | 'MISSING_CREATED'
+  | 'DUPLICATE_CREATED'
+  | 'EVENT_AFTER_COMPLETION'
+  | 'INVALID_ENTRY'
+  | 'INVALID_POSITION'
+  | 'DUPLICATE_POSITION'
+  | 'CONTRIBUTION_AFTER_PAYOUT'
+  | 'CONTRIBUTION_AMOUNT_MISMATCH'
+  | 'DUPLICATE_CONTRIBUTION'
+  | 'PAYOUT_BEFORE_ALL_CONTRIBUTIONS'
+  | 'PAYOUT_AMOUNT_MISMATCH'
+  | 'DUPLICATE_PAYOUT'
+  | 'MISSING_CYCLE'
+  | 'TOTAL_MISMATCH'
+  | 'CONTRACT_MISMATCH';
+
+export interface TontineAuditAnomaly {
+  code: TontineAnomalyCode;
+  message: string;
+  sequenceNumber?: number;
+  cycle?: number;
+}
+
+export interface TontineAuditState {
+  tontineId: string;
+  name: string | null;
+  monthlyAmount: number | null;
+  totalMembers: number | null;
+  created: boolean;
+  completed: boolean;
+  members: { position: number; userId: string | null; sequenceNumber: number }[];
+  cycles: TontineCycleState[];
+  totalContributed: bigint; // Base units
+  totalPaidOut: bigint;
+  entriesReplayed: number;
+  redeliveriesSkipped: number; // Entries repeating the eventId of one already replayed
+}
+
+export interface TontineCycleState {
+  cycle: number;
+  contributions: { userId: string | null; amount: bigint; sequenceNumber: number }[];
+  contributedAmount: bigint;
+  payout: { userId: string | null; amount: bigint; sequenceNumber: number } | null;
+}
+
+export interface TontineAuditReport {
+  tontineId: string;
+  topicId: string;
+  verified: boolean;
+  state: TontineAuditState;
+  anomalies: TontineAuditAnomaly[];
+  contractStatus: TontineStatus | null;
+}
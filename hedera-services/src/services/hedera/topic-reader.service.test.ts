@@ -0,0 +1,144 @@
+// services/hedera/topic-reader.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import * as crypto from 'crypto';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { decryptEnvelope, parseEnvelope } from '../../utils/encryption';
+import { EncryptionKeyring } from '../../utils/keyring';
+import { Pseudonymizer } from '../../utils/pseudonymizer';
+import { FileUserKeyStore } from '../../utils/user-key-store';
+import { HederaConsensusService, TransactionLogInput } from './consensus.service';
+import { HederaTopicReader, TopicLogEntry } from './topic-reader.service';
+
+describe('HederaTopicReader', () => {
+  let env: TestEnvironment;
+  let consensus: HederaConsensusService;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    consensus = new HederaConsensusService(env.simulator);
+  });
+
+  afterEach(() => env.cleanup());
+
+  test('reads plaintext entries in consensus order', async () => {
+    await consensus.logTransaction(walletTransaction('tx-1'));
+    await consensus.logTransaction(walletTransaction('tx-2'));
+
+    const entries = await new HederaTopicReader(env.simulator).getMessages(env.topicId('TRANSACTIONS'));
+
+    assert.deepEqual(entries.map(entry => entry.status), ['ok', 'ok']);
+    assert.deepEqual(entries.map(entry => entry.entry!.data.transactionId), ['tx-1', 'tx-2']);
+    assert.equal(entries[0].encrypted, false);
+  });
+
+  test('decrypts both layers of a compliance event', async () => {
+    await consensus.logComplianceEvent({ userId: 'user-1', eventType: 'KYC_COMPLETED', result: 'PASSED' });
+
+    const [entry] = await new HederaTopicReader(env.simulator).getMessages(env.topicId('COMPLIANCE'));
+
+    assert.equal(entry.status, 'ok');
+    assert.equal(entry.encrypted, true);
+    assert.ok(entry.subjectKeyId);
+    assert.equal(entry.entry!.data.result, 'PASSED');
+    assert.notEqual(entry.entry!.data.userId, 'user-1'); // Pseudonymized
+  });
+
+  test('reports the entries of an erased data subject as erased', async () => {
+    await consensus.logComplianceEvent({ userId: 'user-1', eventType: 'KYC_COMPLETED', result: 'PASSED' });
+    await consensus.logComplianceEvent({ userId: 'user-2', eventType: 'KYC_COMPLETED', result: 'PASSED' });
+
+    const subject = new Pseudonymizer(process.env.HCS_PSEUDONYM_SECRET!).pseudonymize('user-1', 'user');
+    assert.equal(await FileUserKeyStore.fromEnv(EncryptionKeyring.fromEnv())!.deleteKey(subject), true);
+
+    const entries = await new HederaTopicReader(env.simulator).getMessages(env.topicId('COMPLIANCE'));
+    assert.deepEqual(entries.map(entry => entry.status), ['erased', 'ok']);
+    assert.equal(entries[0].payload, null);
+  });
+
+  test('reports entries it has no key for as undecryptable', async () => {
+    await consensus.logComplianceEvent({ userId: 'user-1', eventType: 'KYC_COMPLETED', result: 'PASSED' });
+    const keyring = new EncryptionKeyring([{ id: 'hcs', version: 1, key: crypto.randomBytes(32).toString('hex'), status: 'active' }]);
+
+    const [entry] = await new HederaTopicReader(env.simulator, { keyring }).getMessages(env.topicId('COMPLIANCE'));
+
+    assert.equal(entry.status, 'undecryptable');
+    assert.equal(entry.payload, null);
+  });
+
+  test('flags a message whose running hash does not match its contents', async () => {
+    await consensus.logTransaction(walletTransaction('tx-1'));
+    await consensus.logTransaction(walletTransaction('tx-2'));
+    const topicId = env.topicId('TRANSACTIONS');
+    env.simulator.getTopicMessages(topicId)[1].message = Buffer.from('{"forged":true}');
+
+    const entries = await new HederaTopicReader(env.simulator).getMessages(topicId);
+
+    assert.deepEqual(entries.map(entry => entry.status), ['ok', 'tampered']);
+    assert.match(entries[1].error!, /Running hash mismatch at sequence 2/);
+  });
+
+  test('exports encrypted entries under the active key, keeping the subject layer and leaving out erased ones', async () => {
+    await consensus.logComplianceEvent({ userId: 'user-1', eventType: 'KYC_COMPLETED', result: 'PASSED' });
+    await consensus.logComplianceEvent({ userId: 'user-2', eventType: 'KYC_COMPLETED', result: 'FAILED' });
+    const keyring = EncryptionKeyring.fromEnv();
+    const userKeys = FileUserKeyStore.fromEnv(keyring)!;
+    await userKeys.deleteKey(new Pseudonymizer(process.env.HCS_PSEUDONYM_SECRET!).pseudonymize('user-2', 'user'));
+    const rotated = keyring.rotate('hcs');
+    const reader = new HederaTopicReader(env.simulator, { keyring, userKeys });
+
+    const exported = [];
+    for await (const entry of reader.exportReencrypted(env.topicId('COMPLIANCE'))) {
+      exported.push(entry);
+    }
+
+    assert.equal(exported.length, 1);
+    assert.equal(parseEnvelope(exported[0].payload)!.keyVersion, rotated.version);
+    const inner = keyring.decrypt(exported[0].payload);
+    assert.ok(parseEnvelope(inner));
+    assert.match(decryptEnvelope(inner, (await userKeys.findKey(parseEnvelope(inner)!.keyId))!), /"result":"PASSED"/);
+  });
+
+  test('hands an entry over again after its handler throws, without repeating or skipping others', async () => {
+    for (const id of ['tx-1', 'tx-2', 'tx-3']) {
+      await consensus.logTransaction(walletTransaction(id));
+    }
+    const delivered: number[] = [];
+    const errors: Error[] = [];
+    let failed = false;
+
+    const subscription = new HederaTopicReader(env.simulator).subscribe(
+      env.topicId('TRANSACTIONS'),
+      (entry: TopicLogEntry) => {
+        delivered.push(entry.sequenceNumber);
+        if (entry.sequenceNumber === 2 && !failed) {
+          failed = true;
+          throw new Error('handler failed');
+        }
+      },
+      { pollIntervalMs: 5, onError: error => errors.push(error) }
+    );
+    try {
+      await waitFor(() => delivered.length >= 4);
+      await consensus.logTransaction(walletTransaction('tx-4'));
+      await waitFor(() => delivered.includes(4));
+    } finally {
+      subscription.unsubscribe();
+    }
+
+    assert.deepEqual(delivered, [1, 2, 2, 3, 4]);
+    assert.deepEqual(errors.map(error => error.message), ['handler failed']);
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the subscription');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+function walletTransaction(transactionId: string): TransactionLogInput {
+  return { transactionId, userId: 'user-1', type: 'TRANSFER', amount: 100, currency: 'NGN', recipientId: 'user-2', status: 'COMPLETED' };
+}
@@ -0,0 +1,427 @@
+// services/hedera/topic-reader.service.ts
+import { decryptEnvelope, encryptEnvelope, parseEnvelope } from '../../utils/encryption';
+import { EncryptionKeyring, isEncrypted } from '../../utils/keyring';
+import { MirrorNodeClient, MirrorTopicMessage } from '../../utils/mirror-node-client';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { computeRunningHash, EMPTY_RUNNING_HASH, RUNNING_HASH_VERSION } from '../../utils/running-hash';
+import { FileUserKeyStore, UserKeyStore } from '../../utils/user-key-store';
+import { EventSchemaRegistry, HcsEvent } from './event-schemas';
+import { defaultEventSchemas } from './hcs-messages';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Reads AfriOne log entries back from HCS topics through the mirror node REST API.
+ * Chunked messages are reassembled, encrypted payloads decrypted and every message
+ * is checked against the topic running hash. Problems are reported per entry via
+ * `status` instead of being thrown, so one bad entry never stops a read.
+ */
+export class HederaTopicReader {
+  private mirror: MirrorNodeClient;
+  private keyring: EncryptionKeyring | null;
+  private userKeys: UserKeyStore | null;
+  private schemas: EventSchemaRegistry;
+
+  constructor(network: HederaNetwork = hederaNetworkFromEnv(), options: TopicReaderOptions = {}) {
+    this.mirror = MirrorNodeClient.forNetwork(network);
+    this.keyring = options.keyring ?? keyringFromEnv();
+    this.userKeys = options.userKeys !== undefined
+      ? options.userKeys
+      : (this.keyring ? FileUserKeyStore.fromEnv(this.keyring) : null);
+    this.schemas = options.schemas ?? defaultEventSchemas;
+  }
+
+  /**
+   * Streams the entries of a historical range in consensus order. Chunk groups
+   * that are still missing chunks at the end of the range are yielded as `incomplete`.
+   */
+  async *readMessages(topicId: string, range: TopicMessageRange = {}): AsyncGenerator<TopicLogEntry> {
+    const assembler = new ChunkAssembler();
+    let verifier: RunningHashVerifier | null = null;
+    let read = 0;
+
+    const messages = this.mirror.listTopicMessages(topicId, {
+      fromSequence: range.fromSequence,
+      toSequence: range.toSequence,
+      timestamp: { from: range.fromTimestamp, to: range.toTimestamp }
+    });
+    for await (const raw of messages) {
+      if (!verifier) {
+        verifier = new RunningHashVerifier(await this.previousRunningHash(topicId, raw.sequence_number));
+      }
+      const message = toTopicMessage(raw, verifier.verify(raw));
+
+      for (const group of assembler.add(message)) {
+        yield await this.toLogEntry(group);
+        if (range.limit && ++read >= range.limit) return;
+      }
+    }
+
+    for (const group of assembler.drain()) {
+      yield await this.toLogEntry(group, 'Missing chunks at the end of the requested range');
+      if (range.limit && ++read >= range.limit) return;
+    }
+  }
+
+  /**
+   * Collects a historical range into an array
+   */
+  async getMessages(topicId: string, range: TopicMessageRange = {}): Promise<TopicLogEntry[]> {
+    const entries: TopicLogEntry[] = [];
+    for await (const entry of this.readMessages(topicId, range)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Re-encrypts the encrypted entries of a range under the keyring's active key, for an
+   * off-ledger archive that stays readable after the keys the entries were written with are destroyed
+   */
+  async *exportReencrypted(topicId: string, range: TopicMessageRange = {}): AsyncGenerator<ReencryptedTopicEntry> {
+    if (!this.keyring) {
+      throw new Error('No encryption keyring configured');
+    }
+
+    for await (const entry of this.readMessages(topicId, range)) {
+      // Erased entries have no payload and stay out of the archive
+      if (!entry.encrypted || entry.payload === null) continue;
+
+      // Keep the subject layer so erasing the subject also shreds the archive copy
+      let payload = entry.payload;
+      if (entry.subjectKeyId) {
+        if (!this.userKeys) {
+          throw new Error(`Entry ${entry.sequenceNumber} of ${topicId} has a subject layer but no user key store is configured`);
+        }
+        const key = await this.userKeys.findKey(entry.subjectKeyId);
+        if (!key) {
+          console.warn(`Skipping entry ${entry.sequenceNumber} of ${topicId}: data key ${entry.subjectKeyId} was erased during the export`);
+          continue;
+        }
+        payload = encryptEnvelope(payload, key);
+      }
+
+      yield {
+        topicId: entry.topicId,
+        sequenceNumber: entry.sequenceNumber,
+        consensusTimestamp: entry.consensusTimestamp,
+        runningHash: entry.runningHash,
+        status: entry.status,
+        payload: this.keyring.encrypt(payload)
+      };
+    }
+  }
+
+  /**
+   * Live subscription: polls the mirror node for messages after the last one handled
+   * and hands each completed entry to `handler`. Chunk groups stay pending until
+   * their remaining chunks arrive. The cursor only moves past an entry once its
+   * handler resolves: an entry whose handler throws is handed over again on the
+   * next poll, and entries handled after it in the meantime are not.
+   */
+  subscribe(
+    topicId: string,
+    handler: (entry: TopicLogEntry) => void | Promise<void>,
+    options: {
+      fromSequence?: number;
+      pollIntervalMs?: number;
+      onError?: (error: Error) => void;
+    } = {}
+  ): TopicSubscription {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    let nextSequence = options.fromSequence ?? 1; // First message whose entry hasn't been handled
+    const handled = new Set<number>(); // Entries at or after nextSequence already handled, by last sequence number
+    let active = true;
+    let timer: NodeJS.Timeout | null = null;
+
+    const poll = async () => {
+      // Every poll starts over at the cursor, so chunks of pending groups are read again
+      const assembler = new ChunkAssembler();
+      let verifier: RunningHashVerifier | null = null;
+
+      try {
+        for await (const raw of this.mirror.listTopicMessages(topicId, { fromSequence: nextSequence })) {
+          if (!active) break;
+          if (!verifier) {
+            verifier = new RunningHashVerifier(await this.previousRunningHash(topicId, raw.sequence_number));
+          }
+          const message = toTopicMessage(raw, verifier.verify(raw));
+
+          for (const group of assembler.add(message)) {
+            const sequenceNumber = group[group.length - 1].sequenceNumber;
+            if (handled.has(sequenceNumber)) continue;
+            if (!active) return;
+            await handler(await this.toLogEntry(group));
+            handled.add(sequenceNumber);
+          }
+
+          nextSequence = assembler.firstPendingSequence() ?? message.sequenceNumber + 1;
+          for (const sequenceNumber of handled) {
+            if (sequenceNumber < nextSequence) handled.delete(sequenceNumber);
+          }
+        }
+      } catch (error: any) {
+        if (options.onError) {
+          options.onError(error);
+        } else {
+          console.warn(`Topic ${topicId} poll failed: ${error.message}`);
+        }
+      }
+
+      if (active) {
+        timer = setTimeout(poll, pollIntervalMs);
+      }
+    };
+
+    void poll();
+
+    return {
+      unsubscribe: () => {
+        active = false;
+        if (timer) clearTimeout(timer);
+      }
+    };
+  }
+
+  /**
+   * Running hash the first message of a read is chained onto
+   */
+  private async previousRunningHash(topicId: string, sequenceNumber: number): Promise<Buffer | null> {
+    if (sequenceNumber <= 1) {
+      return EMPTY_RUNNING_HASH;
+    }
+
+    try {
+      const previous = await this.mirror.getTopicMessage(topicId, sequenceNumber - 1);
+      if (!previous) {
+        throw new Error(`message ${sequenceNumber - 1} not found`);
+      }
+      return Buffer.from(previous.running_hash, 'base64');
+    } catch (error: any) {
+      console.warn(`Cannot seed running hash check for ${topicId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async toLogEntry(group: TopicMessage[], incompleteReason?: string): Promise<TopicLogEntry> {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const result: TopicLogEntry = {
+      status: 'ok',
+      entry: null,
+      payload: null,
+      encrypted: false,
+      topicId: first.topicId,
+      sequenceNumber: last.sequenceNumber,
+      consensusTimestamp: last.consensusTimestamp,
+      runningHash: last.runningHash,
+      payerAccountId: first.payerAccountId,
+      chunks: group.map(m => ({
+        sequenceNumber: m.sequenceNumber,
+        consensusTimestamp: m.consensusTimestamp,
+        number: m.chunkNumber,
+        total: m.chunkTotal
+      }))
+    };
+
+    const tampered = group.find(m => m.hashError);
+    if (tampered) {
+      return { ...result, status: 'tampered', error: tampered.hashError };
+    }
+    if (incompleteReason) {
+      return { ...result, status: 'incomplete', error: incompleteReason };
+    }
+
+    let payload = Buffer.concat(group.map(m => m.contents)).toString('utf-8');
+    if (isEncrypted(payload)) {
+      result.encrypted = true;
+      if (!this.keyring) {
+        return { ...result, status: 'undecryptable', error: 'No encryption key configured' };
+      }
+      try {
+        payload = this.keyring.decrypt(payload);
+      } catch (error: any) {
+        return { ...result, status: 'undecryptable', error: error.message };
+      }
+
+      // Inner layer encrypted with a data subject's own key
+      const subjectEnvelope = parseEnvelope(payload);
+      if (subjectEnvelope) {
+        result.subjectKeyId = subjectEnvelope.keyId;
+        const key = this.userKeys ? await this.userKeys.findKey(subjectEnvelope.keyId) : null;
+        if (!key) {
+          return { ...result, status: this.userKeys ? 'erased' : 'undecryptable', error: `No data key ${subjectEnvelope.keyId}` };
+        }
+        try {
+          payload = decryptEnvelope(payload, key);
+        } catch (error: any) {
+          return { ...result, status: 'undecryptable', error: error.message };
+        }
+      }
+    }
+    result.payload = payload;
+
+    try {
+      result.entry = this.schemas.parse(payload);
+    } catch (error: any) {
+      return { ...result, status: 'malformed', error: error.message };
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Groups chunks by their initial transaction id and releases a group once all chunks are present
+ */
+class ChunkAssembler {
+  private pending = new Map<string, TopicMessage[]>();
+
+  add(message: TopicMessage): TopicMessage[][] {
+    if (!message.chunkGroup || message.chunkTotal <= 1) {
+      return [[message]];
+    }
+
+    const group = this.pending.get(message.chunkGroup) || [];
+    if (!group.some(m => m.chunkNumber === message.chunkNumber)) {
+      group.push(message);
+    }
+
+    if (group.length < message.chunkTotal) {
+      this.pending.set(message.chunkGroup, group);
+      return [];
+    }
+
+    this.pending.delete(message.chunkGroup);
+    return [group.sort((a, b) => a.chunkNumber - b.chunkNumber)];
+  }
+
+  /**
+   * Sequence number of the earliest chunk still waiting for the rest of its group
+   */
+  firstPendingSequence(): number | null {
+    const sequences = [...this.pending.values()].flat().map(m => m.sequenceNumber);
+    return sequences.length > 0 ? Math.min(...sequences) : null;
+  }
+
+  drain(): TopicMessage[][] {
+    const groups = [...this.pending.values()];
+    this.pending.clear();
+    return groups.map(group => group.sort((a, b) => a.chunkNumber - b.chunkNumber));
+  }
+}
+
+/**
+ * Recomputes each running hash from its predecessor. Messages must be fed in
+ * ascending sequence order without gaps; a gap restarts the chain at the message served.
+ */
+class RunningHashVerifier {
+  private previous: Buffer | null;
+  private lastSequence: number | null = null;
+
+  constructor(previous: Buffer | null) {
+    this.previous = previous;
+  }
+
+  verify(raw: MirrorTopicMessage): string | undefined {
+    const served = Buffer.from(raw.running_hash, 'base64');
+    const contiguous = this.lastSequence === null || raw.sequence_number === this.lastSequence + 1;
+    let error: string | undefined;
+
+    if (this.previous && contiguous && raw.running_hash_version === RUNNING_HASH_VERSION) {
+      const expected = computeRunningHash({
+        previousRunningHash: this.previous,
+        payerAccountId: raw.payer_account_id,
+        topicId: raw.topic_id,
+        consensusTimestamp: raw.consensus_timestamp,
+        sequenceNumber: raw.sequence_number,
+        message: Buffer.from(raw.message, 'base64')
+      });
+      if (!expected.equals(served)) {
+        error = `Running hash mismatch at sequence ${raw.sequence_number}`;
+      }
+    }
+
+    this.previous = served;
+    this.lastSequence = raw.sequence_number;
+    return error;
+  }
+}
+
+function keyringFromEnv(): EncryptionKeyring | null {
+  return process.env.HCS_ENCRYPTION_KEYS || process.env.HCS_ENCRYPTION_KEY ? EncryptionKeyring.fromEnv() : null;
+}
+
+function toTopicMessage(raw: MirrorTopicMessage, hashError: string | undefined): TopicMessage {
+  const initial = raw.chunk_info?.initial_transaction_id;
+  return {
+    topicId: raw.topic_id,
+    sequenceNumber: raw.sequence_number,
+    consensusTimestamp: raw.consensus_timestamp,
+    runningHash: Buffer.from(raw.running_hash, 'base64').toString('hex'),
+    payerAccountId: raw.payer_account_id,
+    contents: Buffer.from(raw.message, 'base64'),
+    chunkGroup: initial ? `${initial.account_id}@${initial.transaction_valid_start}` : null,
+    chunkNumber: raw.chunk_info?.number ?? 1,
+    chunkTotal: raw.chunk_info?.total ?? 1,
+    hashError
+  };
+}
+
+export interface TopicReaderOptions {
+  keyring?: EncryptionKeyring; // Defaults to HCS_ENCRYPTION_KEYS / HCS_ENCRYPTION_KEY
+  userKeys?: UserKeyStore | null; // Defaults to HCS_USER_KEYSTORE_PATH
+  schemas?: EventSchemaRegistry; // Event types to accept; defaults to the built-in ones
+}
+
+export interface TopicMessageRange {
+  fromSequence?: number;
+  toSequence?: number;
+  fromTimestamp?: Date | string; // Date or mirror "seconds.nanos"
+  toTimestamp?: Date | string;
+  limit?: number; // Maximum number of entries yielded
+}
+
+// 'erased': the data subject's key was destroyed (crypto-shredded)
+export type TopicEntryStatus = 'ok' | 'undecryptable' | 'erased' | 'tampered' | 'malformed' | 'incomplete';
+
+export interface TopicLogEntry {
+  status: TopicEntryStatus;
+  entry: HcsEvent | null; // Set only when status is 'ok', upcast to the latest schema version
+  payload: string | null; // Decrypted message text, when it could be recovered
+  encrypted: boolean;
+  subjectKeyId?: string; // Set when the payload was also encrypted with a data subject's key
+  error?: string;
+  topicId: string;
+  sequenceNumber: number; // Of the last chunk
+  consensusTimestamp: string;
+  runningHash: string;
+  payerAccountId: string;
+  chunks: { sequenceNumber: number; consensusTimestamp: string; number: number; total: number }[];
+}
+
+export interface ReencryptedTopicEntry {
+  topicId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string;
+  runningHash: string;
+  status: TopicEntryStatus; // Of the original entry; payloads of malformed entries are exported too
+  payload: string; // v2 envelope under the active key
+}
+
+export interface TopicSubscription {
+  unsubscribe(): void;
+}
+
+interface TopicMessage {
+  topicId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string;
+  runningHash: string;
+  payerAccountId: string;
+  contents: Buffer;
+  chunkGroup: string | null;
+  chunkNumber: number;
+  chunkTotal: number;
+  hashError?: string;
+}
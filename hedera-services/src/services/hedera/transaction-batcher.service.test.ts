@@ -0,0 +1,91 @@
+// services/hedera/transaction-batcher.service.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestEnvironment } from '../../simulator/test-environment';
+import { FileBatchStore, InMemoryBatchStore, PendingLeaf } from '../../utils/batch-store';
+import { HederaConsensusService, MessageSubmitResult, TransactionLogInput } from './consensus.service';
+import { HederaTransactionBatcher } from './transaction-batcher.service';
+
+describe('HederaTransactionBatcher', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+  });
+
+  afterEach(() => env.cleanup());
+
+  test('anchors a full batch and proves each transaction against the anchor', async () => {
+    const batcher = new HederaTransactionBatcher(env.simulator, { maxBatchSize: 3 });
+
+    await batcher.logTransaction(walletTransaction('tx-1'));
+    await batcher.logTransaction(walletTransaction('tx-2'));
+    const receipt = await batcher.logTransaction(walletTransaction('tx-3'));
+    await batcher.close();
+
+    assert.equal(receipt.pending, 3);
+    const proof = await batcher.getInclusionProof('tx-2');
+    assert.equal(proof.leafCount, 3);
+    assert.deepEqual(await batcher.verifyInclusionProof(proof), { valid: true, included: true, anchored: true, problems: [] });
+
+    proof.leaf = proof.leaf.replace('"amount":100', '"amount":1000');
+    assert.equal((await batcher.verifyInclusionProof(proof)).included, false);
+  });
+
+  test('anchors the leaves a previous batcher left pending', async () => {
+    const crashed = new HederaTransactionBatcher(env.simulator, { maxBatchAgeMs: 60_000 });
+    await crashed.logTransaction(walletTransaction('tx-1'));
+    await crashed.logTransaction(walletTransaction('tx-2'));
+
+    const restarted = new HederaTransactionBatcher(env.simulator);
+    const batch = await restarted.flush();
+    await crashed.close(); // Only to stop its timer; a crashed process would not anchor again
+
+    assert.deepEqual(batch!.transactionIds, ['tx-1', 'tx-2']);
+    assert.deepEqual(await FileBatchStore.fromEnv()!.loadPending(), []);
+    assert.equal((await restarted.verifyInclusionProof(await restarted.getInclusionProof('tx-1'))).valid, true);
+  });
+
+  test('accepts a transaction whose batch could not be anchored and anchors it on the next flush', async () => {
+    const consensus = new UnreachableOnceConsensus(env.simulator);
+    const batcher = new HederaTransactionBatcher(env.simulator, { consensus, maxBatchSize: 1 });
+
+    const receipt = await batcher.logTransaction(walletTransaction('tx-1'));
+    const batch = await batcher.flush();
+    await batcher.close();
+
+    assert.equal(receipt.transactionId, 'tx-1');
+    assert.deepEqual(batch!.transactionIds, ['tx-1']);
+    assert.deepEqual(await FileBatchStore.fromEnv()!.loadPending(), []);
+  });
+
+  test('does not accept a transaction whose leaf could not be saved', async () => {
+    const store = new FailingPendingStore();
+    const batcher = new HederaTransactionBatcher(env.simulator, { store });
+
+    await assert.rejects(batcher.logTransaction(walletTransaction('tx-1')), /Disk full/);
+
+    assert.equal(await batcher.flush(), null);
+  });
+});
+
+class FailingPendingStore extends InMemoryBatchStore {
+  async savePending(_leaves: PendingLeaf[]): Promise<void> {
+    throw new Error('Disk full');
+  }
+}
+
+class UnreachableOnceConsensus extends HederaConsensusService {
+  private failures = 1;
+
+  async logEvent(type: string, data: { [field: string]: unknown }): Promise<MessageSubmitResult> {
+    if (this.failures-- > 0) {
+      throw new Error('Network unreachable');
+    }
+    return super.logEvent(type, data);
+  }
+}
+
+function walletTransaction(transactionId: string): TransactionLogInput {
+  return { transactionId, userId: 'user-1', type: 'TRANSFER', amount: 100, currency: 'NGN', recipientId: 'user-2', status: 'COMPLETED' };
+}
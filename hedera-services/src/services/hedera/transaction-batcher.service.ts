@@ -0,0 +1,355 @@
+// services/hedera/transaction-batcher.service.ts
+import * as crypto from 'crypto';
+import { BatchAnchor, BatchStore, FileBatchStore, PendingLeaf, StoredBatch } from '../../utils/batch-store';
+import { MERKLE_ALGORITHM, MerkleProof, hashLeaf, merkleProof, merkleRoot, verifyMerkleProof } from '../../utils/merkle';
+import { HederaNetwork, hederaNetworkFromEnv } from '../../utils/network';
+import { HederaConsensusService, TransactionLogInput, transactionLogData } from './consensus.service';
+import { HederaTopicReader, TopicReaderOptions } from './topic-reader.service';
+
+const DEFAULT_MAX_BATCH_SIZE = 500;
+const DEFAULT_MAX_BATCH_AGE_MS = 60_000;
+
+/**
+ * Batching mode for transaction logging: TRANSACTION_LOG events are buffered and
+ * only the Merkle root of each batch is anchored on the transactions topic as a
+ * TRANSACTION_BATCH event, so a batch costs one HCS message instead of one per
+ * transaction. The leaves go to a BatchStore, from which an inclusion proof for
+ * any single transaction can be built and checked against the anchored root.
+ *
+ * A batch is anchored when it reaches `maxBatchSize` events or `maxBatchAge` after
+ * its first event, whichever comes first. Call `close()` before exiting so the
+ * last partial batch is anchored.
+ *
+ * Leaves waiting for an anchor are saved to the store before `logTransaction()`
+ * resolves. After a crash, the next batcher on the same store picks them up on its
+ * first `logTransaction()` or `flush()`; leaves whose anchor reached consensus just
+ * before the crash may be anchored a second time, in a new batch.
+ */
+export class HederaTransactionBatcher {
+  private network: HederaNetwork;
+  private consensus: HederaConsensusService;
+  private store: BatchStore;
+  private readerOptions: TopicReaderOptions;
+  private reader: HederaTopicReader | null = null;
+  private maxBatchSize: number;
+  private maxBatchAgeMs: number;
+
+  private pending: PendingLeaf[] = [];
+  private anchoring: PendingLeaf[] = []; // Taken from pending by the anchor in flight
+  private restoring: Promise<void> | null = null;
+  private persisting: Promise<unknown> = Promise.resolve();
+  private retryBatchId: string | null = null; // Reused after a failed anchor so the stored leaves are replaced
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    network: HederaNetwork = hederaNetworkFromEnv(),
+    options: {
+      consensus?: HederaConsensusService;
+      store?: BatchStore;
+      maxBatchSize?: number;
+      maxBatchAgeMs?: number;
+      reader?: TopicReaderOptions; // For checking anchors on the ledger
+    } = {}
+  ) {
+    const store = options.store ?? FileBatchStore.fromEnv();
+    if (!store) {
+      throw new Error('Missing HCS_BATCH_STORE_DIR in environment');
+    }
+
+    this.network = network;
+    this.consensus = options.consensus ?? new HederaConsensusService(network);
+    this.store = store;
+    this.readerOptions = options.reader ?? {};
+    this.maxBatchSize = options.maxBatchSize ?? Number(process.env.HCS_BATCH_MAX_SIZE || DEFAULT_MAX_BATCH_SIZE);
+    this.maxBatchAgeMs = options.maxBatchAgeMs ?? Number(process.env.HCS_BATCH_MAX_AGE_MS || DEFAULT_MAX_BATCH_AGE_MS);
+  }
+
+  /**
+   * Buffers the transaction's TRANSACTION_LOG event (pseudonymized and validated
+   * like `HederaConsensusService.logTransaction`), saves it to the store and
+   * anchors the batch if it is full. Resolves once the leaf is saved: a failed
+   * anchor is logged and retried by the timer or the next flush.
+   */
+  async logTransaction(transaction: TransactionLogInput): Promise<BatchedTransactionReceipt> {
+    await this.restorePending();
+
+    const event = this.consensus.buildEvent('TRANSACTION_LOG', transactionLogData(transaction));
+    const leaf = JSON.stringify(event);
+    const entry = { transactionId: transaction.transactionId, leaf };
+
+    this.pending.push(entry);
+    try {
+      await this.persistPending();
+    } catch (error) {
+      // Not accepted, so it must not be anchored behind the caller's back either
+      this.pending = this.pending.filter(pending => pending !== entry);
+      throw error;
+    }
+    this.startTimer();
+
+    const receipt = {
+      transactionId: transaction.transactionId,
+      leafHash: hashLeaf(leaf).toString('hex'),
+      pending: this.pending.length
+    };
+
+    if (this.pending.length >= this.maxBatchSize) {
+      // Rejecting now would have the caller log the saved leaf a second time
+      await this.flush().catch(error => console.error('Batch anchoring failed:', error.message));
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Anchors the buffered events now; resolves to the anchored batch, or null if nothing was buffered
+   */
+  flush(): Promise<StoredBatch | null> {
+    // Flushes run one at a time so batches are anchored in the order they were filled
+    const run = this.flushing.then(() => this.anchorPending());
+    this.flushing = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Stops the batch timer and anchors whatever is still buffered
+   */
+  async close(): Promise<void> {
+    this.stopTimer();
+    await this.flush();
+  }
+
+  /**
+   * Builds the inclusion proof for a transaction from the stored leaves of the
+   * latest anchored batch containing it
+   */
+  async getInclusionProof(transactionId: string): Promise<TransactionInclusionProof> {
+    const found = await this.store.findTransaction(transactionId);
+    if (!found) {
+      throw new Error(`Transaction ${transactionId} is not in any stored batch`);
+    }
+
+    const { batch, leafIndex } = found;
+    if (!batch.anchor) {
+      throw new Error(`Batch ${batch.batchId} containing ${transactionId} has not been anchored yet`);
+    }
+
+    return {
+      transactionId,
+      batchId: batch.batchId,
+      leaf: batch.leaves[leafIndex],
+      merkleRoot: batch.merkleRoot,
+      algorithm: batch.algorithm,
+      ...merkleProof(batch.leaves.map(leaf => hashLeaf(leaf)), leafIndex),
+      anchor: batch.anchor
+    };
+  }
+
+  /**
+   * Checks that the proof's leaf is the transaction's event and hashes up to the
+   * root, and (unless `checkAnchor` is false) that the root was anchored on HCS
+   * at the sequence number the proof names. Proofs are self-contained, so they can
+   * be verified by anyone with mirror node access.
+   */
+  async verifyInclusionProof(
+    proof: TransactionInclusionProof,
+    options: { checkAnchor?: boolean } = {}
+  ): Promise<InclusionProofVerification> {
+    const problems: string[] = [];
+
+    if (proof.algorithm !== MERKLE_ALGORITHM) {
+      problems.push(`Unsupported algorithm ${proof.algorithm}`);
+    }
+
+    try {
+      const event = JSON.parse(proof.leaf);
+      if (event.type !== 'TRANSACTION_LOG' || event.data?.transactionId !== proof.transactionId) {
+        problems.push(`Leaf is not the TRANSACTION_LOG event of ${proof.transactionId}`);
+      }
+    } catch {
+      problems.push('Leaf is not valid JSON');
+    }
+
+    const included = verifyMerkleProof(hashLeaf(proof.leaf), proof, Buffer.from(proof.merkleRoot, 'hex'));
+    if (!included) {
+      problems.push(`Leaf does not hash up to root ${proof.merkleRoot}`);
+    }
+
+    let anchored: boolean | null = null;
+    if (options.checkAnchor !== false) {
+      const anchorProblems = await this.checkAnchor(proof);
+      anchored = anchorProblems.length === 0;
+      problems.push(...anchorProblems);
+    }
+
+    if (problems.length === 0) {
+      console.log(`✅ Transaction ${proof.transactionId} verified in batch ${proof.batchId}`);
+    }
+
+    return { valid: problems.length === 0, included, anchored, problems };
+  }
+
+  private async anchorPending(): Promise<StoredBatch | null> {
+    await this.restorePending();
+    this.stopTimer();
+    if (this.pending.length === 0) {
+      return null;
+    }
+
+    const leaves = this.pending;
+    this.pending = [];
+    this.anchoring = leaves;
+
+    const batch: StoredBatch = {
+      batchId: this.retryBatchId || `batch-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      merkleRoot: merkleRoot(leaves.map(entry => hashLeaf(entry.leaf))).toString('hex'),
+      algorithm: MERKLE_ALGORITHM,
+      leaves: leaves.map(entry => entry.leaf),
+      transactionIds: leaves.map(entry => entry.transactionId),
+      createdAt: new Date().toISOString(),
+      anchor: null
+    };
+    const events = leaves.map(entry => JSON.parse(entry.leaf));
+
+    try {
+      // Leaves are stored first so an anchored root is never left without them
+      await this.store.save(batch);
+
+      const result = await this.consensus.logEvent('TRANSACTION_BATCH', {
+        batchId: batch.batchId,
+        merkleRoot: batch.merkleRoot,
+        algorithm: batch.algorithm,
+        leafCount: leaves.length,
+        firstTimestamp: events[0].timestamp,
+        lastTimestamp: events[events.length - 1].timestamp
+      });
+
+      batch.anchor = {
+        topicId: result.topicId,
+        transactionId: result.transactionId,
+        sequenceNumber: result.sequenceNumber,
+        consensusTimestamp: result.consensusTimestampExact,
+        runningHash: result.runningHash
+      };
+      await this.store.save(batch);
+    } catch (error) {
+      // Requeue ahead of newer events; the next flush re-anchors them under the same batch id.
+      // The saved pending leaves already include them.
+      this.pending = [...leaves, ...this.pending];
+      this.anchoring = [];
+      this.retryBatchId = batch.batchId;
+      this.startTimer();
+      throw error;
+    }
+
+    this.anchoring = [];
+    this.retryBatchId = null;
+    this.startTimer();
+
+    try {
+      await this.persistPending();
+    } catch (error: any) {
+      console.warn(`Batch ${batch.batchId} anchored but its leaves are still saved as pending: ${error.message}`);
+    }
+
+    console.log(`✅ Batch ${batch.batchId} of ${leaves.length} transactions anchored at sequence ${batch.anchor.sequenceNumber}`);
+
+    return batch;
+  }
+
+  /**
+   * Loads the leaves a previous batcher on the same store left unanchored, once
+   */
+  private restorePending(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = this.store.loadPending().then(
+        leaves => {
+          if (leaves.length > 0) {
+            this.pending = [...leaves, ...this.pending];
+            console.log(`Restored ${leaves.length} unanchored batch leaves`);
+          }
+        },
+        error => {
+          this.restoring = null;
+          throw error;
+        }
+      );
+    }
+    return this.restoring;
+  }
+
+  /**
+   * Saves the leaves not yet anchored, in flight or buffered
+   */
+  private persistPending(): Promise<void> {
+    // Saves run one at a time, each writing the buffer as it is when it starts
+    const run = this.persisting.then(() => this.store.savePending([...this.anchoring, ...this.pending]));
+    this.persisting = run.catch(() => undefined);
+    return run;
+  }
+
+  private async checkAnchor(proof: TransactionInclusionProof): Promise<string[]> {
+    const { topicId, sequenceNumber, consensusTimestamp } = proof.anchor;
+    if (!this.reader) {
+      this.reader = new HederaTopicReader(this.network, this.readerOptions);
+    }
+
+    const [log] = await this.reader.getMessages(topicId, { fromSequence: sequenceNumber, toSequence: sequenceNumber });
+    if (!log) {
+      return [`No message at sequence ${sequenceNumber} of topic ${topicId}`];
+    }
+    if (log.status !== 'ok' || log.entry?.type !== 'TRANSACTION_BATCH') {
+      return [`Sequence ${sequenceNumber} of topic ${topicId} is not a readable batch anchor (${log.status})`];
+    }
+
+    const problems: string[] = [];
+    const data = log.entry.data;
+    if (data.batchId !== proof.batchId) problems.push(`Anchor is for batch ${data.batchId}, not ${proof.batchId}`);
+    if (data.merkleRoot !== proof.merkleRoot) problems.push(`Anchored root ${data.merkleRoot} differs from the proof's`);
+    if (data.leafCount !== proof.leafCount) problems.push(`Anchor has ${data.leafCount} leaves, the proof ${proof.leafCount}`);
+    if (log.consensusTimestamp !== consensusTimestamp) {
+      problems.push(`Anchor reached consensus at ${log.consensusTimestamp}, not ${consensusTimestamp}`);
+    }
+    return problems;
+  }
+
+  private startTimer(): void {
+    if (this.timer || this.pending.length === 0) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => console.error('Batch anchoring failed:', error.message));
+    }, this.maxBatchAgeMs);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export interface BatchedTransactionReceipt {
+  transactionId: string;
+  leafHash: string; // Hex
+  pending: number; // Events buffered for the next batch when this one was added
+}
+
+export interface TransactionInclusionProof extends MerkleProof {
+  transactionId: string;
+  batchId: string;
+  leaf: string; // The TRANSACTION_LOG event JSON
+  merkleRoot: string;
+  algorithm: string;
+  anchor: BatchAnchor;
+}
+
+export interface InclusionProofVerification {
+  valid: boolean;
+  included: boolean; // Leaf hashes up to the proof's root
+  anchored: boolean | null; // Root matches the HCS anchor; null when not checked
+  problems: string[];
+}
@@ -0,0 +1,121 @@
+// services/hedera/transfer-builder.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { createTestEnvironment, TestAccount, TestEnvironment } from '../../simulator/test-environment';
+import { LedgerStatusError } from '../../utils/error-handler';
+import { HederaNftService } from './nft.service';
+import { HederaTokenService } from './token.service';
+import { signTransfer, TransferValidationError } from './transfer-builder';
+
+describe('TransferBuilder', () => {
+  let env: TestEnvironment;
+  let tokens: HederaTokenService;
+  let investor: TestAccount;
+  let seller: TestAccount;
+  let stablecoinId: string;
+  let sharesId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    tokens = new HederaTokenService(env.simulator);
+    investor = env.account();
+    seller = env.account();
+    ({ tokenId: stablecoinId } = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '10000' }));
+    ({ tokenId: sharesId } = await tokens.createNFTCollection({ name: 'Property shares', symbol: 'PROP', maxSupply: 10 }));
+    for (const account of [investor, seller]) {
+      await tokens.associateTokenToAccount(account.accountId, account.signer, stablecoinId);
+      await tokens.associateTokenToAccount(account.accountId, account.signer, sharesId);
+    }
+    const nfts = new HederaNftService(env.simulator);
+    await nfts.mintNFTs(sharesId, [{ pointer: { kind: 'uri', uri: 'ipfs://share-1' } }]);
+    await nfts.transferNFT({ tokenId: sharesId, serial: 1, fromAccountId: env.treasury.accountId, fromSigner: env.treasury.signer, toAccountId: seller.accountId });
+    await tokens.transferTokens({
+      tokenId: stablecoinId,
+      fromAccountId: env.treasury.accountId,
+      fromSigner: env.treasury.signer,
+      toAccountId: investor.accountId,
+      amount: '1000'
+    });
+  });
+
+  afterEach(() => env.cleanup());
+
+  // The investor buys share 1 from the seller for stablecoin plus a small HBAR fee, all in one transaction
+  const purchase = () => tokens.newTransfer()
+    .sendToken(stablecoinId, investor.accountId, seller.accountId, '500.25')
+    .sendHbar(investor.accountId, seller.accountId, '0.5')
+    .sendNft(sharesId, 1, seller.accountId, investor.accountId)
+    .setMemo('Share purchase');
+
+  const balance = async (accountId: string) => (await tokens.getTokenBalance(accountId, stablecoinId)).toString();
+
+  test('lists every problem with the legs before submitting anything', async () => {
+    const records = env.simulator.getTransactionRecords().length;
+
+    const error = await tokens.newTransfer()
+      .debitToken(stablecoinId, investor.accountId, '10')
+      .creditToken(stablecoinId, seller.accountId, '9.99')
+      .sendNft(sharesId, 1, seller.accountId, investor.accountId)
+      .sendNft(sharesId, 1, seller.accountId, seller.accountId)
+      .sendHbar(investor.accountId, seller.accountId, '0.000000001')
+      .build()
+      .then(() => assert.fail('Expected the legs to be rejected'), error => error);
+
+    assert.ok(error instanceof TransferValidationError);
+    assert.deepEqual(error.problems, [
+      'Token amount 0.000000001 has more than the 8 decimals of HBAR',
+      `${stablecoinId} legs do not balance: debits and credits differ by -1 base units`,
+      `NFT ${sharesId}/1 is transferred more than once`,
+      `NFT ${sharesId}/1 is sent to its own sender`
+    ]);
+    assert.equal(env.simulator.getTransactionRecords().length, records);
+  });
+
+  test('settles token, HBAR and NFT legs atomically when executed with every sender key', async () => {
+    const hbarBefore = env.simulator.getAccount(investor.accountId)!.hbarTinybars;
+
+    const result = await purchase().execute([investor.signer, seller.signer]);
+
+    assert.equal(result.status, 'SUCCESS');
+    assert.equal(result.legs.length, 4);
+    assert.deepEqual(result.nfts, [{ tokenId: sharesId, serial: 1, fromAccountId: seller.accountId, toAccountId: investor.accountId }]);
+    assert.equal(await balance(investor.accountId), '499.75');
+    assert.equal(env.simulator.getAccount(investor.accountId)!.hbarTinybars, hbarBefore - 50_000_000n);
+    assert.deepEqual(env.simulator.getAccountNfts(investor.accountId).map(nft => nft.serial), [1]);
+  });
+
+  test('moves nothing when a sender has not signed', async () => {
+    await assert.rejects(
+      purchase().execute([investor.signer]),
+      error => error instanceof LedgerStatusError && error.status === 'INVALID_SIGNATURE'
+    );
+
+    assert.equal(await balance(investor.accountId), '1000.00');
+    assert.deepEqual(env.simulator.getAccountNfts(investor.accountId), []);
+  });
+
+  test('submits a prepared transfer once each party has signed its own copy', async () => {
+    const prepared = await purchase().prepare();
+    assert.deepEqual(prepared.requiredSigners.sort(), [investor.accountId, seller.accountId].sort());
+
+    const [investorCopy, sellerCopy] = await Promise.all([
+      signTransfer(prepared.bytes, investor.signer),
+      signTransfer(prepared.bytes, seller.signer)
+    ]);
+    const result = await tokens.submitSignedTransfer([investorCopy, sellerCopy]);
+
+    assert.equal(result.transactionId, prepared.transactionId);
+    assert.equal(await balance(seller.accountId), '500.25');
+    assert.deepEqual(env.simulator.getAccountNfts(investor.accountId).map(nft => nft.serial), [1]);
+  });
+
+  test('rejects a prepared transfer submitted without every party signature', async () => {
+    const prepared = await purchase().prepare();
+
+    await assert.rejects(
+      tokens.submitSignedTransfer([await signTransfer(prepared.bytes, investor.signer)]),
+      error => error instanceof LedgerStatusError && error.status === 'INVALID_SIGNATURE'
+    );
+    assert.deepEqual(env.simulator.getAccountNfts(investor.accountId), []);
+  });
+});
@@ -0,0 +1,390 @@
+// services/hedera/transfer-builder.ts
+import {
+  AccountId,
+  Hbar,
+  NftId,
+  PublicKey,
+  TokenId,
+  Transaction,
+  TransferTransaction
+} from '@hashgraph/sdk';
+import { executeWithRetry } from '../../utils/error-handler';
+import { HederaNetwork } from '../../utils/network';
+import { Signer } from '../../utils/signer';
+import { TokenAmount, TokenAmountInput, TokenDecimalsCache } from '../../utils/token-amount';
+import { TransactionMonitor } from '../../utils/transaction-monitor';
+import { HederaLedger } from './ledger';
+
+export const HBAR = 'HBAR'; // Asset id of HBAR legs
+export const HBAR_DECIMALS = 8; // Tinybars
+
+// Network limits per CryptoTransfer
+const MAX_HBAR_ADJUSTMENTS = 10;
+const MAX_TOKEN_ADJUSTMENTS = 10;
+const MAX_NFT_TRANSFERS = 10;
+
+export class TransferValidationError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid transfer: ${problems.join('; ')}`);
+    this.name = 'TransferValidationError';
+  }
+}
+
+/**
+ * Composes HBAR, fungible token and NFT legs between any number of accounts into
+ * one TransferTransaction, so all of them settle or none do (e.g. an investor
+ * paying NGN stablecoin for property shares). Created with
+ * `HederaTokenService.newTransfer()`.
+ *
+ * Amounts are HBAR or whole tokens as decimal strings, or bigint base units
+ * (tinybars for HBAR). Each debited account and NFT sender must sign: pass their
+ * keys to `execute()`, or `prepare()` the transaction, have each party
+ * `signTransfer()` the bytes and submit the copies with
+ * `HederaTokenService.submitSignedTransfer()`.
+ */
+export class TransferBuilder {
+  private legs: { asset: string; accountId: string; amount: TokenAmountInput; change: 'debit' | 'credit' }[] = [];
+  private nfts: NftTransferLeg[] = [];
+  private memo: string | null = null;
+
+  constructor(
+    private ledger: HederaLedger,
+    private decimals: TokenDecimalsCache,
+    private network: HederaNetwork,
+    private monitor: TransactionMonitor
+  ) {}
+
+  sendHbar(fromAccountId: string, toAccountId: string, amount: TokenAmountInput): this {
+    return this.debitHbar(fromAccountId, amount).creditHbar(toAccountId, amount);
+  }
+
+  sendToken(tokenId: string, fromAccountId: string, toAccountId: string, amount: TokenAmountInput): this {
+    return this.debitToken(tokenId, fromAccountId, amount).creditToken(tokenId, toAccountId, amount);
+  }
+
+  sendNft(tokenId: string, serial: number, fromAccountId: string, toAccountId: string): this {
+    this.nfts.push({ tokenId, serial, fromAccountId, toAccountId });
+    return this;
+  }
+
+  /**
+   * One side of an uneven leg (e.g. one payer, several recipients); debits and
+   * credits of each asset must balance when the transfer is built
+   */
+  debitHbar(accountId: string, amount: TokenAmountInput): this {
+    this.legs.push({ asset: HBAR, accountId, amount, change: 'debit' });
+    return this;
+  }
+
+  creditHbar(accountId: string, amount: TokenAmountInput): this {
+    this.legs.push({ asset: HBAR, accountId, amount, change: 'credit' });
+    return this;
+  }
+
+  debitToken(tokenId: string, accountId: string, amount: TokenAmountInput): this {
+    this.legs.push({ asset: tokenId, accountId, amount, change: 'debit' });
+    return this;
+  }
+
+  creditToken(tokenId: string, accountId: string, amount: TokenAmountInput): this {
+    this.legs.push({ asset: tokenId, accountId, amount, change: 'credit' });
+    return this;
+  }
+
+  setMemo(memo: string): this {
+    this.memo = memo;
+    return this;
+  }
+
+  /**
+   * Validates the legs and returns the (unfrozen) transaction; throws a
+   * TransferValidationError listing every problem found
+   */
+  async build(): Promise<TransferTransaction> {
+    const problems: string[] = [];
+    const net = new Map<string, Map<string, bigint>>(); // Asset -> account -> net base units
+
+    for (const leg of this.legs) {
+      let amount: TokenAmount;
+      try {
+        amount = leg.asset === HBAR
+          ? TokenAmount.from(HBAR, leg.amount, HBAR_DECIMALS)
+          : await this.decimals.amount(leg.asset, leg.amount);
+      } catch (error: any) {
+        problems.push(error.message);
+        continue;
+      }
+      if (amount.isZero()) {
+        problems.push(`zero ${leg.change} of ${leg.asset} for ${leg.accountId}`);
+      }
+
+      const accounts = net.get(leg.asset) || new Map<string, bigint>();
+      const units = leg.change === 'debit' ? -amount.units : amount.units;
+      accounts.set(leg.accountId, (accounts.get(leg.accountId) || 0n) + units);
+      net.set(leg.asset, accounts);
+    }
+
+    let tokenAdjustments = 0;
+    for (const [asset, accounts] of net) {
+      const sum = [...accounts.values()].reduce((total, units) => total + units, 0n);
+      if (sum !== 0n) {
+        problems.push(`${asset} legs do not balance: debits and credits differ by ${sum} base units`);
+      }
+      const adjustments = [...accounts.values()].filter(units => units !== 0n).length;
+      if (asset === HBAR && adjustments > MAX_HBAR_ADJUSTMENTS) {
+        problems.push(`${adjustments} HBAR account adjustments; the limit is ${MAX_HBAR_ADJUSTMENTS}`);
+      }
+      if (asset !== HBAR) {
+        tokenAdjustments += adjustments;
+      }
+    }
+    if (tokenAdjustments > MAX_TOKEN_ADJUSTMENTS) {
+      problems.push(`${tokenAdjustments} token account adjustments; the limit is ${MAX_TOKEN_ADJUSTMENTS}`);
+    }
+
+    const serials = new Set<string>();
+    for (const nft of this.nfts) {
+      const key = `${nft.tokenId}/${nft.serial}`;
+      if (serials.has(key)) {
+        problems.push(`NFT ${key} is transferred more than once`);
+      }
+      if (nft.fromAccountId === nft.toAccountId) {
+        problems.push(`NFT ${key} is sent to its own sender`);
+      }
+      serials.add(key);
+    }
+    if (this.nfts.length > MAX_NFT_TRANSFERS) {
+      problems.push(`${this.nfts.length} NFT transfers; the limit is ${MAX_NFT_TRANSFERS}`);
+    }
+    if (this.legs.length === 0 && this.nfts.length === 0) {
+      problems.push('no legs');
+    }
+
+    if (problems.length > 0) {
+      throw new TransferValidationError([...new Set(problems)]); // A bad amount fails both sides of a send
+    }
+
+    const transferTx = new TransferTransaction();
+    for (const [asset, accounts] of net) {
+      for (const [accountId, units] of accounts) {
+        if (units === 0n) continue; // Legs of this account cancel out
+        if (asset === HBAR) {
+          transferTx.addHbarTransfer(AccountId.fromString(accountId), Hbar.fromTinybars(units.toString()));
+        } else {
+          transferTx.addTokenTransfer(TokenId.fromString(asset), AccountId.fromString(accountId), Number(units));
+        }
+      }
+    }
+    for (const nft of this.nfts) {
+      transferTx.addNftTransfer(
+        new NftId(TokenId.fromString(nft.tokenId), nft.serial),
+        AccountId.fromString(nft.fromAccountId),
+        AccountId.fromString(nft.toAccountId)
+      );
+    }
+    if (this.memo) {
+      transferTx.setTransactionMemo(this.memo);
+    }
+
+    return transferTx;
+  }
+
+  /**
+   * Builds and submits the transfer signed with the keys of every debited account
+   * and NFT sender (the operator paying the fee signs automatically)
+   */
+  async execute(signers: Signer[] = []): Promise<MultiPartyTransferResult> {
+    await this.build(); // Invalid legs fail here instead of being retried
+
+    // Rebuilt on each attempt: a submitted transaction cannot be executed again
+    const submitted = await executeWithRetry(async () => {
+      const transferTx = await this.build();
+      return { transferTx, submission: await this.ledger.submit(transferTx, signers) };
+    });
+
+    return completeTransfer(submitted.transferTx, submitted.submission.transactionId, submitted.submission.receipt.status, this.decimals, this.network, this.monitor);
+  }
+
+  /**
+   * Builds and freezes the transfer for offline signing. Every party in
+   * `requiredSigners` signs the bytes with `signTransfer()`; all copies must be
+   * submitted before `validUntil`.
+   */
+  async prepare(): Promise<PreparedTransfer> {
+    const transferTx = this.ledger.freeze(await this.build()) as TransferTransaction;
+    const validStart = transferTx.transactionId!.validStart!.toDate();
+
+    return {
+      transactionId: transferTx.transactionId!.toString(),
+      bytes: Buffer.from(transferTx.toBytes()).toString('base64'),
+      requiredSigners: requiredSigners(transferTx),
+      validUntil: new Date(validStart.getTime() + 120_000).toISOString(),
+      ...await describeTransfer(transferTx, this.decimals)
+    };
+  }
+}
+
+/**
+ * Adds the party's signature to prepared transfer bytes and returns the signed
+ * bytes. Parties can sign the same prepared bytes in parallel or pass them on in turn.
+ */
+export async function signTransfer(bytes: string, signer: Signer): Promise<string> {
+  const transaction = Transaction.fromBytes(Buffer.from(bytes, 'base64'));
+  await transaction.signWith(signer.publicKey, message => signer.sign(message));
+  return Buffer.from(transaction.toBytes()).toString('base64');
+}
+
+/**
+ * Combines the signatures of separately signed copies of one prepared transfer
+ */
+export function mergeSignedTransfers(copies: string[]): TransferTransaction {
+  if (copies.length === 0) {
+    throw new Error('No signed transfer copies given');
+  }
+
+  const [first, ...rest] = copies.map(copy => Transaction.fromBytes(Buffer.from(copy, 'base64')));
+  if (!(first instanceof TransferTransaction)) {
+    throw new Error(`Expected a TransferTransaction, got ${first.constructor.name}`);
+  }
+
+  for (const copy of rest) {
+    if (copy.transactionId?.toString() !== first.transactionId?.toString()) {
+      throw new Error(`Signed copies belong to different transactions: ${first.transactionId} and ${copy.transactionId}`);
+    }
+
+    const signatures = copy.getSignatures();
+    const keys = new Map<string, PublicKey>();
+    for (const pairs of signatures.getFlatSignatureList()) {
+      for (const [publicKey] of pairs) {
+        keys.set(publicKey.toString(), publicKey);
+      }
+    }
+    for (const key of keys.values()) {
+      if (!key.verifyTransaction(first)) {
+        first.addSignature(key, signatures);
+      }
+    }
+  }
+
+  return first;
+}
+
+/**
+ * Hands a submitted transfer to the monitor and builds its result from the legs in the transaction
+ */
+export async function completeTransfer(
+  transferTx: TransferTransaction,
+  transactionId: string,
+  status: string,
+  decimals: TokenDecimalsCache,
+  network: HederaNetwork,
+  monitor: TransactionMonitor
+): Promise<MultiPartyTransferResult> {
+  const { legs, nfts } = await describeTransfer(transferTx, decimals);
+
+  console.log(`✅ Transfer ${transactionId} settled ${legs.length} legs and ${nfts.length} NFTs`);
+
+  monitor.watch(transactionId);
+
+  return {
+    success: true,
+    transactionId,
+    status,
+    legs,
+    nfts,
+    explorerUrl: network.explorerUrl('transaction', transactionId)
+  };
+}
+
+async function describeTransfer(
+  transferTx: TransferTransaction,
+  decimals: TokenDecimalsCache
+): Promise<{ legs: TransferLeg[]; nfts: NftTransferLeg[] }> {
+  const legs: TransferLeg[] = [];
+
+  for (const [accountId, amount] of transferTx.hbarTransfers) {
+    const tinybars = BigInt(amount.toTinybars().toString());
+    legs.push({
+      asset: HBAR,
+      accountId: accountId.toString(),
+      change: tinybars < 0n ? 'debit' : 'credit',
+      amount: TokenAmount.fromUnits(HBAR, tinybars < 0n ? -tinybars : tinybars, HBAR_DECIMALS)
+    });
+  }
+
+  for (const [tokenId, accounts] of transferTx.tokenTransfers) {
+    for (const [accountId, amount] of accounts) {
+      const units = BigInt(amount.toString());
+      legs.push({
+        asset: tokenId.toString(),
+        accountId: accountId.toString(),
+        change: units < 0n ? 'debit' : 'credit',
+        amount: await decimals.fromUnits(tokenId.toString(), units < 0n ? -units : units)
+      });
+    }
+  }
+
+  const nfts: NftTransferLeg[] = [];
+  for (const [tokenId, transfers] of transferTx.nftTransfers) {
+    for (const transfer of transfers) {
+      nfts.push({
+        tokenId: tokenId.toString(),
+        serial: transfer.serial.toNumber(),
+        fromAccountId: transfer.sender.toString(),
+        toAccountId: transfer.recipient.toString()
+      });
+    }
+  }
+
+  return { legs, nfts };
+}
+
+function requiredSigners(transferTx: TransferTransaction): string[] {
+  const signers = new Set<string>();
+  for (const [accountId, amount] of transferTx.hbarTransfers) {
+    if (amount.isNegative()) signers.add(accountId.toString());
+  }
+  for (const accounts of transferTx.tokenTransfers.values()) {
+    for (const [accountId, amount] of accounts) {
+      if (amount.isNegative()) signers.add(accountId.toString());
+    }
+  }
+  for (const transfers of transferTx.nftTransfers.values()) {
+    for (const transfer of transfers) {
+      signers.add(transfer.sender.toString());
+    }
+  }
+  return [...signers];
+}
+
+export interface TransferLeg {
+  asset: string; // HBAR or a token id
+  accountId: string;
+  change: 'debit' | 'credit';
+  amount: TokenAmount; // In tinybars (8 decimals) for HBAR
+}
+
+export interface NftTransferLeg {
+  tokenId: string;
+  serial: number;
+  fromAccountId: string;
+  toAccountId: string;
+}
+
+export interface PreparedTransfer {
+  transactionId: string;
+  bytes: string; // Base64 frozen transaction, to be signed with signTransfer()
+  requiredSigners: string[]; // Accounts that must sign (debited accounts and NFT senders)
+  validUntil: string; // ISO time after which the network rejects the transaction
+  legs: TransferLeg[];
+  nfts: NftTransferLeg[];
+}
+
+export interface MultiPartyTransferResult {
+  success: boolean;
+  transactionId: string;
+  status: string;
+  legs: TransferLeg[];
+  nfts: NftTransferLeg[];
+  explorerUrl: string;
+}
@@ -0,0 +1,132 @@
+// simulator/contract-abi.ts
+import { ContractFunctionSelector } from '@hashgraph/sdk';
+
+/**
+ * Minimal Solidity ABI support for simulated contracts. Covers the static
+ * types and strings used by the AfriOne contracts; arrays and tuples are not supported.
+ */
+export type AbiValue = bigint | number | boolean | string;
+
+const SELECTOR_BUILDERS: { [type: string]: (selector: ContractFunctionSelector) => ContractFunctionSelector } = {
+  string: s => s.addString(),
+  bytes: s => s.addBytes(),
+  bytes32: s => s.addBytes32(),
+  bool: s => s.addBool(),
+  address: s => s.addAddress(),
+  uint8: s => s.addUint8(),
+  uint32: s => s.addUint32(),
+  uint64: s => s.addUint64(),
+  uint256: s => s.addUint256(),
+  int256: s => s.addInt256()
+};
+
+export interface ParsedSignature {
+  name: string;
+  types: string[];
+  selector: string; // 4-byte selector as hex
+}
+
+/**
+ * Parses a signature such as "joinTontine(uint8)" and computes its selector
+ */
+export function parseSignature(signature: string): ParsedSignature {
+  const match = /^(\w+)\(([\w,\s]*)\)$/.exec(signature.trim());
+  if (!match) {
+    throw new Error(`Invalid function signature: ${signature}`);
+  }
+
+  const name = match[1];
+  const types = match[2] ? match[2].split(',').map(t => t.trim()) : [];
+
+  let selector = new ContractFunctionSelector(name);
+  for (const type of types) {
+    const build = SELECTOR_BUILDERS[type];
+    if (!build) {
+      throw new Error(`Unsupported ABI type "${type}" in ${signature}`);
+    }
+    selector = build(selector);
+  }
+
+  return { name, types, selector: Buffer.from(selector._build()).toString('hex') };
+}
+
+export function encodeAbi(types: string[], values: AbiValue[]): Uint8Array {
+  if (types.length !== values.length) {
+    throw new Error(`ABI encode expected ${types.length} values, got ${values.length}`);
+  }
+
+  const head: Buffer[] = [];
+  const tail: Buffer[] = [];
+  let tailOffset = types.length * 32;
+
+  types.forEach((type, i) => {
+    if (isDynamic(type)) {
+      const data = type === 'string'
+        ? Buffer.from(String(values[i]), 'utf-8')
+        : Buffer.from(String(values[i]).replace(/^0x/, ''), 'hex');
+      const encoded = Buffer.concat([encodeUint(BigInt(data.length)), padRight(data)]);
+      head.push(encodeUint(BigInt(tailOffset)));
+      tail.push(encoded);
+      tailOffset += encoded.length;
+    } else {
+      head.push(encodeStatic(type, values[i]));
+    }
+  });
+
+  return Buffer.concat([...head, ...tail]);
+}
+
+export function decodeAbi(types: string[], data: Uint8Array): AbiValue[] {
+  const buffer = Buffer.from(data);
+
+  return types.map((type, i) => {
+    const word = buffer.subarray(i * 32, (i + 1) * 32);
+    if (word.length < 32) {
+      throw new Error(`ABI data too short for argument ${i} (${type})`);
+    }
+
+    if (isDynamic(type)) {
+      const offset = Number(readUint(word));
+      const length = Number(readUint(buffer.subarray(offset, offset + 32)));
+      const bytes = buffer.subarray(offset + 32, offset + 32 + length);
+      return type === 'string' ? bytes.toString('utf-8') : bytes.toString('hex');
+    }
+
+    if (type === 'bool') return readUint(word) !== 0n;
+    if (type === 'address') return word.subarray(12).toString('hex');
+    if (type === 'bytes32') return word.toString('hex');
+    if (type.startsWith('int')) return BigInt.asIntN(256, readUint(word));
+    return readUint(word);
+  });
+}
+
+function isDynamic(type: string): boolean {
+  return type === 'string' || type === 'bytes';
+}
+
+function encodeStatic(type: string, value: AbiValue): Buffer {
+  if (type === 'bool') return encodeUint(value ? 1n : 0n);
+  if (type === 'address' || type === 'bytes32') {
+    const hex = String(value).replace(/^0x/, '');
+    return type === 'address' ? Buffer.from(hex.padStart(64, '0'), 'hex') : Buffer.from(hex.padEnd(64, '0'), 'hex');
+  }
+  if (type.startsWith('int')) return encodeUint(BigInt.asUintN(256, BigInt(value)));
+  return encodeUint(BigInt(value));
+}
+
+function encodeUint(value: bigint): Buffer {
+  if (value < 0n) {
+    throw new Error(`Cannot ABI encode negative value ${value} as uint`);
+  }
+  return Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+}
+
+function readUint(word: Buffer): bigint {
+  return BigInt('0x' + (word.toString('hex') || '0'));
+}
+
+function padRight(data: Buffer): Buffer {
+  const padded = Buffer.alloc(Math.ceil(data.length / 32) * 32);
+  data.copy(padded);
+  return padded;
+}
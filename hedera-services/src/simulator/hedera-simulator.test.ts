@@ -0,0 +1,154 @@
+// simulator/hedera-simulator.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { TransferTransaction } from '@hashgraph/sdk';
+import { HederaConsensusService } from '../services/hedera/consensus.service';
+import { defaultEventSchemas } from '../services/hedera/hcs-messages';
+import { HederaFileService } from '../services/hedera/file.service';
+import { HederaSmartContractService } from '../services/hedera/smart-contract.service';
+import { HederaTokenService } from '../services/hedera/token.service';
+import { LedgerStatusError } from '../utils/error-handler';
+import { EMPTY_RUNNING_HASH, computeRunningHash } from '../utils/running-hash';
+import { monitorTransaction } from '../utils/transaction-monitor';
+import { createTestEnvironment, TestEnvironment } from './test-environment';
+
+describe('HederaSimulator', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+  });
+
+  afterEach(() => env.cleanup());
+
+  test('sequences topic messages and chains their running hashes', async () => {
+    const consensus = new HederaConsensusService(env.simulator);
+    const { topicId } = await consensus.createTopic({ memo: 'test topic' });
+
+    const first = await consensus.submitMessage(topicId, walletEvent('tx-1'));
+    const second = await consensus.submitMessage(topicId, walletEvent('tx-2'));
+
+    assert.equal(first.sequenceNumber, 1);
+    assert.equal(second.sequenceNumber, 2);
+
+    const messages = env.simulator.getTopicMessages(topicId);
+    let previousRunningHash: Buffer = EMPTY_RUNNING_HASH;
+    for (const message of messages) {
+      const expected = computeRunningHash({
+        previousRunningHash,
+        payerAccountId: message.payerAccountId,
+        topicId,
+        consensusTimestamp: message.consensusTimestamp,
+        sequenceNumber: message.sequenceNumber,
+        message: message.message
+      });
+      assert.deepEqual(message.runningHash, expected);
+      previousRunningHash = message.runningHash;
+    }
+    assert.equal(second.runningHash, messages[1].runningHash.toString('hex'));
+  });
+
+  test('keeps token balances through associate, transfer, mint and burn', async () => {
+    const tokens = new HederaTokenService(env.simulator);
+    const holder = env.account();
+    const { tokenId } = await tokens.createFungibleToken({ name: 'Test', symbol: 'TST', decimals: 2, initialSupply: '100' });
+
+    await tokens.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+    await tokens.transferTokens({
+      tokenId,
+      fromAccountId: env.treasury.accountId,
+      fromSigner: env.treasury.signer,
+      toAccountId: holder.accountId,
+      amount: '25.50'
+    });
+    await tokens.mintTokenSupply(tokenId, '10');
+    await tokens.burnTokenSupply(tokenId, '5');
+
+    assert.equal(env.simulator.getTokenBalance(holder.accountId, tokenId), 2550n);
+    assert.equal(env.simulator.getTokenBalance(env.treasury.accountId, tokenId), 10000n - 2550n + 1000n - 500n);
+    assert.equal((await tokens.getTokenBalance(holder.accountId, tokenId)).toString(), '25.50');
+  });
+
+  test('rejects a transfer the sender did not sign', async () => {
+    const ledger = env.simulator.connect(env.operator.signer);
+    const other = env.account();
+
+    const unsigned = new TransferTransaction()
+      .addHbarTransfer(other.accountId, -100)
+      .addHbarTransfer(env.operator.accountId, 100);
+
+    await assert.rejects(ledger.submit(unsigned), (error: unknown) =>
+      error instanceof LedgerStatusError && error.status === 'INVALID_SIGNATURE');
+  });
+
+  test('returns the record of a failed transaction only when not validating its status', async () => {
+    const ledger = env.simulator.connect(env.operator.signer);
+    const tokens = new HederaTokenService(env.simulator);
+    const { tokenId } = await tokens.createFungibleToken({ name: 'Test', symbol: 'TST', decimals: 0, initialSupply: '10' });
+    const rejected = await tokens.transferTokens({
+      tokenId,
+      fromAccountId: env.treasury.accountId,
+      fromSigner: env.treasury.signer,
+      toAccountId: env.account().accountId, // Not associated
+      amount: '1'
+    }).then(() => assert.fail('Expected the transfer to fail'), error => error);
+
+    await assert.rejects(ledger.getRecord(rejected.transactionId), (error: unknown) =>
+      error instanceof LedgerStatusError && error.status === 'TOKEN_NOT_ASSOCIATED_TO_ACCOUNT');
+    const record = await ledger.getRecord(rejected.transactionId, { validateStatus: false });
+    assert.equal(record.receipt.status, 'TOKEN_NOT_ASSOCIATED_TO_ACCOUNT');
+    assert.ok(record.transactionFeeTinybars > 0n);
+  });
+
+  test('stores, appends, reads and deletes files', async () => {
+    const files = new HederaFileService(env.simulator);
+    const ledger = env.simulator.connect(env.operator.signer);
+    const contents = Buffer.alloc(10_000, 'a'); // Above the 6 KB create limit, so appended
+
+    const { fileId } = await files.createFile({ contents, fileName: 'deed.txt' });
+    assert.deepEqual(await files.getFileContents(fileId!), contents);
+
+    await files.deleteFile(fileId!);
+    await assert.rejects(ledger.getFileContents(fileId!), /FILE_DELETED/);
+  });
+
+  test('runs contract calls through the registered handler', async () => {
+    const contracts = new HederaSmartContractService(env.simulator);
+
+    const { tontineContractId } = await contracts.createTontineCircle({
+      name: 'Lagos circle',
+      monthlyAmount: 1_000_000,
+      totalMembers: 3,
+      cycleDuration: 2_592_000
+    });
+    await contracts.joinTontineCircle(tontineContractId, 1);
+
+    const status = await contracts.getTontineStatus(tontineContractId);
+    assert.equal(status.name, 'Lagos circle');
+    assert.equal(status.totalMembers, 3);
+    assert.equal(status.currentMembers, 1);
+  });
+
+  test('serves transaction records on its mirror node', async () => {
+    const tokens = new HederaTokenService(env.simulator);
+    const { transactionId } = await tokens.createFungibleToken({ name: 'Test', symbol: 'TST', decimals: 0, initialSupply: '1' });
+
+    const outcome = await monitorTransaction(transactionId, env.simulator);
+
+    assert.equal(outcome.status, 'SUCCESS');
+    assert.equal(outcome.result, 'SUCCESS');
+    assert.ok(outcome.chargedFee! > 0n);
+  });
+});
+
+function walletEvent(transactionId: string) {
+  return defaultEventSchemas.createEvent('TRANSACTION_LOG', {
+    transactionId,
+    userId: 'user-1',
+    transactionType: 'TRANSFER',
+    amount: 100,
+    currency: 'NGN',
+    recipientId: 'user-2',
+    status: 'COMPLETED'
+  });
+}
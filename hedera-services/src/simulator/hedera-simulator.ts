@@ -0,0 +1,2063 @@
+// simulator/hedera-simulator.ts
+import {
+  AccountId,
+  AccountCreateTransaction,
+  AccountUpdateTransaction,
+  PrivateKey,
+  PublicKey,
+  Key,
+  KeyList,
+  Long,
+  Timestamp,
+  Transaction,
+  TransactionId,
+  TopicCreateTransaction,
+  TopicMessageSubmitTransaction,
+  TokenCreateTransaction,
+  TokenAssociateTransaction,
+  TokenMintTransaction,
+  TokenBurnTransaction,
+  TokenWipeTransaction,
+  TokenGrantKycTransaction,
+  TokenRevokeKycTransaction,
+  TokenFreezeTransaction,
+  TokenUnfreezeTransaction,
+  TokenPauseTransaction,
+  TokenUnpauseTransaction,
+  TokenFeeScheduleUpdateTransaction,
+  TokenType,
+  TransferTransaction,
+  FileCreateTransaction,
+  FileAppendTransaction,
+  FileUpdateTransaction,
+  FileDeleteTransaction,
+  ContractCreateTransaction,
+  ContractExecuteTransaction,
+  ContractFunctionParameters,
+  ContractFunctionResult,
+  ContractId,
+  ScheduleCreateTransaction,
+  ScheduleSignTransaction,
+  ScheduleDeleteTransaction
+} from '@hashgraph/sdk';
+import {
+  HederaLedger,
+  LedgerAccountBalance,
+  LedgerAccountInfo,
+  LedgerReceipt,
+  LedgerRecord,
+  LedgerScheduleInfo,
+  LedgerSubmission,
+  LedgerTokenInfo,
+  LedgerTopicInfo,
+  submitIdempotently
+} from '../services/hedera/ledger';
+import { MAX_CUSTOM_FEES, TokenCustomFee, fromSdkCustomFees } from '../utils/custom-fees';
+import { LedgerStatusError, RetryOptions, markSubmitted } from '../utils/error-handler';
+import { ExplorerEntity, HederaNetwork, MirrorFetch } from '../utils/network';
+import { EMPTY_RUNNING_HASH, RUNNING_HASH_VERSION, computeRunningHash } from '../utils/running-hash';
+import { Signer, signerAccountId } from '../utils/signer';
+import { AbiValue, decodeAbi, encodeAbi, parseSignature } from './contract-abi';
+import { createSimulatedMirrorNode } from './mirror-node';
+
+const FEE_COLLECTOR_ACCOUNT = '0.0.98';
+const SIMULATED_NODE_ACCOUNT = new AccountId(3);
+const DEFAULT_ACCOUNT_BALANCE = 10_000n * 100_000_000n; // 10,000 HBAR
+const DEFAULT_TOPIC_CHUNK_SIZE = 1024;
+const DEFAULT_AUTO_RENEW_SECONDS = 7_776_000;
+const MAX_NFT_METADATA_BYTES = 100;
+const DEFAULT_SCHEDULE_EXPIRY_NANOS = 30n * 60n * 1_000_000_000n; // 30 minutes
+const MAX_SCHEDULE_EXPIRY_NANOS = 62n * 24n * 3600n * 1_000_000_000n; // 62 days
+const DEFAULT_CENTS_PER_HBAR = 5;
+
+// Approximate network fees in tinybars, enough to make balances and charged fees realistic
+const SIMULATED_FEES: { [transactionType: string]: bigint } = {
+  AccountCreateTransaction: 100_000_000n,
+  AccountUpdateTransaction: 2_000_000n,
+  TopicCreateTransaction: 20_000_000n,
+  TopicMessageSubmitTransaction: 200_000n,
+  TokenCreateTransaction: 2_000_000_000n,
+  TokenAssociateTransaction: 100_000_000n,
+  TokenMintTransaction: 2_000_000n,
+  TokenBurnTransaction: 2_000_000n,
+  TokenWipeTransaction: 2_000_000n,
+  TokenGrantKycTransaction: 2_000_000n,
+  TokenRevokeKycTransaction: 2_000_000n,
+  TokenFreezeTransaction: 2_000_000n,
+  TokenUnfreezeTransaction: 2_000_000n,
+  TokenPauseTransaction: 2_000_000n,
+  TokenUnpauseTransaction: 2_000_000n,
+  TokenFeeScheduleUpdateTransaction: 2_000_000n,
+  TransferTransaction: 2_000_000n,
+  FileCreateTransaction: 100_000_000n,
+  FileAppendTransaction: 100_000_000n,
+  FileUpdateTransaction: 100_000_000n,
+  FileDeleteTransaction: 14_000_000n,
+  ContractCreateTransaction: 2_000_000_000n,
+  ContractExecuteTransaction: 10_000_000n,
+  ScheduleCreateTransaction: 20_000_000n,
+  ScheduleSignTransaction: 2_000_000n,
+  ScheduleDeleteTransaction: 2_000_000n
+};
+
+/**
+ * A contract implemented in TypeScript. Functions are keyed by Solidity
+ * signature, e.g. "joinTontine(uint8)"; arguments are ABI-decoded from the call data.
+ */
+export interface SimulatedContract {
+  functions: {
+    [signature: string]: {
+      returns?: string[];
+      handle(call: SimulatedContractCall): AbiValue[] | void;
+    };
+  };
+}
+
+export interface SimulatedContractCall {
+  contractId: string;
+  sender: string;
+  args: AbiValue[];
+  valueTinybars: bigint;
+  readOnly: boolean; // true for ContractCallQuery; handlers must not mutate state
+}
+
+export interface HederaSimulatorOptions {
+  startTime?: Date; // Fixes the consensus clock for deterministic runs (advances 1 ms per transaction)
+  defaultAccountBalanceTinybars?: bigint;
+  contractDeployer?: (bytecode: Uint8Array | null, contractId: string) => SimulatedContract | undefined;
+  centsPerHbar?: number; // Exchange rate served by the fake mirror node; default 5 (US cents)
+  submitRetry?: RetryOptions; // Overrides the ledger's submission retry budget, e.g. short delays in tests
+}
+
+/**
+ * A fault for one submission attempt (see `injectSubmissionFaults`)
+ */
+export type SimulatedSubmissionFault =
+  | { precheck: string } // Turned away before executing, e.g. BUSY or PLATFORM_NOT_ACTIVE
+  | { responseLost: true; receiptLost?: true }; // Executes, but the caller only sees a timeout (and with receiptLost never finds its receipt)
+
+export interface SimulatedTopicMessage {
+  topicId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string;
+  message: Buffer;
+  runningHash: Buffer;
+  runningHashVersion: number;
+  payerAccountId: string;
+  chunkInfo?: {
+    initialTransactionId: string;
+    number: number;
+    total: number;
+  };
+}
+
+export interface SimulatedTransactionRecord {
+  transactionId: string;
+  name: string; // Mirror node transaction name, e.g. CONSENSUSSUBMITMESSAGE
+  consensusTimestamp: string;
+  validStartTimestamp: string;
+  result: string;
+  payerAccountId: string;
+  chargedTxFee: bigint;
+  memo: string;
+  entityId: string | null;
+  scheduled: boolean; // Executed from a schedule; the transaction id ends in ?scheduled
+  transfers: { account: string; amount: bigint }[];
+  tokenTransfers: { tokenId: string; account: string; amount: bigint }[];
+}
+
+export class SimulatorStatusError extends LedgerStatusError {
+  constructor(status: string, transactionId: string, detail?: string) {
+    super(status, transactionId, `receipt for transaction ${transactionId} contained error status ${status}${detail ? `: ${detail}` : ''}`);
+    this.name = 'SimulatorStatusError';
+  }
+}
+
+/**
+ * The response to a submission that never arrived, like a gRPC deadline: the
+ * transaction may well have executed
+ */
+export class SimulatorTransportError extends Error {
+  code = 'ETIMEDOUT';
+
+  constructor(public transactionId: string) {
+    super(`no response for transaction ${transactionId}: deadline exceeded`);
+    this.name = 'SimulatorTransportError';
+  }
+}
+
+/**
+ * In-process stand-in for a Hedera network covering the HTS, HCS, HFS and
+ * HSCS behaviour used by the AfriOne services, plus a fake mirror node REST API.
+ * Pass it wherever a HederaNetwork is expected.
+ *
+ * Signatures are checked against the payer and the keys passed to `submit`;
+ * threshold key lists need the given number of their keys. Scheduled
+ * transactions run once their signatories satisfy the required keys or, with
+ * wait-for-expiry, on the first transaction or schedule query after they expire
+ * (see `advanceClock`).
+ * Token KYC and freeze status are enforced on transfers, and a paused token
+ * rejects every operation except unpause. Custom fee schedules are validated
+ * and stored but not charged. NFT metadata is limited to 100 bytes per serial,
+ * as on the network.
+ */
+export class HederaSimulator implements HederaNetwork {
+  name: 'simulator' = 'simulator';
+  mirrorNodeUrl = 'http://simulator.local';
+  mirrorFetch: MirrorFetch;
+
+  private options: HederaSimulatorOptions;
+  private clockNanos: bigint;
+  private nextEntityNum = 1001;
+
+  private accounts = new Map<string, SimulatedAccount>();
+  private tokens = new Map<string, SimulatedToken>();
+  private tokenRelationships = new Map<string, Map<string, TokenRelationship>>();
+  private topics = new Map<string, SimulatedTopic>();
+  private files = new Map<string, SimulatedFile>();
+  private contracts = new Map<string, SimulatedContractInstance>();
+  private schedules = new Map<string, SimulatedSchedule>();
+  private records: SimulatedTransactionRecord[] = [];
+  private receipts = new Map<string, LedgerReceipt>();
+  private submissionFaults: SimulatedSubmissionFault[] = [];
+
+  constructor(options: HederaSimulatorOptions = {}) {
+    this.options = options;
+    this.clockNanos = BigInt((options.startTime || new Date()).getTime()) * 1_000_000n;
+    this.mirrorFetch = createSimulatedMirrorNode(this);
+    this.accounts.set(FEE_COLLECTOR_ACCOUNT, {
+      accountId: FEE_COLLECTOR_ACCOUNT,
+      publicKey: null,
+      hbarTinybars: 0n,
+      evmAddress: null,
+      memo: '',
+      maxAutomaticTokenAssociations: 0,
+      usedAutomaticAssociations: 0,
+      createdTimestamp: null
+    });
+  }
+
+  // ---- Network surface ----
+
+  connect(operator: Signer): HederaLedger {
+    const operatorAccountId = AccountId.fromString(signerAccountId(operator));
+    const payer = operatorAccountId.toString();
+    if (!this.accounts.has(payer)) {
+      this.registerAccount(payer, operator.publicKey);
+    }
+
+    return {
+      operatorAccountId,
+      operatorPublicKey: operator.publicKey,
+      submit: (transaction: Transaction, signers: Signer[] = [], retry: RetryOptions = {}) =>
+        this.submit(transaction, operatorAccountId, [operator, ...signers], retry),
+      freeze: (transaction: Transaction) => this.freeze(transaction, operatorAccountId),
+      submitTopicMessage: async (transaction: TopicMessageSubmitTransaction, signers: Signer[] = []) => {
+        const submissions = await this.executeTopicMessageChunks(transaction, payer, [operator, ...signers]);
+        markSubmitted(submissions[0].transactionId);
+        return submissions;
+      },
+      getRecord: async (transactionId: string, options: { validateStatus?: boolean } = {}) =>
+        this.transactionRecord(transactionId, options.validateStatus ?? true),
+      getAccountBalance: async (accountId: string) => this.accountBalance(accountId),
+      getAccountInfo: async (accountId: string) => this.accountInfo(accountId),
+      getTopicInfo: async (topicId: string) => this.topicInfo(topicId),
+      getTokenInfo: async (tokenId: string) => this.tokenInfo(tokenId),
+      getScheduleInfo: async (scheduleId: string) => this.scheduleInfo(scheduleId),
+      getFileContents: async (fileId: string) => Buffer.from(this.requireFile(fileId).contents),
+      callContract: async (contractId: string, functionName: string, functionParams: ContractFunctionParameters | undefined) =>
+        this.callContract(contractId, functionName, functionParams, payer)
+    };
+  }
+
+  explorerUrl(entity: ExplorerEntity, id: string): string {
+    return `${this.mirrorNodeUrl}/explorer/${entity}/${id}`;
+  }
+
+  // ---- Test and setup helpers ----
+
+  /**
+   * Creates a funded account and returns its generated key
+   */
+  createAccount(initialBalanceTinybars?: bigint): { accountId: string; privateKey: PrivateKey } {
+    const privateKey = PrivateKey.generateED25519();
+    const accountId = this.nextEntityId();
+    this.registerAccount(accountId, privateKey.publicKey, initialBalanceTinybars);
+    return { accountId, privateKey };
+  }
+
+  /**
+   * Registers a TypeScript contract implementation and returns its contract id
+   */
+  registerContract(contract: SimulatedContract): string {
+    const contractId = this.nextEntityId();
+    this.contracts.set(contractId, { contractId, contract: indexContract(contract), balanceTinybars: 0n });
+    return contractId;
+  }
+
+  setContractHandler(contractId: string, contract: SimulatedContract): void {
+    const instance = this.requireContract(contractId);
+    instance.contract = indexContract(contract);
+  }
+
+  /**
+   * Moves the simulated clock forward, e.g. past the expiry of a wait-for-expiry
+   * schedule, and runs the schedules that became due
+   */
+  advanceClock(milliseconds: number): void {
+    this.clockNanos += BigInt(milliseconds) * 1_000_000n;
+    this.runDueSchedules(this.tick());
+  }
+
+  /**
+   * Makes the next submission attempts fail the way a flaky network does, one
+   * fault per attempt in order, to exercise the ledger's idempotent retries
+   */
+  injectSubmissionFaults(...faults: SimulatedSubmissionFault[]): void {
+    this.submissionFaults.push(...faults);
+  }
+
+  hasTopic(topicId: string): boolean {
+    return this.topics.has(topicId);
+  }
+
+  getTopicMessages(topicId: string): SimulatedTopicMessage[] {
+    return [...this.requireTopic(topicId).messages];
+  }
+
+  getTransactionRecords(): SimulatedTransactionRecord[] {
+    return [...this.records];
+  }
+
+  getTokenBalance(accountId: string, tokenId: string): bigint {
+    return this.tokenRelationships.get(accountId)?.get(tokenId)?.balance ?? 0n;
+  }
+
+  /**
+   * Balances of a fungible token as of `timestampNanos` (inclusive; now when omitted),
+   * replayed from successful transaction records. `timestamp` is the consensus time
+   * of the last change included, null if there was none. Null for an unknown token.
+   */
+  getTokenBalancesAt(tokenId: string, timestampNanos?: bigint): {
+    timestamp: string | null;
+    decimals: number;
+    balances: { accountId: string; balance: bigint }[];
+  } | null {
+    const token = this.tokens.get(tokenId);
+    if (!token) return null;
+
+    const balances = new Map<string, bigint>();
+    let timestamp: string | null = null;
+
+    for (const record of this.records) {
+      if (timestampNanos !== undefined && BigInt(record.consensusTimestamp.replace('.', '')) > timestampNanos) break;
+
+      for (const transfer of record.tokenTransfers.filter(t => t.tokenId === tokenId)) {
+        balances.set(transfer.account, (balances.get(transfer.account) ?? 0n) + transfer.amount);
+        timestamp = record.consensusTimestamp;
+      }
+    }
+
+    return {
+      timestamp,
+      decimals: token.decimals,
+      balances: [...balances].map(([accountId, balance]) => ({ accountId, balance }))
+    };
+  }
+
+  /**
+   * Live (not burned or wiped) NFTs currently owned by the account, across all collections
+   */
+  getAccountNfts(accountId: string): SimulatedNft[] {
+    return [...this.tokens.values()].flatMap(token =>
+      [...token.nfts.values()].filter(nft => nft.owner === accountId && !nft.deleted)
+    );
+  }
+
+  /**
+   * Account by id or EVM address, as the mirror node reports it; null if unknown
+   */
+  getAccount(accountId: string): SimulatedAccountView | null {
+    const account = this.findAccount(accountId);
+    if (!account) return null;
+
+    return {
+      accountId: account.accountId,
+      key: account.publicKey,
+      evmAddress: account.evmAddress ?? AccountId.fromString(account.accountId).toSolidityAddress(),
+      hbarTinybars: account.hbarTinybars,
+      memo: account.memo,
+      maxAutomaticTokenAssociations: account.maxAutomaticTokenAssociations,
+      createdTimestamp: account.createdTimestamp
+    };
+  }
+
+  /**
+   * Token associations of the account with the KYC and freeze status the mirror node reports
+   */
+  getAccountTokenRelationships(accountId: string): SimulatedTokenRelationship[] {
+    return [...(this.tokenRelationships.get(accountId) || new Map<string, TokenRelationship>())].map(([tokenId, relationship]) => {
+      const token = this.tokens.get(tokenId)!;
+      return {
+        tokenId,
+        balance: relationship.balance,
+        kycStatus: token.kycKey ? (relationship.kycGranted ? 'GRANTED' : 'REVOKED') : 'NOT_APPLICABLE',
+        freezeStatus: token.freezeKey ? (relationship.frozen ? 'FROZEN' : 'UNFROZEN') : 'NOT_APPLICABLE',
+        automaticAssociation: relationship.automaticAssociation
+      };
+    });
+  }
+
+  // ---- Transaction execution ----
+
+  /**
+   * The ledger's submit: like the SDK ledger, it freezes the transaction once and
+   * executes that same transaction on every attempt
+   */
+  private async submit(
+    transaction: Transaction,
+    payerAccountId: AccountId,
+    signers: Signer[],
+    retry: RetryOptions
+  ): Promise<LedgerSubmission> {
+    if (!transaction.isFrozen()) {
+      this.freeze(transaction, payerAccountId);
+    }
+    const transactionId = transaction.transactionId!.toString();
+    let receiptLost = false;
+
+    return submitIdempotently(
+      transactionId,
+      async () => {
+        const fault = this.submissionFaults.shift();
+        if (fault && 'precheck' in fault) {
+          throw new LedgerStatusError(fault.precheck, transactionId, `transaction ${transactionId} failed precheck with status ${fault.precheck}`);
+        }
+        const execution = this.execute(transaction, payerAccountId.toString(), signers);
+        if (fault) {
+          await execution.catch(() => undefined);
+          receiptLost ||= !!fault.receiptLost;
+          throw new SimulatorTransportError(transactionId);
+        }
+        return (await execution).receipt;
+      },
+      async () => receiptLost ? null : this.receipts.get(transactionId) ?? null,
+      { ...this.options.submitRetry, ...retry }
+    );
+  }
+
+  private freeze(transaction: Transaction, payerAccountId: AccountId): Transaction {
+    return transaction
+      .setTransactionId(TransactionId.withValidStart(payerAccountId, nanosToTimestamp(this.tick())))
+      .setNodeAccountIds([SIMULATED_NODE_ACCOUNT])
+      .freeze();
+  }
+
+  private async execute(
+    transaction: Transaction,
+    payer: string,
+    signers: Signer[],
+    chunk?: TopicChunk
+  ): Promise<LedgerSubmission> {
+    const validStart = this.tick();
+    this.runDueSchedules(validStart);
+    const transactionId = chunk?.transactionId || (transaction.transactionId
+      || TransactionId.withValidStart(AccountId.fromString(payer), nanosToTimestamp(validStart))).toString();
+    if (this.receipts.has(transactionId)) {
+      throw new LedgerStatusError('DUPLICATE_TRANSACTION', transactionId, `transaction ${transactionId} failed precheck with status DUPLICATE_TRANSACTION`);
+    }
+    const context: ExecutionContext = {
+      transactionId,
+      payer,
+      signerKeys: new Set([...await verifiedSignerKeys(signers, transactionId), ...attachedSignerKeys(transaction)]),
+      consensusTimestamp: formatNanos(validStart + 1000n),
+      transfers: [],
+      tokenTransfers: [],
+      chunk
+    };
+    const type = transaction.constructor.name;
+    const fee = SIMULATED_FEES[type] ?? 1_000_000n;
+
+    let receipt: LedgerReceipt;
+    try {
+      this.requireAccount(payer);
+      this.requireSignature(context, this.requireAccount(payer).publicKey);
+      receipt = this.dispatch(transaction, context);
+    } catch (error: any) {
+      const status = error instanceof SimulatorStatusError ? error.status : 'FAIL_INVALID';
+      this.record(transaction, context, status, fee, null);
+      this.receipts.set(transactionId, { status, serials: [] });
+      throw error instanceof SimulatorStatusError ? error : new SimulatorStatusError(status, transactionId, error.message);
+    }
+
+    this.record(transaction, context, 'SUCCESS', fee, entityIdOf(receipt));
+    this.receipts.set(transactionId, receipt);
+    context.afterRecord?.();
+
+    return { transactionId, receipt };
+  }
+
+  /**
+   * Runs each chunk of a topic message as its own transaction, the way the SDK's
+   * executeAll does: chunk n gets the initial valid start plus n-1 nanoseconds
+   */
+  private async executeTopicMessageChunks(
+    transaction: TopicMessageSubmitTransaction,
+    payer: string,
+    signers: Signer[]
+  ): Promise<LedgerSubmission[]> {
+    const message = Buffer.from(transaction.message || new Uint8Array());
+    const chunkSize = transaction.chunkSize || DEFAULT_TOPIC_CHUNK_SIZE;
+    const total = Math.max(1, Math.ceil(message.length / chunkSize));
+    if (transaction.maxChunks && total > transaction.maxChunks) {
+      throw new Error(`Message requires ${total} chunks but maxChunks is ${transaction.maxChunks}`);
+    }
+
+    const initialTransactionId = transaction.transactionId
+      || TransactionId.withValidStart(AccountId.fromString(payer), nanosToTimestamp(this.clockNanos + 1_000_000n));
+    const initialValidStart = BigInt(initialTransactionId.validStart!.seconds.toString()) * 1_000_000_000n
+      + BigInt(initialTransactionId.validStart!.nanos.toNumber());
+
+    const submissions: LedgerSubmission[] = [];
+    for (let number = 1; number <= total; number++) {
+      const transactionId = TransactionId.withValidStart(
+        initialTransactionId.accountId!,
+        nanosToTimestamp(initialValidStart + BigInt(number - 1))
+      ).toString();
+
+      submissions.push(await this.execute(transaction, payer, signers, {
+        transactionId,
+        initialTransactionId: initialTransactionId.toString(),
+        number,
+        total,
+        contents: message.subarray((number - 1) * chunkSize, number * chunkSize)
+      }));
+    }
+
+    return submissions;
+  }
+
+  private dispatch(transaction: Transaction, context: ExecutionContext): LedgerReceipt {
+    if (transaction instanceof AccountCreateTransaction) return this.createCryptoAccount(transaction, context);
+    if (transaction instanceof AccountUpdateTransaction) return this.updateAccount(transaction, context);
+    if (transaction instanceof TopicCreateTransaction) return this.createTopic(transaction, context);
+    if (transaction instanceof TopicMessageSubmitTransaction) return this.submitTopicMessage(transaction, context);
+    if (transaction instanceof TokenCreateTransaction) return this.createToken(transaction, context);
+    if (transaction instanceof TokenAssociateTransaction) return this.associateTokens(transaction, context);
+    if (transaction instanceof TokenMintTransaction) return this.mintToken(transaction, context);
+    if (transaction instanceof TokenBurnTransaction) return this.burnToken(transaction, context);
+    if (transaction instanceof TokenWipeTransaction) return this.wipeToken(transaction, context);
+    if (transaction instanceof TokenGrantKycTransaction) return this.setKyc(transaction, true, context);
+    if (transaction instanceof TokenRevokeKycTransaction) return this.setKyc(transaction, false, context);
+    if (transaction instanceof TokenFreezeTransaction) return this.setFrozen(transaction, true, context);
+    if (transaction instanceof TokenUnfreezeTransaction) return this.setFrozen(transaction, false, context);
+    if (transaction instanceof TokenPauseTransaction) return this.setPaused(transaction, true, context);
+    if (transaction instanceof TokenUnpauseTransaction) return this.setPaused(transaction, false, context);
+    if (transaction instanceof TokenFeeScheduleUpdateTransaction) return this.updateFeeSchedule(transaction, context);
+    if (transaction instanceof TransferTransaction) return this.transfer(transaction, context);
+    if (transaction instanceof FileCreateTransaction) return this.createFile(transaction, context);
+    if (transaction instanceof FileAppendTransaction) return this.appendFile(transaction, context);
+    if (transaction instanceof FileUpdateTransaction) return this.updateFile(transaction, context);
+    if (transaction instanceof FileDeleteTransaction) return this.deleteFile(transaction, context);
+    if (transaction instanceof ContractCreateTransaction) return this.createContract(transaction, context);
+    if (transaction instanceof ContractExecuteTransaction) return this.executeContract(transaction, context);
+    if (transaction instanceof ScheduleCreateTransaction) return this.createSchedule(transaction, context);
+    if (transaction instanceof ScheduleSignTransaction) return this.signSchedule(transaction, context);
+    if (transaction instanceof ScheduleDeleteTransaction) return this.deleteSchedule(transaction, context);
+
+    throw new Error(`HederaSimulator does not support ${transaction.constructor.name}`);
+  }
+
+  private createCryptoAccount(tx: AccountCreateTransaction, context: ExecutionContext): LedgerReceipt {
+    const key = keyToString(tx.key);
+    if (!key) {
+      throw new SimulatorStatusError('KEY_REQUIRED', context.transactionId);
+    }
+    const initialBalance = tx.initialBalance ? BigInt(tx.initialBalance.toTinybars().toString()) : 0n;
+    if (initialBalance < 0n) {
+      throw new SimulatorStatusError('INVALID_INITIAL_BALANCE', context.transactionId);
+    }
+    const payer = this.requireAccount(context.payer, context);
+    if (payer.hbarTinybars < initialBalance) {
+      throw new SimulatorStatusError('INSUFFICIENT_PAYER_BALANCE', context.transactionId);
+    }
+    const maxAutomaticTokenAssociations = tx.maxAutomaticTokenAssociations?.toNumber() ?? 0;
+    if (maxAutomaticTokenAssociations < -1) {
+      throw new SimulatorStatusError('INVALID_MAX_AUTO_ASSOCIATIONS', context.transactionId);
+    }
+
+    const evmAddress = tx.alias ? tx.alias.toString().toLowerCase() : null;
+    if (evmAddress) {
+      if ([...this.accounts.values()].some(account => account.evmAddress === evmAddress)) {
+        throw new SimulatorStatusError('ALIAS_ALREADY_ASSIGNED', context.transactionId);
+      }
+      // The ECDSA key the alias was derived from has to sign
+      const aliasSigned = [...context.signerKeys].some(signer => {
+        const publicKey = PublicKey.fromString(signer);
+        return publicKey.type === 'secp256k1' && publicKey.toEvmAddress() === evmAddress;
+      });
+      if (!aliasSigned) {
+        throw new SimulatorStatusError('INVALID_SIGNATURE', context.transactionId, `missing signature for alias ${evmAddress}`);
+      }
+    }
+
+    const accountId = this.nextEntityId();
+    this.accounts.set(accountId, {
+      accountId,
+      publicKey: key,
+      hbarTinybars: initialBalance,
+      evmAddress,
+      memo: tx.accountMemo ?? '',
+      maxAutomaticTokenAssociations,
+      usedAutomaticAssociations: 0,
+      createdTimestamp: context.consensusTimestamp
+    });
+    if (initialBalance > 0n) {
+      payer.hbarTinybars -= initialBalance;
+      context.transfers.push({ account: payer.accountId, amount: -initialBalance });
+      context.transfers.push({ account: accountId, amount: initialBalance });
+    }
+
+    return success({ accountId });
+  }
+
+  private updateAccount(tx: AccountUpdateTransaction, context: ExecutionContext): LedgerReceipt {
+    const account = this.requireAccount(tx.accountId?.toString(), context);
+    this.requireSignature(context, account.publicKey);
+
+    // A new key has to sign too, proving the holder controls it
+    const key = keyToString(tx.key);
+    if (key) {
+      this.requireSignature(context, key);
+    }
+    const maxAutomaticTokenAssociations = tx.maxAutomaticTokenAssociations?.toNumber();
+    if (maxAutomaticTokenAssociations !== undefined && maxAutomaticTokenAssociations !== -1
+      && maxAutomaticTokenAssociations < account.usedAutomaticAssociations) {
+      throw new SimulatorStatusError('EXISTING_AUTOMATIC_ASSOCIATIONS_EXCEED_GIVEN_LIMIT', context.transactionId);
+    }
+
+    if (key) {
+      account.publicKey = key;
+    }
+    if (maxAutomaticTokenAssociations !== undefined) {
+      account.maxAutomaticTokenAssociations = maxAutomaticTokenAssociations;
+    }
+    if (tx.accountMemo !== null) {
+      account.memo = tx.accountMemo;
+    }
+
+    return success({});
+  }
+
+  private createTopic(tx: TopicCreateTransaction, context: ExecutionContext): LedgerReceipt {
+    const topicId = this.nextEntityId();
+    const autoRenewSeconds = tx.autoRenewPeriod ? tx.autoRenewPeriod.seconds.toNumber() : DEFAULT_AUTO_RENEW_SECONDS;
+
+    this.topics.set(topicId, {
+      topicId,
+      memo: tx.topicMemo || '',
+      adminKey: keyToString(tx.adminKey),
+      submitKey: keyToString(tx.submitKey),
+      runningHash: EMPTY_RUNNING_HASH,
+      sequenceNumber: 0,
+      autoRenewPeriodSeconds: autoRenewSeconds,
+      expirationTime: new Date(Date.now() + autoRenewSeconds * 1000),
+      messages: []
+    });
+
+    return success({ topicId });
+  }
+
+  private submitTopicMessage(tx: TopicMessageSubmitTransaction, context: ExecutionContext): LedgerReceipt {
+    const topic = this.requireTopic(tx.topicId?.toString(), context);
+    this.requireSignature(context, topic.submitKey);
+
+    if (context.chunk) {
+      const entry = this.appendTopicMessage(topic, context, context.chunk.contents, BigInt(context.consensusTimestamp.replace('.', '')),
+        context.chunk.total > 1 ? context.chunk : undefined);
+      return success({
+        topicSequenceNumber: entry.sequenceNumber,
+        topicRunningHash: entry.runningHash,
+        topicRunningHashVersion: entry.runningHashVersion
+      });
+    }
+
+    const message = Buffer.from(tx.message || new Uint8Array());
+    if (message.length === 0) {
+      throw new SimulatorStatusError('INVALID_TOPIC_MESSAGE', context.transactionId);
+    }
+
+    const chunkSize = tx.chunkSize || DEFAULT_TOPIC_CHUNK_SIZE;
+    const total = Math.ceil(message.length / chunkSize);
+    if (tx.maxChunks && total > tx.maxChunks) {
+      throw new Error(`Message requires ${total} chunks but maxChunks is ${tx.maxChunks}`);
+    }
+
+    let timestamp = BigInt(context.consensusTimestamp.replace('.', ''));
+    let first: SimulatedTopicMessage | undefined;
+
+    for (let number = 1; number <= total; number++) {
+      const chunk = message.subarray((number - 1) * chunkSize, number * chunkSize);
+      const entry = this.appendTopicMessage(topic, context, chunk, timestamp,
+        total > 1 ? { initialTransactionId: context.transactionId, number, total } : undefined);
+      first = first || entry;
+      timestamp += 1000n;
+    }
+
+    this.clockNanos = timestamp;
+
+    return success({
+      topicSequenceNumber: first!.sequenceNumber,
+      topicRunningHash: first!.runningHash,
+      topicRunningHashVersion: first!.runningHashVersion
+    });
+  }
+
+  private appendTopicMessage(
+    topic: SimulatedTopic,
+    context: ExecutionContext,
+    contents: Buffer,
+    timestampNanos: bigint,
+    chunkInfo: { initialTransactionId: string; number: number; total: number } | undefined
+  ): SimulatedTopicMessage {
+    const consensusTimestamp = formatNanos(timestampNanos);
+    const sequenceNumber = topic.sequenceNumber + 1;
+    const runningHash = computeRunningHash({
+      previousRunningHash: topic.runningHash,
+      payerAccountId: context.payer,
+      topicId: topic.topicId,
+      consensusTimestamp,
+      sequenceNumber,
+      message: contents
+    });
+
+    const entry: SimulatedTopicMessage = {
+      topicId: topic.topicId,
+      sequenceNumber,
+      consensusTimestamp,
+      message: contents,
+      runningHash,
+      runningHashVersion: RUNNING_HASH_VERSION,
+      payerAccountId: context.payer,
+      chunkInfo: chunkInfo && {
+        initialTransactionId: chunkInfo.initialTransactionId,
+        number: chunkInfo.number,
+        total: chunkInfo.total
+      }
+    };
+
+    topic.messages.push(entry);
+    topic.sequenceNumber = sequenceNumber;
+    topic.runningHash = runningHash;
+    return entry;
+  }
+
+  private createToken(tx: TokenCreateTransaction, context: ExecutionContext): LedgerReceipt {
+    const treasury = tx.treasuryAccountId?.toString();
+    if (!treasury || !this.accounts.has(treasury)) {
+      throw new SimulatorStatusError('INVALID_TREASURY_ACCOUNT_FOR_TOKEN', context.transactionId);
+    }
+    this.requireSignature(context, this.accounts.get(treasury)!.publicKey);
+    this.requireSignature(context, keyToString(tx.adminKey));
+
+    const tokenId = this.nextEntityId();
+    const isNft = tx.tokenType === TokenType.NonFungibleUnique;
+    const initialSupply = isNft ? 0n : BigInt((tx.initialSupply || Long.ZERO).toString());
+    const maxSupply = tx.maxSupply && !tx.maxSupply.isZero() ? BigInt(tx.maxSupply.toString()) : null;
+
+    if (maxSupply !== null && initialSupply > maxSupply) {
+      throw new SimulatorStatusError('INVALID_TOKEN_INITIAL_SUPPLY', context.transactionId);
+    }
+
+    const type = isNft ? 'NON_FUNGIBLE_UNIQUE' : 'FUNGIBLE_COMMON';
+    const customFees = fromSdkCustomFees(tx.customFees);
+    this.checkCustomFees(customFees, type, null, context);
+
+    const token: SimulatedToken = {
+      tokenId,
+      name: tx.tokenName || '',
+      symbol: tx.tokenSymbol || '',
+      decimals: isNft ? 0 : (tx.decimals ? tx.decimals.toNumber() : 0),
+      type,
+      treasuryAccountId: treasury,
+      totalSupply: initialSupply,
+      maxSupply,
+      adminKey: keyToString(tx.adminKey),
+      kycKey: keyToString(tx.kycKey),
+      freezeKey: keyToString(tx.freezeKey),
+      wipeKey: keyToString(tx.wipeKey),
+      supplyKey: keyToString(tx.supplyKey),
+      pauseKey: keyToString(tx.pauseKey),
+      feeScheduleKey: keyToString(tx.feeScheduleKey),
+      customFees,
+      freezeDefault: tx.freezeDefault || false,
+      paused: false,
+      createdTimestamp: context.consensusTimestamp,
+      nfts: new Map()
+    };
+    this.tokens.set(tokenId, token);
+
+    this.relationship(treasury, tokenId, true).balance = initialSupply;
+    // Fractional fee collectors are associated with the new token automatically
+    for (const fee of customFees) {
+      if (fee.kind === 'fractional') this.relationship(fee.collectorAccountId, tokenId, true);
+    }
+    if (initialSupply > 0n) {
+      context.tokenTransfers.push({ tokenId, account: treasury, amount: initialSupply });
+    }
+
+    return success({ tokenId, totalSupply: initialSupply });
+  }
+
+  private associateTokens(tx: TokenAssociateTransaction, context: ExecutionContext): LedgerReceipt {
+    const accountId = tx.accountId?.toString();
+    const account = this.requireAccount(accountId, context);
+    this.requireSignature(context, account.publicKey);
+
+    for (const tokenId of tx.tokenIds || []) {
+      this.requireUnpausedToken(tokenId.toString(), context);
+      if (this.tokenRelationships.get(account.accountId)?.has(tokenId.toString())) {
+        throw new SimulatorStatusError('TOKEN_ALREADY_ASSOCIATED_TO_ACCOUNT', context.transactionId);
+      }
+      this.relationship(account.accountId, tokenId.toString(), true);
+    }
+
+    return success({});
+  }
+
+  private mintToken(tx: TokenMintTransaction, context: ExecutionContext): LedgerReceipt {
+    const token = this.requireUnpausedToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.supplyKey, 'TOKEN_HAS_NO_SUPPLY_KEY');
+
+    const treasury = this.relationship(token.treasuryAccountId, token.tokenId);
+    const serials: number[] = [];
+    let minted: bigint;
+
+    if (token.type === 'NON_FUNGIBLE_UNIQUE') {
+      for (const metadata of tx.metadata) {
+        if (metadata.length > MAX_NFT_METADATA_BYTES) {
+          throw new SimulatorStatusError('METADATA_TOO_LONG', context.transactionId);
+        }
+        const serial = token.nfts.size + 1;
+        token.nfts.set(serial, {
+          tokenId: token.tokenId,
+          serial,
+          owner: token.treasuryAccountId,
+          metadata: Buffer.from(metadata),
+          deleted: false,
+          createdTimestamp: context.consensusTimestamp,
+          modifiedTimestamp: context.consensusTimestamp
+        });
+        serials.push(serial);
+      }
+      minted = BigInt(serials.length);
+    } else {
+      minted = BigInt((tx.amount || Long.ZERO).toString());
+    }
+
+    if (minted <= 0n) {
+      throw new SimulatorStatusError('INVALID_TOKEN_MINT_AMOUNT', context.transactionId);
+    }
+    if (token.maxSupply !== null && token.totalSupply + minted > token.maxSupply) {
+      throw new SimulatorStatusError('TOKEN_MAX_SUPPLY_REACHED', context.transactionId);
+    }
+
+    token.totalSupply += minted;
+    treasury.balance += minted;
+    context.tokenTransfers.push({ tokenId: token.tokenId, account: token.treasuryAccountId, amount: minted });
+
+    return success({ totalSupply: token.totalSupply, serials });
+  }
+
+  private burnToken(tx: TokenBurnTransaction, context: ExecutionContext): LedgerReceipt {
+    const token = this.requireUnpausedToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.supplyKey, 'TOKEN_HAS_NO_SUPPLY_KEY');
+
+    const treasury = this.relationship(token.treasuryAccountId, token.tokenId);
+    let burned: bigint;
+
+    if (token.type === 'NON_FUNGIBLE_UNIQUE') {
+      for (const serialLong of tx.serials) {
+        const nft = token.nfts.get(serialLong.toNumber());
+        if (!nft || nft.deleted) {
+          throw new SimulatorStatusError('INVALID_NFT_ID', context.transactionId);
+        }
+        if (nft.owner !== token.treasuryAccountId) {
+          throw new SimulatorStatusError('TREASURY_MUST_OWN_BURNED_NFT', context.transactionId);
+        }
+        nft.deleted = true;
+        nft.modifiedTimestamp = context.consensusTimestamp;
+      }
+      burned = BigInt(tx.serials.length);
+    } else {
+      burned = BigInt((tx.amount || Long.ZERO).toString());
+    }
+
+    if (burned <= 0n) {
+      throw new SimulatorStatusError('INVALID_TOKEN_BURN_AMOUNT', context.transactionId);
+    }
+    if (treasury.balance < burned) {
+      throw new SimulatorStatusError('INVALID_TOKEN_BURN_AMOUNT', context.transactionId);
+    }
+
+    token.totalSupply -= burned;
+    treasury.balance -= burned;
+    context.tokenTransfers.push({ tokenId: token.tokenId, account: token.treasuryAccountId, amount: -burned });
+
+    return success({ totalSupply: token.totalSupply });
+  }
+
+  private wipeToken(tx: TokenWipeTransaction, context: ExecutionContext): LedgerReceipt {
+    const token = this.requireUnpausedToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.wipeKey, 'TOKEN_HAS_NO_WIPE_KEY');
+
+    const account = this.requireAccount(tx.accountId?.toString(), context);
+    if (account.accountId === token.treasuryAccountId) {
+      throw new SimulatorStatusError('CANNOT_WIPE_TOKEN_TREASURY_ACCOUNT', context.transactionId);
+    }
+    const relationship = this.requireRelationship(account.accountId, token.tokenId, context);
+    let wiped: bigint;
+
+    if (token.type === 'NON_FUNGIBLE_UNIQUE') {
+      const nfts = (tx.serials || []).map(serialLong => {
+        const nft = token.nfts.get(serialLong.toNumber());
+        if (!nft || nft.deleted) {
+          throw new SimulatorStatusError('INVALID_NFT_ID', context.transactionId);
+        }
+        if (nft.owner !== account.accountId) {
+          throw new SimulatorStatusError('ACCOUNT_DOES_NOT_OWN_WIPED_NFT', context.transactionId);
+        }
+        return nft;
+      });
+      nfts.forEach(nft => {
+        nft.deleted = true;
+        nft.modifiedTimestamp = context.consensusTimestamp;
+      });
+      wiped = BigInt(nfts.length);
+    } else {
+      wiped = BigInt((tx.amount || Long.ZERO).toString());
+    }
+
+    if (wiped <= 0n || relationship.balance < wiped) {
+      throw new SimulatorStatusError('INVALID_WIPING_AMOUNT', context.transactionId);
+    }
+
+    token.totalSupply -= wiped;
+    relationship.balance -= wiped;
+    context.tokenTransfers.push({ tokenId: token.tokenId, account: account.accountId, amount: -wiped });
+
+    return success({ totalSupply: token.totalSupply });
+  }
+
+  private setKyc(tx: TokenGrantKycTransaction | TokenRevokeKycTransaction, granted: boolean, context: ExecutionContext): LedgerReceipt {
+    const token = this.requireUnpausedToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.kycKey, 'TOKEN_HAS_NO_KYC_KEY');
+
+    const account = this.requireAccount(tx.accountId?.toString(), context);
+    this.associatedRelationship(account.accountId, token.tokenId, context).kycGranted = granted;
+
+    return success({});
+  }
+
+  private setFrozen(tx: TokenFreezeTransaction | TokenUnfreezeTransaction, frozen: boolean, context: ExecutionContext): LedgerReceipt {
+    const token = this.requireUnpausedToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.freezeKey, 'TOKEN_HAS_NO_FREEZE_KEY');
+
+    const account = this.requireAccount(tx.accountId?.toString(), context);
+    this.associatedRelationship(account.accountId, token.tokenId, context).frozen = frozen;
+
+    return success({});
+  }
+
+  private setPaused(tx: TokenPauseTransaction | TokenUnpauseTransaction, paused: boolean, context: ExecutionContext): LedgerReceipt {
+    const token = paused
+      ? this.requireUnpausedToken(tx.tokenId?.toString(), context)
+      : this.requireToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.pauseKey, 'TOKEN_HAS_NO_PAUSE_KEY');
+
+    token.paused = paused;
+    return success({});
+  }
+
+  private updateFeeSchedule(tx: TokenFeeScheduleUpdateTransaction, context: ExecutionContext): LedgerReceipt {
+    const token = this.requireUnpausedToken(tx.tokenId?.toString(), context);
+    this.requireSignature(context, token.feeScheduleKey, 'TOKEN_HAS_NO_FEE_SCHEDULE_KEY');
+
+    const customFees = fromSdkCustomFees(tx.customFees);
+    this.checkCustomFees(customFees, token.type, token.tokenId, context);
+    token.customFees = customFees;
+
+    return success({});
+  }
+
+  /**
+   * Rejects fee schedules the network would reject; `tokenId` is null while the token is being created
+   */
+  private checkCustomFees(
+    fees: TokenCustomFee[],
+    type: SimulatedToken['type'],
+    tokenId: string | null,
+    context: ExecutionContext
+  ): void {
+    if (fees.length > MAX_CUSTOM_FEES) {
+      throw new SimulatorStatusError('CUSTOM_FEES_LIST_TOO_LONG', context.transactionId);
+    }
+
+    const fail = (status: string) => {
+      throw new SimulatorStatusError(status, context.transactionId);
+    };
+    const requireAssociated = (collector: string, denominatingTokenId: string | null) => {
+      if (denominatingTokenId === null) return;
+      if (!this.tokens.has(denominatingTokenId)) fail('INVALID_TOKEN_ID_IN_CUSTOM_FEES');
+      if (!this.tokenRelationships.get(collector)?.has(denominatingTokenId)) fail('TOKEN_NOT_ASSOCIATED_TO_FEE_COLLECTOR');
+    };
+
+    for (const fee of fees) {
+      if (!this.accounts.has(fee.collectorAccountId)) fail('INVALID_CUSTOM_FEE_COLLECTOR');
+
+      if (fee.kind === 'fixed') {
+        if (fee.units <= 0n) fail('CUSTOM_FEE_MUST_BE_POSITIVE');
+        requireAssociated(fee.collectorAccountId, fee.denominatingTokenId);
+        continue;
+      }
+
+      if (fee.denominator === 0) fail('FRACTION_DIVIDES_BY_ZERO');
+      if (fee.numerator <= 0) fail('CUSTOM_FEE_MUST_BE_POSITIVE');
+
+      if (fee.kind === 'fractional') {
+        if (type !== 'FUNGIBLE_COMMON') fail('CUSTOM_FRACTIONAL_FEE_ONLY_ALLOWED_FOR_FUNGIBLE_COMMON');
+        if (fee.maximum !== null && fee.maximum < fee.minimum) fail('FRACTIONAL_FEE_MAX_AMOUNT_LESS_THAN_MIN_AMOUNT');
+        if (tokenId !== null) requireAssociated(fee.collectorAccountId, tokenId);
+      } else {
+        if (type !== 'NON_FUNGIBLE_UNIQUE') fail('CUSTOM_ROYALTY_FEE_ONLY_ALLOWED_FOR_NON_FUNGIBLE_UNIQUE');
+        if (fee.numerator > fee.denominator) fail('ROYALTY_FRACTION_CANNOT_EXCEED_ONE');
+        if (fee.fallbackFee) requireAssociated(fee.collectorAccountId, fee.fallbackFee.denominatingTokenId);
+      }
+    }
+  }
+
+  private transfer(tx: TransferTransaction, context: ExecutionContext): LedgerReceipt {
+    // Validate everything first so a failing leg leaves state untouched
+    const hbarLegs: { account: SimulatedAccount; amount: bigint }[] = [];
+    let hbarSum = 0n;
+    for (const [accountId, amount] of tx.hbarTransfers) {
+      const account = this.requireAccount(accountId.toString(), context);
+      const tinybars = BigInt(amount.toTinybars().toString());
+      if (tinybars < 0n) {
+        this.requireSignature(context, account.publicKey);
+        if (account.hbarTinybars < -tinybars) {
+          throw new SimulatorStatusError('INSUFFICIENT_ACCOUNT_BALANCE', context.transactionId);
+        }
+      }
+      hbarSum += tinybars;
+      hbarLegs.push({ account, amount: tinybars });
+    }
+    if (hbarSum !== 0n) {
+      throw new SimulatorStatusError('INVALID_ACCOUNT_AMOUNTS', context.transactionId);
+    }
+
+    // Receivers with free automatic association slots get associated when the transfer applies
+    const autoAssociations = new Map<string, Set<string>>();
+
+    // A null relationship is one the transfer associates automatically
+    const tokenLegs: { token: SimulatedToken; accountId: string; relationship: TokenRelationship | null; amount: bigint }[] = [];
+    for (const [tokenId, accountAmounts] of tx.tokenTransfers) {
+      const token = this.requireUnpausedToken(tokenId.toString(), context);
+      let sum = 0n;
+      for (const [accountId, amount] of accountAmounts) {
+        const account = this.requireAccount(accountId.toString(), context);
+        const value = BigInt(amount.toString());
+        const relationship = value > 0n
+          ? this.receivingRelationship(account, token, autoAssociations, context)
+          : this.requireTransferableRelationship(account.accountId, token.tokenId, context);
+        if (value < 0n) {
+          this.requireSignature(context, account.publicKey);
+          if (relationship!.balance < -value) {
+            throw new SimulatorStatusError('INSUFFICIENT_TOKEN_BALANCE', context.transactionId);
+          }
+        }
+        sum += value;
+        tokenLegs.push({ token, accountId: account.accountId, relationship, amount: value });
+      }
+      if (sum !== 0n) {
+        throw new SimulatorStatusError('TRANSFERS_NOT_ZERO_SUM_FOR_TOKEN', context.transactionId);
+      }
+    }
+
+    const nftLegs: { token: SimulatedToken; nft: SimulatedNft; from: string; to: string }[] = [];
+    for (const [tokenId, nftTransfers] of tx.nftTransfers) {
+      const token = this.requireUnpausedToken(tokenId.toString(), context);
+      for (const nftTransfer of nftTransfers) {
+        const from = this.requireAccount(nftTransfer.sender.toString(), context);
+        const to = this.requireAccount(nftTransfer.recipient.toString(), context);
+        const nft = token.nfts.get(nftTransfer.serial.toNumber());
+        if (!nft || nft.deleted) {
+          throw new SimulatorStatusError('INVALID_NFT_ID', context.transactionId);
+        }
+        if (nft.owner !== from.accountId) {
+          throw new SimulatorStatusError('SENDER_DOES_NOT_OWN_NFT_SERIAL_NO', context.transactionId);
+        }
+        this.requireSignature(context, from.publicKey);
+        this.requireTransferableRelationship(from.accountId, token.tokenId, context);
+        this.receivingRelationship(to, token, autoAssociations, context);
+        nftLegs.push({ token, nft, from: from.accountId, to: to.accountId });
+      }
+    }
+
+    for (const [accountId, tokenIds] of autoAssociations) {
+      for (const tokenId of tokenIds) {
+        this.relationship(accountId, tokenId, true).automaticAssociation = true;
+        this.accounts.get(accountId)!.usedAutomaticAssociations++;
+      }
+    }
+    for (const leg of hbarLegs) {
+      leg.account.hbarTinybars += leg.amount;
+      context.transfers.push({ account: leg.account.accountId, amount: leg.amount });
+    }
+    for (const leg of tokenLegs) {
+      (leg.relationship ?? this.relationship(leg.accountId, leg.token.tokenId)).balance += leg.amount;
+      context.tokenTransfers.push({ tokenId: leg.token.tokenId, account: leg.accountId, amount: leg.amount });
+    }
+    for (const leg of nftLegs) {
+      leg.nft.owner = leg.to;
+      leg.nft.modifiedTimestamp = context.consensusTimestamp;
+      this.relationship(leg.from, leg.token.tokenId).balance -= 1n;
+      this.relationship(leg.to, leg.token.tokenId).balance += 1n;
+    }
+
+    return success({});
+  }
+
+  private createFile(tx: FileCreateTransaction, context: ExecutionContext): LedgerReceipt {
+    const fileId = this.nextEntityId();
+    const keys = (tx.keys || []).map(key => keyToString(key)!).filter(Boolean);
+
+    this.files.set(fileId, {
+      fileId,
+      contents: Buffer.from(tx.contents || new Uint8Array()),
+      keys,
+      deleted: false,
+      memo: tx.fileMemo || ''
+    });
+
+    return success({ fileId });
+  }
+
+  private appendFile(tx: FileAppendTransaction, context: ExecutionContext): LedgerReceipt {
+    const file = this.requireFile(tx.fileId?.toString(), context);
+    file.keys.forEach(key => this.requireSignature(context, key));
+    file.contents = Buffer.concat([file.contents, Buffer.from(tx.contents || new Uint8Array())]);
+    return success({});
+  }
+
+  private updateFile(tx: FileUpdateTransaction, context: ExecutionContext): LedgerReceipt {
+    const file = this.requireFile(tx.fileId?.toString(), context);
+    file.keys.forEach(key => this.requireSignature(context, key));
+
+    if (tx.keys) {
+      file.keys = tx.keys.map(key => keyToString(key)!).filter(Boolean);
+    }
+    if (tx.contents) {
+      file.contents = Buffer.from(tx.contents);
+    }
+    if (tx.fileMemo !== null) {
+      file.memo = tx.fileMemo;
+    }
+
+    return success({});
+  }
+
+  private deleteFile(tx: FileDeleteTransaction, context: ExecutionContext): LedgerReceipt {
+    const file = this.requireFile(tx.fileId?.toString(), context);
+    file.keys.forEach(key => this.requireSignature(context, key));
+    file.deleted = true;
+    file.contents = Buffer.alloc(0);
+    return success({});
+  }
+
+  private createContract(tx: ContractCreateTransaction, context: ExecutionContext): LedgerReceipt {
+    let bytecode = tx.bytecode;
+    if (!bytecode && tx.bytecodeFileId) {
+      bytecode = this.requireFile(tx.bytecodeFileId.toString(), context).contents;
+    }
+
+    const contractId = this.nextEntityId();
+    const contract = this.options.contractDeployer?.(bytecode, contractId) || { functions: {} };
+    this.contracts.set(contractId, { contractId, contract: indexContract(contract), balanceTinybars: 0n });
+
+    return success({ contractId });
+  }
+
+  private executeContract(tx: ContractExecuteTransaction, context: ExecutionContext): LedgerReceipt {
+    const instance = this.requireContract(tx.contractId?.toString(), context);
+    const valueTinybars = tx.payableAmount ? BigInt(tx.payableAmount.toTinybars().toString()) : 0n;
+    const payer = this.requireAccount(context.payer);
+
+    if (payer.hbarTinybars < valueTinybars) {
+      throw new SimulatorStatusError('INSUFFICIENT_PAYER_BALANCE', context.transactionId);
+    }
+
+    this.invokeContract(instance, tx.functionParameters || new Uint8Array(), context.payer, valueTinybars, false, context.transactionId);
+
+    if (valueTinybars > 0n) {
+      payer.hbarTinybars -= valueTinybars;
+      instance.balanceTinybars += valueTinybars;
+      context.transfers.push({ account: payer.accountId, amount: -valueTinybars });
+      context.transfers.push({ account: instance.contractId, amount: valueTinybars });
+    }
+
+    return success({ contractId: instance.contractId });
+  }
+
+  private createSchedule(tx: ScheduleCreateTransaction, context: ExecutionContext): LedgerReceipt {
+    // The SDK keeps the wrapped transaction private; the simulator needs it to run it later.
+    // Its memo, expiry and wait-for-expiry getters also refuse to read a frozen transaction.
+    const fields = tx as unknown as {
+      _scheduledTransaction: Transaction | null;
+      _scheduleMemo: string | null;
+      _expirationTime: Timestamp | null;
+      _waitForExpiry: boolean | null;
+    };
+    const scheduled = fields._scheduledTransaction;
+    if (!scheduled) {
+      throw new SimulatorStatusError('INVALID_TRANSACTION_BODY', context.transactionId, 'no scheduled transaction');
+    }
+    if (scheduled instanceof ScheduleCreateTransaction || scheduled instanceof ScheduleSignTransaction
+      || scheduled instanceof ScheduleDeleteTransaction) {
+      throw new SimulatorStatusError('SCHEDULED_TRANSACTION_NOT_IN_WHITELIST', context.transactionId);
+    }
+
+    const now = BigInt(context.consensusTimestamp.replace('.', ''));
+    const expirationNanos = fields._expirationTime ? timestampToNanos(fields._expirationTime) : now + DEFAULT_SCHEDULE_EXPIRY_NANOS;
+    if (expirationNanos <= now) {
+      throw new SimulatorStatusError('SCHEDULE_EXPIRATION_TIME_MUST_BE_HIGHER_THAN_CONSENSUS_TIME', context.transactionId);
+    }
+    if (expirationNanos > now + MAX_SCHEDULE_EXPIRY_NANOS) {
+      throw new SimulatorStatusError('SCHEDULE_EXPIRATION_TIME_TOO_FAR_IN_FUTURE', context.transactionId);
+    }
+
+    const payerAccountId = tx.payerAccountId?.toString() ?? context.payer;
+    this.requireAccount(payerAccountId, context);
+    const adminKey = keyToString(tx.adminKey);
+    this.requireSignature(context, adminKey);
+
+    const scheduleId = this.nextEntityId();
+    const schedule: SimulatedSchedule = {
+      scheduleId,
+      transaction: scheduled,
+      creatorAccountId: context.payer,
+      payerAccountId,
+      scheduledTransactionId: `${context.transactionId}?scheduled`,
+      memo: fields._scheduleMemo ?? '',
+      adminKey,
+      signatories: new Set(context.signerKeys), // Signatures on the create count towards the scheduled transaction
+      expirationNanos,
+      waitForExpiry: fields._waitForExpiry ?? false,
+      executedTimestamp: null,
+      deletedTimestamp: null,
+      expired: false
+    };
+    this.schedules.set(scheduleId, schedule);
+
+    if (!schedule.waitForExpiry) {
+      context.afterRecord = () => this.tryExecuteSchedule(schedule, now + 1n);
+    }
+
+    return success({ scheduleId, scheduledTransactionId: schedule.scheduledTransactionId });
+  }
+
+  private signSchedule(tx: ScheduleSignTransaction, context: ExecutionContext): LedgerReceipt {
+    const schedule = this.requirePendingSchedule(tx.scheduleId?.toString(), context);
+
+    const added = [...context.signerKeys].filter(key => !schedule.signatories.has(key));
+    if (added.length === 0) {
+      throw new SimulatorStatusError('NO_NEW_VALID_SIGNATURES', context.transactionId);
+    }
+    added.forEach(key => schedule.signatories.add(key));
+
+    if (!schedule.waitForExpiry) {
+      context.afterRecord = () => this.tryExecuteSchedule(schedule, BigInt(context.consensusTimestamp.replace('.', '')) + 1n);
+    }
+
+    return success({ scheduledTransactionId: schedule.scheduledTransactionId });
+  }
+
+  private deleteSchedule(tx: ScheduleDeleteTransaction, context: ExecutionContext): LedgerReceipt {
+    const schedule = this.requirePendingSchedule(tx.scheduleId?.toString(), context);
+    this.requireSignature(context, schedule.adminKey, 'SCHEDULE_IS_IMMUTABLE');
+    schedule.deletedTimestamp = context.consensusTimestamp;
+    return success({});
+  }
+
+  /**
+   * Runs the scheduled transaction if its signatories satisfy every key it needs.
+   * A failure other than a missing signature still counts as executed, with that
+   * status on the scheduled transaction's record, as on the network.
+   */
+  private tryExecuteSchedule(schedule: SimulatedSchedule, timestampNanos: bigint): boolean {
+    const context: ExecutionContext = {
+      transactionId: schedule.scheduledTransactionId,
+      payer: schedule.payerAccountId,
+      signerKeys: schedule.signatories,
+      consensusTimestamp: formatNanos(timestampNanos),
+      transfers: [],
+      tokenTransfers: []
+    };
+    const fee = SIMULATED_FEES[schedule.transaction.constructor.name] ?? 1_000_000n;
+
+    try {
+      this.requireSignature(context, this.requireAccount(schedule.payerAccountId, context).publicKey);
+      const receipt = this.dispatch(schedule.transaction, context);
+      this.record(schedule.transaction, context, 'SUCCESS', fee, entityIdOf(receipt));
+      this.receipts.set(context.transactionId, receipt);
+    } catch (error: any) {
+      const status = error instanceof SimulatorStatusError ? error.status : 'FAIL_INVALID';
+      if (status === 'INVALID_SIGNATURE') {
+        return false; // Waits for more signatures
+      }
+      this.record(schedule.transaction, context, status, fee, null);
+      this.receipts.set(context.transactionId, { status, serials: [] });
+    }
+
+    schedule.executedTimestamp = context.consensusTimestamp;
+    return true;
+  }
+
+  /**
+   * Executes wait-for-expiry schedules whose time has come and expires the rest,
+   * just before the transaction at `nowNanos`. Like the network, it forgets executed
+   * and deleted schedules at their expiry too; the mirror node still has them.
+   */
+  private runDueSchedules(nowNanos: bigint): void {
+    let offset = 0n;
+    for (const schedule of this.schedules.values()) {
+      if (schedule.expired || schedule.expirationNanos > nowNanos) {
+        continue;
+      }
+      if (schedule.executedTimestamp || schedule.deletedTimestamp) {
+        schedule.expired = true;
+        continue;
+      }
+      if (!(schedule.waitForExpiry && this.tryExecuteSchedule(schedule, nowNanos + offset++))) {
+        schedule.expired = true;
+      }
+    }
+  }
+
+  private requirePendingSchedule(scheduleId: string | undefined, context: ExecutionContext): SimulatedSchedule {
+    const schedule = scheduleId ? this.schedules.get(scheduleId) : undefined;
+    if (!schedule || schedule.expired) {
+      throw new SimulatorStatusError('INVALID_SCHEDULE_ID', context.transactionId, scheduleId);
+    }
+    if (schedule.executedTimestamp) {
+      throw new SimulatorStatusError('SCHEDULE_ALREADY_EXECUTED', context.transactionId, scheduleId);
+    }
+    if (schedule.deletedTimestamp) {
+      throw new SimulatorStatusError('SCHEDULE_ALREADY_DELETED', context.transactionId, scheduleId);
+    }
+    return schedule;
+  }
+
+  // ---- Queries ----
+
+  private transactionRecord(transactionId: string, validateStatus: boolean): LedgerRecord {
+    const record = this.findTransactionRecords(transactionId).pop();
+    if (!record) {
+      throw new SimulatorStatusError('RECORD_NOT_FOUND', transactionId);
+    }
+    // As the SDK's record query does unless told not to validate the receipt status
+    if (validateStatus && record.result !== 'SUCCESS') {
+      throw new SimulatorStatusError(record.result, transactionId);
+    }
+
+    return {
+      transactionId: record.transactionId,
+      consensusTimestamp: record.consensusTimestamp,
+      receipt: this.receipts.get(transactionId) || { status: record.result, serials: [] },
+      transactionFeeTinybars: record.chargedTxFee,
+      memo: record.memo,
+      transfers: record.transfers.map(t => ({ accountId: t.account, amountTinybars: t.amount }))
+    };
+  }
+
+  private accountBalance(accountId: string): LedgerAccountBalance {
+    const account = this.accounts.get(accountId);
+    const contract = this.contracts.get(accountId);
+    if (!account && !contract) {
+      throw new SimulatorStatusError('INVALID_ACCOUNT_ID', 'query');
+    }
+
+    const tokens = new Map<string, bigint>();
+    for (const [tokenId, relationship] of this.tokenRelationships.get(accountId) || []) {
+      tokens.set(tokenId, relationship.balance);
+    }
+
+    return {
+      accountId,
+      hbarTinybars: account ? account.hbarTinybars : contract!.balanceTinybars,
+      tokens
+    };
+  }
+
+  private accountInfo(accountId: string): LedgerAccountInfo {
+    const account = this.requireAccount(accountId);
+    return {
+      accountId: account.accountId,
+      key: account.publicKey ?? '',
+      evmAddress: account.evmAddress ?? AccountId.fromString(account.accountId).toSolidityAddress(),
+      balanceTinybars: account.hbarTinybars,
+      memo: account.memo,
+      maxAutomaticTokenAssociations: account.maxAutomaticTokenAssociations,
+      deleted: false
+    };
+  }
+
+  private topicInfo(topicId: string): LedgerTopicInfo {
+    const topic = this.requireTopic(topicId);
+    return {
+      topicId: topic.topicId,
+      memo: topic.memo,
+      runningHash: topic.runningHash,
+      sequenceNumber: topic.sequenceNumber,
+      expirationTime: topic.expirationTime,
+      adminKey: topic.adminKey,
+      submitKey: topic.submitKey,
+      autoRenewPeriodSeconds: topic.autoRenewPeriodSeconds
+    };
+  }
+
+  private tokenInfo(tokenId: string): LedgerTokenInfo {
+    const token = this.tokens.get(tokenId);
+    if (!token) {
+      throw new SimulatorStatusError('INVALID_TOKEN_ID', 'query');
+    }
+    return {
+      tokenId: token.tokenId,
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      type: token.type,
+      treasuryAccountId: token.treasuryAccountId,
+      totalSupply: token.totalSupply,
+      maxSupply: token.maxSupply,
+      pauseStatus: token.pauseKey ? (token.paused ? 'PAUSED' : 'UNPAUSED') : 'NOT_APPLICABLE',
+      customFees: token.customFees
+    };
+  }
+
+  /**
+   * Expired schedules are gone from the network, so they are INVALID_SCHEDULE_ID
+   * here too (the mirror node still has them)
+   */
+  private scheduleInfo(scheduleId: string): LedgerScheduleInfo {
+    this.runDueSchedules(this.tick());
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule || schedule.expired) {
+      throw new SimulatorStatusError('INVALID_SCHEDULE_ID', 'query', scheduleId);
+    }
+
+    return {
+      scheduleId,
+      creatorAccountId: schedule.creatorAccountId,
+      payerAccountId: schedule.payerAccountId,
+      transactionType: schedule.transaction.constructor.name,
+      scheduledTransactionId: schedule.scheduledTransactionId,
+      memo: schedule.memo,
+      adminKey: schedule.adminKey,
+      signatories: [...schedule.signatories],
+      expirationTime: nanosToDate(schedule.expirationNanos),
+      waitForExpiry: schedule.waitForExpiry,
+      executedAt: schedule.executedTimestamp ? nanosToDate(BigInt(schedule.executedTimestamp.replace('.', ''))) : null,
+      deletedAt: schedule.deletedTimestamp ? nanosToDate(BigInt(schedule.deletedTimestamp.replace('.', ''))) : null
+    };
+  }
+
+  private callContract(
+    contractId: string,
+    functionName: string,
+    functionParams: ContractFunctionParameters | undefined,
+    sender: string
+  ): ContractFunctionResult {
+    const instance = this.requireContract(contractId);
+    const data = (functionParams || new ContractFunctionParameters())._build(functionName);
+    const bytes = this.invokeContract(instance, data, sender, 0n, true, 'query');
+
+    return new ContractFunctionResult({
+      _createResult: false,
+      contractId: ContractId.fromString(contractId),
+      errorMessage: null,
+      bloom: new Uint8Array(),
+      gasUsed: Long.fromNumber(21000),
+      logs: [],
+      createdContractIds: [],
+      evmAddress: null,
+      bytes,
+      gas: Long.ZERO,
+      amount: Long.ZERO,
+      functionParameters: data,
+      senderAccountId: AccountId.fromString(sender),
+      stateChanges: [],
+      contractNonces: [],
+      signerNonce: null
+    });
+  }
+
+  private invokeContract(
+    instance: SimulatedContractInstance,
+    data: Uint8Array,
+    sender: string,
+    valueTinybars: bigint,
+    readOnly: boolean,
+    transactionId: string
+  ): Uint8Array {
+    const selector = Buffer.from(data.subarray(0, 4)).toString('hex');
+    const fn = instance.contract.get(selector);
+    if (!fn) {
+      throw new SimulatorStatusError('CONTRACT_REVERT_EXECUTED', transactionId, `unknown function selector 0x${selector}`);
+    }
+
+    try {
+      const args = decodeAbi(fn.types, data.subarray(4));
+      const result = fn.handle({ contractId: instance.contractId, sender, args, valueTinybars, readOnly });
+      return result ? encodeAbi(fn.returns, result) : new Uint8Array();
+    } catch (error: any) {
+      throw new SimulatorStatusError('CONTRACT_REVERT_EXECUTED', transactionId, error.message);
+    }
+  }
+
+  // ---- Mirror node data (used by the fake REST API) ----
+
+  findTransactionRecords(transactionId: string): SimulatedTransactionRecord[] {
+    return this.records.filter(record => record.transactionId === transactionId);
+  }
+
+  getToken(tokenId: string): LedgerTokenInfo | null {
+    return this.tokens.has(tokenId) ? this.tokenInfo(tokenId) : null;
+  }
+
+  /**
+   * HBAR to US cents rate, fixed for the simulator's lifetime, as of the current consensus time
+   */
+  getExchangeRate(): { centEquivalent: number; hbarEquivalent: number; timestamp: string } {
+    return {
+      centEquivalent: this.options.centsPerHbar ?? DEFAULT_CENTS_PER_HBAR,
+      hbarEquivalent: 1,
+      timestamp: formatNanos(this.clockNanos)
+    };
+  }
+
+  /**
+   * Any schedule, including expired ones
+   */
+  getSchedule(scheduleId: string): SimulatedScheduleView | null {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return null;
+    return {
+      scheduleId,
+      creatorAccountId: schedule.creatorAccountId,
+      payerAccountId: schedule.payerAccountId,
+      memo: schedule.memo,
+      signatories: [...schedule.signatories],
+      expirationTimestamp: formatNanos(schedule.expirationNanos),
+      waitForExpiry: schedule.waitForExpiry,
+      executedTimestamp: schedule.executedTimestamp,
+      deleted: schedule.deletedTimestamp !== null
+    };
+  }
+
+  // ---- Internals ----
+
+  private record(
+    transaction: Transaction,
+    context: ExecutionContext,
+    result: string,
+    fee: bigint,
+    entityId: string | null
+  ): void {
+    const payer = this.accounts.get(context.payer);
+    const chargedTxFee = payer ? (payer.hbarTinybars < fee ? payer.hbarTinybars : fee) : 0n;
+    if (payer && chargedTxFee > 0n) {
+      payer.hbarTinybars -= chargedTxFee;
+      this.accounts.get(FEE_COLLECTOR_ACCOUNT)!.hbarTinybars += chargedTxFee;
+      context.transfers.push({ account: context.payer, amount: -chargedTxFee });
+      context.transfers.push({ account: FEE_COLLECTOR_ACCOUNT, amount: chargedTxFee });
+    }
+
+    const scheduled = context.transactionId.endsWith('?scheduled');
+    const [account, validStart] = context.transactionId.replace('?scheduled', '').split('@');
+
+    this.records.push({
+      transactionId: context.transactionId,
+      name: mirrorTransactionName(transaction),
+      consensusTimestamp: context.consensusTimestamp,
+      validStartTimestamp: validStart || '',
+      result,
+      payerAccountId: account,
+      chargedTxFee,
+      memo: transaction.transactionMemo,
+      entityId,
+      scheduled,
+      transfers: result === 'SUCCESS' ? context.transfers : context.transfers.filter(t => t.account === context.payer || t.account === FEE_COLLECTOR_ACCOUNT),
+      tokenTransfers: result === 'SUCCESS' ? context.tokenTransfers : []
+    });
+  }
+
+  private tick(): bigint {
+    const realNanos = BigInt(Date.now()) * 1_000_000n;
+    this.clockNanos = this.options.startTime
+      ? this.clockNanos + 1_000_000n
+      : (realNanos > this.clockNanos + 1_000_000n ? realNanos : this.clockNanos + 1_000_000n);
+    return this.clockNanos;
+  }
+
+  private nextEntityId(): string {
+    return `0.0.${this.nextEntityNum++}`;
+  }
+
+  private registerAccount(accountId: string, publicKey: PublicKey, balance?: bigint): void {
+    this.accounts.set(accountId, {
+      accountId,
+      publicKey: publicKey.toString(),
+      hbarTinybars: balance ?? this.options.defaultAccountBalanceTinybars ?? DEFAULT_ACCOUNT_BALANCE,
+      evmAddress: null,
+      memo: '',
+      maxAutomaticTokenAssociations: 0,
+      usedAutomaticAssociations: 0,
+      createdTimestamp: formatNanos(this.clockNanos)
+    });
+  }
+
+  private relationship(accountId: string, tokenId: string, create: boolean = false): TokenRelationship {
+    let relationships = this.tokenRelationships.get(accountId);
+    if (!relationships) {
+      relationships = new Map();
+      this.tokenRelationships.set(accountId, relationships);
+    }
+
+    let relationship = relationships.get(tokenId);
+    if (!relationship) {
+      if (!create) {
+        throw new SimulatorStatusError('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT', 'internal');
+      }
+      const token = this.tokens.get(tokenId)!;
+      relationship = {
+        balance: 0n,
+        kycGranted: !token.kycKey || accountId === token.treasuryAccountId,
+        frozen: !!token.freezeKey && token.freezeDefault && accountId !== token.treasuryAccountId,
+        automaticAssociation: false
+      };
+      relationships.set(tokenId, relationship);
+    }
+
+    return relationship;
+  }
+
+  private associatedRelationship(accountId: string, tokenId: string, context: ExecutionContext): TokenRelationship {
+    const relationship = this.tokenRelationships.get(accountId)?.get(tokenId);
+    if (!relationship) {
+      throw new SimulatorStatusError('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT', context.transactionId, `${accountId} / ${tokenId}`);
+    }
+    return relationship;
+  }
+
+  private requireRelationship(accountId: string, tokenId: string, context: ExecutionContext): TokenRelationship {
+    const relationship = this.associatedRelationship(accountId, tokenId, context);
+    if (relationship.frozen) {
+      throw new SimulatorStatusError('ACCOUNT_FROZEN_FOR_TOKEN', context.transactionId, `${accountId} / ${tokenId}`);
+    }
+    return relationship;
+  }
+
+  private requireTransferableRelationship(accountId: string, tokenId: string, context: ExecutionContext): TokenRelationship {
+    const relationship = this.requireRelationship(accountId, tokenId, context);
+    if (!relationship.kycGranted) {
+      throw new SimulatorStatusError('ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN', context.transactionId, `${accountId} / ${tokenId}`);
+    }
+    return relationship;
+  }
+
+  /**
+   * Relationship of an account receiving the token, or null when the transfer will
+   * associate it automatically (added to `planned`): only with a free automatic
+   * association slot and token defaults (KYC, freeze) that allow the transfer
+   */
+  private receivingRelationship(
+    account: SimulatedAccount,
+    token: SimulatedToken,
+    planned: Map<string, Set<string>>,
+    context: ExecutionContext
+  ): TokenRelationship | null {
+    if (this.tokenRelationships.get(account.accountId)?.has(token.tokenId)) {
+      return this.requireTransferableRelationship(account.accountId, token.tokenId, context);
+    }
+
+    const tokenIds = planned.get(account.accountId) ?? new Set<string>();
+    if (!tokenIds.has(token.tokenId)) {
+      const limit = account.maxAutomaticTokenAssociations;
+      if (limit === 0) {
+        throw new SimulatorStatusError('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT', context.transactionId, `${account.accountId} / ${token.tokenId}`);
+      }
+      if (limit !== -1 && account.usedAutomaticAssociations + tokenIds.size >= limit) {
+        throw new SimulatorStatusError('NO_REMAINING_AUTOMATIC_ASSOCIATIONS', context.transactionId, account.accountId);
+      }
+      if (token.kycKey) {
+        throw new SimulatorStatusError('ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN', context.transactionId, `${account.accountId} / ${token.tokenId}`);
+      }
+      if (token.freezeKey && token.freezeDefault) {
+        throw new SimulatorStatusError('ACCOUNT_FROZEN_FOR_TOKEN', context.transactionId, `${account.accountId} / ${token.tokenId}`);
+      }
+      tokenIds.add(token.tokenId);
+      planned.set(account.accountId, tokenIds);
+    }
+
+    return null;
+  }
+
+  private requireSignature(context: ExecutionContext, key: string | null | undefined, missingStatus?: string): void {
+    if (key === undefined || key === null) {
+      if (missingStatus) {
+        throw new SimulatorStatusError(missingStatus, context.transactionId);
+      }
+      return;
+    }
+    if (!keySatisfied(key, context.signerKeys)) {
+      throw new SimulatorStatusError('INVALID_SIGNATURE', context.transactionId, `missing signature for key ${key}`);
+    }
+  }
+
+  private requireAccount(accountId: string | undefined, context?: ExecutionContext): SimulatedAccount {
+    const account = accountId ? this.findAccount(accountId) : undefined;
+    if (!account) {
+      throw new SimulatorStatusError('INVALID_ACCOUNT_ID', context?.transactionId || 'query', accountId);
+    }
+    return account;
+  }
+
+  /**
+   * Looks an account up by id, or by EVM address in either the `0.0.<hex>` alias form or as `0x<hex>`
+   */
+  private findAccount(accountId: string): SimulatedAccount | undefined {
+    const alias = /^(?:\d+\.\d+\.|0x)?([0-9a-fA-F]{40})$/.exec(accountId);
+    if (!alias) {
+      return this.accounts.get(accountId);
+    }
+
+    const evmAddress = alias[1].toLowerCase();
+    return [...this.accounts.values()].find(account => account.evmAddress === evmAddress)
+      ?? this.accounts.get(AccountId.fromSolidityAddress(evmAddress).toString());
+  }
+
+  private requireToken(tokenId: string | undefined, context?: ExecutionContext): SimulatedToken {
+    const token = tokenId ? this.tokens.get(tokenId) : undefined;
+    if (!token) {
+      throw new SimulatorStatusError('INVALID_TOKEN_ID', context?.transactionId || 'query', tokenId);
+    }
+    return token;
+  }
+
+  private requireUnpausedToken(tokenId: string | undefined, context: ExecutionContext): SimulatedToken {
+    const token = this.requireToken(tokenId, context);
+    if (token.paused) {
+      throw new SimulatorStatusError('TOKEN_IS_PAUSED', context.transactionId, tokenId);
+    }
+    return token;
+  }
+
+  private requireTopic(topicId: string | undefined, context?: ExecutionContext): SimulatedTopic {
+    const topic = topicId ? this.topics.get(topicId) : undefined;
+    if (!topic) {
+      throw new SimulatorStatusError('INVALID_TOPIC_ID', context?.transactionId || 'query', topicId);
+    }
+    return topic;
+  }
+
+  private requireFile(fileId: string | undefined, context?: ExecutionContext): SimulatedFile {
+    const file = fileId ? this.files.get(fileId) : undefined;
+    if (!file) {
+      throw new SimulatorStatusError('INVALID_FILE_ID', context?.transactionId || 'query', fileId);
+    }
+    if (file.deleted) {
+      throw new SimulatorStatusError('FILE_DELETED', context?.transactionId || 'query', fileId);
+    }
+    return file;
+  }
+
+  private requireContract(contractId: string | undefined, context?: ExecutionContext): SimulatedContractInstance {
+    const contract = contractId ? this.contracts.get(contractId) : undefined;
+    if (!contract) {
+      throw new SimulatorStatusError('INVALID_CONTRACT_ID', context?.transactionId || 'query', contractId);
+    }
+    return contract;
+  }
+}
+
+function success(fields: Partial<LedgerReceipt>): LedgerReceipt {
+  return { status: 'SUCCESS', serials: [], ...fields };
+}
+
+function entityIdOf(receipt: LedgerReceipt): string | null {
+  return receipt.tokenId || receipt.topicId || receipt.fileId || receipt.contractId || receipt.accountId || receipt.scheduleId || null;
+}
+
+/**
+ * Keys are held as strings: public keys in DER hex, key lists as JSON
+ * `{"threshold":n,"keys":[...]}` (threshold = all keys for a plain list)
+ */
+function keyToString(key: Key | null): string | undefined {
+  if (!key) return undefined;
+  if (key instanceof PrivateKey) return key.publicKey.toString();
+  if (key instanceof KeyList) {
+    const keys = key.toArray().map(k => keyToString(k)!);
+    return JSON.stringify({ threshold: key.threshold ?? keys.length, keys });
+  }
+  return key.toString();
+}
+
+function keySatisfied(key: string, signerKeys: Set<string>): boolean {
+  if (!key.startsWith('{')) {
+    return signerKeys.has(key);
+  }
+  const list = JSON.parse(key) as { threshold: number; keys: string[] };
+  return list.keys.filter(k => keySatisfied(k, signerKeys)).length >= list.threshold;
+}
+
+function indexContract(contract: SimulatedContract): Map<string, IndexedContractFunction> {
+  const index = new Map<string, IndexedContractFunction>();
+  for (const [signature, fn] of Object.entries(contract.functions)) {
+    const parsed = parseSignature(signature);
+    index.set(parsed.selector, { types: parsed.types, returns: fn.returns || [], handle: fn.handle });
+  }
+  return index;
+}
+
+/**
+ * Keys whose signatures were attached to a frozen transaction before submission
+ * (offline signing) and verify against its bytes
+ */
+/**
+ * Keys of the signers that produce a valid signature; each signs the transaction id
+ * in place of the body bytes, which the simulator does not serialize
+ */
+async function verifiedSignerKeys(signers: Signer[], transactionId: string): Promise<string[]> {
+  const message = Buffer.from(transactionId);
+  const keys: string[] = [];
+  for (const signer of signers) {
+    if (signer.publicKey.verify(message, await signer.sign(message))) {
+      keys.push(signer.publicKey.toString());
+    }
+  }
+  return keys;
+}
+
+function attachedSignerKeys(transaction: Transaction): string[] {
+  if (!transaction.isFrozen()) {
+    return [];
+  }
+
+  const keys = new Map<string, PublicKey>();
+  for (const pairs of transaction.getSignatures().getFlatSignatureList()) {
+    for (const [publicKey] of pairs) {
+      keys.set(publicKey.toString(), publicKey);
+    }
+  }
+  return [...keys.values()].filter(key => key.verifyTransaction(transaction)).map(key => key.toString());
+}
+
+function mirrorTransactionName(transaction: Transaction): string {
+  const names: { [type: string]: string } = {
+    AccountCreateTransaction: 'CRYPTOCREATEACCOUNT',
+    AccountUpdateTransaction: 'CRYPTOUPDATEACCOUNT',
+    TopicCreateTransaction: 'CONSENSUSCREATETOPIC',
+    TopicMessageSubmitTransaction: 'CONSENSUSSUBMITMESSAGE',
+    TokenCreateTransaction: 'TOKENCREATION',
+    TokenAssociateTransaction: 'TOKENASSOCIATE',
+    TokenMintTransaction: 'TOKENMINT',
+    TokenBurnTransaction: 'TOKENBURN',
+    TokenWipeTransaction: 'TOKENWIPE',
+    TokenGrantKycTransaction: 'TOKENGRANTKYC',
+    TokenRevokeKycTransaction: 'TOKENREVOKEKYC',
+    TokenFreezeTransaction: 'TOKENFREEZE',
+    TokenUnfreezeTransaction: 'TOKENUNFREEZE',
+    TokenPauseTransaction: 'TOKENPAUSE',
+    TokenUnpauseTransaction: 'TOKENUNPAUSE',
+    TokenFeeScheduleUpdateTransaction: 'TOKENFEESCHEDULEUPDATE',
+    TransferTransaction: 'CRYPTOTRANSFER',
+    FileCreateTransaction: 'FILECREATE',
+    FileAppendTransaction: 'FILEAPPEND',
+    FileUpdateTransaction: 'FILEUPDATE',
+    FileDeleteTransaction: 'FILEDELETE',
+    ContractCreateTransaction: 'CONTRACTCREATEINSTANCE',
+    ContractExecuteTransaction: 'CONTRACTCALL',
+    ScheduleCreateTransaction: 'SCHEDULECREATE',
+    ScheduleSignTransaction: 'SCHEDULESIGN',
+    ScheduleDeleteTransaction: 'SCHEDULEDELETE'
+  };
+  return names[transaction.constructor.name] || 'UNKNOWN';
+}
+
+function formatNanos(nanos: bigint): string {
+  const seconds = nanos / 1_000_000_000n;
+  const remainder = nanos % 1_000_000_000n;
+  return `${seconds}.${remainder.toString().padStart(9, '0')}`;
+}
+
+function timestampToNanos(timestamp: Timestamp): bigint {
+  return BigInt(timestamp.seconds.toString()) * 1_000_000_000n + BigInt(timestamp.nanos.toString());
+}
+
+function nanosToDate(nanos: bigint): Date {
+  return new Date(Number(nanos / 1_000_000n));
+}
+
+function nanosToTimestamp(nanos: bigint): Timestamp {
+  return new Timestamp(Long.fromString((nanos / 1_000_000_000n).toString()), Number(nanos % 1_000_000_000n));
+}
+
+// Internal state types
+interface ExecutionContext {
+  transactionId: string;
+  payer: string;
+  signerKeys: Set<string>;
+  consensusTimestamp: string;
+  transfers: { account: string; amount: bigint }[];
+  tokenTransfers: { tokenId: string; account: string; amount: bigint }[];
+  chunk?: TopicChunk;
+  afterRecord?: () => void; // Runs once the transaction succeeded and was recorded, e.g. a schedule it completed
+}
+
+interface TopicChunk {
+  transactionId: string;
+  initialTransactionId: string;
+  number: number;
+  total: number;
+  contents: Buffer;
+}
+
+interface SimulatedAccount {
+  accountId: string;
+  publicKey: string | null; // Key string (see keyToString)
+  hbarTinybars: bigint;
+  evmAddress: string | null; // ECDSA alias, hex without 0x
+  memo: string;
+  maxAutomaticTokenAssociations: number; // -1: unlimited
+  usedAutomaticAssociations: number;
+  createdTimestamp: string | null;
+}
+
+export interface SimulatedAccountView {
+  accountId: string;
+  key: string | null;
+  evmAddress: string; // Alias, or the long-zero address of the account number
+  hbarTinybars: bigint;
+  memo: string;
+  maxAutomaticTokenAssociations: number;
+  createdTimestamp: string | null;
+}
+
+interface SimulatedToken {
+  tokenId: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  type: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+  treasuryAccountId: string;
+  totalSupply: bigint;
+  maxSupply: bigint | null;
+  adminKey?: string;
+  kycKey?: string;
+  freezeKey?: string;
+  wipeKey?: string;
+  supplyKey?: string;
+  pauseKey?: string;
+  feeScheduleKey?: string;
+  customFees: TokenCustomFee[];
+  freezeDefault: boolean;
+  paused: boolean;
+  createdTimestamp: string;
+  nfts: Map<number, SimulatedNft>;
+}
+
+export interface SimulatedNft {
+  tokenId: string;
+  serial: number;
+  owner: string;
+  metadata: Buffer;
+  deleted: boolean;
+  createdTimestamp: string;
+  modifiedTimestamp: string;
+}
+
+export interface SimulatedTokenRelationship {
+  tokenId: string;
+  balance: bigint;
+  kycStatus: 'GRANTED' | 'REVOKED' | 'NOT_APPLICABLE';
+  freezeStatus: 'FROZEN' | 'UNFROZEN' | 'NOT_APPLICABLE';
+  automaticAssociation: boolean;
+}
+
+interface TokenRelationship {
+  balance: bigint;
+  kycGranted: boolean;
+  frozen: boolean;
+  automaticAssociation: boolean; // Created by a transfer using one of the account's automatic association slots
+}
+
+interface SimulatedTopic {
+  topicId: string;
+  memo: string;
+  adminKey?: string;
+  submitKey?: string;
+  runningHash: Buffer;
+  sequenceNumber: number;
+  autoRenewPeriodSeconds: number;
+  expirationTime: Date;
+  messages: SimulatedTopicMessage[];
+}
+
+interface SimulatedSchedule {
+  scheduleId: string;
+  transaction: Transaction;
+  creatorAccountId: string;
+  payerAccountId: string;
+  scheduledTransactionId: string;
+  memo: string;
+  adminKey?: string;
+  signatories: Set<string>;
+  expirationNanos: bigint;
+  waitForExpiry: boolean;
+  executedTimestamp: string | null;
+  deletedTimestamp: string | null;
+  expired: boolean; // Passed its expiry, so only the mirror node knows it
+}
+
+export interface SimulatedScheduleView {
+  scheduleId: string;
+  creatorAccountId: string;
+  payerAccountId: string;
+  memo: string;
+  signatories: string[]; // DER hex public keys
+  expirationTimestamp: string;
+  waitForExpiry: boolean;
+  executedTimestamp: string | null;
+  deleted: boolean;
+}
+
+interface SimulatedFile {
+  fileId: string;
+  contents: Buffer;
+  keys: string[];
+  deleted: boolean;
+  memo: string;
+}
+
+interface IndexedContractFunction {
+  types: string[];
+  returns: string[];
+  handle(call: SimulatedContractCall): AbiValue[] | void;
+}
+
+interface SimulatedContractInstance {
+  contractId: string;
+  contract: Map<string, IndexedContractFunction>;
+  balanceTinybars: bigint;
+}
@@ -0,0 +1,442 @@
+// simulator/mirror-node.ts
+import { PublicKey } from '@hashgraph/sdk';
+import type { LedgerTokenInfo } from '../services/hedera/ledger';
+import { MirrorFetch } from '../utils/network';
+import type {
+  HederaSimulator,
+  SimulatedAccountView,
+  SimulatedNft,
+  SimulatedScheduleView,
+  SimulatedTokenRelationship,
+  SimulatedTopicMessage,
+  SimulatedTransactionRecord
+} from './hedera-simulator';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Fake mirror node REST API backed by simulator state. Responses follow the
+ * shapes of the public mirror node (`/api/v1/...`) for the endpoints implemented here.
+ */
+export function createSimulatedMirrorNode(simulator: HederaSimulator): MirrorFetch {
+  const routes: { pattern: RegExp; handle: (match: RegExpExecArray, query: URLSearchParams) => unknown }[] = [
+    {
+      pattern: /^\/api\/v1\/transactions$/,
+      handle: (_match, query) => {
+        const limit = Math.min(Number(query.get('limit') || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const order = query.get('order') === 'asc' ? 'asc' : 'desc';
+        const account = query.get('account.id');
+        const type = query.get('transactiontype');
+        const result = query.get('result');
+        const timestampFilters = query.getAll('timestamp').map(parseFilter);
+
+        const matching = simulator.getTransactionRecords()
+          .filter(r => !account || r.payerAccountId === account || r.transfers.some(t => t.account === account)
+            || r.tokenTransfers.some(t => t.account === account))
+          .filter(r => !type || r.name === type.toUpperCase())
+          .filter(r => !result || (result === 'success') === (r.result === 'SUCCESS'))
+          .filter(r => timestampFilters.every(f => compare(toNanos(r.consensusTimestamp), f.operator, toNanos(f.value))));
+        if (order === 'desc') matching.reverse();
+
+        const page = matching.slice(0, limit);
+        let next: string | null = null;
+        if (matching.length > limit) {
+          const params = new URLSearchParams(query);
+          params.delete('timestamp');
+          for (const f of timestampFilters) {
+            if ((order === 'asc' && f.operator.startsWith('l')) || (order === 'desc' && f.operator.startsWith('g'))) {
+              params.append('timestamp', `${f.operator}:${f.value}`);
+            }
+          }
+          params.append('timestamp', `${order === 'asc' ? 'gt' : 'lt'}:${page[page.length - 1].consensusTimestamp}`);
+          next = `/api/v1/transactions?${params.toString()}`;
+        }
+
+        return { transactions: page.map(toMirrorTransaction), links: { next } };
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/transactions\/([^/]+)$/,
+      handle: (match, query) => {
+        const transactionId = toSdkTransactionId(decodeURIComponent(match[1]));
+        const scheduled = query.get('scheduled');
+        // A scheduled transaction shares the id of the ScheduleCreate that created it
+        const records = transactionId
+          ? [...simulator.findTransactionRecords(transactionId), ...simulator.findTransactionRecords(`${transactionId}?scheduled`)]
+            .filter(record => scheduled === null || String(record.scheduled) === scheduled)
+          : [];
+        return records.length > 0 ? { transactions: records.map(toMirrorTransaction) } : null;
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/schedules\/([^/]+)$/,
+      handle: match => {
+        const schedule = simulator.getSchedule(decodeURIComponent(match[1]));
+        return schedule ? toMirrorSchedule(schedule) : null;
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/topics\/([^/]+)\/messages$/,
+      handle: (match, query) => {
+        const topicId = decodeURIComponent(match[1]);
+        if (!simulator.hasTopic(topicId)) return null;
+
+        const limit = Math.min(Number(query.get('limit') || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const order = query.get('order') === 'desc' ? 'desc' : 'asc';
+        const sequenceFilters = query.getAll('sequencenumber').map(parseFilter);
+        const timestampFilters = query.getAll('timestamp').map(parseFilter);
+
+        const matching = simulator.getTopicMessages(topicId)
+          .filter(m => sequenceFilters.every(f => compare(m.sequenceNumber, f.operator, Number(f.value))))
+          .filter(m => timestampFilters.every(f => compare(toNanos(m.consensusTimestamp), f.operator, toNanos(f.value))));
+        if (order === 'desc') matching.reverse();
+
+        const page = matching.slice(0, limit);
+        let next: string | null = null;
+        if (matching.length > limit) {
+          const last = page[page.length - 1].sequenceNumber;
+          const params = new URLSearchParams(query);
+          params.delete('sequencenumber');
+          params.append('sequencenumber', `${order === 'asc' ? 'gt' : 'lt'}:${last}`);
+          for (const f of sequenceFilters) {
+            if ((order === 'asc' && f.operator.startsWith('l')) || (order === 'desc' && f.operator.startsWith('g'))) {
+              params.append('sequencenumber', `${f.operator}:${f.value}`);
+            }
+          }
+          next = `/api/v1/topics/${topicId}/messages?${params.toString()}`;
+        }
+
+        return { messages: page.map(toMirrorTopicMessage), links: { next } };
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/topics\/([^/]+)\/messages\/(\d+)$/,
+      handle: match => {
+        const topicId = decodeURIComponent(match[1]);
+        if (!simulator.hasTopic(topicId)) return null;
+
+        const sequenceNumber = Number(match[2]);
+        const message = simulator.getTopicMessages(topicId).find(m => m.sequenceNumber === sequenceNumber);
+        return message ? toMirrorTopicMessage(message) : null;
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/accounts\/([^/]+)$/,
+      handle: match => {
+        const account = simulator.getAccount(decodeURIComponent(match[1]));
+        return account ? toMirrorAccount(account, simulator.getAccountTokenRelationships(account.accountId)) : null;
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/accounts\/([^/]+)\/nfts$/,
+      handle: (match, query) => {
+        const accountId = decodeURIComponent(match[1]);
+        const limit = Math.min(Number(query.get('limit') || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const order = query.get('order') === 'asc' ? 'asc' : 'desc';
+        const tokenFilters = query.getAll('token.id').map(parseFilter);
+        const serialFilters = query.getAll('serialnumber').map(parseFilter);
+
+        // Like the mirror node, a token.id range combined with a serialnumber range is a
+        // (token, serial) cursor: later tokens match regardless of serial
+        const matching = simulator.getAccountNfts(accountId)
+          .sort((a, b) => compareNfts(a, b) * (order === 'asc' ? 1 : -1))
+          .filter(nft => tokenFilters.every(f => compare(entityNum(nft.tokenId), f.operator, entityNum(f.value))))
+          .filter(nft => serialFilters.every(f => compare(nft.serial, f.operator, Number(f.value)))
+            || tokenFilters.some(t => t.operator !== 'eq' && entityNum(t.value) !== entityNum(nft.tokenId)));
+
+        const page = matching.slice(0, limit);
+        let next: string | null = null;
+        if (matching.length > limit) {
+          const last = page[page.length - 1];
+          const params = new URLSearchParams({ limit: String(limit), order });
+          tokenFilters.filter(f => f.operator === 'eq').forEach(f => params.append('token.id', `eq:${f.value}`));
+          params.append('token.id', `${order === 'asc' ? 'gte' : 'lte'}:${last.tokenId}`);
+          params.append('serialnumber', `${order === 'asc' ? 'gt' : 'lt'}:${last.serial}`);
+          next = `/api/v1/accounts/${accountId}/nfts?${params.toString()}`;
+        }
+
+        return { nfts: page.map(toMirrorNft), links: { next } };
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/accounts\/([^/]+)\/tokens$/,
+      handle: (match, query) => {
+        const accountId = decodeURIComponent(match[1]);
+        const limit = Math.min(Number(query.get('limit') || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const order = query.get('order') === 'desc' ? 'desc' : 'asc';
+        const tokenFilters = query.getAll('token.id').map(parseFilter);
+
+        const matching = simulator.getAccountTokenRelationships(accountId)
+          .sort((a, b) => (entityNum(a.tokenId) - entityNum(b.tokenId)) * (order === 'asc' ? 1 : -1))
+          .filter(r => tokenFilters.every(f => compare(entityNum(r.tokenId), f.operator, entityNum(f.value))));
+
+        const page = matching.slice(0, limit);
+        let next: string | null = null;
+        if (matching.length > limit) {
+          const params = new URLSearchParams({ limit: String(limit), order });
+          params.append('token.id', `${order === 'asc' ? 'gt' : 'lt'}:${page[page.length - 1].tokenId}`);
+          next = `/api/v1/accounts/${accountId}/tokens?${params.toString()}`;
+        }
+
+        return { tokens: page.map(toMirrorTokenRelationship), links: { next } };
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/tokens\/([^/]+)$/,
+      handle: match => {
+        const token = simulator.getToken(decodeURIComponent(match[1]));
+        return token ? toMirrorToken(token) : null;
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/network\/exchangerate$/,
+      handle: () => {
+        const { centEquivalent, hbarEquivalent, timestamp } = simulator.getExchangeRate();
+        const rate = { cent_equivalent: centEquivalent, hbar_equivalent: hbarEquivalent, expiration_time: 4_102_444_800 };
+        return { current_rate: rate, next_rate: rate, timestamp };
+      }
+    },
+    {
+      pattern: /^\/api\/v1\/tokens\/([^/]+)\/balances$/,
+      handle: (match, query) => {
+        const tokenId = decodeURIComponent(match[1]);
+        const limit = Math.min(Number(query.get('limit') || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const order = query.get('order') === 'asc' ? 'asc' : 'desc';
+        const accountFilters = query.getAll('account.id').map(parseFilter);
+        const timestampFilters = query.getAll('timestamp').map(parseFilter);
+
+        // Only upper bounds select a snapshot; the latest balances at or before it are returned
+        const upper = timestampFilters.filter(f => f.operator.startsWith('l') || f.operator === 'eq')
+          .map(f => toNanos(f.value) - (f.operator === 'lt' ? 1n : 0n));
+        const snapshot = simulator.getTokenBalancesAt(tokenId, upper.length > 0 ? upper.reduce((a, b) => a < b ? a : b) : undefined);
+        if (!snapshot) return null;
+
+        const matching = snapshot.balances
+          .sort((a, b) => (entityNum(a.accountId) - entityNum(b.accountId)) * (order === 'asc' ? 1 : -1))
+          .filter(b => accountFilters.every(f => compare(entityNum(b.accountId), f.operator, entityNum(f.value))));
+
+        const page = matching.slice(0, limit);
+        let next: string | null = null;
+        if (matching.length > limit) {
+          const params = new URLSearchParams({ limit: String(limit), order });
+          timestampFilters.forEach(f => params.append('timestamp', `${f.operator}:${f.value}`));
+          params.append('account.id', `${order === 'asc' ? 'gt' : 'lt'}:${page[page.length - 1].accountId}`);
+          next = `/api/v1/tokens/${tokenId}/balances?${params.toString()}`;
+        }
+
+        return {
+          timestamp: snapshot.timestamp,
+          balances: page.map(b => ({ account: b.accountId, balance: Number(b.balance), decimals: snapshot.decimals })),
+          links: { next }
+        };
+      }
+    }
+  ];
+
+  return async (url: string): Promise<Response> => {
+    const parsed = new URL(url);
+
+    for (const route of routes) {
+      const match = route.pattern.exec(parsed.pathname);
+      if (match) {
+        const body = route.handle(match, parsed.searchParams);
+        return body === null ? notFound() : json(200, body);
+      }
+    }
+
+    return notFound();
+  };
+}
+
+/**
+ * Accepts both the mirror node form (0.0.x-seconds-nanos) and the SDK form (0.0.x@seconds.nanos)
+ */
+function toSdkTransactionId(id: string): string | null {
+  const match = /^(\d+\.\d+\.\d+)[-@](\d+)[-.](\d+)$/.exec(id);
+  if (!match) return null;
+  return `${match[1]}@${match[2]}.${match[3].padStart(9, '0')}`;
+}
+
+function toMirrorTransactionId(id: string): string {
+  const [account, validStart] = id.replace('?scheduled', '').split('@');
+  const [seconds, nanos] = validStart.split('.');
+  return `${account}-${seconds}-${nanos}`;
+}
+
+/**
+ * Parses a mirror node query filter such as `gte:1700000000.000000000`; a bare value means `eq`
+ */
+function parseFilter(raw: string): { operator: string; value: string } {
+  const match = /^(eq|ne|gt|gte|lt|lte):(.*)$/.exec(raw);
+  return match ? { operator: match[1], value: match[2] } : { operator: 'eq', value: raw };
+}
+
+function compare(actual: number | bigint, operator: string, expected: number | bigint): boolean {
+  switch (operator) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'ne': return actual !== expected;
+    default: return actual === expected;
+  }
+}
+
+function toNanos(timestamp: string): bigint {
+  const [seconds, nanos = '0'] = timestamp.split('.');
+  return BigInt(seconds) * 1_000_000_000n + BigInt(nanos.padEnd(9, '0').slice(0, 9));
+}
+
+function entityNum(entityId: string): number {
+  return Number(entityId.split('.').pop());
+}
+
+function compareNfts(a: SimulatedNft, b: SimulatedNft): number {
+  return entityNum(a.tokenId) - entityNum(b.tokenId) || a.serial - b.serial;
+}
+
+function toMirrorNft(nft: SimulatedNft): unknown {
+  return {
+    account_id: nft.owner,
+    created_timestamp: nft.createdTimestamp,
+    delegating_spender: null,
+    deleted: nft.deleted,
+    metadata: nft.metadata.toString('base64'),
+    modified_timestamp: nft.modifiedTimestamp,
+    serial_number: nft.serial,
+    spender: null,
+    token_id: nft.tokenId
+  };
+}
+
+function toMirrorToken(token: LedgerTokenInfo): unknown {
+  return {
+    decimals: String(token.decimals),
+    max_supply: String(token.maxSupply ?? 0n),
+    name: token.name,
+    pause_status: token.pauseStatus,
+    symbol: token.symbol,
+    token_id: token.tokenId,
+    total_supply: String(token.totalSupply),
+    treasury_account_id: token.treasuryAccountId,
+    type: token.type
+  };
+}
+
+function toMirrorTokenRelationship(relationship: SimulatedTokenRelationship): unknown {
+  return {
+    automatic_association: relationship.automaticAssociation,
+    balance: Number(relationship.balance),
+    freeze_status: relationship.freezeStatus,
+    kyc_status: relationship.kycStatus,
+    token_id: relationship.tokenId
+  };
+}
+
+function toMirrorAccount(account: SimulatedAccountView, relationships: SimulatedTokenRelationship[]): unknown {
+  let key: unknown = null;
+  if (account.key && !account.key.startsWith('{')) {
+    const publicKey = PublicKey.fromString(account.key);
+    key = { _type: publicKey.type === 'secp256k1' ? 'ECDSA_SECP256K1' : 'ED25519', key: publicKey.toStringRaw() };
+  } else if (account.key) {
+    key = { _type: 'ProtobufEncoded', key: Buffer.from(account.key).toString('hex') };
+  }
+
+  return {
+    account: account.accountId,
+    alias: null,
+    balance: {
+      balance: Number(account.hbarTinybars),
+      timestamp: null,
+      tokens: relationships.map(r => ({ token_id: r.tokenId, balance: Number(r.balance) }))
+    },
+    created_timestamp: account.createdTimestamp,
+    deleted: false,
+    evm_address: `0x${account.evmAddress}`,
+    key,
+    max_automatic_token_associations: account.maxAutomaticTokenAssociations,
+    memo: account.memo
+  };
+}
+
+function toMirrorSchedule(schedule: SimulatedScheduleView): unknown {
+  return {
+    admin_key: null,
+    consensus_timestamp: null,
+    creator_account_id: schedule.creatorAccountId,
+    deleted: schedule.deleted,
+    executed_timestamp: schedule.executedTimestamp,
+    expiration_time: schedule.expirationTimestamp,
+    memo: schedule.memo,
+    payer_account_id: schedule.payerAccountId,
+    schedule_id: schedule.scheduleId,
+    signatures: schedule.signatories.map(key => {
+      const raw = Buffer.from(PublicKey.fromString(key).toBytesRaw());
+      return { public_key_prefix: raw.toString('base64'), type: raw.length === 32 ? 'ED25519' : 'ECDSA_SECP256K1' };
+    }),
+    transaction_body: null,
+    wait_for_expiry: schedule.waitForExpiry
+  };
+}
+
+function toMirrorTopicMessage(message: SimulatedTopicMessage): unknown {
+  let chunkInfo: unknown = null;
+  if (message.chunkInfo) {
+    const [account, validStart] = message.chunkInfo.initialTransactionId.split('@');
+    chunkInfo = {
+      initial_transaction_id: {
+        account_id: account,
+        nonce: 0,
+        scheduled: false,
+        transaction_valid_start: validStart
+      },
+      number: message.chunkInfo.number,
+      total: message.chunkInfo.total
+    };
+  }
+
+  return {
+    chunk_info: chunkInfo,
+    consensus_timestamp: message.consensusTimestamp,
+    message: message.message.toString('base64'),
+    payer_account_id: message.payerAccountId,
+    running_hash: message.runningHash.toString('base64'),
+    running_hash_version: message.runningHashVersion,
+    sequence_number: message.sequenceNumber,
+    topic_id: message.topicId
+  };
+}
+
+function toMirrorTransaction(record: SimulatedTransactionRecord): unknown {
+  return {
+    consensus_timestamp: record.consensusTimestamp,
+    valid_start_timestamp: record.validStartTimestamp,
+    charged_tx_fee: Number(record.chargedTxFee),
+    memo_base64: Buffer.from(record.memo, 'utf-8').toString('base64'),
+    name: record.name,
+    node: '0.0.3',
+    result: record.result,
+    scheduled: record.scheduled,
+    transaction_id: toMirrorTransactionId(record.transactionId),
+    entity_id: record.entityId,
+    transfers: record.transfers.map(t => ({ account: t.account, amount: Number(t.amount), is_approval: false })),
+    token_transfers: record.tokenTransfers.map(t => ({
+      token_id: t.tokenId,
+      account: t.account,
+      amount: Number(t.amount),
+      is_approval: false
+    }))
+  };
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+}
+
+function notFound(): Response {
+  return json(404, { _status: { messages: [{ message: 'Not found' }] } });
+}
@@ -0,0 +1,95 @@
+// simulator/signing-service.ts
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { PrivateKey } from '@hashgraph/sdk';
+
+/**
+ * Stand-in for a remote signing service (HSM / KMS front end) on a loopback port,
+ * speaking the protocol `RemoteSigner` expects. Keys never leave it: callers get
+ * signatures, and every request is checked against its bearer token and logged.
+ */
+export class SimulatedSigningService {
+  readonly authToken = crypto.randomBytes(16).toString('hex');
+  readonly requests: { keyId: string; at: Date }[] = [];
+  private keys = new Map<string, PrivateKey>();
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+
+  /**
+   * Listens on a free loopback port; the server does not keep the process alive
+   */
+  async start(): Promise<string> {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => respond(response, 500, { error: error.message }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    server.unref();
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Signing service not started');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Hands a key to the service; returns its public key (DER hex) for RemoteSigner
+   */
+  addKey(keyId: string, privateKey: PrivateKey): string {
+    this.keys.set(keyId, privateKey);
+    return privateKey.publicKey.toString();
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    this.baseUrl = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const match = /^\/keys\/([^/]+)\/sign$/.exec(request.url || '');
+    if (request.method !== 'POST' || !match) {
+      return respond(response, 404, { error: 'Not found' });
+    }
+    if (request.headers.authorization !== `Bearer ${this.authToken}`) {
+      return respond(response, 401, { error: 'Unauthorized' });
+    }
+
+    const keyId = decodeURIComponent(match[1]);
+    const privateKey = this.keys.get(keyId);
+    if (!privateKey) {
+      return respond(response, 404, { error: `Unknown key ${keyId}` });
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const { message } = JSON.parse(Buffer.concat(chunks).toString('utf-8')) as { message?: string };
+    if (typeof message !== 'string') {
+      return respond(response, 400, { error: 'Missing message' });
+    }
+
+    this.requests.push({ keyId, at: new Date() });
+    respond(response, 200, { signature: Buffer.from(privateKey.sign(Buffer.from(message, 'base64'))).toString('base64') });
+  }
+}
+
+function respond(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,116 @@
+// simulator/test-environment.ts
+import { PrivateKey, TopicCreateTransaction } from '@hashgraph/sdk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemorySigner } from '../utils/signer';
+import { HederaSimulator, HederaSimulatorOptions } from './hedera-simulator';
+import { createTontineFactoryContract } from './tontine-contract';
+
+// Settings the services read from the environment; restored by `cleanup()`
+const ENVIRONMENT_KEYS = [
+  'HEDERA_NETWORK',
+  'HEDERA_TREASURY_ACCOUNT_ID',
+  'HEDERA_TREASURY_PRIVATE_KEY',
+  'HEDERA_TREASURY_PUBLIC_KEY',
+  'HEDERA_OPERATOR_ACCOUNT_ID',
+  'HEDERA_OPERATOR_PRIVATE_KEY',
+  'HEDERA_OPERATOR_PUBLIC_KEY',
+  'HEDERA_SIGNING_SERVICE_URL',
+  'HEDERA_SIGNING_SERVICE_TOKEN',
+  'HCS_TRANSACTIONS_TOPIC_ID',
+  'HCS_TONTINES_TOPIC_ID',
+  'HCS_COMPLIANCE_TOPIC_ID',
+  'HCS_SECURITY_TOPIC_ID',
+  'HCS_ENCRYPTION_KEY',
+  'HCS_ENCRYPTION_KEYS',
+  'HCS_PSEUDONYM_SECRET',
+  'HCS_USER_KEYSTORE_PATH',
+  'HCS_OUTBOX_PATH',
+  'HCS_BATCH_STORE_DIR',
+  'HEDERA_KEYSTORE_PATH',
+  'HEDERA_KEYSTORE_KEYS',
+  'TONTINE_FACTORY_CONTRACT_ID',
+  'DATABASE_URL',
+  'COST_NGN_PER_USD',
+  'COST_DAILY_BUDGET_USD',
+  'COST_MONTHLY_BUDGET_USD'
+];
+
+/**
+ * A fresh simulator with everything the services read from the environment, for
+ * tests against the real service code: treasury and operator accounts with
+ * in-memory keys, the four HCS topics, the tontine factory, random encryption and
+ * pseudonym secrets, and keystore, outbox and batch files in a temporary
+ * directory. Submissions retry without delays unless `submitRetry` says otherwise.
+ * `cleanup()` restores process.env and removes the directory.
+ */
+export async function createTestEnvironment(options: HederaSimulatorOptions = {}): Promise<TestEnvironment> {
+  const saved = new Map(ENVIRONMENT_KEYS.map(key => [key, process.env[key]]));
+  for (const key of ENVIRONMENT_KEYS) {
+    delete process.env[key];
+  }
+
+  const simulator = new HederaSimulator({ submitRetry: { initialDelayMs: 1, maxDelayMs: 1 }, ...options });
+  const treasury = testAccount(simulator);
+  const operator = testAccount(simulator);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'afrione-test-'));
+
+  process.env.HEDERA_NETWORK = 'simulator';
+  process.env.HEDERA_TREASURY_ACCOUNT_ID = treasury.accountId;
+  process.env.HEDERA_TREASURY_PRIVATE_KEY = treasury.privateKey.toStringDer();
+  process.env.HEDERA_OPERATOR_ACCOUNT_ID = operator.accountId;
+  process.env.HEDERA_OPERATOR_PRIVATE_KEY = operator.privateKey.toStringDer();
+  process.env.HCS_ENCRYPTION_KEY = crypto.randomBytes(32).toString('hex');
+  process.env.HCS_PSEUDONYM_SECRET = crypto.randomBytes(32).toString('hex');
+  process.env.HCS_USER_KEYSTORE_PATH = path.join(dir, 'user-keys.json');
+  process.env.HCS_OUTBOX_PATH = path.join(dir, 'outbox.json');
+  process.env.HCS_BATCH_STORE_DIR = path.join(dir, 'batches');
+  process.env.HEDERA_KEYSTORE_PATH = path.join(dir, 'account-keys.json');
+  process.env.HEDERA_KEYSTORE_KEYS = `keystore:1:active:${crypto.randomBytes(32).toString('hex')}`;
+
+  const ledger = simulator.connect(operator.signer);
+  for (const name of ['TRANSACTIONS', 'TONTINES', 'COMPLIANCE', 'SECURITY']) {
+    const { receipt } = await ledger.submit(new TopicCreateTransaction().setTopicMemo(`AfriOne ${name.toLowerCase()} (test)`));
+    process.env[`HCS_${name}_TOPIC_ID`] = receipt.topicId;
+  }
+  process.env.TONTINE_FACTORY_CONTRACT_ID = simulator.registerContract(createTontineFactoryContract(simulator));
+
+  return {
+    simulator,
+    treasury,
+    operator,
+    dir,
+    account: (initialBalanceTinybars?: bigint) => testAccount(simulator, initialBalanceTinybars),
+    topicId: name => process.env[`HCS_${name}_TOPIC_ID`]!,
+    cleanup: () => {
+      for (const [key, value] of saved) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+function testAccount(simulator: HederaSimulator, initialBalanceTinybars?: bigint): TestAccount {
+  const { accountId, privateKey } = simulator.createAccount(initialBalanceTinybars);
+  return { accountId, privateKey, signer: new InMemorySigner(privateKey, accountId) };
+}
+
+export interface TestAccount {
+  accountId: string;
+  privateKey: PrivateKey;
+  signer: InMemorySigner;
+}
+
+export interface TestEnvironment {
+  simulator: HederaSimulator;
+  treasury: TestAccount;
+  operator: TestAccount;
+  dir: string; // Temporary directory for keystores, the outbox and batch files
+  account(initialBalanceTinybars?: bigint): TestAccount; // Another funded account
+  topicId(name: 'TRANSACTIONS' | 'TONTINES' | 'COMPLIANCE' | 'SECURITY'): string;
+  cleanup(): void;
+}
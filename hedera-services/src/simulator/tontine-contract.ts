@@ -0,0 +1,94 @@
+// simulator/tontine-contract.ts
+import { ContractId } from '@hashgraph/sdk';
+import { HederaSimulator, SimulatedContract } from './hedera-simulator';
+
+/**
+ * TypeScript stand-in for the TontineFactory / Tontine Solidity contracts,
+ * exposing the functions HederaSmartContractService calls.
+ */
+export function createTontineFactoryContract(simulator: HederaSimulator): SimulatedContract {
+  let latestTontineId: string | null = null;
+
+  return {
+    functions: {
+      'createTontine(string,uint256,uint8,uint256)': {
+        handle: call => {
+          const [name, monthlyAmount, totalMembers, cycleDuration] = call.args as [string, bigint, bigint, bigint];
+          if (!name || monthlyAmount <= 0n || totalMembers < 2n || cycleDuration <= 0n) {
+            throw new Error('invalid tontine parameters');
+          }
+          if (call.readOnly) return;
+
+          latestTontineId = simulator.registerContract(createTontineContract({
+            name,
+            monthlyAmount,
+            totalMembers: Number(totalMembers)
+          }));
+        }
+      },
+      'getLatestTontineId()': {
+        returns: ['address'],
+        handle: () => {
+          if (!latestTontineId) {
+            throw new Error('no tontine created');
+          }
+          return [ContractId.fromString(latestTontineId).toEvmAddress()];
+        }
+      }
+    }
+  };
+}
+
+function createTontineContract(params: { name: string; monthlyAmount: bigint; totalMembers: number }): SimulatedContract {
+  const positions = new Map<number, string>();
+  let currentCycle = 1;
+  let contributionsThisCycle = 0;
+  let isActive = true;
+
+  return {
+    functions: {
+      'joinTontine(uint8)': {
+        handle: call => {
+          const position = Number(call.args[0]);
+          if (!isActive) throw new Error('tontine is not active');
+          if (position < 1 || position > params.totalMembers) throw new Error('invalid position');
+          if (positions.has(position)) throw new Error('position already taken');
+          if (call.readOnly) return;
+
+          positions.set(position, call.sender);
+        }
+      },
+      'contributeMonthly()': {
+        handle: call => {
+          if (!isActive) throw new Error('tontine is not active');
+          if (positions.size < params.totalMembers) throw new Error('tontine is not full');
+          if (!call.readOnly && call.valueTinybars !== params.monthlyAmount) {
+            throw new Error(`contribution must equal ${params.monthlyAmount}`);
+          }
+          if (call.readOnly) return;
+
+          contributionsThisCycle++;
+          if (contributionsThisCycle === params.totalMembers) {
+            // Pot is released to the member at the current position; the simulator keeps the HBAR in the contract
+            contributionsThisCycle = 0;
+            currentCycle++;
+            if (currentCycle > params.totalMembers) {
+              isActive = false;
+            }
+          }
+        }
+      },
+      'getTontineInfo()': {
+        returns: ['string', 'uint256', 'uint256', 'uint256', 'uint256', 'bool'],
+        handle: () => [
+          params.name,
+          params.monthlyAmount,
+          BigInt(params.totalMembers),
+          BigInt(positions.size),
+          BigInt(currentCycle),
+          isActive
+        ]
+      }
+    }
+  };
+}
@@ -0,0 +1,208 @@
+// utils/account-key-store.ts
+import * as fs from 'fs';
+import { PrivateKey } from '@hashgraph/sdk';
+import { EncryptionKeyring } from './keyring';
+
+export const KEYSTORE_KEY_ID = 'keystore';
+
+/**
+ * Private keys of custodial accounts, the only place the account service keeps
+ * the keys it generates. A replacement key is staged next to the current one
+ * before a key update is submitted and committed once the update succeeded, so
+ * an update whose outcome is unknown never loses the key the account may now have.
+ */
+export interface AccountKeyStore {
+  saveKey(accountId: string, privateKey: PrivateKey, userId?: string): Promise<void>;
+  getKey(accountId: string): Promise<PrivateKey | null>;
+  stageKey(accountId: string, privateKey: PrivateKey): Promise<void>;
+  getStagedKey(accountId: string): Promise<PrivateKey | null>;
+  /**
+   * Makes the staged key the account's key
+   */
+  commitKey(accountId: string): Promise<void>;
+  /**
+   * Custodial account of a platform user, if any
+   */
+  findAccount(userId: string): Promise<string | null>;
+}
+
+export class InMemoryAccountKeyStore implements AccountKeyStore {
+  private entries = new Map<string, { privateKey: PrivateKey; stagedKey: PrivateKey | null; userId: string | null }>();
+
+  async saveKey(accountId: string, privateKey: PrivateKey, userId?: string): Promise<void> {
+    if (this.entries.has(accountId)) {
+      throw new Error(`Account ${accountId} already has a stored key`);
+    }
+    this.entries.set(accountId, { privateKey, stagedKey: null, userId: userId ?? null });
+  }
+
+  async getKey(accountId: string): Promise<PrivateKey | null> {
+    return this.entries.get(accountId)?.privateKey ?? null;
+  }
+
+  async stageKey(accountId: string, privateKey: PrivateKey): Promise<void> {
+    this.requireEntry(accountId).stagedKey = privateKey;
+  }
+
+  async getStagedKey(accountId: string): Promise<PrivateKey | null> {
+    return this.entries.get(accountId)?.stagedKey ?? null;
+  }
+
+  async commitKey(accountId: string): Promise<void> {
+    const entry = this.requireEntry(accountId);
+    if (!entry.stagedKey) {
+      throw new Error(`No staged key for account ${accountId}`);
+    }
+    entry.privateKey = entry.stagedKey;
+    entry.stagedKey = null;
+  }
+
+  async findAccount(userId: string): Promise<string | null> {
+    return [...this.entries].find(([, entry]) => entry.userId === userId)?.[0] ?? null;
+  }
+
+  private requireEntry(accountId: string) {
+    const entry = this.entries.get(accountId);
+    if (!entry) {
+      throw new Error(`No stored key for account ${accountId}`);
+    }
+    return entry;
+  }
+}
+
+/**
+ * JSON file store; private keys are kept wrapped (encrypted) under a keyring of
+ * their own, never the HCS one. After rotating that keyring, `rewrapKeys()`
+ * re-encrypts every entry so retired versions can be destroyed.
+ */
+export class FileAccountKeyStore implements AccountKeyStore {
+  constructor(private path: string, private keyring: EncryptionKeyring) {}
+
+  /**
+   * Store at HEDERA_KEYSTORE_PATH wrapped under HEDERA_KEYSTORE_KEYS
+   * (`keystore:version:status:hex,...`), or null when not configured
+   */
+  static fromEnv(): FileAccountKeyStore | null {
+    if (!process.env.HEDERA_KEYSTORE_PATH) {
+      return null;
+    }
+    if (!process.env.HEDERA_KEYSTORE_KEYS) {
+      throw new Error('HEDERA_KEYSTORE_PATH is set but HEDERA_KEYSTORE_KEYS is missing');
+    }
+    return new FileAccountKeyStore(process.env.HEDERA_KEYSTORE_PATH, EncryptionKeyring.parse(process.env.HEDERA_KEYSTORE_KEYS));
+  }
+
+  async saveKey(accountId: string, privateKey: PrivateKey, userId?: string): Promise<void> {
+    const file = this.load();
+    if (file.accounts[accountId]) {
+      throw new Error(`Account ${accountId} already has a stored key`);
+    }
+
+    const now = new Date().toISOString();
+    file.accounts[accountId] = {
+      publicKey: privateKey.publicKey.toString(),
+      wrappedKey: this.wrap(privateKey),
+      stagedWrappedKey: null,
+      userId: userId ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.save(file);
+  }
+
+  async getKey(accountId: string): Promise<PrivateKey | null> {
+    const entry = this.load().accounts[accountId];
+    return entry ? this.unwrap(entry.wrappedKey) : null;
+  }
+
+  async stageKey(accountId: string, privateKey: PrivateKey): Promise<void> {
+    const file = this.load();
+    this.requireEntry(file, accountId).stagedWrappedKey = this.wrap(privateKey);
+    this.save(file);
+  }
+
+  async getStagedKey(accountId: string): Promise<PrivateKey | null> {
+    const entry = this.load().accounts[accountId];
+    return entry?.stagedWrappedKey ? this.unwrap(entry.stagedWrappedKey) : null;
+  }
+
+  async commitKey(accountId: string): Promise<void> {
+    const file = this.load();
+    const entry = this.requireEntry(file, accountId);
+    if (!entry.stagedWrappedKey) {
+      throw new Error(`No staged key for account ${accountId}`);
+    }
+
+    entry.wrappedKey = entry.stagedWrappedKey;
+    entry.publicKey = this.unwrap(entry.wrappedKey).publicKey.toString();
+    entry.stagedWrappedKey = null;
+    entry.updatedAt = new Date().toISOString();
+    this.save(file);
+  }
+
+  async findAccount(userId: string): Promise<string | null> {
+    return Object.entries(this.load().accounts).find(([, entry]) => entry.userId === userId)?.[0] ?? null;
+  }
+
+  /**
+   * Re-encrypts every stored key with the active keyring version; returns how many entries were rewritten
+   */
+  async rewrapKeys(): Promise<number> {
+    const file = this.load();
+    const entries = Object.values(file.accounts);
+    for (const entry of entries) {
+      entry.wrappedKey = this.keyring.reencrypt(entry.wrappedKey, KEYSTORE_KEY_ID);
+      if (entry.stagedWrappedKey) {
+        entry.stagedWrappedKey = this.keyring.reencrypt(entry.stagedWrappedKey, KEYSTORE_KEY_ID);
+      }
+    }
+    this.save(file);
+
+    console.log(`✅ Rewrapped ${entries.length} account keys`);
+
+    return entries.length;
+  }
+
+  private wrap(privateKey: PrivateKey): string {
+    return this.keyring.encrypt(privateKey.toStringDer(), KEYSTORE_KEY_ID);
+  }
+
+  private unwrap(wrappedKey: string): PrivateKey {
+    return PrivateKey.fromStringDer(this.keyring.decrypt(wrappedKey));
+  }
+
+  private requireEntry(file: AccountKeyFile, accountId: string): StoredAccountKey {
+    const entry = file.accounts[accountId];
+    if (!entry) {
+      throw new Error(`No stored key for account ${accountId}`);
+    }
+    return entry;
+  }
+
+  private load(): AccountKeyFile {
+    if (!fs.existsSync(this.path)) {
+      return { accounts: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.path, 'utf-8'));
+  }
+
+  private save(file: AccountKeyFile): void {
+    // Write-then-rename so a crash never leaves a truncated key file
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(temporary, this.path);
+  }
+}
+
+interface StoredAccountKey {
+  publicKey: string; // DER hex, for lookups without decrypting
+  wrappedKey: string; // Keyring envelope around the DER private key
+  stagedWrappedKey: string | null; // Replacement awaiting a successful key update
+  userId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AccountKeyFile {
+  accounts: { [accountId: string]: StoredAccountKey };
+}
@@ -0,0 +1,149 @@
+// utils/batch-store.ts
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PENDING_BATCH_ID = 'pending';
+const PENDING_FILE = `${PENDING_BATCH_ID}.json`;
+
+/**
+ * Off-ledger storage for Merkle-batched events. Only the root of a batch is
+ * anchored on HCS, so the leaves kept here are what inclusion proofs are built
+ * from: losing a batch loses the ability to prove its transactions.
+ *
+ * Leaves accepted but not yet anchored are kept here too, so a crash before the
+ * next anchor delays them instead of losing them.
+ */
+export interface BatchStore {
+  save(batch: StoredBatch): Promise<void>;
+  get(batchId: string): Promise<StoredBatch | null>;
+  /**
+   * Latest stored batch containing the transaction, with the leaf's position
+   */
+  findTransaction(transactionId: string): Promise<{ batch: StoredBatch; leafIndex: number } | null>;
+  /**
+   * Replaces the leaves waiting for the next anchor
+   */
+  savePending(leaves: PendingLeaf[]): Promise<void>;
+  loadPending(): Promise<PendingLeaf[]>;
+}
+
+export class InMemoryBatchStore implements BatchStore {
+  private batches = new Map<string, StoredBatch>();
+  private pending: PendingLeaf[] = [];
+
+  async save(batch: StoredBatch): Promise<void> {
+    this.batches.set(batch.batchId, cloneBatch(batch));
+  }
+
+  async get(batchId: string): Promise<StoredBatch | null> {
+    const batch = this.batches.get(batchId);
+    return batch ? cloneBatch(batch) : null;
+  }
+
+  async findTransaction(transactionId: string): Promise<{ batch: StoredBatch; leafIndex: number } | null> {
+    return findIn([...this.batches.values()].map(cloneBatch), transactionId);
+  }
+
+  async savePending(leaves: PendingLeaf[]): Promise<void> {
+    this.pending = leaves.map(leaf => ({ ...leaf }));
+  }
+
+  async loadPending(): Promise<PendingLeaf[]> {
+    return this.pending.map(leaf => ({ ...leaf }));
+  }
+}
+
+/**
+ * One JSON file per batch in a directory. Lookups by transaction id scan every
+ * batch file, which is acceptable for audit queries but not for hot paths.
+ */
+export class FileBatchStore implements BatchStore {
+  constructor(private directory: string) {}
+
+  /**
+   * Store in HCS_BATCH_STORE_DIR, or null when it is not configured
+   */
+  static fromEnv(): FileBatchStore | null {
+    return process.env.HCS_BATCH_STORE_DIR ? new FileBatchStore(process.env.HCS_BATCH_STORE_DIR) : null;
+  }
+
+  async save(batch: StoredBatch): Promise<void> {
+    this.write(this.fileFor(batch.batchId), batch);
+  }
+
+  async get(batchId: string): Promise<StoredBatch | null> {
+    const file = this.fileFor(batchId);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+  }
+
+  async findTransaction(transactionId: string): Promise<{ batch: StoredBatch; leafIndex: number } | null> {
+    if (!fs.existsSync(this.directory)) {
+      return null;
+    }
+
+    const batches = fs.readdirSync(this.directory)
+      .filter(name => name.endsWith('.json') && name !== PENDING_FILE)
+      .map(name => JSON.parse(fs.readFileSync(path.join(this.directory, name), 'utf-8')) as StoredBatch);
+    return findIn(batches, transactionId);
+  }
+
+  async savePending(leaves: PendingLeaf[]): Promise<void> {
+    this.write(path.join(this.directory, PENDING_FILE), leaves);
+  }
+
+  async loadPending(): Promise<PendingLeaf[]> {
+    const file = path.join(this.directory, PENDING_FILE);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : [];
+  }
+
+  private write(file: string, contents: unknown): void {
+    fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+
+    // Write-then-rename so a crash never leaves a truncated file
+    const temporary = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(contents, null, 2), { mode: 0o600 });
+    fs.renameSync(temporary, file);
+  }
+
+  private fileFor(batchId: string): string {
+    if (batchId === PENDING_BATCH_ID || !/^[\w-]+$/.test(batchId)) {
+      throw new Error(`Invalid batch id ${batchId}`);
+    }
+    return path.join(this.directory, `${batchId}.json`);
+  }
+}
+
+function findIn(batches: StoredBatch[], transactionId: string): { batch: StoredBatch; leafIndex: number } | null {
+  const matches = batches
+    .map(batch => ({ batch, leafIndex: batch.transactionIds.lastIndexOf(transactionId) }))
+    .filter(match => match.leafIndex >= 0)
+    .sort((a, b) => b.batch.createdAt.localeCompare(a.batch.createdAt));
+  return matches[0] || null;
+}
+
+function cloneBatch(batch: StoredBatch): StoredBatch {
+  return JSON.parse(JSON.stringify(batch));
+}
+
+export interface StoredBatch {
+  batchId: string;
+  merkleRoot: string; // Hex
+  algorithm: string;
+  leaves: string[]; // Event JSON exactly as hashed
+  transactionIds: string[]; // Parallel to leaves
+  createdAt: string;
+  anchor: BatchAnchor | null; // Null until the root has reached consensus
+}
+
+export interface PendingLeaf {
+  transactionId: string;
+  leaf: string; // Event JSON as hashed and stored
+}
+
+export interface BatchAnchor {
+  topicId: string;
+  transactionId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string; // "seconds.nanos"
+  runningHash: string;
+}
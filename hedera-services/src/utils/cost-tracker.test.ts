@@ -0,0 +1,91 @@
+// utils/cost-tracker.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { HederaSmartContractService } from '../services/hedera/smart-contract.service';
+import { HederaTokenService } from '../services/hedera/token.service';
+import { createTestEnvironment, TestEnvironment } from '../simulator/test-environment';
+import { BudgetAlert, CostTracker, withCostAttribution } from './cost-tracker';
+import { InMemoryLedgerRepository } from './ledger-repository';
+import { TransactionMonitor } from './transaction-monitor';
+
+describe('CostTracker', () => {
+  let env: TestEnvironment;
+  let repository: InMemoryLedgerRepository;
+  let costs: CostTracker;
+  let tokens: HederaTokenService;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment({ centsPerHbar: 10 });
+    repository = new InMemoryLedgerRepository();
+    const monitor = new TransactionMonitor(env.simulator, { initialDelayMs: 1, maxDelayMs: 5, timeoutMs: 200 });
+    costs = new CostTracker(env.simulator, { repository, monitor, ngnPerUsd: 1500 });
+    tokens = new HederaTokenService(env.simulator, { costs });
+  });
+
+  afterEach(() => env.cleanup());
+
+  const chargedFee = (transactionId: string) =>
+    env.simulator.getTransactionRecords().find(record => record.transactionId === transactionId)!.chargedTxFee;
+
+  test('records the fee charged for each transaction at the network exchange rate', async () => {
+    const { tokenId, transactionId } = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '100' });
+    const rejected = await tokens.transferTokens({
+      tokenId,
+      fromAccountId: env.treasury.accountId,
+      fromSigner: env.treasury.signer,
+      toAccountId: env.account().accountId, // Not associated
+      amount: '1'
+    }).then(() => assert.fail('Expected the transfer to fail'), error => error);
+    await costs.flush();
+
+    const [created, failed] = await repository.listTransactionCosts();
+    assert.deepEqual([created.transactionId, created.service, created.operation, created.result], [transactionId, 'token', 'TokenCreate', 'SUCCESS']);
+    assert.equal(created.feeTinybars, chargedFee(transactionId));
+    assert.equal(created.feeUsd, Number(created.feeTinybars) / 100_000_000 * 0.1);
+    assert.equal(created.feeNgn, created.feeUsd * 1500);
+    // Charged though the network rejected it
+    assert.deepEqual([failed.transactionId, failed.result], [rejected.transactionId, 'TOKEN_NOT_ASSOCIATED_TO_ACCOUNT']);
+    assert.equal(failed.feeTinybars, chargedFee(rejected.transactionId));
+  });
+
+  test('attributes fees to tontines and properties and sums them by any of them', async () => {
+    const contracts = new HederaSmartContractService(env.simulator, { costs });
+    const { tontineContractId } = await contracts.createTontineCircle({ name: 'Yaba circle', monthlyAmount: 1_000_000, totalMembers: 2, cycleDuration: 2_592_000 });
+    await contracts.joinTontineCircle(tontineContractId, 1);
+    await contracts.joinTontineCircle(tontineContractId, 2);
+    await withCostAttribution({ propertyId: 'lekki-12' }, () =>
+      tokens.createFungibleToken({ name: 'Lekki 12', symbol: 'LK12', decimals: 0, initialSupply: '1000' }));
+
+    const byTontine = await costs.summarize('tontine');
+    const byProperty = await costs.summarize('property');
+    const byService = await costs.summarize('service');
+
+    const all = await repository.listTransactionCosts();
+    const joins = all.filter(cost => cost.tontineId === tontineContractId);
+    assert.deepEqual(joins.map(cost => cost.operation), ['ContractExecute', 'ContractExecute']);
+    const tontine = byTontine.find(group => group.key === tontineContractId)!;
+    assert.deepEqual([tontine.transactions, tontine.feeTinybars], [2, joins[0].feeTinybars + joins[1].feeTinybars]);
+    assert.equal(byProperty.find(group => group.key === 'lekki-12')!.transactions, 1);
+    assert.deepEqual(byService.map(group => group.key).sort(), ['smart-contract', 'token']);
+    assert.equal(byService.reduce((sum, group) => sum + group.transactions, 0), all.length);
+  });
+
+  test('alerts once per period when a budget is exceeded', async () => {
+    const alerts: BudgetAlert[] = [];
+    costs.on('budget-exceeded', alert => alerts.push(alert));
+    costs.addBudget({ name: 'token-daily', period: 'daily', limitUsd: 0.000001, service: 'token' });
+    costs.addBudget({ name: 'contracts-monthly', period: 'monthly', limitUsd: 1, service: 'smart-contract' });
+    assert.throws(() => costs.addBudget({ name: 'token-daily', period: 'monthly', limitUsd: 5 }), /already exists/);
+
+    const first = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '100' });
+    await tokens.createFungibleToken({ name: 'Cedi Stable', symbol: 'GHSS', decimals: 2, initialSupply: '100' });
+    await costs.flush();
+    const [{ chargedAt }] = await repository.listTransactionCosts();
+    const [daily, monthly] = await costs.budgetStatus(chargedAt);
+
+    assert.deepEqual(alerts.map(alert => [alert.budget.name, alert.transactionId]), [['token-daily', first.transactionId]]);
+    assert.ok(daily.remainingUsd < 0);
+    assert.equal(daily.spentUsd, (await costs.summarize('service'))[0].feeUsd);
+    assert.deepEqual([monthly.spentUsd, monthly.remainingUsd], [0, 1]);
+  });
+});
@@ -1,20 +1,423 @@
 // utils/cost-tracker.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import { Transaction } from '@hashgraph/sdk';
+import { HederaLedger, LedgerSubmission } from '../services/hedera/ledger';
+import { LedgerStatusError, TransactionOutcomeUnknownError } from './error-handler';
+import {
+  InMemoryLedgerRepository,
+  LedgerRepository,
+  TransactionCostFilter,
+  TransactionCostRecord
+} from './ledger-repository';
+import { MirrorNodeClient } from './mirror-node-client';
+import { HederaNetwork } from './network';
+import { PostgresLedgerRepository } from './postgres-ledger-repository';
+import { TransactionMonitor } from './transaction-monitor';
+
+const TINYBARS_PER_HBAR = 100_000_000;
+const IN_MEMORY_COST_LIMIT = 100_000; // Costs kept without a database; older ones no longer count against budgets
+const MS_PER_HOUR = 3_600_000;
+
+const sharedTrackers = new WeakMap<HederaNetwork, CostTracker>();
+const attributions = new AsyncLocalStorage<CostAttribution>();
+
+/**
+ * Accounts for the fees the services actually pay. A service's ledger wrapped with
+ * `track()` reports every transaction it submits, including ones the network
+ * rejected at consensus (they are charged too). The fee charged is read from the
+ * transaction's mirror node record, or from its record on the network when the
+ * mirror node doesn't have it in time, converted to USD at the network exchange
+ * rate of its consensus hour (and to NGN at `ngnPerUsd`) and saved to the repository.
+ *
+ * Fees are looked up in the background so they never slow a service down; `flush()`
+ * waits for the outstanding ones. Each cost carries the submitting service, the
+ * transaction type and the tontine or property set by `withCostAttribution`, and
+ * is emitted as `cost`. Budgets cap the spend per UTC day or month, overall or for
+ * one service, operation, tontine or property; the first cost over a budget in a
+ * period emits `budget-exceeded`.
+ */
+export class CostTracker extends EventEmitter {
+  private repository: LedgerRepository;
+  private mirror: MirrorNodeClient;
+  private monitor: TransactionMonitor;
+  private ngnPerUsd: number | null;
+  private budgets: CostBudget[];
+  private pending = new Set<Promise<void>>();
+  private budgetChecks: Promise<void> = Promise.resolve();
+  private rates = new Map<number, Promise<ExchangeRate>>(); // By hour since the epoch
+  private alerted = new Set<string>(); // Budget name and period start
+
+  constructor(network: HederaNetwork, options: CostTrackerOptions = {}) {
+    super();
+    this.repository = options.repository
+      ?? PostgresLedgerRepository.fromEnv()
+      ?? new InMemoryLedgerRepository({ maxRecords: IN_MEMORY_COST_LIMIT });
+    this.mirror = options.mirror ?? MirrorNodeClient.forNetwork(network);
+    this.monitor = options.monitor ?? TransactionMonitor.forNetwork(network);
+    this.ngnPerUsd = options.ngnPerUsd !== undefined
+      ? options.ngnPerUsd
+      : process.env.COST_NGN_PER_USD ? Number(process.env.COST_NGN_PER_USD) : null;
+    this.budgets = [...(options.budgets ?? [])];
+  }
+
+  /**
+   * Tracker shared by every service on the network, unless a service is given its
+   * own. Budgets come from COST_DAILY_BUDGET_USD and COST_MONTHLY_BUDGET_USD.
+   */
+  static forNetwork(network: HederaNetwork): CostTracker {
+    let tracker = sharedTrackers.get(network);
+    if (!tracker) {
+      tracker = new CostTracker(network, { budgets: budgetsFromEnv() });
+      sharedTrackers.set(network, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * The ledger, recording the fee of every transaction submitted through it under `service`
+   */
+  track(ledger: HederaLedger, service: string): HederaLedger {
+    return {
+      ...ledger,
+      submit: async (transaction, signers, retry) => {
+        const attribution = attributions.getStore() ?? {};
+        try {
+          const submission = await ledger.submit(transaction, signers, retry);
+          this.record(ledger, submission.transactionId, service, operationOf(transaction), attribution, true);
+          return submission;
+        } catch (error) {
+          if (error instanceof LedgerStatusError || error instanceof TransactionOutcomeUnknownError) {
+            this.record(ledger, error.transactionId, service, operationOf(transaction), attribution, false);
+          }
+          throw error;
+        }
+      },
+      submitTopicMessage: async (transaction, signers) => {
+        const attribution = attributions.getStore() ?? {};
+        let submissions: LedgerSubmission[];
+        try {
+          submissions = await ledger.submitTopicMessage(transaction, signers);
+        } catch (error) {
+          if (error instanceof LedgerStatusError || error instanceof TransactionOutcomeUnknownError) {
+            this.record(ledger, error.transactionId, service, operationOf(transaction), attribution, false);
+          }
+          throw error;
+        }
+        for (const submission of submissions) {
+          this.record(ledger, submission.transactionId, service, operationOf(transaction), attribution, true);
+        }
+        return submissions;
+      }
+    };
+  }
+
+  addBudget(budget: CostBudget): void {
+    if (this.budgets.some(existing => existing.name === budget.name)) {
+      throw new Error(`Cost budget ${budget.name} already exists`);
+    }
+    this.budgets.push({ ...budget });
+  }
+
+  /**
+   * Waits until the fees of every transaction submitted so far are recorded (or
+   * given up on) and checked against the budgets
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+    await this.budgetChecks;
+  }
+
+  /**
+   * Recorded costs grouped by service, operation, tontine, property or UTC day,
+   * most expensive first. Costs without a tontine or property are grouped under a
+   * null key.
+   */
+  async summarize(groupBy: CostDimension, filter: TransactionCostFilter = {}): Promise<CostSummary[]> {
+    await this.flush();
+    const groups = new Map<string | null, CostSummary>();
+    for (const cost of await this.repository.listTransactionCosts(filter)) {
+      const key = groupKeyOf(cost, groupBy);
+      const group = groups.get(key) ?? { key, transactions: 0, feeTinybars: 0n, feeUsd: 0, feeNgn: null };
+      group.transactions++;
+      group.feeTinybars += cost.feeTinybars;
+      group.feeUsd += cost.feeUsd;
+      if (cost.feeNgn !== null) {
+        group.feeNgn = (group.feeNgn ?? 0) + cost.feeNgn;
+      }
+      groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => b.feeUsd - a.feeUsd);
+  }
+
+  /**
+   * Spend against each budget in the period containing `at`
+   */
+  async budgetStatus(at: Date = new Date()): Promise<BudgetStatus[]> {
+    await this.flush();
+    return Promise.all(this.budgets.map(budget => this.spendAgainst(budget, at)));
+  }
+
+  private record(
+    ledger: HederaLedger,
+    transactionId: string,
+    service: string,
+    operation: string,
+    attribution: CostAttribution,
+    reachedConsensus: boolean
+  ): void {
+    const source: CostSource = {
+      transactionId,
+      service,
+      operation,
+      tontineId: attribution.tontineId ?? null,
+      propertyId: attribution.propertyId ?? null
+    };
+    const recording: Promise<void> = this.chargedFee(ledger, transactionId, reachedConsensus)
+      .then(async fee => {
+        if (fee) await this.save(source, fee);
+      })
+      .catch((error: any) => console.error(`Fee of transaction ${transactionId} was not recorded:`, error.message))
+      .finally(() => this.pending.delete(recording));
+    this.pending.add(recording);
+  }
+
+  /**
+   * The fee charged for a transaction, or null for a failed submission that never
+   * reached consensus (nothing was charged)
+   */
+  private async chargedFee(ledger: HederaLedger, transactionId: string, reachedConsensus: boolean): Promise<ChargedFee | null> {
+    if (reachedConsensus) {
+      const outcome = await this.monitor.track(transactionId);
+      if (outcome.status !== 'TIMEOUT') {
+        return { result: outcome.result!, feeTinybars: outcome.chargedFee!, consensusTimestamp: outcome.consensusTimestamp! };
+      }
+    }
+    try {
+      // Failed transactions are charged too, so their records are read without validating the status
+      const record = await ledger.getRecord(transactionId, { validateStatus: false });
+      return {
+        result: record.receipt.status,
+        feeTinybars: record.transactionFeeTinybars,
+        consensusTimestamp: record.consensusTimestamp
+      };
+    } catch (error) {
+      if (reachedConsensus) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  private async save(source: CostSource, fee: ChargedFee): Promise<void> {
+    const chargedAt = consensusTime(fee.consensusTimestamp);
+    const { centEquivalent, hbarEquivalent } = await this.exchangeRate(chargedAt);
+    const feeUsd = Number(fee.feeTinybars) / TINYBARS_PER_HBAR * centEquivalent / hbarEquivalent / 100;
+    const cost: TransactionCostRecord = {
+      ...source,
+      ...fee,
+      centEquivalent,
+      hbarEquivalent,
+      feeUsd,
+      feeNgn: this.ngnPerUsd !== null ? feeUsd * this.ngnPerUsd : null,
+      chargedAt
+    };
+
+    await this.repository.saveTransactionCost(cost);
+    this.emitSafely('cost', cost);
+    // One check at a time, so concurrent costs crossing a budget alert once
+    const check = this.budgetChecks.then(() => this.checkBudgets(cost));
+    this.budgetChecks = check.catch(() => undefined);
+    await check;
+  }
+
+  /**
+   * The network's exchange rate at a time; rates change at most hourly, so one
+   * lookup serves every fee charged in the same hour
+   */
+  private exchangeRate(at: Date): Promise<ExchangeRate> {
+    const hour = Math.floor(at.getTime() / MS_PER_HOUR);
+    let rate = this.rates.get(hour);
+    if (!rate) {
+      rate = this.mirror.getExchangeRate(at).then(({ current_rate }) => ({
+        centEquivalent: current_rate.cent_equivalent,
+        hbarEquivalent: current_rate.hbar_equivalent
+      }));
+      rate.catch(() => this.rates.delete(hour));
+      this.rates.set(hour, rate);
+    }
+    return rate;
+  }
+
+  private async checkBudgets(cost: TransactionCostRecord): Promise<void> {
+    for (const budget of this.budgets.filter(budget => budgetCovers(budget, cost))) {
+      const status = await this.spendAgainst(budget, cost.chargedAt);
+      const key = `${budget.name}@${status.periodStart.toISOString()}`;
+      if (status.spentUsd <= budget.limitUsd || this.alerted.has(key)) {
+        continue;
+      }
+
+      this.alerted.add(key);
+      console.warn(
+        `Cost budget ${budget.name} exceeded: $${status.spentUsd.toFixed(4)} spent of $${budget.limitUsd} ` +
+        `for the ${budget.period} period from ${status.periodStart.toISOString()} (transaction ${cost.transactionId})`
+      );
+      this.emitSafely('budget-exceeded', { ...status, transactionId: cost.transactionId });
+    }
+  }
+
+  private async spendAgainst(budget: CostBudget, at: Date): Promise<BudgetStatus> {
+    const { periodStart, periodEnd } = periodOf(budget.period, at);
+    const { feeUsd: spentUsd } = await this.repository.sumTransactionCosts({
+      from: periodStart,
+      to: periodEnd,
+      service: budget.service,
+      operation: budget.operation,
+      tontineId: budget.tontineId,
+      propertyId: budget.propertyId
+    });
+    return { budget, periodStart, periodEnd, spentUsd, remainingUsd: budget.limitUsd - spentUsd };
+  }
+
+  // A throwing listener must not stop a fee from being recorded or other budgets from being checked
+  private emitSafely(event: CostTrackerEvent, payload: TransactionCostRecord | BudgetAlert): void {
+    try {
+      this.emit(event, payload);
+    } catch (error: any) {
+      console.error(`Cost tracker ${event} listener failed:`, error.message);
+    }
+  }
+}
+
 export interface CostTracker {
-  htsTransfers: number;
-  hcsMessages: number;
-  contractExecutions: number;
-  totalCost: number;
-}
-
-export async function calculateDailyCosts(htsCount: number = 10000, hcsCount: number = 5000, hscsCount: number = 500): Promise<CostTracker> {
-  const htsCost = htsCount * 0.001; // $0.001 per transfer
-  const hcsCost = hcsCount * 0.0001; // $0.0001 per message
-  const hscsCost = hscsCount * 0.05; // $0.05 per execution (avg)
-
-  return {
-    htsTransfers: htsCost,
-    hcsMessages: hcsCost,
-    contractExecutions: hscsCost,
-    totalCost: htsCost + hcsCost + hscsCost
-  };
-}
\ No newline at end of file
+  on(event: 'cost', listener: (cost: TransactionCostRecord) => void): this;
+  on(event: 'budget-exceeded', listener: (alert: BudgetAlert) => void): this;
+  once(event: 'cost', listener: (cost: TransactionCostRecord) => void): this;
+  once(event: 'budget-exceeded', listener: (alert: BudgetAlert) => void): this;
+  off(event: 'cost', listener: (cost: TransactionCostRecord) => void): this;
+  off(event: 'budget-exceeded', listener: (alert: BudgetAlert) => void): this;
+}
+
+/**
+ * Runs an operation with the fees of everything it submits attributed to a tontine
+ * and/or property; nested calls add to the enclosing attribution
+ */
+export function withCostAttribution<T>(attribution: CostAttribution, operation: () => Promise<T>): Promise<T> {
+  return attributions.run({ ...attributions.getStore(), ...attribution }, operation);
+}
+
+function operationOf(transaction: Transaction): string {
+  return transaction.constructor.name.replace(/Transaction$/, '');
+}
+
+function consensusTime(consensusTimestamp: string): Date {
+  const [seconds, nanos = '0'] = consensusTimestamp.split('.');
+  return new Date(Number(seconds) * 1000 + Math.floor(Number(nanos.padEnd(9, '0')) / 1_000_000));
+}
+
+function groupKeyOf(cost: TransactionCostRecord, groupBy: CostDimension): string | null {
+  switch (groupBy) {
+    case 'service': return cost.service;
+    case 'operation': return cost.operation;
+    case 'tontine': return cost.tontineId;
+    case 'property': return cost.propertyId;
+    case 'day': return cost.chargedAt.toISOString().slice(0, 10);
+  }
+}
+
+function budgetCovers(budget: CostBudget, cost: TransactionCostRecord): boolean {
+  return (!budget.service || budget.service === cost.service)
+    && (!budget.operation || budget.operation === cost.operation)
+    && (!budget.tontineId || budget.tontineId === cost.tontineId)
+    && (!budget.propertyId || budget.propertyId === cost.propertyId);
+}
+
+function periodOf(period: BudgetPeriod, at: Date): { periodStart: Date; periodEnd: Date } {
+  const year = at.getUTCFullYear();
+  const month = at.getUTCMonth();
+  if (period === 'monthly') {
+    return { periodStart: new Date(Date.UTC(year, month, 1)), periodEnd: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+  const day = at.getUTCDate();
+  return { periodStart: new Date(Date.UTC(year, month, day)), periodEnd: new Date(Date.UTC(year, month, day + 1)) };
+}
+
+function budgetsFromEnv(): CostBudget[] {
+  const budgets: CostBudget[] = [];
+  if (process.env.COST_DAILY_BUDGET_USD) {
+    budgets.push({ name: 'daily', period: 'daily', limitUsd: Number(process.env.COST_DAILY_BUDGET_USD) });
+  }
+  if (process.env.COST_MONTHLY_BUDGET_USD) {
+    budgets.push({ name: 'monthly', period: 'monthly', limitUsd: Number(process.env.COST_MONTHLY_BUDGET_USD) });
+  }
+  return budgets;
+}
+
+interface ChargedFee {
+  result: string;
+  feeTinybars: bigint;
+  consensusTimestamp: string;
+}
+
+interface CostSource {
+  transactionId: string;
+  service: string;
+  operation: string;
+  tontineId: string | null;
+  propertyId: string | null;
+}
+
+interface ExchangeRate {
+  centEquivalent: number;
+  hbarEquivalent: number;
+}
+
+export type CostTrackerEvent = 'cost' | 'budget-exceeded';
+export type CostDimension = 'service' | 'operation' | 'tontine' | 'property' | 'day';
+export type BudgetPeriod = 'daily' | 'monthly'; // UTC days and calendar months
+
+export interface CostTrackerOptions {
+  repository?: LedgerRepository; // Default: PostgreSQL when DATABASE_URL is set, else the latest 100,000 costs in memory
+  mirror?: MirrorNodeClient; // Default: the network's shared client
+  monitor?: TransactionMonitor; // Default: the network's shared monitor
+  ngnPerUsd?: number | null; // Default: COST_NGN_PER_USD; null leaves NGN amounts out
+  budgets?: CostBudget[];
+}
+
+export interface CostAttribution {
+  tontineId?: string; // Tontine contract id
+  propertyId?: string;
+}
+
+export interface CostBudget {
+  name: string; // Unique per tracker
+  period: BudgetPeriod;
+  limitUsd: number;
+  // Only costs matching all of the set scopes count; none set covers every cost
+  service?: string;
+  operation?: string;
+  tontineId?: string;
+  propertyId?: string;
+}
+
+export interface BudgetStatus {
+  budget: CostBudget;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  spentUsd: number;
+  remainingUsd: number; // Negative once exceeded
+}
+
+export interface BudgetAlert extends BudgetStatus {
+  transactionId: string; // The cost that crossed the limit
+}
+
+export interface CostSummary {
+  key: string | null; // Service, operation, tontine id, property id or YYYY-MM-DD
+  transactions: number;
+  feeTinybars: bigint;
+  feeUsd: number;
+  feeNgn: number | null; // Null when none of the costs had an NGN amount
+}
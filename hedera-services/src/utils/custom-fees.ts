@@ -0,0 +1,274 @@
+// utils/custom-fees.ts
+import {
+  CustomFee,
+  CustomFixedFee,
+  CustomFractionalFee,
+  CustomRoyaltyFee,
+  FeeAssessmentMethod,
+  Hbar
+} from '@hashgraph/sdk';
+import { HBAR, HBAR_DECIMALS } from '../services/hedera/transfer-builder';
+import { TokenAmount, TokenAmountInput } from './token-amount';
+
+export const MAX_CUSTOM_FEES = 10; // Per token
+
+export class CustomFeeValidationError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid custom fees: ${problems.join('; ')}`);
+    this.name = 'CustomFeeValidationError';
+  }
+}
+
+/**
+ * Custom fee as configured by callers: amounts in HBAR or whole tokens (decimal
+ * strings) or bigint base units, like every other amount in the services
+ */
+export type CustomFeeConfig =
+  | (FeeCollector & {
+    kind: 'fixed';
+    amount: TokenAmountInput;
+    denominatingTokenId?: string; // HBAR when omitted
+  })
+  | (FeeCollector & {
+    kind: 'fractional'; // Fungible tokens only; charged in the token itself
+    numerator: number;
+    denominator: number;
+    minimum?: TokenAmountInput;
+    maximum?: TokenAmountInput;
+    netOfTransfers?: boolean; // Sender pays the fee on top instead of the receiver getting less
+  })
+  | (FeeCollector & {
+    kind: 'royalty'; // NFTs only; a share of the fungible value the seller receives
+    numerator: number;
+    denominator: number;
+    fallbackFee?: { amount: TokenAmountInput; denominatingTokenId?: string }; // Charged to the buyer when no value is exchanged
+  });
+
+interface FeeCollector {
+  collectorAccountId: string;
+  allCollectorsAreExempt?: boolean; // Collectors of the token's other fees do not pay this one
+}
+
+/**
+ * Custom fee in base units, as stored on the ledger
+ */
+export type TokenCustomFee =
+  | (ResolvedFeeCollector & { kind: 'fixed'; units: bigint; denominatingTokenId: string | null }) // null: HBAR
+  | (ResolvedFeeCollector & {
+    kind: 'fractional';
+    numerator: number;
+    denominator: number;
+    minimum: bigint;
+    maximum: bigint | null;
+    netOfTransfers: boolean;
+  })
+  | (ResolvedFeeCollector & {
+    kind: 'royalty';
+    numerator: number;
+    denominator: number;
+    fallbackFee: { units: bigint; denominatingTokenId: string | null } | null;
+  });
+
+interface ResolvedFeeCollector {
+  collectorAccountId: string;
+  allCollectorsAreExempt: boolean;
+}
+
+/**
+ * Converts configured fees of `token` to base units; `decimalsOf` looks up the
+ * decimals of denominating tokens
+ */
+export async function resolveCustomFees(
+  fees: CustomFeeConfig[],
+  token: { tokenId: string; decimals: number },
+  decimalsOf: (tokenId: string) => Promise<number>
+): Promise<TokenCustomFee[]> {
+  const fixedUnits = async (amount: TokenAmountInput, tokenId?: string) => tokenId
+    ? TokenAmount.from(tokenId, amount, await decimalsOf(tokenId)).units
+    : TokenAmount.from(HBAR, amount, HBAR_DECIMALS).units;
+
+  const resolved: TokenCustomFee[] = [];
+  for (const fee of fees) {
+    const collector = { collectorAccountId: fee.collectorAccountId, allCollectorsAreExempt: fee.allCollectorsAreExempt ?? false };
+
+    if (fee.kind === 'fixed') {
+      resolved.push({
+        ...collector,
+        kind: 'fixed',
+        units: await fixedUnits(fee.amount, fee.denominatingTokenId),
+        denominatingTokenId: fee.denominatingTokenId ?? null
+      });
+    } else if (fee.kind === 'fractional') {
+      resolved.push({
+        ...collector,
+        kind: 'fractional',
+        numerator: fee.numerator,
+        denominator: fee.denominator,
+        minimum: fee.minimum !== undefined ? TokenAmount.from(token.tokenId, fee.minimum, token.decimals).units : 0n,
+        maximum: fee.maximum !== undefined ? TokenAmount.from(token.tokenId, fee.maximum, token.decimals).units : null,
+        netOfTransfers: fee.netOfTransfers ?? false
+      });
+    } else {
+      resolved.push({
+        ...collector,
+        kind: 'royalty',
+        numerator: fee.numerator,
+        denominator: fee.denominator,
+        fallbackFee: fee.fallbackFee
+          ? {
+            units: await fixedUnits(fee.fallbackFee.amount, fee.fallbackFee.denominatingTokenId),
+            denominatingTokenId: fee.fallbackFee.denominatingTokenId ?? null
+          }
+          : null
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Problems that make the network reject the fee schedule for a token of `tokenType`
+ */
+export function customFeeProblems(fees: TokenCustomFee[], tokenType: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE'): string[] {
+  const problems: string[] = [];
+  if (fees.length > MAX_CUSTOM_FEES) {
+    problems.push(`${fees.length} custom fees; the limit is ${MAX_CUSTOM_FEES}`);
+  }
+
+  for (const fee of fees) {
+    if (fee.kind === 'fixed' && fee.units <= 0n) {
+      problems.push(`fixed fee to ${fee.collectorAccountId} must be positive`);
+    }
+    if (fee.kind !== 'fixed' && (fee.numerator <= 0 || fee.denominator <= 0 || fee.numerator > fee.denominator
+      || !Number.isInteger(fee.numerator) || !Number.isInteger(fee.denominator))) {
+      problems.push(`${fee.kind} fee to ${fee.collectorAccountId} needs an integer fraction between 0 and 1, got ${fee.numerator}/${fee.denominator}`);
+    }
+    if (fee.kind === 'fractional' && tokenType !== 'FUNGIBLE_COMMON') {
+      problems.push('fractional fees are only allowed on fungible tokens');
+    }
+    if (fee.kind === 'fractional' && fee.maximum !== null && fee.maximum < fee.minimum) {
+      problems.push(`fractional fee to ${fee.collectorAccountId} has a maximum below its minimum`);
+    }
+    if (fee.kind === 'royalty' && tokenType !== 'NON_FUNGIBLE_UNIQUE') {
+      problems.push('royalty fees are only allowed on NFTs');
+    }
+  }
+
+  return problems;
+}
+
+export function toSdkCustomFees(fees: TokenCustomFee[]): CustomFee[] {
+  const fixed = (units: bigint, denominatingTokenId: string | null) => {
+    const fee = new CustomFixedFee();
+    return denominatingTokenId
+      ? fee.setAmount(units).setDenominatingTokenId(denominatingTokenId)
+      : fee.setHbarAmount(Hbar.fromTinybars(units.toString()));
+  };
+
+  return fees.map(fee => {
+    let sdkFee: CustomFee;
+    if (fee.kind === 'fixed') {
+      sdkFee = fixed(fee.units, fee.denominatingTokenId);
+    } else if (fee.kind === 'fractional') {
+      const fractional = new CustomFractionalFee()
+        .setNumerator(fee.numerator)
+        .setDenominator(fee.denominator)
+        .setMin(Number(fee.minimum))
+        .setAssessmentMethod(fee.netOfTransfers ? FeeAssessmentMethod.Exclusive : FeeAssessmentMethod.Inclusive);
+      sdkFee = fee.maximum !== null ? fractional.setMax(Number(fee.maximum)) : fractional;
+    } else {
+      const royalty = new CustomRoyaltyFee().setNumerator(fee.numerator).setDenominator(fee.denominator);
+      sdkFee = fee.fallbackFee ? royalty.setFallbackFee(fixed(fee.fallbackFee.units, fee.fallbackFee.denominatingTokenId)) : royalty;
+    }
+    return sdkFee.setFeeCollectorAccountId(fee.collectorAccountId).setAllCollectorsAreExempt(fee.allCollectorsAreExempt);
+  });
+}
+
+export function fromSdkCustomFees(fees: CustomFee[]): TokenCustomFee[] {
+  const fixed = (fee: CustomFixedFee) => ({
+    units: BigInt((fee.amount ?? 0).toString()),
+    denominatingTokenId: fee.denominatingTokenId?.toString() ?? null
+  });
+
+  return fees.map(fee => {
+    const collector = {
+      collectorAccountId: fee.feeCollectorAccountId?.toString() ?? '',
+      allCollectorsAreExempt: fee.allCollectorsAreExempt
+    };
+
+    if (fee instanceof CustomFractionalFee) {
+      const maximum = BigInt((fee.max ?? 0).toString());
+      return {
+        ...collector,
+        kind: 'fractional' as const,
+        numerator: Number(fee.numerator ?? 0),
+        denominator: Number(fee.denominator ?? 1),
+        minimum: BigInt((fee.min ?? 0).toString()),
+        maximum: maximum > 0n ? maximum : null, // 0 means no maximum
+        netOfTransfers: fee.assessmentMethod?.valueOf() ?? false
+      };
+    }
+    if (fee instanceof CustomRoyaltyFee) {
+      return {
+        ...collector,
+        kind: 'royalty' as const,
+        numerator: Number(fee.numerator ?? 0),
+        denominator: Number(fee.denominator ?? 1),
+        fallbackFee: fee.fallbackFee ? fixed(fee.fallbackFee) : null
+      };
+    }
+    return { ...collector, kind: 'fixed' as const, ...fixed(fee as CustomFixedFee) };
+  });
+}
+
+/**
+ * Fees the network charges for moving `units` of a token (1 for an NFT) from one
+ * account to another, following HIP-18: the treasury and a fee's own collector
+ * are exempt, fixed and fractional fees are paid by the sender, royalties come
+ * out of the `payment` the NFT seller receives in the same transaction or, with
+ * no payment, fall back to a fixed fee paid by the buyer. Fees charged on the fee
+ * payments themselves are not included.
+ */
+export function assessTransferFees(
+  token: { tokenId: string; treasuryAccountId: string | null; customFees: TokenCustomFee[] },
+  transfer: { fromAccountId: string; toAccountId: string; units: bigint; payment?: { asset: string; units: bigint } }
+): AssessedCustomFee[] {
+  const collectors = new Set(token.customFees.map(fee => fee.collectorAccountId));
+  const exempt = (fee: TokenCustomFee, payer: string) => payer === token.treasuryAccountId
+    || payer === fee.collectorAccountId
+    || (fee.allCollectorsAreExempt && collectors.has(payer));
+
+  const assessed: AssessedCustomFee[] = [];
+  for (const fee of token.customFees) {
+    const charge = (payer: string, asset: string, units: bigint, deductedFromTransfer: boolean) => {
+      if (units > 0n && !exempt(fee, payer)) {
+        assessed.push({ kind: fee.kind, payerAccountId: payer, collectorAccountId: fee.collectorAccountId, asset, units, deductedFromTransfer });
+      }
+    };
+
+    if (fee.kind === 'fixed') {
+      charge(transfer.fromAccountId, fee.denominatingTokenId ?? HBAR, fee.units, false);
+    } else if (fee.kind === 'fractional') {
+      let units = transfer.units * BigInt(fee.numerator) / BigInt(fee.denominator);
+      units = units < fee.minimum ? fee.minimum : units;
+      units = fee.maximum !== null && units > fee.maximum ? fee.maximum : units;
+      charge(transfer.fromAccountId, token.tokenId, units, !fee.netOfTransfers);
+    } else if (transfer.payment && transfer.payment.units > 0n) {
+      charge(transfer.fromAccountId, transfer.payment.asset, transfer.payment.units * BigInt(fee.numerator) / BigInt(fee.denominator), true);
+    } else if (fee.fallbackFee) {
+      charge(transfer.toAccountId, fee.fallbackFee.denominatingTokenId ?? HBAR, fee.fallbackFee.units, false);
+    }
+  }
+
+  return assessed;
+}
+
+export interface AssessedCustomFee {
+  kind: TokenCustomFee['kind'];
+  payerAccountId: string;
+  collectorAccountId: string;
+  asset: string; // HBAR or a token id
+  units: bigint;
+  deductedFromTransfer: boolean; // Taken out of the amount moved (fractional) or the seller's payment (royalty)
+}
@@ -0,0 +1,109 @@
+// utils/encryption.ts
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const ENVELOPE_VERSION = 'v2';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface EncryptionKey {
+  id: string;
+  version: number;
+  key: string; // 32 bytes as hex
+}
+
+/**
+ * Encrypts a UTF-8 string with AES-256-GCM
+ * @param message - Plaintext
+ * @param keyHex - 32-byte key as hex
+ * @returns `iv:tag:ciphertext`, all hex encoded
+ */
+export function encryptPayload(message: string, keyHex: string): string {
+  const key = Buffer.from(keyHex, 'hex');
+  const iv = crypto.randomBytes(16);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  let encrypted = cipher.update(message, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  const authTag = cipher.getAuthTag();
+
+  return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+}
+
+/**
+ * Decrypts an `iv:tag:ciphertext` payload produced by `encryptPayload`.
+ * Throws if the payload is malformed or fails authentication (tampered or wrong key).
+ */
+export function decryptPayload(payload: string, keyHex: string): string {
+  if (!isEncryptedPayload(payload)) {
+    throw new Error('Payload is not in iv:tag:ciphertext format');
+  }
+
+  const [ivHex, tagHex, ciphertextHex] = payload.split(':');
+  const decipher = crypto.createDecipheriv(ALGORITHM, Buffer.from(keyHex, 'hex'), Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+
+  let decrypted = decipher.update(ciphertextHex, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
+/**
+ * True for the legacy `iv:tag:ciphertext` format, which carries no key id
+ */
+export function isEncryptedPayload(payload: string): boolean {
+  return /^[0-9a-f]{32}:[0-9a-f]{32}:[0-9a-f]*$/i.test(payload);
+}
+
+/**
+ * Encrypts into a versioned envelope, `v2:keyId:keyVersion:iv:tag:ciphertext`.
+ * The `v2:keyId:keyVersion` header is authenticated as additional data, so it
+ * cannot be altered to point a payload at another key.
+ */
+export function encryptEnvelope(message: string, key: EncryptionKey): string {
+  if (!KEY_ID_PATTERN.test(key.id)) {
+    throw new Error(`Invalid key id: ${key.id}`);
+  }
+
+  const header = `${ENVELOPE_VERSION}:${key.id}:${key.version}`;
+  const iv = crypto.randomBytes(16);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, Buffer.from(key.key, 'hex'), iv);
+  cipher.setAAD(Buffer.from(header, 'utf-8'));
+  let encrypted = cipher.update(message, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  return `${header}:${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+}
+
+/**
+ * Reads the key reference of an envelope without decrypting it; null if the payload is not an envelope
+ */
+export function parseEnvelope(payload: string): { keyId: string; keyVersion: number } | null {
+  const match = /^v2:([A-Za-z0-9_-]+):(\d+):[0-9a-f]{32}:[0-9a-f]{32}:[0-9a-f]*$/i.exec(payload);
+  return match ? { keyId: match[1], keyVersion: Number(match[2]) } : null;
+}
+
+export function decryptEnvelope(payload: string, key: EncryptionKey): string {
+  const envelope = parseEnvelope(payload);
+  if (!envelope) {
+    throw new Error('Payload is not a v2 envelope');
+  }
+  if (envelope.keyId !== key.id || envelope.keyVersion !== key.version) {
+    throw new Error(`Payload was encrypted with ${envelope.keyId} v${envelope.keyVersion}, not ${key.id} v${key.version}`);
+  }
+
+  const parts = payload.split(':');
+  const header = parts.slice(0, 3).join(':');
+  const [ivHex, tagHex, ciphertextHex] = parts.slice(3);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, Buffer.from(key.key, 'hex'), Buffer.from(ivHex, 'hex'));
+  decipher.setAAD(Buffer.from(header, 'utf-8'));
+  decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+
+  let decrypted = decipher.update(ciphertextHex, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
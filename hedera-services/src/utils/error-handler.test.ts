@@ -0,0 +1,150 @@
+// utils/error-handler.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { submitIdempotently } from '../services/hedera/ledger';
+import { HederaTokenService } from '../services/hedera/token.service';
+import { SimulatorTransportError } from '../simulator/hedera-simulator';
+import { createTestEnvironment, TestAccount, TestEnvironment } from '../simulator/test-environment';
+import {
+  classifyError,
+  executeWithRetry,
+  LedgerStatusError,
+  markSubmitted,
+  OperationCancelledError,
+  RetryExhaustedError,
+  RetryOptions,
+  TransactionOutcomeUnknownError
+} from './error-handler';
+
+const fast: RetryOptions = { initialDelayMs: 1, maxDelayMs: 1, jitter: 0 };
+
+describe('classifyError', () => {
+  test('retries throttling, checks receipts after lost responses and gives up on the rest', () => {
+    const status = (code: string) => new LedgerStatusError(code, '0.0.2@1.0');
+
+    assert.equal(classifyError(status('BUSY')), 'RETRYABLE');
+    assert.equal(classifyError(status('PLATFORM_NOT_ACTIVE')), 'RETRYABLE');
+    assert.equal(classifyError(status('DUPLICATE_TRANSACTION')), 'UNKNOWN_OUTCOME');
+    assert.equal(classifyError({ code: 4, details: 'Deadline exceeded' }), 'UNKNOWN_OUTCOME');
+    assert.equal(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })), 'UNKNOWN_OUTCOME');
+    assert.equal(classifyError(status('INVALID_SIGNATURE')), 'TERMINAL');
+    assert.equal(classifyError(status('INSUFFICIENT_PAYER_BALANCE')), 'TERMINAL');
+    assert.equal(classifyError(new TypeError('undefined is not a function')), 'TERMINAL');
+  });
+});
+
+describe('executeWithRetry', () => {
+  const failing = (errors: unknown[]) => {
+    let attempts = 0;
+    const operation = async () => {
+      const error = errors[attempts++];
+      if (error) throw error;
+      return 'done';
+    };
+    return { operation, attempts: () => attempts };
+  };
+
+  test('retries retryable failures and rethrows terminal ones as they are', async () => {
+    const busy = failing([new LedgerStatusError('BUSY', 'a'), new LedgerStatusError('BUSY', 'a')]);
+    assert.equal(await executeWithRetry(busy.operation, fast), 'done');
+    assert.equal(busy.attempts(), 3);
+
+    const rejected = new LedgerStatusError('INVALID_SIGNATURE', 'a');
+    const terminal = failing([rejected]);
+    await assert.rejects(executeWithRetry(terminal.operation, fast), error => error === rejected);
+    assert.equal(terminal.attempts(), 1);
+  });
+
+  test('gives up with a typed error when the attempts run out or the caller cancels', async () => {
+    const busy = failing(Array(5).fill(new LedgerStatusError('BUSY', 'a')));
+    await assert.rejects(executeWithRetry(busy.operation, { ...fast, maxAttempts: 2, label: 'Mint' }), error =>
+      error instanceof RetryExhaustedError && error.attempts === 2 && /^Mint gave up after 2 attempts: /.test(error.message));
+
+    const controller = new AbortController();
+    const cancelled = failing([new LedgerStatusError('BUSY', 'a')]);
+    const run = executeWithRetry(cancelled.operation, { ...fast, initialDelayMs: 1000, maxDelayMs: 1000, signal: controller.signal });
+    controller.abort('shutting down');
+    await assert.rejects(run, error => error instanceof OperationCancelledError && /shutting down/.test(error.message));
+  });
+
+  test('never reruns an attempt that submitted a transaction, nor one whose inner retry gave up', async () => {
+    let submissions = 0;
+    await assert.rejects(executeWithRetry(async () => {
+      submissions++;
+      markSubmitted('0.0.2@1.0');
+      throw new LedgerStatusError('BUSY', 'a'); // e.g. a follow-up query failing
+    }, fast), /BUSY/);
+    assert.equal(submissions, 1);
+
+    const inner = failing(Array(5).fill(new LedgerStatusError('BUSY', 'a')));
+    await assert.rejects(
+      executeWithRetry(() => executeWithRetry(inner.operation, { ...fast, maxAttempts: 2 }), fast),
+      RetryExhaustedError
+    );
+    assert.equal(inner.attempts(), 2);
+  });
+});
+
+describe('Idempotent submissions', () => {
+  let env: TestEnvironment;
+  let tokens: HederaTokenService;
+  let holder: TestAccount;
+  let tokenId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    tokens = new HederaTokenService(env.simulator);
+    holder = env.account();
+    ({ tokenId } = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '100' }));
+    await tokens.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+  });
+
+  afterEach(() => env.cleanup());
+
+  const transfers = () => env.simulator.getTransactionRecords().filter(record => record.name === 'CRYPTOTRANSFER');
+  const sendToHolder = () => tokens.transferTokens({
+    tokenId,
+    fromAccountId: env.treasury.accountId,
+    fromSigner: env.treasury.signer,
+    toAccountId: holder.accountId,
+    amount: '10'
+  });
+
+  test('resubmits the same transaction after a lost response and moves the tokens once', async () => {
+    env.simulator.injectSubmissionFaults({ precheck: 'BUSY' }, { responseLost: true }, { responseLost: true });
+
+    const result = await sendToHolder();
+
+    assert.equal(result.status, 'SUCCESS');
+    assert.deepEqual(transfers().map(record => record.transactionId), [result.transactionId]);
+    assert.equal(env.simulator.getTokenBalance(holder.accountId, tokenId), 1000n);
+  });
+
+  test('reports the status a lost transaction reached consensus with instead of resending it', async () => {
+    const unassociated = env.account();
+    env.simulator.injectSubmissionFaults({ responseLost: true });
+
+    await assert.rejects(tokens.transferTokens({
+      tokenId,
+      fromAccountId: env.treasury.accountId,
+      fromSigner: env.treasury.signer,
+      toAccountId: unassociated.accountId,
+      amount: '10'
+    }), error => error instanceof LedgerStatusError && error.status === 'TOKEN_NOT_ASSOCIATED_TO_ACCOUNT');
+    assert.equal(transfers().length, 1);
+  });
+
+  test('gives up with an unknown outcome, not a new transaction, when the receipt never turns up', async () => {
+    let sends = 0;
+    const timedOut = async () => {
+      sends++;
+      throw new SimulatorTransportError('0.0.2@1700000000.000000001');
+    };
+
+    await assert.rejects(
+      submitIdempotently('0.0.2@1700000000.000000001', timedOut, async () => null, { ...fast, maxAttempts: 3 }),
+      error => error instanceof TransactionOutcomeUnknownError && error.transactionId === '0.0.2@1700000000.000000001'
+    );
+    assert.equal(sends, 3);
+  });
+});
@@ -1,18 +1,242 @@
 // utils/error-handler.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { MaxAttemptsOrTimeoutError, StatusError } from '@hashgraph/sdk';
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'signal' | 'label'>> = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  maxDelayMs: 10_000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  timeoutMs: 60_000
+};
+
+// Hedera statuses that say the network did not take the transaction (or query) this
+// time but may on another try: throttling, and a node or platform that isn't ready
+const RETRYABLE_STATUSES = new Set([
+  'BUSY',
+  'PLATFORM_TRANSACTION_NOT_CREATED',
+  'PLATFORM_NOT_ACTIVE',
+  'THROTTLED_AT_CONSENSUS',
+  'UNKNOWN'
+]);
+
+// Statuses that leave open whether an earlier submission of the same transaction id
+// reached consensus: look at its receipt before anything else
+const UNKNOWN_OUTCOME_STATUSES = new Set(['DUPLICATE_TRANSACTION', 'RECEIPT_NOT_FOUND']);
+
+// gRPC failures where the request may have reached the node before the connection
+// or deadline gave out
+const UNKNOWN_OUTCOME_GRPC_STATUSES = new Set([
+  'CANCELLED',
+  'UNKNOWN',
+  'DEADLINE_EXCEEDED',
+  'RESOURCE_EXHAUSTED',
+  'ABORTED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'TIMEOUT'
+]);
+const GRPC_STATUS_NAMES: Record<number, string> = {
+  1: 'CANCELLED', 2: 'UNKNOWN', 4: 'DEADLINE_EXCEEDED', 8: 'RESOURCE_EXHAUSTED',
+  10: 'ABORTED', 13: 'INTERNAL', 14: 'UNAVAILABLE', 17: 'TIMEOUT'
+};
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH']);
+
+const retryScopes = new AsyncLocalStorage<RetryScope>();
+
+/**
+ * A transaction the network rejected at precheck or that reached consensus with
+ * a status other than SUCCESS. `status` is the Hedera response code, e.g.
+ * INSUFFICIENT_PAYER_BALANCE.
+ */
+export class LedgerStatusError extends Error {
+  constructor(public status: string, public transactionId: string, message?: string) {
+    super(message || `transaction ${transactionId} failed with status ${status}`);
+    this.name = 'LedgerStatusError';
+  }
+}
+
+/**
+ * A submission whose fate could not be determined within its retry budget: it may
+ * or may not have reached consensus. Resubmitting a new transaction could apply the
+ * operation twice; reconcile on the mirror node (e.g. `TransactionMonitor.track`).
+ */
+export class TransactionOutcomeUnknownError extends Error {
+  constructor(public transactionId: string, public cause: unknown) {
+    super(`Outcome of transaction ${transactionId} is unknown: ${messageOf(cause)}`);
+    this.name = 'TransactionOutcomeUnknownError';
+  }
+}
+
+export class RetryExhaustedError extends Error {
+  constructor(public attempts: number, public cause: unknown, label?: string) {
+    super(`${label || 'Operation'} gave up after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${messageOf(cause)}`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+export class OperationCancelledError extends Error {
+  constructor(public reason: unknown, label?: string) {
+    super(`${label || 'Operation'} cancelled${reason !== undefined ? `: ${messageOf(reason)}` : ''}`);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+/**
+ * How a failed ledger call may be retried:
+ * - RETRYABLE: the network turned it away (BUSY, throttled, platform not active);
+ *   nothing happened, so it can run again
+ * - UNKNOWN_OUTCOME: the connection or deadline failed, or the node saw the same
+ *   transaction id before; a submission may have landed, so only the same signed
+ *   transaction may be resubmitted, after checking its receipt
+ * - TERMINAL: anything else, including statuses like INVALID_SIGNATURE or
+ *   INSUFFICIENT_PAYER_BALANCE and errors from our own code
+ */
+export function classifyError(error: unknown): ErrorDisposition {
+  const status = hederaStatusOf(error);
+  if (status) {
+    if (RETRYABLE_STATUSES.has(status)) return 'RETRYABLE';
+    if (UNKNOWN_OUTCOME_STATUSES.has(status)) return 'UNKNOWN_OUTCOME';
+    return 'TERMINAL';
+  }
+
+  if (error instanceof MaxAttemptsOrTimeoutError) {
+    return 'UNKNOWN_OUTCOME';
+  }
+  const grpcStatus = grpcStatusOf(error);
+  if (grpcStatus) {
+    return UNKNOWN_OUTCOME_GRPC_STATUSES.has(grpcStatus) ? 'UNKNOWN_OUTCOME' : 'TERMINAL';
+  }
+  const code = (error as any)?.code ?? (error as any)?.cause?.code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+    return 'UNKNOWN_OUTCOME';
+  }
+  return 'TERMINAL';
+}
+
+/**
+ * Hedera response code carried by an SDK status error or a LedgerStatusError, if any
+ */
+export function hederaStatusOf(error: unknown): string | null {
+  if (error instanceof LedgerStatusError) return error.status;
+  if (error instanceof StatusError) return error.status.toString();
+  return null;
+}
+
+/**
+ * Runs an operation, retrying it with jittered exponential backoff while it fails
+ * with RETRYABLE or UNKNOWN_OUTCOME errors (see `classifyError`) and the attempt
+ * and time budgets last. Terminal errors are rethrown as they are; running out of
+ * budget throws RetryExhaustedError and an aborted `signal` OperationCancelledError.
+ *
+ * Two rules keep a retry from repeating work that already reached the ledger:
+ * - An attempt that submitted a transaction (see `markSubmitted`) is never run
+ *   again, whatever fails after the submission.
+ * - Retried calls nest without compounding: RetryExhaustedError,
+ *   TransactionOutcomeUnknownError and OperationCancelledError are terminal, so
+ *   an outer retry gives up when an inner one does.
+ *
+ * Submissions are retried by the ledger itself, with the same transaction id;
+ * wrapping a flow that builds a new transaction here only ever re-runs it when
+ * nothing was submitted.
+ */
 export async function executeWithRetry<T>(
   operation: () => Promise<T>,
-  maxRetries: number = 3
+  options: RetryOptions = {}
 ): Promise<T> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+  const { signal, label, ...budget } = options;
+  const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor, jitter, timeoutMs } = { ...DEFAULT_RETRY_OPTIONS, ...budget };
+  const deadline = Date.now() + timeoutMs;
+  const parent = retryScopes.getStore() ?? null;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw new OperationCancelledError(signal.reason, label);
+    }
+
+    const scope: RetryScope = { parent, submitted: [] };
     try {
-      return await operation();
+      return await retryScopes.run(scope, operation);
     } catch (error: any) {
-      if (attempt === maxRetries) throw error;
-      
-      const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
-      console.warn(`Attempt ${attempt} failed: ${error.message}. Retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      if (scope.submitted.length > 0) {
+        console.warn(`${label || 'Operation'} failed after submitting ${scope.submitted.join(', ')}; not retried: ${error.message}`);
+        throw error;
+      }
+      if (classifyError(error) === 'TERMINAL') {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, initialDelayMs, backoffFactor, maxDelayMs, jitter);
+      if (attempt >= maxAttempts || Date.now() + delay > deadline) {
+        throw new RetryExhaustedError(attempt, error, label);
+      }
+
+      console.warn(`${label ? `${label}: a` : 'A'}ttempt ${attempt} failed: ${error.message}. Retrying in ${delay}ms...`);
+      await sleep(delay, signal, label);
     }
   }
-  throw new Error('Max retries exceeded');
-}
\ No newline at end of file
+}
+
+/**
+ * Tells the enclosing executeWithRetry calls that the current attempt submitted a
+ * transaction, so none of them runs the attempt again. Called by the ledgers.
+ */
+export function markSubmitted(transactionId: string): void {
+  for (let scope = retryScopes.getStore() ?? null; scope; scope = scope.parent) {
+    scope.submitted.push(transactionId);
+  }
+}
+
+function backoffDelay(attempt: number, initialDelayMs: number, backoffFactor: number, maxDelayMs: number, jitter: number): number {
+  const delay = Math.min(initialDelayMs * Math.pow(backoffFactor, attempt - 1), maxDelayMs);
+  // Spread retries of concurrent callers so they don't hit a busy node in lockstep
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined, label: string | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationCancelledError(signal!.reason, label));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function grpcStatusOf(error: any): string | null {
+  if (error?.name === 'GrpcServiceError' && error.status) {
+    return error.status.toString();
+  }
+  // Raw @grpc/grpc-js errors carry the numeric code and a details string
+  if (typeof error?.code === 'number' && 'details' in error) {
+    return GRPC_STATUS_NAMES[error.code] ?? `CODE_${error.code}`;
+  }
+  return null;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface RetryScope {
+  parent: RetryScope | null;
+  submitted: string[]; // Transaction ids submitted during the current attempt
+}
+
+export type ErrorDisposition = 'RETRYABLE' | 'UNKNOWN_OUTCOME' | 'TERMINAL';
+
+export interface RetryOptions {
+  maxAttempts?: number; // Including the first
+  initialDelayMs?: number;
+  maxDelayMs?: number; // Cap on the backoff between attempts
+  backoffFactor?: number;
+  jitter?: number; // 0-1: share of each delay that is randomized away
+  timeoutMs?: number; // Budget for the whole operation; no attempt starts after it would run out
+  signal?: AbortSignal; // Cancels before the next attempt or during a backoff
+  label?: string; // Names the operation in logs and errors
+}
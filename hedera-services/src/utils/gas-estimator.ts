@@ -1,20 +1,15 @@
 // utils/gas-estimator.ts
-import { Client, ContractCallQuery, ContractFunctionParameters, ContractId } from '@hashgraph/sdk';
-
-const client = Client.forMainnet(); 
+import { ContractFunctionParameters } from '@hashgraph/sdk';
+import { HederaLedger } from '../services/hedera/ledger';
 
 export async function estimateGas(
+  ledger: HederaLedger,
   contractId: string,
   functionName: string,
   params: ContractFunctionParameters
 ): Promise<number> {
   try {
-    const query = new ContractCallQuery()
-      .setContractId(ContractId.fromString(contractId))
-      .setGas(50000)
-      .setFunction(functionName, params);
-
-    await query.execute(client);
+    await ledger.callContract(contractId, functionName, params, 50000);
     
     return Math.ceil(50000 * 1.2); // 20% buffer
   } catch (error: any) {
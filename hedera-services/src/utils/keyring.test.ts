@@ -0,0 +1,80 @@
+// utils/keyring.test.ts
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import * as crypto from 'crypto';
+import { HederaConsensusService } from '../services/hedera/consensus.service';
+import { SecurityEventEntry } from '../services/hedera/hcs-messages';
+import { HederaTopicReader } from '../services/hedera/topic-reader.service';
+import { createTestEnvironment } from '../simulator/test-environment';
+import { encryptPayload, parseEnvelope } from './encryption';
+import { EncryptionKeyring, isEncrypted } from './keyring';
+
+const randomKey = () => crypto.randomBytes(32).toString('hex');
+
+describe('EncryptionKeyring', () => {
+  test('round-trips its serialized form', () => {
+    const serialized = `hcs:2:active:${randomKey()},hcs:1:retired:${randomKey()}`;
+
+    assert.equal(EncryptionKeyring.parse(serialized).serialize(), serialized);
+    assert.throws(() => EncryptionKeyring.parse('hcs:1:disabled:ab'), /Invalid keyring entry/);
+    assert.throws(() => EncryptionKeyring.parse(`hcs:1:active:${randomKey()},hcs:1:retired:${randomKey()}`), /already exists/);
+  });
+
+  test('encrypts with the newest active version and decrypts with the version the envelope names', () => {
+    const keyring = new EncryptionKeyring([{ id: 'hcs', version: 1, key: randomKey(), status: 'active' }]);
+    const before = keyring.encrypt('first');
+
+    const rotated = keyring.rotate('hcs');
+    const after = keyring.encrypt('second');
+
+    assert.equal(parseEnvelope(before)!.keyVersion, 1);
+    assert.equal(parseEnvelope(after)!.keyVersion, rotated.version);
+    assert.deepEqual(keyring.list().map(key => [key.version, key.status]), [[1, 'retired'], [2, 'active']]);
+    assert.equal(keyring.decrypt(before), 'first');
+    assert.equal(keyring.decrypt(after), 'second');
+  });
+
+  test('re-encrypts payloads so the retired version can be destroyed', () => {
+    const keyring = new EncryptionKeyring([{ id: 'hcs', version: 1, key: randomKey(), status: 'active' }]);
+    const payload = keyring.encrypt('archived');
+    keyring.rotate('hcs');
+
+    const reencrypted = keyring.reencrypt(payload);
+    keyring.destroy('hcs', 1);
+
+    assert.equal(keyring.decrypt(reencrypted), 'archived');
+    assert.throws(() => keyring.decrypt(payload), /Unknown key hcs v1/);
+  });
+
+  test('decrypts legacy payloads by trying each key', () => {
+    const legacyKey = randomKey();
+    const keyring = new EncryptionKeyring([
+      { id: 'hcs', version: 1, key: legacyKey, status: 'retired' },
+      { id: 'hcs', version: 2, key: randomKey(), status: 'active' }
+    ]);
+    const legacy = encryptPayload('old format', legacyKey);
+
+    assert.equal(isEncrypted(legacy), true);
+    assert.equal(keyring.decrypt(legacy), 'old format');
+    assert.throws(() => keyring.decrypt('plain text'), /not encrypted/);
+  });
+
+  test('keeps entries written before a rotation readable', async () => {
+    const env = await createTestEnvironment();
+    try {
+      const consensus = new HederaConsensusService(env.simulator);
+      await consensus.logSecurityEvent({ eventType: 'LOGIN_FAILED', severity: 'LOW', description: 'Wrong PIN' });
+
+      const keyring = EncryptionKeyring.fromEnv();
+      keyring.rotate('hcs');
+      process.env.HCS_ENCRYPTION_KEYS = keyring.serialize();
+      await new HederaConsensusService(env.simulator).logSecurityEvent({ eventType: 'LOGIN_FAILED', severity: 'LOW', description: 'Wrong PIN again' });
+
+      const entries = await new HederaTopicReader(env.simulator).getMessages(env.topicId('SECURITY'));
+      assert.deepEqual(entries.map(entry => entry.status), ['ok', 'ok']);
+      assert.deepEqual(entries.map(entry => (entry.entry as SecurityEventEntry).data.description), ['Wrong PIN', 'Wrong PIN again']);
+    } finally {
+      env.cleanup();
+    }
+  });
+});
@@ -0,0 +1,184 @@
+// utils/keyring.ts
+import * as crypto from 'crypto';
+import {
+  EncryptionKey,
+  decryptEnvelope,
+  decryptPayload,
+  encryptEnvelope,
+  isEncryptedPayload,
+  parseEnvelope
+} from './encryption';
+
+export const DEFAULT_KEY_ID = 'hcs';
+
+export type KeyStatus = 'active' | 'retired';
+
+export interface KeyringEntry extends EncryptionKey {
+  status: KeyStatus;
+}
+
+/**
+ * Versioned AES-256-GCM keys for HCS payloads. New payloads are encrypted with
+ * the newest active version of a key id; retired versions only decrypt.
+ *
+ * Rotation: call `rotate()`, store `serialize()` as HCS_ENCRYPTION_KEYS and
+ * restart writers. Retired versions must stay in the keyring for as long as
+ * the entries they encrypted need to be readable (or until those entries have
+ * been exported with `reencrypt()`). They also wrap the per-user data keys of a
+ * `FileUserKeyStore` until its `rewrapKeys()` has run.
+ */
+export class EncryptionKeyring {
+  private keys: KeyringEntry[] = [];
+
+  constructor(keys: KeyringEntry[] = []) {
+    keys.forEach(key => this.add(key));
+  }
+
+  /**
+   * Loads HCS_ENCRYPTION_KEYS (`id:version:status:hex,...`), falling back to the
+   * single legacy HCS_ENCRYPTION_KEY as `hcs` version 1
+   */
+  static fromEnv(): EncryptionKeyring {
+    if (process.env.HCS_ENCRYPTION_KEYS) {
+      return EncryptionKeyring.parse(process.env.HCS_ENCRYPTION_KEYS);
+    }
+    if (process.env.HCS_ENCRYPTION_KEY) {
+      return new EncryptionKeyring([
+        { id: DEFAULT_KEY_ID, version: 1, key: process.env.HCS_ENCRYPTION_KEY, status: 'active' }
+      ]);
+    }
+    throw new Error('Missing HCS_ENCRYPTION_KEYS or HCS_ENCRYPTION_KEY in environment');
+  }
+
+  static parse(serialized: string): EncryptionKeyring {
+    const keys = serialized.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+      const [id, version, status, key] = part.split(':');
+      if (!id || !version || (status !== 'active' && status !== 'retired') || !key) {
+        throw new Error(`Invalid keyring entry: ${id}:${version}:${status}:…`);
+      }
+      return { id, version: Number(version), status: status as KeyStatus, key };
+    });
+    return new EncryptionKeyring(keys);
+  }
+
+  serialize(): string {
+    return this.keys.map(k => `${k.id}:${k.version}:${k.status}:${k.key}`).join(',');
+  }
+
+  add(entry: KeyringEntry): void {
+    if (!/^[0-9a-f]{64}$/i.test(entry.key)) {
+      throw new Error(`Key ${entry.id} v${entry.version} must be 32 bytes of hex`);
+    }
+    if (!Number.isInteger(entry.version) || entry.version < 1) {
+      throw new Error(`Invalid version for key ${entry.id}: ${entry.version}`);
+    }
+    if (this.findKey(entry.id, entry.version)) {
+      throw new Error(`Key ${entry.id} v${entry.version} already exists`);
+    }
+    this.keys.push({ ...entry });
+  }
+
+  list(): KeyringEntry[] {
+    return this.keys.map(key => ({ ...key }));
+  }
+
+  activeKey(keyId: string = DEFAULT_KEY_ID): KeyringEntry {
+    const active = this.keys
+      .filter(k => k.id === keyId && k.status === 'active')
+      .sort((a, b) => b.version - a.version)[0];
+    if (!active) {
+      throw new Error(`No active version of key ${keyId}`);
+    }
+    return active;
+  }
+
+  encrypt(message: string, keyId: string = DEFAULT_KEY_ID): string {
+    return encryptEnvelope(message, this.activeKey(keyId));
+  }
+
+  /**
+   * Decrypts a v2 envelope with the key it names, or a legacy `iv:tag:ciphertext`
+   * payload by trying every key, newest first (GCM authentication rejects the wrong ones)
+   */
+  decrypt(payload: string): string {
+    const envelope = parseEnvelope(payload);
+    if (envelope) {
+      const key = this.findKey(envelope.keyId, envelope.keyVersion);
+      if (!key) {
+        throw new Error(`Unknown key ${envelope.keyId} v${envelope.keyVersion}`);
+      }
+      return decryptEnvelope(payload, key);
+    }
+
+    if (!isEncryptedPayload(payload)) {
+      throw new Error('Payload is not encrypted');
+    }
+
+    for (const key of [...this.keys].sort((a, b) => b.version - a.version)) {
+      try {
+        return decryptPayload(payload, key.key);
+      } catch {
+        // Try the next key
+      }
+    }
+    throw new Error('No key in the keyring decrypts this legacy payload');
+  }
+
+  /**
+   * Decrypts with whichever key applies and re-encrypts with the active version
+   */
+  reencrypt(payload: string, keyId: string = DEFAULT_KEY_ID): string {
+    return this.encrypt(this.decrypt(payload), keyId);
+  }
+
+  /**
+   * Adds a new random version of `keyId` and retires the versions before it
+   */
+  rotate(keyId: string = DEFAULT_KEY_ID): KeyringEntry {
+    const versions = this.keys.filter(k => k.id === keyId);
+    const entry: KeyringEntry = {
+      id: keyId,
+      version: versions.reduce((max, k) => Math.max(max, k.version), 0) + 1,
+      key: crypto.randomBytes(32).toString('hex'),
+      status: 'active'
+    };
+
+    versions.forEach(k => { k.status = 'retired'; });
+    this.add(entry);
+
+    console.log(`✅ Rotated key ${keyId} to v${entry.version}`);
+
+    return { ...entry };
+  }
+
+  retire(keyId: string, version: number): void {
+    this.requireKey(keyId, version).status = 'retired';
+  }
+
+  /**
+   * Permanently removes a key version; payloads encrypted with it become unreadable
+   */
+  destroy(keyId: string, version: number): void {
+    const key = this.requireKey(keyId, version);
+    this.keys = this.keys.filter(k => k !== key);
+  }
+
+  private findKey(keyId: string, version: number): KeyringEntry | undefined {
+    return this.keys.find(k => k.id === keyId && k.version === version);
+  }
+
+  private requireKey(keyId: string, version: number): KeyringEntry {
+    const key = this.findKey(keyId, version);
+    if (!key) {
+      throw new Error(`Unknown key ${keyId} v${version}`);
+    }
+    return key;
+  }
+}
+
+/**
+ * True for both the v2 envelope and the legacy format
+ */
+export function isEncrypted(payload: string): boolean {
+  return parseEnvelope(payload) !== null || isEncryptedPayload(payload);
+}
@@ -0,0 +1,140 @@
+// utils/ledger-repository.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { HederaConsensusService } from '../services/hedera/consensus.service';
+import { HederaFileService } from '../services/hedera/file.service';
+import { HederaSmartContractService } from '../services/hedera/smart-contract.service';
+import { HederaTokenService } from '../services/hedera/token.service';
+import { createTestEnvironment, TestAccount, TestEnvironment } from '../simulator/test-environment';
+import { InMemoryLedgerRepository, TransactionCostRecord, TransferRecord } from './ledger-repository';
+
+describe('LedgerRepository', () => {
+  let env: TestEnvironment;
+  let repository: InMemoryLedgerRepository;
+  let tokens: HederaTokenService;
+  let holder: TestAccount;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    repository = new InMemoryLedgerRepository();
+    tokens = new HederaTokenService(env.simulator, { repository });
+    holder = env.account();
+  });
+
+  afterEach(() => env.cleanup());
+
+  const createAndSend = async (service: HederaTokenService) => {
+    const { tokenId } = await service.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '1000' });
+    await service.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+    const transfer = await service.transferTokens({
+      tokenId,
+      fromAccountId: env.treasury.accountId,
+      fromSigner: env.treasury.signer,
+      toAccountId: holder.accountId,
+      amount: '2.5',
+      memo: 'Wallet top-up'
+    });
+    return { tokenId, transfer };
+  };
+
+  test('keeps a record of tokens and transfers linked to their transactions', async () => {
+    const { tokenId, transfer } = await createAndSend(tokens);
+
+    const token = await repository.getToken(tokenId);
+    assert.equal(token!.initialSupply, 100_000n);
+    assert.deepEqual(await repository.findByTransactionId(token!.transactionId), [{ kind: 'token', record: token }]);
+
+    const [record] = await repository.listTransfers({ accountId: holder.accountId });
+    assert.deepEqual({ ...record, timestamp: null }, {
+      transactionId: transfer.transactionId,
+      tokenId,
+      fromAccountId: env.treasury.accountId,
+      toAccountId: holder.accountId,
+      amount: 250n,
+      serial: null,
+      memo: 'Wallet top-up',
+      timestamp: null
+    });
+    assert.deepEqual(await repository.listTransfers({ tokenId: '0.0.42' }), []);
+  });
+
+  test('records files, topics, contracts and tontine activity', async () => {
+    const files = new HederaFileService(env.simulator, { repository });
+    const consensus = new HederaConsensusService(env.simulator, { repository });
+    const contracts = new HederaSmartContractService(env.simulator, { repository });
+
+    const { fileId } = await files.createFile({ contents: 'deed', fileName: 'deed.txt' });
+    const deleted = await files.deleteFile(fileId);
+    const { topicId } = await consensus.createTopic({ memo: 'Audit' });
+    const { tontineContractId } = await contracts.createTontineCircle({ name: 'Yaba circle', monthlyAmount: 1_000_000, totalMembers: 2, cycleDuration: 2_592_000 });
+    await contracts.joinTontineCircle(tontineContractId, 1);
+    await contracts.joinTontineCircle(tontineContractId, 2);
+    await contracts.makeTontineContribution(tontineContractId, 1_000_000);
+
+    const file = await repository.getFile(fileId);
+    assert.equal(file!.fileName, 'deed.txt');
+    assert.equal(file!.deleteTransactionId, deleted.transactionId);
+    assert.deepEqual((await repository.findByTransactionId(deleted.transactionId)).map(entry => entry.kind), ['file']);
+    assert.equal((await repository.getTopic(topicId))!.memo, 'Audit');
+    assert.equal((await repository.getTontine(tontineContractId))!.monthlyAmount, 1_000_000n);
+    assert.deepEqual((await repository.listTontineActivity(tontineContractId)).map(activity => [activity.activityType, activity.position, activity.amount]), [
+      ['JOIN', 1, null],
+      ['JOIN', 2, null],
+      ['CONTRIBUTION', null, 1_000_000n]
+    ]);
+  });
+
+  test('ignores a second save of the same record', async () => {
+    const { transfer } = await createAndSend(tokens);
+    const [record] = await repository.listTransfers();
+
+    await repository.saveTransfer({ ...record, amount: 1n });
+
+    assert.deepEqual((await repository.listTransfers()).map(saved => [saved.transactionId, saved.amount]), [[transfer.transactionId, 250n]]);
+  });
+
+  test('sums the fees of a period and keeps only the latest costs when capped', async () => {
+    const capped = new InMemoryLedgerRepository({ maxRecords: 2 });
+    for (const [i, day] of ['2026-10-01', '2026-10-02', '2026-10-02'].entries()) {
+      await capped.saveTransactionCost(transactionCost(`0.0.2@170000000${i}.0`, new Date(day), 0.5));
+    }
+
+    assert.deepEqual(await capped.sumTransactionCosts({ from: new Date('2026-10-02') }), { transactions: 2, feeTinybars: 2_000_000n, feeUsd: 1 });
+    assert.deepEqual((await capped.listTransactionCosts()).map(cost => cost.transactionId), ['0.0.2@1700000001.0', '0.0.2@1700000002.0']);
+  });
+
+  test('does not fail a ledger operation whose record could not be saved', async () => {
+    const unavailable = new UnavailableTransferRepository();
+
+    const { tokenId, transfer } = await createAndSend(new HederaTokenService(env.simulator, { repository: unavailable }));
+
+    assert.equal(transfer.status, 'SUCCESS');
+    assert.equal(env.simulator.getTokenBalance(holder.accountId, tokenId), 250n);
+    assert.ok(await unavailable.getToken(tokenId));
+    assert.deepEqual(await unavailable.listTransfers(), []);
+  });
+});
+
+class UnavailableTransferRepository extends InMemoryLedgerRepository {
+  async saveTransfer(_transfer: TransferRecord): Promise<void> {
+    throw new Error('Connection refused');
+  }
+}
+
+function transactionCost(transactionId: string, chargedAt: Date, feeUsd: number): TransactionCostRecord {
+  return {
+    transactionId,
+    service: 'token',
+    operation: 'TokenMint',
+    result: 'SUCCESS',
+    tontineId: null,
+    propertyId: null,
+    feeTinybars: 1_000_000n,
+    centEquivalent: 5,
+    hbarEquivalent: 1,
+    feeUsd,
+    feeNgn: null,
+    consensusTimestamp: `${chargedAt.getTime() / 1000}.000000000`,
+    chargedAt
+  };
+}
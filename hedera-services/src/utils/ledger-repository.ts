@@ -0,0 +1,345 @@
+// utils/ledger-repository.ts
+
+/**
+ * Off-ledger records of what the services did on the ledger: tokens, transfers,
+ * files, topics, contracts, tontines and the fees paid, each carrying the id of
+ * the transaction that produced it. Records are immutable once saved; saving a record whose key
+ * already exists is a no-op, so a retried operation never duplicates one.
+ */
+export interface LedgerRepository {
+  saveToken(token: TokenRecord): Promise<void>;
+  getToken(tokenId: string): Promise<TokenRecord | null>;
+  listTokens(): Promise<TokenRecord[]>;
+
+  saveTransfer(transfer: TransferRecord): Promise<void>;
+  /**
+   * Transfers of a token and/or from or to an account, oldest first
+   */
+  listTransfers(filter?: TransferFilter): Promise<TransferRecord[]>;
+
+  saveFile(file: FileRecord): Promise<void>;
+  /**
+   * Marks a stored file as deleted; unknown files are ignored
+   */
+  markFileDeleted(fileId: string, transactionId: string, deletedAt: Date): Promise<void>;
+  getFile(fileId: string): Promise<FileRecord | null>;
+
+  saveTopic(topic: TopicRecord): Promise<void>;
+  getTopic(topicId: string): Promise<TopicRecord | null>;
+
+  saveContract(contract: ContractRecord): Promise<void>;
+  getContract(contractId: string): Promise<ContractRecord | null>;
+
+  saveTontine(tontine: TontineRecord): Promise<void>;
+  getTontine(tontineContractId: string): Promise<TontineRecord | null>;
+  saveTontineActivity(activity: TontineActivityRecord): Promise<void>;
+  listTontineActivity(tontineContractId: string): Promise<TontineActivityRecord[]>;
+
+  saveTransactionCost(cost: TransactionCostRecord): Promise<void>;
+  /**
+   * Fees charged in a period and/or for a service, operation, tontine or property,
+   * oldest first
+   */
+  listTransactionCosts(filter?: TransactionCostFilter): Promise<TransactionCostRecord[]>;
+  /**
+   * Count and total fees of the costs `listTransactionCosts(filter)` would return
+   */
+  sumTransactionCosts(filter?: TransactionCostFilter): Promise<TransactionCostTotals>;
+
+  /**
+   * Every record produced by a transaction, e.g. to reconcile a mirror node record
+   */
+  findByTransactionId(transactionId: string): Promise<LedgerRecordEntry[]>;
+}
+
+/**
+ * Keeps records in process memory, for tests and when no database is configured.
+ * With `maxRecords` it keeps at most that many records of each kind, dropping the
+ * oldest saved first.
+ */
+export class InMemoryLedgerRepository implements LedgerRepository {
+  private maxRecords: number;
+  private tokens = new Map<string, TokenRecord>();
+  private transfers = new Map<string, TransferRecord>();
+  private files = new Map<string, FileRecord>();
+  private topics = new Map<string, TopicRecord>();
+  private contracts = new Map<string, ContractRecord>();
+  private tontines = new Map<string, TontineRecord>();
+  private tontineActivity = new Map<string, TontineActivityRecord>();
+  private transactionCosts = new Map<string, TransactionCostRecord>();
+
+  constructor(options: { maxRecords?: number } = {}) {
+    this.maxRecords = options.maxRecords ?? Infinity;
+  }
+
+  async saveToken(token: TokenRecord): Promise<void> {
+    insertOnce(this.tokens, this.maxRecords, token.tokenId, token);
+  }
+
+  async getToken(tokenId: string): Promise<TokenRecord | null> {
+    return copyOf(this.tokens.get(tokenId));
+  }
+
+  async listTokens(): Promise<TokenRecord[]> {
+    return [...this.tokens.values()].map(token => ({ ...token }));
+  }
+
+  async saveTransfer(transfer: TransferRecord): Promise<void> {
+    insertOnce(this.transfers, this.maxRecords, transfer.transactionId, transfer);
+  }
+
+  async listTransfers(filter: TransferFilter = {}): Promise<TransferRecord[]> {
+    return [...this.transfers.values()]
+      .filter(transfer => !filter.tokenId || transfer.tokenId === filter.tokenId)
+      .filter(transfer => !filter.accountId
+        || transfer.fromAccountId === filter.accountId
+        || transfer.toAccountId === filter.accountId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(transfer => ({ ...transfer }));
+  }
+
+  async saveFile(file: FileRecord): Promise<void> {
+    insertOnce(this.files, this.maxRecords, file.fileId, file);
+  }
+
+  async markFileDeleted(fileId: string, transactionId: string, deletedAt: Date): Promise<void> {
+    const file = this.files.get(fileId);
+    if (file && !file.deletedAt) {
+      this.files.set(fileId, { ...file, deletedAt, deleteTransactionId: transactionId });
+    }
+  }
+
+  async getFile(fileId: string): Promise<FileRecord | null> {
+    return copyOf(this.files.get(fileId));
+  }
+
+  async saveTopic(topic: TopicRecord): Promise<void> {
+    insertOnce(this.topics, this.maxRecords, topic.topicId, topic);
+  }
+
+  async getTopic(topicId: string): Promise<TopicRecord | null> {
+    return copyOf(this.topics.get(topicId));
+  }
+
+  async saveContract(contract: ContractRecord): Promise<void> {
+    insertOnce(this.contracts, this.maxRecords, contract.contractId, contract);
+  }
+
+  async getContract(contractId: string): Promise<ContractRecord | null> {
+    return copyOf(this.contracts.get(contractId));
+  }
+
+  async saveTontine(tontine: TontineRecord): Promise<void> {
+    insertOnce(this.tontines, this.maxRecords, tontine.tontineContractId, tontine);
+  }
+
+  async getTontine(tontineContractId: string): Promise<TontineRecord | null> {
+    return copyOf(this.tontines.get(tontineContractId));
+  }
+
+  async saveTontineActivity(activity: TontineActivityRecord): Promise<void> {
+    insertOnce(this.tontineActivity, this.maxRecords, activity.transactionId, activity);
+  }
+
+  async listTontineActivity(tontineContractId: string): Promise<TontineActivityRecord[]> {
+    return [...this.tontineActivity.values()]
+      .filter(activity => activity.tontineContractId === tontineContractId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(activity => ({ ...activity }));
+  }
+
+  async saveTransactionCost(cost: TransactionCostRecord): Promise<void> {
+    insertOnce(this.transactionCosts, this.maxRecords, cost.transactionId, cost);
+  }
+
+  async listTransactionCosts(filter: TransactionCostFilter = {}): Promise<TransactionCostRecord[]> {
+    return this.matchingCosts(filter)
+      .sort((a, b) => a.chargedAt.getTime() - b.chargedAt.getTime())
+      .map(cost => ({ ...cost }));
+  }
+
+  async sumTransactionCosts(filter: TransactionCostFilter = {}): Promise<TransactionCostTotals> {
+    return this.matchingCosts(filter).reduce((totals, cost) => ({
+      transactions: totals.transactions + 1,
+      feeTinybars: totals.feeTinybars + cost.feeTinybars,
+      feeUsd: totals.feeUsd + cost.feeUsd
+    }), { transactions: 0, feeTinybars: 0n, feeUsd: 0 });
+  }
+
+  async findByTransactionId(transactionId: string): Promise<LedgerRecordEntry[]> {
+    const produced = <T extends { transactionId: string }>(records: Map<string, T>) =>
+      [...records.values()].filter(record => record.transactionId === transactionId).map(record => ({ ...record }));
+
+    return [
+      ...produced(this.tokens).map(record => ({ kind: 'token' as const, record })),
+      ...produced(this.transfers).map(record => ({ kind: 'transfer' as const, record })),
+      ...[...this.files.values()]
+        .filter(file => file.transactionId === transactionId || file.deleteTransactionId === transactionId)
+        .map(file => ({ kind: 'file' as const, record: { ...file } })),
+      ...produced(this.topics).map(record => ({ kind: 'topic' as const, record })),
+      ...produced(this.contracts).map(record => ({ kind: 'contract' as const, record })),
+      ...produced(this.tontines).map(record => ({ kind: 'tontine' as const, record })),
+      ...produced(this.tontineActivity).map(record => ({ kind: 'tontine-activity' as const, record })),
+      ...produced(this.transactionCosts).map(record => ({ kind: 'transaction-cost' as const, record }))
+    ];
+  }
+
+  private matchingCosts(filter: TransactionCostFilter): TransactionCostRecord[] {
+    return [...this.transactionCosts.values()]
+      .filter(cost => !filter.from || cost.chargedAt >= filter.from)
+      .filter(cost => !filter.to || cost.chargedAt < filter.to)
+      .filter(cost => !filter.service || cost.service === filter.service)
+      .filter(cost => !filter.operation || cost.operation === filter.operation)
+      .filter(cost => !filter.tontineId || cost.tontineId === filter.tontineId)
+      .filter(cost => !filter.propertyId || cost.propertyId === filter.propertyId);
+  }
+}
+
+/**
+ * Saves an off-ledger record for a transaction that already reached consensus.
+ * The ledger is the source of truth, so a failed write is logged rather than
+ * thrown: it must not fail (or, inside executeWithRetry, resubmit) the operation.
+ */
+export async function recordOffLedger(
+  repository: LedgerRepository | null,
+  transactionId: string,
+  save: (repository: LedgerRepository) => Promise<void>
+): Promise<void> {
+  if (!repository) {
+    return;
+  }
+  try {
+    await save(repository);
+  } catch (error: any) {
+    console.error(`Off-ledger record for ${transactionId} was not saved:`, error.message);
+  }
+}
+
+function insertOnce<T>(records: Map<string, T>, maxRecords: number, key: string, record: T): void {
+  if (!records.has(key)) {
+    records.set(key, { ...record });
+    if (records.size > maxRecords) {
+      records.delete(records.keys().next().value!); // Maps iterate in insertion order
+    }
+  }
+}
+
+function copyOf<T>(record: T | undefined): T | null {
+  return record ? { ...record } : null;
+}
+
+export interface TokenRecord {
+  tokenId: string;
+  name: string;
+  symbol: string;
+  tokenType: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+  decimals: number;
+  initialSupply: bigint; // Base units
+  maxSupply: bigint | null; // Base units (serials for NFT collections); null when infinite
+  treasuryAccountId: string;
+  transactionId: string;
+  createdAt: Date;
+}
+
+export interface TransferRecord {
+  transactionId: string;
+  tokenId: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: bigint; // Base units; 1 for an NFT serial
+  serial: number | null; // NFT transfers only
+  memo: string | null;
+  timestamp: Date;
+}
+
+export interface TransferFilter {
+  tokenId?: string;
+  accountId?: string; // Sender or receiver
+}
+
+export interface FileRecord {
+  fileId: string;
+  fileName: string;
+  size: number; // Bytes
+  memo: string | null;
+  transactionId: string;
+  createdAt: Date;
+  deletedAt: Date | null;
+  deleteTransactionId: string | null;
+}
+
+export interface TopicRecord {
+  topicId: string;
+  memo: string;
+  transactionId: string;
+  createdAt: Date;
+}
+
+export interface ContractRecord {
+  contractId: string;
+  bytecodeFileId: string | null; // Set for contracts deployed from an HFS file
+  transactionId: string;
+  createdAt: Date;
+}
+
+export interface TontineRecord {
+  tontineContractId: string;
+  factoryContractId: string;
+  name: string;
+  monthlyAmount: bigint; // Tinybars
+  totalMembers: number;
+  cycleDuration: number; // Seconds
+  transactionId: string; // The factory's createTontine call
+  createdAt: Date;
+}
+
+export interface TontineActivityRecord {
+  transactionId: string;
+  tontineContractId: string;
+  activityType: 'JOIN' | 'CONTRIBUTION';
+  accountId: string; // Account that made the call
+  position: number | null; // JOIN only
+  amount: bigint | null; // CONTRIBUTION only, tinybars
+  timestamp: Date;
+}
+
+export interface TransactionCostRecord {
+  transactionId: string;
+  service: string; // Service that submitted it, e.g. token or smart-contract
+  operation: string; // Transaction type, e.g. TokenMint or ContractExecute
+  result: string; // Network result code; failed transactions are charged too
+  tontineId: string | null; // Tontine contract the fee is attributed to
+  propertyId: string | null; // Property the fee is attributed to
+  feeTinybars: bigint;
+  centEquivalent: number; // Exchange rate at consensus: centEquivalent US cents per hbarEquivalent HBAR
+  hbarEquivalent: number;
+  feeUsd: number;
+  feeNgn: number | null; // Null without a USD/NGN rate
+  consensusTimestamp: string; // seconds.nanos
+  chargedAt: Date; // Consensus time
+}
+
+export interface TransactionCostFilter {
+  from?: Date; // Inclusive, by consensus time
+  to?: Date; // Exclusive
+  service?: string;
+  operation?: string;
+  tontineId?: string;
+  propertyId?: string;
+}
+
+export interface TransactionCostTotals {
+  transactions: number;
+  feeTinybars: bigint;
+  feeUsd: number;
+}
+
+export type LedgerRecordEntry =
+  | { kind: 'token'; record: TokenRecord }
+  | { kind: 'transfer'; record: TransferRecord }
+  | { kind: 'file'; record: FileRecord }
+  | { kind: 'topic'; record: TopicRecord }
+  | { kind: 'contract'; record: ContractRecord }
+  | { kind: 'tontine'; record: TontineRecord }
+  | { kind: 'tontine-activity'; record: TontineActivityRecord }
+  | { kind: 'transaction-cost'; record: TransactionCostRecord };
@@ -0,0 +1,73 @@
+// utils/merkle.ts
+import * as crypto from 'crypto';
+
+/**
+ * SHA-256 Merkle tree with RFC 6962 domain separation: leaves are hashed as
+ * H(0x00 || data) and nodes as H(0x01 || left || right). An odd node at the end
+ * of a level is carried up unchanged rather than duplicated.
+ */
+export const MERKLE_ALGORITHM = 'sha256-rfc6962';
+
+export interface MerkleProof {
+  leafIndex: number;
+  leafCount: number;
+  siblings: { hash: string; position: 'left' | 'right' }[]; // Hex, from the leaf level up
+}
+
+export function hashLeaf(data: string | Uint8Array): Buffer {
+  return crypto.createHash('sha256').update(Buffer.from([0])).update(data).digest();
+}
+
+function hashNode(left: Buffer, right: Buffer): Buffer {
+  return crypto.createHash('sha256').update(Buffer.from([1])).update(left).update(right).digest();
+}
+
+export function merkleRoot(leafHashes: Buffer[]): Buffer {
+  if (leafHashes.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  let level = leafHashes;
+  while (level.length > 1) {
+    level = nextLevel(level);
+  }
+  return level[0];
+}
+
+export function merkleProof(leafHashes: Buffer[], leafIndex: number): MerkleProof {
+  if (leafIndex < 0 || leafIndex >= leafHashes.length) {
+    throw new Error(`Leaf ${leafIndex} is outside a tree of ${leafHashes.length} leaves`);
+  }
+
+  const siblings: MerkleProof['siblings'] = [];
+  let level = leafHashes;
+  let index = leafIndex;
+
+  while (level.length > 1) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < level.length) {
+      siblings.push({ hash: level[siblingIndex].toString('hex'), position: siblingIndex < index ? 'left' : 'right' });
+    }
+    level = nextLevel(level);
+    index = Math.floor(index / 2);
+  }
+
+  return { leafIndex, leafCount: leafHashes.length, siblings };
+}
+
+export function verifyMerkleProof(leafHash: Buffer, proof: MerkleProof, expectedRoot: Buffer): boolean {
+  let hash = leafHash;
+  for (const sibling of proof.siblings) {
+    const siblingHash = Buffer.from(sibling.hash, 'hex');
+    hash = sibling.position === 'left' ? hashNode(siblingHash, hash) : hashNode(hash, siblingHash);
+  }
+  return hash.equals(expectedRoot);
+}
+
+function nextLevel(level: Buffer[]): Buffer[] {
+  const next: Buffer[] = [];
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+  }
+  return next;
+}
@@ -0,0 +1,104 @@
+// utils/mirror-node-client.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { HederaConsensusService, TransactionLogInput } from '../services/hedera/consensus.service';
+import { createTestEnvironment, TestEnvironment } from '../simulator/test-environment';
+import { collect, MirrorNodeClient, MirrorNodeError, MirrorResponseError, toMirrorTransactionId } from './mirror-node-client';
+import { HederaNetwork, MirrorFetch } from './network';
+
+describe('MirrorNodeClient', () => {
+  let env: TestEnvironment;
+  let fetched: string[];
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    fetched = [];
+    const consensus = new HederaConsensusService(env.simulator);
+    for (const id of ['tx-1', 'tx-2', 'tx-3', 'tx-4', 'tx-5']) {
+      await consensus.logTransaction(walletTransaction(id));
+    }
+  });
+
+  afterEach(() => env.cleanup());
+
+  // The simulator's mirror node behind `respond`, which may answer a request itself;
+  // `pageSize` shrinks the pages the client asks for
+  const client = (respond: (path: string, attempt: number) => Response | null = () => null, pageSize = 100) => {
+    const attempts = new Map<string, number>();
+    const mirrorFetch: MirrorFetch = async url => {
+      const path = url.slice(env.simulator.mirrorNodeUrl.length);
+      fetched.push(path);
+      const attempt = (attempts.get(path) ?? 0) + 1;
+      attempts.set(path, attempt);
+      return respond(path, attempt) ?? env.simulator.mirrorFetch(url.replace('limit=100', `limit=${pageSize}`));
+    };
+    const network: HederaNetwork = Object.assign(Object.create(env.simulator), { mirrorFetch });
+    return new MirrorNodeClient(network, { retryDelayMs: 1 });
+  };
+
+  test('follows links.next across pages and stops at the limit', async () => {
+    const topicId = env.topicId('TRANSACTIONS');
+    const pagedByTwo = client(undefined, 2);
+
+    const all = await collect(pagedByTwo.listTopicMessages(topicId));
+    assert.deepEqual(all.map(message => message.sequence_number), [1, 2, 3, 4, 5]);
+    assert.equal(fetched.length, 3);
+
+    const three = await collect(pagedByTwo.listTopicMessages(topicId, { limit: 3 }));
+    const middle = await collect(pagedByTwo.listTopicMessages(topicId, { fromSequence: 2, toSequence: 4 }));
+    assert.deepEqual(three.map(message => message.sequence_number), [1, 2, 3]);
+    assert.deepEqual(middle.map(message => message.sequence_number), [2, 3, 4]);
+  });
+
+  test('filters transactions by type and consensus time', async () => {
+    const mirror = client();
+    const messages = await collect(mirror.listTransactions({ transactionType: 'CONSENSUSSUBMITMESSAGE' }));
+
+    const later = await collect(mirror.listTransactions({
+      transactionType: 'CONSENSUSSUBMITMESSAGE',
+      timestamp: { from: messages[3].consensus_timestamp }
+    }));
+
+    assert.equal(messages.length, 5);
+    assert.deepEqual(later.map(transaction => transaction.transaction_id), messages.slice(3).map(transaction => transaction.transaction_id));
+    assert.deepEqual(await mirror.getTransaction(messages[0].transaction_id), [messages[0]]);
+  });
+
+  test('retries rate-limited and unavailable responses but not other errors', async () => {
+    const flaky = client((path, attempt) => {
+      if (path.startsWith('/api/v1/accounts/') && attempt === 1) return new Response('', { status: 429, headers: { 'retry-after': '0' } });
+      if (path.startsWith('/api/v1/accounts/') && attempt === 2) return new Response('', { status: 503 });
+      if (path.startsWith('/api/v1/tokens/')) return new Response('', { status: 500 });
+      return null;
+    });
+
+    const account = await flaky.getAccount(env.treasury.accountId);
+    assert.equal(account!.account, env.treasury.accountId);
+    assert.equal(fetched.length, 3);
+
+    await assert.rejects(flaky.getToken('0.0.42'), error => error instanceof MirrorNodeError && error.status === 500);
+    assert.equal(fetched.length, 4);
+  });
+
+  test('rejects responses that do not have the fields their type declares', async () => {
+    const { transaction_id } = (await collect(client().listTransactions({ limit: 1 })))[0];
+    const truncated = client(path => path.startsWith('/api/v1/transactions/')
+      ? Response.json({ transactions: [{ transaction_id, consensus_timestamp: '1.0', name: 'CRYPTOTRANSFER', result: 'SUCCESS', charged_tx_fee: '5', scheduled: false }] })
+      : null);
+
+    await assert.rejects(truncated.getTransaction(transaction_id), error => error instanceof MirrorResponseError
+      && error.problems.join() === 'transactions[0].charged_tx_fee is not an integer');
+  });
+
+  test('returns null for entities the mirror node does not know', async () => {
+    const mirror = client();
+
+    assert.equal(await mirror.getAccount('0.0.999999'), null);
+    assert.deepEqual(await mirror.getTransaction(`${env.operator.accountId}@1700000000.000000001`), []);
+    assert.equal(toMirrorTransactionId('0.0.2@1700000000.5'), '0.0.2-1700000000-000000005');
+  });
+});
+
+function walletTransaction(transactionId: string): TransactionLogInput {
+  return { transactionId, userId: 'user-1', type: 'TRANSFER', amount: 100, currency: 'NGN', recipientId: 'user-2', status: 'COMPLETED' };
+}
@@ -0,0 +1,639 @@
+// utils/mirror-node-client.ts
+import { HederaNetwork } from './network';
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_CLIENT_OPTIONS: Required<MirrorNodeClientOptions> = {
+  maxRetries: 3,
+  retryDelayMs: 500,
+  maxRetryDelayMs: 10_000
+};
+// Statuses worth another try: rate limiting and a gateway or node that is briefly unavailable
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+const sharedClients = new WeakMap<HederaNetwork, MirrorNodeClient>();
+
+export class MirrorNodeError extends Error {
+  constructor(public status: number, public url: string) {
+    super(`Mirror node returned ${status} for ${url}`);
+    this.name = 'MirrorNodeError';
+  }
+}
+
+export class MirrorResponseError extends Error {
+  constructor(public url: string, public problems: string[]) {
+    super(`Unexpected mirror node response for ${url}: ${problems.join('; ')}`);
+    this.name = 'MirrorResponseError';
+  }
+}
+
+/**
+ * Typed read access to the mirror node REST API (`/api/v1`) of a network. List
+ * methods stream items across pages by following `links.next`; `limit` caps the
+ * items returned in total. Rate-limited (429) and unavailable (502-504) responses
+ * are retried, honouring `Retry-After`. Every response is checked against the
+ * fields its type declares before it is handed out, so a changed or truncated
+ * response fails loudly instead of surfacing as undefined values.
+ *
+ * Single-entity lookups return null when the mirror node doesn't know the entity.
+ */
+export class MirrorNodeClient {
+  private options: Required<MirrorNodeClientOptions>;
+
+  constructor(private network: HederaNetwork, options: MirrorNodeClientOptions = {}) {
+    this.options = { ...DEFAULT_CLIENT_OPTIONS, ...options };
+  }
+
+  /**
+   * Client shared by the services, the transaction monitor and reporting code on a network
+   */
+  static forNetwork(network: HederaNetwork): MirrorNodeClient {
+    let client = sharedClients.get(network);
+    if (!client) {
+      client = new MirrorNodeClient(network);
+      sharedClients.set(network, client);
+    }
+    return client;
+  }
+
+  // ---- Transactions ----
+
+  /**
+   * Records sharing a transaction id (SDK or mirror form): the transaction itself
+   * and any scheduled or child transactions; empty while the mirror node hasn't
+   * seen it
+   */
+  async getTransaction(transactionId: string): Promise<MirrorTransaction[]> {
+    const path = `/api/v1/transactions/${toMirrorTransactionId(transactionId)}`;
+    const body = await this.get(path, { transactions: 'array' });
+    return body ? this.items(body, 'transactions', TRANSACTION_SHAPE, path) as MirrorTransaction[] : [];
+  }
+
+  listTransactions(filter: TransactionFilter = {}): AsyncGenerator<MirrorTransaction> {
+    const query = new URLSearchParams({ order: filter.order ?? 'asc' });
+    if (filter.accountId) query.append('account.id', filter.accountId);
+    if (filter.transactionType) query.append('transactiontype', filter.transactionType);
+    if (filter.result) query.append('result', filter.result);
+    appendTimestampRange(query, filter.timestamp);
+    return this.paginate('/api/v1/transactions', query, 'transactions', TRANSACTION_SHAPE, filter.limit);
+  }
+
+  // ---- Accounts and balances ----
+
+  /**
+   * Account by id or EVM address (0x…), with its current HBAR and token balances
+   */
+  async getAccount(account: string): Promise<MirrorAccount | null> {
+    return (await this.get(`/api/v1/accounts/${account}`, ACCOUNT_SHAPE)) as MirrorAccount | null;
+  }
+
+  /**
+   * HBAR and token balances of an account from the latest balance snapshot at or
+   * before `at` (default now); null when there is none
+   */
+  async getAccountBalance(accountId: string, at?: Date | string): Promise<MirrorAccountBalance | null> {
+    const query = new URLSearchParams({ 'account.id': `eq:${accountId}` });
+    if (at !== undefined) query.append('timestamp', `lte:${toMirrorTimestamp(at)}`);
+    const path = `/api/v1/balances?${query.toString()}`;
+
+    const body = await this.get(path, { timestamp: 'string?', balances: 'array' });
+    const [balance] = body ? this.items(body, 'balances', ACCOUNT_BALANCE_SHAPE, path) as MirrorAccountBalance[] : [];
+    return balance ? { ...balance, timestamp: (body as { timestamp: string | null }).timestamp } : null;
+  }
+
+  /**
+   * The account's token relationships: balance, KYC and freeze status per token
+   */
+  listAccountTokens(accountId: string, filter: { tokenId?: string; limit?: number } = {}): AsyncGenerator<MirrorTokenRelationship> {
+    const query = new URLSearchParams({ order: 'asc' });
+    if (filter.tokenId) query.append('token.id', `eq:${filter.tokenId}`);
+    return this.paginate(`/api/v1/accounts/${accountId}/tokens`, query, 'tokens', TOKEN_RELATIONSHIP_SHAPE, filter.limit);
+  }
+
+  listAccountNfts(accountId: string, filter: { tokenId?: string; limit?: number } = {}): AsyncGenerator<MirrorNft> {
+    const query = new URLSearchParams({ order: 'asc' });
+    if (filter.tokenId) query.append('token.id', `eq:${filter.tokenId}`);
+    return this.paginate(`/api/v1/accounts/${accountId}/nfts`, query, 'nfts', NFT_SHAPE, filter.limit);
+  }
+
+  // ---- Tokens ----
+
+  async getToken(tokenId: string): Promise<MirrorToken | null> {
+    return (await this.get(`/api/v1/tokens/${tokenId}`, TOKEN_SHAPE)) as MirrorToken | null;
+  }
+
+  /**
+   * Holder balances from the latest snapshot at or before `at` (default the latest
+   * one). The mirror node snapshots balances periodically (every 15 minutes on the
+   * public networks), so `timestamp` may be somewhat earlier than `at`; it is null
+   * when there is no snapshot yet.
+   */
+  async getTokenBalances(tokenId: string, at?: Date | string): Promise<{ timestamp: string | null; balances: MirrorTokenBalance[] }> {
+    const query = new URLSearchParams({ order: 'asc', limit: String(MAX_PAGE_SIZE) });
+    if (at !== undefined) query.append('timestamp', `lte:${toMirrorTimestamp(at)}`);
+
+    const balances: MirrorTokenBalance[] = [];
+    let timestamp: string | null = null;
+    let path: string | null = `/api/v1/tokens/${tokenId}/balances?${query.toString()}`;
+    while (path) {
+      const page = await this.get(path, TOKEN_BALANCES_PAGE_SHAPE) as { timestamp: string | null; links: MirrorLinks } | null;
+      if (!page) break;
+      timestamp = timestamp ?? page.timestamp;
+      balances.push(...this.items(page, 'balances', TOKEN_BALANCE_SHAPE, path) as MirrorTokenBalance[]);
+      path = page.links.next;
+    }
+    return { timestamp, balances };
+  }
+
+  async getNft(tokenId: string, serial: number): Promise<MirrorNft | null> {
+    return (await this.get(`/api/v1/tokens/${tokenId}/nfts/${serial}`, NFT_SHAPE)) as MirrorNft | null;
+  }
+
+  // ---- Topics and schedules ----
+
+  listTopicMessages(topicId: string, filter: TopicMessageFilter = {}): AsyncGenerator<MirrorTopicMessage> {
+    const query = new URLSearchParams({ order: filter.order ?? 'asc' });
+    if (filter.fromSequence !== undefined) query.append('sequencenumber', `gte:${filter.fromSequence}`);
+    if (filter.toSequence !== undefined) query.append('sequencenumber', `lte:${filter.toSequence}`);
+    appendTimestampRange(query, filter.timestamp);
+    return this.paginate(`/api/v1/topics/${topicId}/messages`, query, 'messages', TOPIC_MESSAGE_SHAPE, filter.limit);
+  }
+
+  async getTopicMessage(topicId: string, sequenceNumber: number): Promise<MirrorTopicMessage | null> {
+    return (await this.get(`/api/v1/topics/${topicId}/messages/${sequenceNumber}`, TOPIC_MESSAGE_SHAPE)) as MirrorTopicMessage | null;
+  }
+
+  async getSchedule(scheduleId: string): Promise<MirrorSchedule | null> {
+    return (await this.get(`/api/v1/schedules/${scheduleId}`, SCHEDULE_SHAPE)) as MirrorSchedule | null;
+  }
+
+  // ---- Contracts ----
+
+  /**
+   * EVM result of a contract call or deployment, by transaction id or hash
+   */
+  async getContractResult(transactionIdOrHash: string): Promise<MirrorContractResult | null> {
+    const id = transactionIdOrHash.startsWith('0x') ? transactionIdOrHash : toMirrorTransactionId(transactionIdOrHash);
+    return (await this.get(`/api/v1/contracts/results/${id}`, CONTRACT_RESULT_SHAPE)) as MirrorContractResult | null;
+  }
+
+  listContractResults(contractId: string, filter: ContractFilter = {}): AsyncGenerator<MirrorContractResult> {
+    const query = new URLSearchParams({ order: filter.order ?? 'asc' });
+    appendTimestampRange(query, filter.timestamp);
+    return this.paginate(`/api/v1/contracts/${contractId}/results`, query, 'results', CONTRACT_RESULT_SHAPE, filter.limit);
+  }
+
+  /**
+   * Events the contract emitted; `topic0` (the event signature hash) selects one event type
+   */
+  listContractLogs(contractId: string, filter: ContractFilter & { topic0?: string } = {}): AsyncGenerator<MirrorContractLog> {
+    const query = new URLSearchParams({ order: filter.order ?? 'asc' });
+    if (filter.topic0) query.append('topic0', filter.topic0);
+    appendTimestampRange(query, filter.timestamp);
+    return this.paginate(`/api/v1/contracts/${contractId}/results/logs`, query, 'logs', CONTRACT_LOG_SHAPE, filter.limit);
+  }
+
+  // ---- Network ----
+
+  /**
+   * HBAR to USD cents rate in force at `at` (default now), and the next one
+   */
+  async getExchangeRate(at?: Date | string): Promise<MirrorExchangeRate> {
+    const path = `/api/v1/network/exchangerate${at !== undefined ? `?timestamp=lte:${toMirrorTimestamp(at)}` : ''}`;
+    return this.require(path, await this.get(path, EXCHANGE_RATE_SHAPE)) as MirrorExchangeRate;
+  }
+
+  /**
+   * Gas prices in tinybars per transaction type (EthereumTransaction, ContractCall, ContractCreate)
+   */
+  async getNetworkFees(at?: Date | string): Promise<MirrorNetworkFees> {
+    const path = `/api/v1/network/fees${at !== undefined ? `?timestamp=lte:${toMirrorTimestamp(at)}` : ''}`;
+    return this.require(path, await this.get(path, NETWORK_FEES_SHAPE)) as MirrorNetworkFees;
+  }
+
+  // ---- Plumbing ----
+
+  /**
+   * Streams the items under `key` of a paged endpoint, following `links.next`
+   */
+  async *paginate<T>(
+    path: string,
+    query: URLSearchParams,
+    key: string,
+    shape: ResponseShape,
+    limit?: number
+  ): AsyncGenerator<T> {
+    query.set('limit', String(Math.min(limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE)));
+    let next: string | null = `${path}?${query.toString()}`;
+    let yielded = 0;
+
+    while (next) {
+      const page = await this.get(next, { [key]: 'array', links: 'object?' }) as { links?: MirrorLinks } | null;
+      if (!page) return;
+
+      for (const item of this.items(page, key, shape, next)) {
+        yield item as T;
+        if (limit !== undefined && ++yielded >= limit) return;
+      }
+      next = page.links?.next ?? null;
+    }
+  }
+
+  /**
+   * Response body of `path` checked against `shape`; null on 404
+   */
+  private async get(path: string, shape: ResponseShape): Promise<object | null> {
+    const url = `${this.network.mirrorNodeUrl}${path}`;
+    const { maxRetries, retryDelayMs, maxRetryDelayMs } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | null = null;
+      let failure: Error;
+      try {
+        response = await this.network.mirrorFetch(url);
+      } catch (error: any) {
+        failure = error; // Connection failures are retried like an unavailable node
+      }
+
+      if (response) {
+        if (response.status === 404) {
+          return null;
+        }
+        if (response.ok) {
+          return this.parse(url, await response.text(), shape);
+        }
+        failure = new MirrorNodeError(response.status, url);
+        if (!RETRYABLE_STATUSES.has(response.status)) {
+          throw failure;
+        }
+      }
+
+      if (attempt >= maxRetries) {
+        throw failure!;
+      }
+      const retryAfter = Number(response?.headers.get('retry-after'));
+      const delay = retryAfter > 0 ? retryAfter * 1000 : retryDelayMs * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, Math.min(delay, maxRetryDelayMs)));
+    }
+  }
+
+  private parse(url: string, text: string, shape: ResponseShape): object {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new MirrorResponseError(url, ['body is not JSON']);
+    }
+
+    const problems = checkShape(body, shape);
+    if (problems.length > 0) {
+      throw new MirrorResponseError(url, problems);
+    }
+    return body as object;
+  }
+
+  private items(body: object, key: string, shape: ResponseShape, path: string): object[] {
+    const items = (body as { [key: string]: object[] })[key];
+    const problems = items.flatMap((item, index) => checkShape(item, shape).map(problem => `${key}[${index}].${problem}`));
+    if (problems.length > 0) {
+      throw new MirrorResponseError(`${this.network.mirrorNodeUrl}${path}`, problems);
+    }
+    return items;
+  }
+
+  private require(path: string, body: object | null): object {
+    if (!body) {
+      throw new MirrorNodeError(404, `${this.network.mirrorNodeUrl}${path}`);
+    }
+    return body;
+  }
+}
+
+/**
+ * Collects a streamed listing, e.g. `await collect(mirror.listAccountNfts(accountId))`
+ */
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+/**
+ * Mirror node REST form (`0.0.x-seconds-nanos`) of an SDK transaction id (`0.0.x@seconds.nanos`)
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  const match = /^(\d+\.\d+\.\d+)[@-](\d+)[.-](\d+)$/.exec(transactionId.trim());
+  if (!match) {
+    throw new Error(`Invalid transaction id: ${transactionId}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3].padStart(9, '0')}`;
+}
+
+/**
+ * Mirror node `seconds.nanos` timestamp of a Date; strings are taken as already in that form
+ */
+export function toMirrorTimestamp(value: Date | string): string {
+  if (typeof value === 'string') return value;
+  const millis = value.getTime();
+  return `${Math.floor(millis / 1000)}.${String((millis % 1000) * 1_000_000).padStart(9, '0')}`;
+}
+
+function appendTimestampRange(query: URLSearchParams, range: TimestampRange | undefined): void {
+  if (range?.from !== undefined) query.append('timestamp', `gte:${toMirrorTimestamp(range.from)}`);
+  if (range?.to !== undefined) query.append('timestamp', `lte:${toMirrorTimestamp(range.to)}`);
+}
+
+/**
+ * Problems of `value` against `shape`: missing fields or fields of the wrong type
+ */
+function checkShape(value: unknown, shape: ResponseShape): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['expected an object'];
+  }
+
+  const problems: string[] = [];
+  for (const [field, spec] of Object.entries(shape)) {
+    const optional = spec.endsWith('?');
+    const kind = optional ? spec.slice(0, -1) : spec;
+    const actual = (value as { [field: string]: unknown })[field];
+
+    if (actual === undefined || actual === null) {
+      if (!optional) problems.push(`${field} is missing`);
+    } else if (kind === 'array' ? !Array.isArray(actual) : kind === 'integer'
+      ? typeof actual !== 'number' || !Number.isInteger(actual)
+      : typeof actual !== kind || Array.isArray(actual)) {
+      problems.push(`${field} is not ${kind === 'integer' ? 'an' : 'a'} ${kind}`);
+    }
+  }
+  return problems;
+}
+
+// '?' marks fields that may be null or absent
+type FieldKind = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+type ResponseShape = { [field: string]: FieldKind | `${FieldKind}?` };
+
+const TRANSACTION_SHAPE: ResponseShape = {
+  transaction_id: 'string',
+  consensus_timestamp: 'string',
+  name: 'string',
+  result: 'string',
+  charged_tx_fee: 'integer',
+  scheduled: 'boolean',
+  transfers: 'array?',
+  token_transfers: 'array?'
+};
+const ACCOUNT_SHAPE: ResponseShape = {
+  account: 'string',
+  balance: 'object',
+  evm_address: 'string?',
+  key: 'object?',
+  deleted: 'boolean?',
+  memo: 'string?'
+};
+const ACCOUNT_BALANCE_SHAPE: ResponseShape = { account: 'string', balance: 'integer', tokens: 'array' };
+const TOKEN_RELATIONSHIP_SHAPE: ResponseShape = {
+  token_id: 'string',
+  balance: 'integer',
+  kyc_status: 'string',
+  freeze_status: 'string',
+  automatic_association: 'boolean?'
+};
+const NFT_SHAPE: ResponseShape = {
+  account_id: 'string?',
+  token_id: 'string',
+  serial_number: 'integer',
+  metadata: 'string?',
+  created_timestamp: 'string',
+  modified_timestamp: 'string',
+  deleted: 'boolean'
+};
+const TOKEN_SHAPE: ResponseShape = {
+  token_id: 'string',
+  name: 'string',
+  symbol: 'string',
+  type: 'string',
+  decimals: 'string',
+  total_supply: 'string',
+  max_supply: 'string?',
+  treasury_account_id: 'string',
+  pause_status: 'string?'
+};
+const TOKEN_BALANCES_PAGE_SHAPE: ResponseShape = { timestamp: 'string?', balances: 'array', links: 'object' };
+const TOKEN_BALANCE_SHAPE: ResponseShape = { account: 'string', balance: 'integer' };
+const TOPIC_MESSAGE_SHAPE: ResponseShape = {
+  topic_id: 'string',
+  sequence_number: 'integer',
+  consensus_timestamp: 'string',
+  message: 'string',
+  running_hash: 'string',
+  running_hash_version: 'integer',
+  payer_account_id: 'string',
+  chunk_info: 'object?'
+};
+const SCHEDULE_SHAPE: ResponseShape = {
+  schedule_id: 'string',
+  creator_account_id: 'string',
+  payer_account_id: 'string',
+  deleted: 'boolean',
+  executed_timestamp: 'string?',
+  expiration_time: 'string?',
+  memo: 'string',
+  signatures: 'array',
+  wait_for_expiry: 'boolean'
+};
+const CONTRACT_RESULT_SHAPE: ResponseShape = {
+  contract_id: 'string?',
+  from: 'string',
+  to: 'string?',
+  gas_used: 'integer',
+  result: 'string',
+  timestamp: 'string'
+};
+const CONTRACT_LOG_SHAPE: ResponseShape = {
+  address: 'string',
+  contract_id: 'string?',
+  data: 'string?',
+  index: 'integer',
+  topics: 'array',
+  timestamp: 'string'
+};
+const EXCHANGE_RATE_SHAPE: ResponseShape = { current_rate: 'object', next_rate: 'object', timestamp: 'string' };
+const NETWORK_FEES_SHAPE: ResponseShape = { fees: 'array', timestamp: 'string' };
+
+export interface MirrorNodeClientOptions {
+  maxRetries?: number; // For rate-limited or unavailable responses and connection failures
+  retryDelayMs?: number; // First backoff step, doubled per retry, unless the response says Retry-After
+  maxRetryDelayMs?: number;
+}
+
+export interface TimestampRange {
+  from?: Date | string; // Inclusive; Date or mirror "seconds.nanos"
+  to?: Date | string; // Inclusive
+}
+
+export interface TransactionFilter {
+  accountId?: string; // Payer or party to a transfer
+  transactionType?: string; // Mirror node name, e.g. CRYPTOTRANSFER, CONSENSUSSUBMITMESSAGE
+  result?: 'success' | 'fail';
+  timestamp?: TimestampRange;
+  order?: 'asc' | 'desc'; // Default asc
+  limit?: number; // Items in total
+}
+
+export interface TopicMessageFilter {
+  fromSequence?: number;
+  toSequence?: number;
+  timestamp?: TimestampRange;
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface ContractFilter {
+  timestamp?: TimestampRange;
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface MirrorLinks {
+  next: string | null;
+}
+
+export interface MirrorTransaction {
+  transaction_id: string; // Mirror form
+  consensus_timestamp: string;
+  valid_start_timestamp?: string;
+  name: string; // e.g. CRYPTOTRANSFER
+  result: string; // e.g. SUCCESS, INSUFFICIENT_PAYER_BALANCE
+  charged_tx_fee: number; // Tinybars
+  memo_base64?: string;
+  nonce?: number; // Non-zero for child transactions
+  scheduled: boolean;
+  entity_id?: string | null;
+  node?: string | null;
+  transfers?: { account: string; amount: number; is_approval?: boolean }[];
+  token_transfers?: { token_id: string; account: string; amount: number; is_approval?: boolean }[];
+}
+
+export interface MirrorAccount {
+  account: string;
+  alias: string | null;
+  balance: {
+    balance: number; // Tinybars
+    timestamp: string | null;
+    tokens: { token_id: string; balance: number }[];
+  };
+  created_timestamp: string | null;
+  deleted: boolean;
+  evm_address: string | null; // 0x…
+  key: { _type: string; key: string } | null;
+  max_automatic_token_associations: number;
+  memo: string;
+}
+
+export interface MirrorAccountBalance {
+  account: string;
+  balance: number; // Tinybars
+  tokens: { token_id: string; balance: number }[];
+  timestamp: string | null; // Of the balance snapshot
+}
+
+export interface MirrorTokenRelationship {
+  token_id: string;
+  balance: number;
+  kyc_status: 'GRANTED' | 'REVOKED' | 'NOT_APPLICABLE';
+  freeze_status: 'FROZEN' | 'UNFROZEN' | 'NOT_APPLICABLE';
+  automatic_association: boolean;
+}
+
+export interface MirrorNft {
+  account_id: string | null;
+  token_id: string;
+  serial_number: number;
+  metadata: string; // Base64
+  created_timestamp: string;
+  modified_timestamp: string;
+  deleted: boolean;
+}
+
+export interface MirrorToken {
+  token_id: string;
+  name: string;
+  symbol: string;
+  type: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+  decimals: string;
+  total_supply: string; // Base units
+  max_supply: string | null; // "0" when infinite
+  treasury_account_id: string;
+  pause_status: string;
+  custom_fees?: unknown;
+}
+
+export interface MirrorTokenBalance {
+  account: string;
+  balance: number; // Base units
+  decimals?: number;
+}
+
+export interface MirrorTopicMessage {
+  chunk_info: {
+    initial_transaction_id: { account_id: string; transaction_valid_start: string; nonce?: number; scheduled?: boolean };
+    number: number;
+    total: number;
+  } | null;
+  consensus_timestamp: string;
+  message: string; // Base64
+  payer_account_id: string;
+  running_hash: string; // Base64
+  running_hash_version: number;
+  sequence_number: number;
+  topic_id: string;
+}
+
+export interface MirrorSchedule {
+  schedule_id: string;
+  creator_account_id: string;
+  payer_account_id: string;
+  deleted: boolean;
+  executed_timestamp: string | null;
+  expiration_time: string | null;
+  memo: string;
+  signatures: { public_key_prefix: string; type: string }[];
+  wait_for_expiry: boolean;
+}
+
+export interface MirrorContractResult {
+  contract_id: string | null;
+  from: string; // EVM address
+  to: string | null;
+  amount?: number; // Tinybars sent with the call
+  gas_limit?: number;
+  gas_used: number;
+  result: string; // e.g. SUCCESS, CONTRACT_REVERT_EXECUTED
+  error_message?: string | null;
+  function_parameters?: string;
+  call_result?: string | null; // Hex
+  hash?: string;
+  timestamp: string;
+}
+
+export interface MirrorContractLog {
+  address: string;
+  contract_id: string | null;
+  data: string | null; // Hex
+  index: number;
+  topics: string[]; // topic0 is the event signature hash
+  timestamp: string;
+  transaction_hash?: string;
+}
+
+export interface MirrorExchangeRate {
+  current_rate: { cent_equivalent: number; hbar_equivalent: number; expiration_time: number };
+  next_rate: { cent_equivalent: number; hbar_equivalent: number; expiration_time: number };
+  timestamp: string;
+}
+
+export interface MirrorNetworkFees {
+  fees: { gas: number; transaction_type: string }[]; // Tinybars per gas
+  timestamp: string;
+}
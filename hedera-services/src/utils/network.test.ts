@@ -0,0 +1,69 @@
+// utils/network.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { createHederaNetwork, hederaNetworkFromEnv } from './network';
+
+const ENV_KEYS = ['HEDERA_NETWORK', 'HEDERA_NODES', 'HEDERA_MIRROR_NETWORK', 'HEDERA_MIRROR_NODE_URL', 'HEDERA_EXPLORER_URL'];
+
+describe('createHederaNetwork', () => {
+  test('derives mirror node and explorer URLs from the network name', () => {
+    const network = createHederaNetwork({ name: 'mainnet' });
+
+    assert.equal(network.name, 'mainnet');
+    assert.equal(network.mirrorNodeUrl, 'https://mainnet-public.mirrornode.hedera.com');
+    assert.equal(network.explorerUrl('token', '0.0.5'), 'https://hashscan.io/mainnet/token/0.0.5');
+  });
+
+  test('prefers configured URLs, without trailing slashes', () => {
+    const network = createHederaNetwork({
+      name: 'testnet',
+      mirrorNodeUrl: 'https://mirror.example/',
+      explorerUrl: 'https://explorer.example//'
+    });
+
+    assert.equal(network.mirrorNodeUrl, 'https://mirror.example');
+    assert.equal(network.explorerUrl('account', '0.0.7'), 'https://explorer.example/account/0.0.7');
+  });
+
+  test('rejects an unknown network', () => {
+    assert.throws(() => createHederaNetwork({ name: 'devnet' as any }), /Unknown Hedera network: devnet/);
+  });
+});
+
+describe('hederaNetworkFromEnv', () => {
+  const saved = new Map(ENV_KEYS.map(key => [key, process.env[key]]));
+
+  afterEach(() => {
+    for (const [key, value] of saved) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  test('defaults to testnet', () => {
+    for (const key of ENV_KEYS) delete process.env[key];
+
+    const network = hederaNetworkFromEnv();
+
+    assert.equal(network.name, 'testnet');
+    assert.equal(network.mirrorNodeUrl, 'https://testnet.mirrornode.hedera.com');
+  });
+
+  test('reads the network and URL overrides', () => {
+    process.env.HEDERA_NETWORK = 'local';
+    process.env.HEDERA_MIRROR_NODE_URL = 'http://mirror.local:5551/';
+    process.env.HEDERA_EXPLORER_URL = 'http://explorer.local';
+
+    const network = hederaNetworkFromEnv();
+
+    assert.equal(network.name, 'local');
+    assert.equal(network.mirrorNodeUrl, 'http://mirror.local:5551');
+    assert.equal(network.explorerUrl('topic', '0.0.9'), 'http://explorer.local/topic/0.0.9');
+  });
+
+  test('rejects a malformed HEDERA_NODES entry', () => {
+    process.env.HEDERA_NODES = '127.0.0.1:50211=0.0.3,127.0.0.1:50212';
+
+    assert.throws(() => hederaNetworkFromEnv(), /Invalid HEDERA_NODES entry: "127.0.0.1:50212"/);
+  });
+});
@@ -0,0 +1,127 @@
+// utils/network.ts
+import { AccountId, Client } from '@hashgraph/sdk';
+import { HederaLedger, createClientLedger } from '../services/hedera/ledger';
+import { Signer, signerAccountId } from './signer';
+
+export type HederaNetworkName = 'mainnet' | 'testnet' | 'previewnet' | 'local';
+
+export type ExplorerEntity = 'account' | 'token' | 'topic' | 'file' | 'contract' | 'transaction';
+
+export interface HederaNetworkConfig {
+  name: HederaNetworkName;
+  nodes?: { [address: string]: string }; // e.g. { '127.0.0.1:50211': '0.0.3' }
+  mirrorNetwork?: string[]; // gRPC mirror endpoints, e.g. ['127.0.0.1:5600']
+  mirrorNodeUrl?: string; // REST mirror node base URL
+  explorerUrl?: string; // Explorer base URL, entity paths are appended
+}
+
+export type MirrorFetch = (url: string) => Promise<Response>;
+
+export interface HederaNetwork {
+  name: HederaNetworkName | 'simulator';
+  mirrorNodeUrl: string;
+  mirrorFetch: MirrorFetch;
+  connect(operator: Signer): HederaLedger; // The operator pays for and signs every transaction
+  explorerUrl(entity: ExplorerEntity, id: string): string;
+}
+
+const NETWORK_DEFAULTS: Record<HederaNetworkName, { mirrorNodeUrl: string; explorerUrl: string }> = {
+  mainnet: {
+    mirrorNodeUrl: 'https://mainnet-public.mirrornode.hedera.com',
+    explorerUrl: 'https://hashscan.io/mainnet'
+  },
+  testnet: {
+    mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+    explorerUrl: 'https://hashscan.io/testnet'
+  },
+  previewnet: {
+    mirrorNodeUrl: 'https://previewnet.mirrornode.hedera.com',
+    explorerUrl: 'https://hashscan.io/previewnet'
+  },
+  local: {
+    mirrorNodeUrl: 'http://localhost:5551',
+    explorerUrl: 'http://localhost:8080/devnet'
+  }
+};
+
+const LOCAL_NODES = { '127.0.0.1:50211': '0.0.3' };
+const LOCAL_MIRROR_NETWORK = ['127.0.0.1:5600'];
+
+/**
+ * Creates a network descriptor that connects ledgers (SDK clients) and derives
+ * explorer / mirror node URLs for the selected Hedera network
+ * @param config - Network name and optional overrides for nodes and URLs
+ */
+export function createHederaNetwork(config: HederaNetworkConfig): HederaNetwork {
+  const defaults = NETWORK_DEFAULTS[config.name];
+  if (!defaults) {
+    throw new Error(`Unknown Hedera network: ${config.name}`);
+  }
+
+  const mirrorNodeUrl = trimTrailingSlash(config.mirrorNodeUrl || defaults.mirrorNodeUrl);
+  const explorerBaseUrl = trimTrailingSlash(config.explorerUrl || defaults.explorerUrl);
+
+  return {
+    name: config.name,
+    mirrorNodeUrl,
+    mirrorFetch: (url: string) => fetch(url),
+
+    connect(operator: Signer): HederaLedger {
+      const operatorAccountId = AccountId.fromString(signerAccountId(operator));
+      let client: Client;
+
+      if (config.nodes || config.name === 'local') {
+        client = Client.forNetwork(config.nodes || LOCAL_NODES);
+        client.setMirrorNetwork(config.mirrorNetwork || LOCAL_MIRROR_NETWORK);
+      } else {
+        client = Client.forName(config.name);
+        if (config.mirrorNetwork) {
+          client.setMirrorNetwork(config.mirrorNetwork);
+        }
+      }
+
+      client.setOperatorWith(operatorAccountId, operator.publicKey, message => operator.sign(message));
+
+      return createClientLedger(client, operatorAccountId, operator.publicKey);
+    },
+
+    explorerUrl(entity: ExplorerEntity, id: string): string {
+      return `${explorerBaseUrl}/${entity}/${id}`;
+    }
+  };
+}
+
+/**
+ * Builds the network from environment variables:
+ * HEDERA_NETWORK (defaults to testnet), HEDERA_NODES ("host:port=0.0.3,..."),
+ * HEDERA_MIRROR_NETWORK ("host:port,..."), HEDERA_MIRROR_NODE_URL and HEDERA_EXPLORER_URL
+ */
+export function hederaNetworkFromEnv(): HederaNetwork {
+  const name = (process.env.HEDERA_NETWORK || 'testnet') as HederaNetworkName;
+
+  return createHederaNetwork({
+    name,
+    nodes: process.env.HEDERA_NODES ? parseNodes(process.env.HEDERA_NODES) : undefined,
+    mirrorNetwork: process.env.HEDERA_MIRROR_NETWORK ? process.env.HEDERA_MIRROR_NETWORK.split(',').map(s => s.trim()) : undefined,
+    mirrorNodeUrl: process.env.HEDERA_MIRROR_NODE_URL,
+    explorerUrl: process.env.HEDERA_EXPLORER_URL
+  });
+}
+
+function parseNodes(value: string): { [address: string]: string } {
+  const nodes: { [address: string]: string } = {};
+
+  for (const entry of value.split(',')) {
+    const [address, accountId] = entry.split('=').map(s => s.trim());
+    if (!address || !accountId) {
+      throw new Error(`Invalid HEDERA_NODES entry: "${entry}" (expected host:port=0.0.x)`);
+    }
+    nodes[address] = accountId;
+  }
+
+  return nodes;
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
@@ -0,0 +1,83 @@
+// utils/nft-metadata.ts
+import * as crypto from 'crypto';
+
+export const HIP412_FORMAT = 'HIP412@2.0.0';
+export const MAX_NFT_METADATA_BYTES = 100; // On-ledger metadata per serial
+
+/**
+ * NFT metadata JSON following HIP-412. The JSON itself lives off-ledger (HFS or
+ * elsewhere); each serial's on-ledger metadata is a short pointer to it.
+ */
+export interface Hip412Metadata {
+  name: string;
+  creator?: string;
+  creatorDID?: string;
+  description?: string;
+  image: string; // URI of the preview image
+  checksum?: string; // SHA-256 of the image
+  type: string; // MIME type of the image
+  format: typeof HIP412_FORMAT;
+  properties?: { [key: string]: unknown };
+  files?: {
+    uri: string;
+    checksum?: string;
+    is_default_file?: boolean;
+    type: string;
+    metadata?: unknown;
+    metadata_uri?: string;
+  }[];
+  attributes?: { trait_type: string; value: string | number; display_type?: string; max_value?: number }[];
+  localization?: { uri: string; default: string; locales: string[] };
+}
+
+export type NftMetadataPointer =
+  | { kind: 'hfs'; fileId: string } // hfs://0.0.x
+  | { kind: 'hash'; sha256: string } // sha256:<hex>, for JSON kept off-ledger by the caller
+  | { kind: 'uri'; uri: string }; // Any other URI (ipfs://, https://)
+
+export function createHip412Metadata(input: Omit<Hip412Metadata, 'format'>): Hip412Metadata {
+  const problems: string[] = [];
+  if (!input.name?.trim()) problems.push('name is required');
+  if (!input.image?.trim()) problems.push('image is required');
+  if (!/^[\w.+-]+\/[\w.+-]+$/.test(input.type || '')) problems.push(`type must be a MIME type, got "${input.type}"`);
+  for (const file of input.files || []) {
+    if (!file.uri || !/^[\w.+-]+\/[\w.+-]+$/.test(file.type || '')) problems.push(`file ${file.uri || '(no uri)'} needs a uri and MIME type`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid HIP-412 metadata: ${problems.join('; ')}`);
+  }
+
+  return { ...input, format: HIP412_FORMAT };
+}
+
+export function serializeMetadata(metadata: Hip412Metadata): string {
+  return JSON.stringify(metadata);
+}
+
+export function metadataChecksum(json: string): string {
+  return crypto.createHash('sha256').update(json, 'utf-8').digest('hex');
+}
+
+/**
+ * Encodes the on-ledger metadata of a serial, rejecting pointers over the 100-byte limit
+ */
+export function encodeMetadataPointer(pointer: NftMetadataPointer): Buffer {
+  const text = pointer.kind === 'hfs'
+    ? `hfs://${pointer.fileId}`
+    : pointer.kind === 'hash' ? `sha256:${pointer.sha256}` : pointer.uri;
+
+  const bytes = Buffer.from(text, 'utf-8');
+  if (bytes.length > MAX_NFT_METADATA_BYTES) {
+    throw new Error(`NFT metadata pointer is ${bytes.length} bytes; the limit is ${MAX_NFT_METADATA_BYTES}`);
+  }
+  return bytes;
+}
+
+export function decodeMetadataPointer(bytes: Uint8Array): NftMetadataPointer {
+  const text = Buffer.from(bytes).toString('utf-8');
+  const hfs = /^hfs:\/\/(\d+\.\d+\.\d+)$/.exec(text);
+  if (hfs) return { kind: 'hfs', fileId: hfs[1] };
+  const hash = /^sha256:([0-9a-f]{64})$/i.exec(text);
+  if (hash) return { kind: 'hash', sha256: hash[1].toLowerCase() };
+  return { kind: 'uri', uri: text };
+}
@@ -0,0 +1,195 @@
+// utils/outbox-store.ts
+import * as fs from 'fs';
+import { HcsEvent } from '../services/hedera/event-schemas';
+
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+/**
+ * Durable record of audit events that have not necessarily reached HCS yet.
+ * Events are written here before delivery is attempted, so a crash or outage
+ * delays them instead of losing them. Records are keyed by a dedup key: adding
+ * an event whose key is already known returns the existing record.
+ *
+ * Stores assume a single dispatcher per store.
+ */
+export interface OutboxStore {
+  /**
+   * Appends the record (assigning its sequence), or returns the one already holding its dedup key
+   */
+  add(record: NewOutboxRecord): Promise<OutboxRecord>;
+  get(id: string): Promise<OutboxRecord | null>;
+  update(record: OutboxRecord): Promise<void>;
+  /**
+   * Pending records in recording order, up to the first one whose retry is not due yet
+   */
+  due(now: Date, limit: number): Promise<OutboxRecord[]>;
+  list(status?: OutboxStatus): Promise<OutboxRecord[]>;
+  /**
+   * Drops delivered records older than `before`; their dedup keys are forgotten with them
+   */
+  purgeDelivered(before: Date): Promise<number>;
+}
+
+export class InMemoryOutboxStore implements OutboxStore {
+  private records: OutboxRecord[] = [];
+
+  async add(record: NewOutboxRecord): Promise<OutboxRecord> {
+    const existing = this.records.find(r => r.dedupKey === record.dedupKey);
+    if (existing) {
+      return cloneRecord(existing);
+    }
+
+    const added = { ...cloneRecord(record as OutboxRecord), sequence: nextSequence(this.records) };
+    this.records.push(added);
+    return cloneRecord(added);
+  }
+
+  async get(id: string): Promise<OutboxRecord | null> {
+    const record = this.records.find(r => r.id === id);
+    return record ? cloneRecord(record) : null;
+  }
+
+  async update(record: OutboxRecord): Promise<void> {
+    this.records = replaceRecord(this.records, record);
+  }
+
+  async due(now: Date, limit: number): Promise<OutboxRecord[]> {
+    return dueRecords(this.records, now, limit).map(cloneRecord);
+  }
+
+  async list(status?: OutboxStatus): Promise<OutboxRecord[]> {
+    return this.records.filter(r => !status || r.status === status).map(cloneRecord);
+  }
+
+  async purgeDelivered(before: Date): Promise<number> {
+    const kept = this.records.filter(r => !isPurgeable(r, before));
+    const purged = this.records.length - kept.length;
+    this.records = kept;
+    return purged;
+  }
+}
+
+/**
+ * JSON file store, rewritten on every change (write-then-rename). Suited to a
+ * single service instance; purge delivered records periodically to bound its size.
+ */
+export class FileOutboxStore implements OutboxStore {
+  constructor(private path: string) {}
+
+  /**
+   * Store at HCS_OUTBOX_PATH, or null when the outbox is not configured
+   */
+  static fromEnv(): FileOutboxStore | null {
+    return process.env.HCS_OUTBOX_PATH ? new FileOutboxStore(process.env.HCS_OUTBOX_PATH) : null;
+  }
+
+  async add(record: NewOutboxRecord): Promise<OutboxRecord> {
+    const file = this.load();
+    const existing = file.records.find(r => r.dedupKey === record.dedupKey);
+    if (existing) {
+      return existing;
+    }
+
+    const added = { ...cloneRecord(record as OutboxRecord), sequence: nextSequence(file.records) };
+    file.records.push(added);
+    this.save(file);
+    return cloneRecord(added);
+  }
+
+  async get(id: string): Promise<OutboxRecord | null> {
+    return this.load().records.find(r => r.id === id) || null;
+  }
+
+  async update(record: OutboxRecord): Promise<void> {
+    const file = this.load();
+    file.records = replaceRecord(file.records, record);
+    this.save(file);
+  }
+
+  async due(now: Date, limit: number): Promise<OutboxRecord[]> {
+    return dueRecords(this.load().records, now, limit);
+  }
+
+  async list(status?: OutboxStatus): Promise<OutboxRecord[]> {
+    return this.load().records.filter(r => !status || r.status === status);
+  }
+
+  async purgeDelivered(before: Date): Promise<number> {
+    const file = this.load();
+    const kept = file.records.filter(r => !isPurgeable(r, before));
+    const purged = file.records.length - kept.length;
+    if (purged > 0) {
+      this.save({ records: kept });
+    }
+    return purged;
+  }
+
+  private load(): OutboxFile {
+    if (!fs.existsSync(this.path)) {
+      return { records: [] };
+    }
+    return JSON.parse(fs.readFileSync(this.path, 'utf-8'));
+  }
+
+  private save(file: OutboxFile): void {
+    // Write-then-rename so a crash never leaves a truncated outbox
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(temporary, this.path);
+  }
+}
+
+function nextSequence(records: OutboxRecord[]): number {
+  return records.reduce((max, r) => Math.max(max, r.sequence), 0) + 1;
+}
+
+function replaceRecord(records: OutboxRecord[], record: OutboxRecord): OutboxRecord[] {
+  const index = records.findIndex(r => r.id === record.id);
+  if (index < 0) {
+    throw new Error(`Unknown outbox record ${record.id}`);
+  }
+  const updated = [...records];
+  updated[index] = cloneRecord(record);
+  return updated;
+}
+
+function dueRecords(records: OutboxRecord[], now: Date, limit: number): OutboxRecord[] {
+  const pending = records.filter(r => r.status === 'pending').sort((a, b) => a.sequence - b.sequence);
+  const blocked = pending.findIndex(r => Date.parse(r.nextAttemptAt) > now.getTime());
+  return pending.slice(0, blocked < 0 ? limit : Math.min(blocked, limit));
+}
+
+function isPurgeable(record: OutboxRecord, before: Date): boolean {
+  return record.status === 'delivered' && !!record.deliveredAt && Date.parse(record.deliveredAt) < before.getTime();
+}
+
+function cloneRecord(record: OutboxRecord): OutboxRecord {
+  return JSON.parse(JSON.stringify(record));
+}
+
+export interface OutboxRecord {
+  id: string; // Also the envelope's eventId
+  dedupKey: string;
+  sequence: number; // Recording order, preserved on delivery
+  event: HcsEvent; // Pseudonymized and validated when recorded
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+  receipt?: OutboxReceipt;
+}
+
+export type NewOutboxRecord = Omit<OutboxRecord, 'sequence'>;
+
+export interface OutboxReceipt {
+  topicId: string;
+  transactionId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string; // "seconds.nanos"
+}
+
+interface OutboxFile {
+  records: OutboxRecord[];
+}
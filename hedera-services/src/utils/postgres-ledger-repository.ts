@@ -0,0 +1,517 @@
+// utils/postgres-ledger-repository.ts
+import { Pool, PoolClient } from 'pg';
+import {
+  ContractRecord,
+  FileRecord,
+  LedgerRecordEntry,
+  LedgerRepository,
+  TokenRecord,
+  TontineActivityRecord,
+  TontineRecord,
+  TopicRecord,
+  TransactionCostFilter,
+  TransactionCostRecord,
+  TransactionCostTotals,
+  TransferFilter,
+  TransferRecord
+} from './ledger-repository';
+
+/**
+ * Schema versions, applied in order by `migrate()` and recorded in
+ * `ledger_schema_migrations`. Never edit an applied migration; append a new one.
+ */
+export const LEDGER_MIGRATIONS: { version: number; name: string; sql: string }[] = [
+  {
+    version: 1,
+    name: 'create ledger records',
+    sql: `
+      CREATE TABLE hedera_tokens (
+        token_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        token_type TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        initial_supply NUMERIC(40, 0) NOT NULL,
+        max_supply NUMERIC(40, 0),
+        treasury_account_id TEXT NOT NULL,
+        transaction_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX hedera_tokens_transaction_id ON hedera_tokens (transaction_id);
+
+      CREATE TABLE hedera_transfers (
+        transaction_id TEXT PRIMARY KEY,
+        token_id TEXT NOT NULL,
+        from_account_id TEXT NOT NULL,
+        to_account_id TEXT NOT NULL,
+        amount NUMERIC(40, 0) NOT NULL,
+        serial BIGINT,
+        memo TEXT,
+        timestamp TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX hedera_transfers_token_id ON hedera_transfers (token_id, timestamp);
+      CREATE INDEX hedera_transfers_from_account_id ON hedera_transfers (from_account_id, timestamp);
+      CREATE INDEX hedera_transfers_to_account_id ON hedera_transfers (to_account_id, timestamp);
+
+      CREATE TABLE hedera_files (
+        file_id TEXT PRIMARY KEY,
+        file_name TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        memo TEXT,
+        transaction_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        deleted_at TIMESTAMPTZ,
+        delete_transaction_id TEXT
+      );
+      CREATE INDEX hedera_files_transaction_id ON hedera_files (transaction_id);
+      CREATE INDEX hedera_files_delete_transaction_id ON hedera_files (delete_transaction_id);
+
+      CREATE TABLE hedera_topics (
+        topic_id TEXT PRIMARY KEY,
+        memo TEXT NOT NULL,
+        transaction_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX hedera_topics_transaction_id ON hedera_topics (transaction_id);
+
+      CREATE TABLE hedera_contracts (
+        contract_id TEXT PRIMARY KEY,
+        bytecode_file_id TEXT,
+        transaction_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX hedera_contracts_transaction_id ON hedera_contracts (transaction_id);
+
+      CREATE TABLE tontines (
+        tontine_contract_id TEXT PRIMARY KEY,
+        factory_contract_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        monthly_amount NUMERIC(40, 0) NOT NULL,
+        total_members INTEGER NOT NULL,
+        cycle_duration BIGINT NOT NULL,
+        transaction_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX tontines_transaction_id ON tontines (transaction_id);
+
+      CREATE TABLE tontine_activity (
+        transaction_id TEXT PRIMARY KEY,
+        tontine_contract_id TEXT NOT NULL,
+        activity_type TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        position INTEGER,
+        amount NUMERIC(40, 0),
+        timestamp TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX tontine_activity_tontine_contract_id ON tontine_activity (tontine_contract_id, timestamp);
+    `
+  },
+  {
+    version: 2,
+    name: 'create transaction costs',
+    sql: `
+      CREATE TABLE transaction_costs (
+        transaction_id TEXT PRIMARY KEY,
+        service TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        result TEXT NOT NULL,
+        tontine_id TEXT,
+        property_id TEXT,
+        fee_tinybars NUMERIC(40, 0) NOT NULL,
+        cent_equivalent INTEGER NOT NULL,
+        hbar_equivalent INTEGER NOT NULL,
+        fee_usd NUMERIC(24, 10) NOT NULL,
+        fee_ngn NUMERIC(24, 10),
+        consensus_timestamp TEXT NOT NULL,
+        charged_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX transaction_costs_charged_at ON transaction_costs (charged_at);
+      CREATE INDEX transaction_costs_service ON transaction_costs (service, charged_at);
+      CREATE INDEX transaction_costs_tontine_id ON transaction_costs (tontine_id, charged_at);
+      CREATE INDEX transaction_costs_property_id ON transaction_costs (property_id, charged_at);
+    `
+  }
+];
+
+// Parameters from transactionCostFilterParams(); a null parameter matches every row
+const TRANSACTION_COST_FILTER = `($1::timestamptz IS NULL OR charged_at >= $1)
+  AND ($2::timestamptz IS NULL OR charged_at < $2)
+  AND ($3::text IS NULL OR service = $3)
+  AND ($4::text IS NULL OR operation = $4)
+  AND ($5::text IS NULL OR tontine_id = $5)
+  AND ($6::text IS NULL OR property_id = $6)`;
+
+// Arbitrary constant; serializes concurrent migrate() calls across processes
+const MIGRATION_LOCK_ID = 4_120_371;
+
+const sharedRepositories = new Map<string, PostgresLedgerRepository>();
+
+/**
+ * PostgreSQL repository (DATABASE_URL). Run `npm run db:migrate` (or `migrate()`)
+ * before first use and after upgrades; the repository does not migrate on its own.
+ */
+export class PostgresLedgerRepository implements LedgerRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Repository for DATABASE_URL, shared by every service in the process, or null
+   * when no database is configured
+   */
+  static fromEnv(): PostgresLedgerRepository | null {
+    const url = process.env.DATABASE_URL;
+    if (!url) {
+      return null;
+    }
+
+    let repository = sharedRepositories.get(url);
+    if (!repository) {
+      // Idle connections do not keep the process alive
+      repository = new PostgresLedgerRepository(new Pool({ connectionString: url, allowExitOnIdle: true }));
+      sharedRepositories.set(url, repository);
+    }
+    return repository;
+  }
+
+  /**
+   * Applies the migrations not yet recorded; returns the versions applied
+   */
+  async migrate(): Promise<number[]> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ledger_schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `);
+
+      const { rows } = await client.query<{ version: number }>('SELECT version FROM ledger_schema_migrations');
+      const applied = new Set(rows.map(row => row.version));
+      const pending = LEDGER_MIGRATIONS.filter(migration => !applied.has(migration.version))
+        .sort((a, b) => a.version - b.version);
+
+      for (const migration of pending) {
+        await inTransaction(client, async () => {
+          await client.query(migration.sql);
+          await client.query('INSERT INTO ledger_schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+        });
+        console.log(`✅ Applied migration ${migration.version}: ${migration.name}`);
+      }
+
+      return pending.map(migration => migration.version);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  async saveToken(token: TokenRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO hedera_tokens
+        (token_id, name, symbol, token_type, decimals, initial_supply, max_supply, treasury_account_id, transaction_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (token_id) DO NOTHING`,
+      [token.tokenId, token.name, token.symbol, token.tokenType, token.decimals, token.initialSupply.toString(),
+        token.maxSupply?.toString() ?? null, token.treasuryAccountId, token.transactionId, token.createdAt]
+    );
+  }
+
+  async getToken(tokenId: string): Promise<TokenRecord | null> {
+    const { rows } = await this.pool.query('SELECT * FROM hedera_tokens WHERE token_id = $1', [tokenId]);
+    return rows[0] ? toTokenRecord(rows[0]) : null;
+  }
+
+  async listTokens(): Promise<TokenRecord[]> {
+    const { rows } = await this.pool.query('SELECT * FROM hedera_tokens ORDER BY created_at, token_id');
+    return rows.map(toTokenRecord);
+  }
+
+  async saveTransfer(transfer: TransferRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO hedera_transfers
+        (transaction_id, token_id, from_account_id, to_account_id, amount, serial, memo, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (transaction_id) DO NOTHING`,
+      [transfer.transactionId, transfer.tokenId, transfer.fromAccountId, transfer.toAccountId,
+        transfer.amount.toString(), transfer.serial, transfer.memo, transfer.timestamp]
+    );
+  }
+
+  async listTransfers(filter: TransferFilter = {}): Promise<TransferRecord[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM hedera_transfers
+       WHERE ($1::text IS NULL OR token_id = $1)
+         AND ($2::text IS NULL OR from_account_id = $2 OR to_account_id = $2)
+       ORDER BY timestamp, transaction_id`,
+      [filter.tokenId ?? null, filter.accountId ?? null]
+    );
+    return rows.map(toTransferRecord);
+  }
+
+  async saveFile(file: FileRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO hedera_files
+        (file_id, file_name, size, memo, transaction_id, created_at, deleted_at, delete_transaction_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (file_id) DO NOTHING`,
+      [file.fileId, file.fileName, file.size, file.memo, file.transactionId, file.createdAt, file.deletedAt, file.deleteTransactionId]
+    );
+  }
+
+  async markFileDeleted(fileId: string, transactionId: string, deletedAt: Date): Promise<void> {
+    await this.pool.query(
+      'UPDATE hedera_files SET deleted_at = $3, delete_transaction_id = $2 WHERE file_id = $1 AND deleted_at IS NULL',
+      [fileId, transactionId, deletedAt]
+    );
+  }
+
+  async getFile(fileId: string): Promise<FileRecord | null> {
+    const { rows } = await this.pool.query('SELECT * FROM hedera_files WHERE file_id = $1', [fileId]);
+    return rows[0] ? toFileRecord(rows[0]) : null;
+  }
+
+  async saveTopic(topic: TopicRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO hedera_topics (topic_id, memo, transaction_id, created_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (topic_id) DO NOTHING`,
+      [topic.topicId, topic.memo, topic.transactionId, topic.createdAt]
+    );
+  }
+
+  async getTopic(topicId: string): Promise<TopicRecord | null> {
+    const { rows } = await this.pool.query('SELECT * FROM hedera_topics WHERE topic_id = $1', [topicId]);
+    return rows[0] ? toTopicRecord(rows[0]) : null;
+  }
+
+  async saveContract(contract: ContractRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO hedera_contracts (contract_id, bytecode_file_id, transaction_id, created_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (contract_id) DO NOTHING`,
+      [contract.contractId, contract.bytecodeFileId, contract.transactionId, contract.createdAt]
+    );
+  }
+
+  async getContract(contractId: string): Promise<ContractRecord | null> {
+    const { rows } = await this.pool.query('SELECT * FROM hedera_contracts WHERE contract_id = $1', [contractId]);
+    return rows[0] ? toContractRecord(rows[0]) : null;
+  }
+
+  async saveTontine(tontine: TontineRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO tontines
+        (tontine_contract_id, factory_contract_id, name, monthly_amount, total_members, cycle_duration, transaction_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (tontine_contract_id) DO NOTHING`,
+      [tontine.tontineContractId, tontine.factoryContractId, tontine.name, tontine.monthlyAmount.toString(),
+        tontine.totalMembers, tontine.cycleDuration, tontine.transactionId, tontine.createdAt]
+    );
+  }
+
+  async getTontine(tontineContractId: string): Promise<TontineRecord | null> {
+    const { rows } = await this.pool.query('SELECT * FROM tontines WHERE tontine_contract_id = $1', [tontineContractId]);
+    return rows[0] ? toTontineRecord(rows[0]) : null;
+  }
+
+  async saveTontineActivity(activity: TontineActivityRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO tontine_activity
+        (transaction_id, tontine_contract_id, activity_type, account_id, position, amount, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (transaction_id) DO NOTHING`,
+      [activity.transactionId, activity.tontineContractId, activity.activityType, activity.accountId,
+        activity.position, activity.amount?.toString() ?? null, activity.timestamp]
+    );
+  }
+
+  async listTontineActivity(tontineContractId: string): Promise<TontineActivityRecord[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM tontine_activity WHERE tontine_contract_id = $1 ORDER BY timestamp, transaction_id',
+      [tontineContractId]
+    );
+    return rows.map(toTontineActivityRecord);
+  }
+
+  async saveTransactionCost(cost: TransactionCostRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO transaction_costs
+        (transaction_id, service, operation, result, tontine_id, property_id, fee_tinybars, cent_equivalent,
+         hbar_equivalent, fee_usd, fee_ngn, consensus_timestamp, charged_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (transaction_id) DO NOTHING`,
+      [cost.transactionId, cost.service, cost.operation, cost.result, cost.tontineId, cost.propertyId,
+        cost.feeTinybars.toString(), cost.centEquivalent, cost.hbarEquivalent, cost.feeUsd, cost.feeNgn,
+        cost.consensusTimestamp, cost.chargedAt]
+    );
+  }
+
+  async listTransactionCosts(filter: TransactionCostFilter = {}): Promise<TransactionCostRecord[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM transaction_costs WHERE ${TRANSACTION_COST_FILTER} ORDER BY charged_at, transaction_id`,
+      transactionCostFilterParams(filter)
+    );
+    return rows.map(toTransactionCostRecord);
+  }
+
+  async sumTransactionCosts(filter: TransactionCostFilter = {}): Promise<TransactionCostTotals> {
+    const { rows } = await this.pool.query(
+      `SELECT count(*) AS transactions, coalesce(sum(fee_tinybars), 0) AS fee_tinybars, coalesce(sum(fee_usd), 0) AS fee_usd
+       FROM transaction_costs WHERE ${TRANSACTION_COST_FILTER}`,
+      transactionCostFilterParams(filter)
+    );
+    return { transactions: Number(rows[0].transactions), feeTinybars: BigInt(rows[0].fee_tinybars), feeUsd: Number(rows[0].fee_usd) };
+  }
+
+  async findByTransactionId(transactionId: string): Promise<LedgerRecordEntry[]> {
+    const select = async (sql: string) => (await this.pool.query(sql, [transactionId])).rows;
+
+    return [
+      ...(await select('SELECT * FROM hedera_tokens WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'token' as const, record: toTokenRecord(row) })),
+      ...(await select('SELECT * FROM hedera_transfers WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'transfer' as const, record: toTransferRecord(row) })),
+      ...(await select('SELECT * FROM hedera_files WHERE transaction_id = $1 OR delete_transaction_id = $1'))
+        .map(row => ({ kind: 'file' as const, record: toFileRecord(row) })),
+      ...(await select('SELECT * FROM hedera_topics WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'topic' as const, record: toTopicRecord(row) })),
+      ...(await select('SELECT * FROM hedera_contracts WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'contract' as const, record: toContractRecord(row) })),
+      ...(await select('SELECT * FROM tontines WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'tontine' as const, record: toTontineRecord(row) })),
+      ...(await select('SELECT * FROM tontine_activity WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'tontine-activity' as const, record: toTontineActivityRecord(row) })),
+      ...(await select('SELECT * FROM transaction_costs WHERE transaction_id = $1'))
+        .map(row => ({ kind: 'transaction-cost' as const, record: toTransactionCostRecord(row) }))
+    ];
+  }
+}
+
+async function inTransaction(client: PoolClient, work: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await work();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+function transactionCostFilterParams(filter: TransactionCostFilter): (Date | string | null)[] {
+  return [filter.from ?? null, filter.to ?? null, filter.service ?? null, filter.operation ?? null,
+    filter.tontineId ?? null, filter.propertyId ?? null];
+}
+
+// NUMERIC and BIGINT columns come back as strings
+function toBigInt(value: string | null): bigint | null {
+  return value === null ? null : BigInt(value);
+}
+
+function toTokenRecord(row: any): TokenRecord {
+  return {
+    tokenId: row.token_id,
+    name: row.name,
+    symbol: row.symbol,
+    tokenType: row.token_type,
+    decimals: row.decimals,
+    initialSupply: BigInt(row.initial_supply),
+    maxSupply: toBigInt(row.max_supply),
+    treasuryAccountId: row.treasury_account_id,
+    transactionId: row.transaction_id,
+    createdAt: row.created_at
+  };
+}
+
+function toTransferRecord(row: any): TransferRecord {
+  return {
+    transactionId: row.transaction_id,
+    tokenId: row.token_id,
+    fromAccountId: row.from_account_id,
+    toAccountId: row.to_account_id,
+    amount: BigInt(row.amount),
+    serial: row.serial === null ? null : Number(row.serial),
+    memo: row.memo,
+    timestamp: row.timestamp
+  };
+}
+
+function toFileRecord(row: any): FileRecord {
+  return {
+    fileId: row.file_id,
+    fileName: row.file_name,
+    size: row.size,
+    memo: row.memo,
+    transactionId: row.transaction_id,
+    createdAt: row.created_at,
+    deletedAt: row.deleted_at,
+    deleteTransactionId: row.delete_transaction_id
+  };
+}
+
+function toTopicRecord(row: any): TopicRecord {
+  return {
+    topicId: row.topic_id,
+    memo: row.memo,
+    transactionId: row.transaction_id,
+    createdAt: row.created_at
+  };
+}
+
+function toContractRecord(row: any): ContractRecord {
+  return {
+    contractId: row.contract_id,
+    bytecodeFileId: row.bytecode_file_id,
+    transactionId: row.transaction_id,
+    createdAt: row.created_at
+  };
+}
+
+function toTontineRecord(row: any): TontineRecord {
+  return {
+    tontineContractId: row.tontine_contract_id,
+    factoryContractId: row.factory_contract_id,
+    name: row.name,
+    monthlyAmount: BigInt(row.monthly_amount),
+    totalMembers: row.total_members,
+    cycleDuration: Number(row.cycle_duration),
+    transactionId: row.transaction_id,
+    createdAt: row.created_at
+  };
+}
+
+function toTontineActivityRecord(row: any): TontineActivityRecord {
+  return {
+    transactionId: row.transaction_id,
+    tontineContractId: row.tontine_contract_id,
+    activityType: row.activity_type,
+    accountId: row.account_id,
+    position: row.position,
+    amount: toBigInt(row.amount),
+    timestamp: row.timestamp
+  };
+}
+
+function toTransactionCostRecord(row: any): TransactionCostRecord {
+  return {
+    transactionId: row.transaction_id,
+    service: row.service,
+    operation: row.operation,
+    result: row.result,
+    tontineId: row.tontine_id,
+    propertyId: row.property_id,
+    feeTinybars: BigInt(row.fee_tinybars),
+    centEquivalent: row.cent_equivalent,
+    hbarEquivalent: row.hbar_equivalent,
+    feeUsd: Number(row.fee_usd),
+    feeNgn: row.fee_ngn === null ? null : Number(row.fee_ngn),
+    consensusTimestamp: row.consensus_timestamp,
+    chargedAt: row.charged_at
+  };
+}
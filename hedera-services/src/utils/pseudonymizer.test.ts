@@ -0,0 +1,29 @@
+// utils/pseudonymizer.test.ts
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import * as crypto from 'crypto';
+import { Pseudonymizer } from './pseudonymizer';
+
+describe('Pseudonymizer', () => {
+  const secret = crypto.randomBytes(32).toString('hex');
+
+  test('gives stable, full-length pseudonyms that depend on the secret and domain', () => {
+    const pseudonymizer = new Pseudonymizer(secret);
+    const pseudonym = pseudonymizer.pseudonymize('user-1');
+
+    assert.match(pseudonym, /^[0-9a-f]{64}$/);
+    assert.equal(new Pseudonymizer(secret).pseudonymize('user-1', 'user'), pseudonym);
+    assert.notEqual(new Pseudonymizer(crypto.randomBytes(32).toString('hex')).pseudonymize('user-1'), pseudonym);
+    assert.notEqual(pseudonymizer.pseudonymize('user-1', 'ip'), pseudonym);
+  });
+
+  test('treats differently cased spellings of an IP address as one', () => {
+    const pseudonymizer = new Pseudonymizer(secret);
+
+    assert.equal(pseudonymizer.pseudonymize('2001:DB8::1', 'ip'), pseudonymizer.pseudonymize(' 2001:db8::1 ', 'ip'));
+  });
+
+  test('rejects a short secret', () => {
+    assert.throws(() => new Pseudonymizer('abcd'), /at least 32 bytes/);
+  });
+});
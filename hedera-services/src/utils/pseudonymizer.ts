@@ -0,0 +1,37 @@
+// utils/pseudonymizer.ts
+import * as crypto from 'crypto';
+
+export type PseudonymDomain = 'user' | 'ip';
+
+/**
+ * Keyed pseudonyms for identifiers written to HCS: HMAC-SHA256 over
+ * `domain:value` with a managed secret, full 64 hex characters. Without the
+ * secret a pseudonym cannot be linked back by enumerating candidate values.
+ */
+export class Pseudonymizer {
+  private secret: Buffer;
+
+  constructor(secretHex: string) {
+    if (!/^([0-9a-f]{2}){32,}$/i.test(secretHex)) {
+      throw new Error('Pseudonymization secret must be at least 32 bytes of hex');
+    }
+    this.secret = Buffer.from(secretHex, 'hex');
+  }
+
+  static fromEnv(): Pseudonymizer {
+    if (!process.env.HCS_PSEUDONYM_SECRET) {
+      throw new Error('Missing HCS_PSEUDONYM_SECRET in environment');
+    }
+    return new Pseudonymizer(process.env.HCS_PSEUDONYM_SECRET);
+  }
+
+  pseudonymize(value: string, domain: PseudonymDomain = 'user'): string {
+    return crypto.createHmac('sha256', this.secret).update(`${domain}:${normalize(value, domain)}`).digest('hex');
+  }
+}
+
+function normalize(value: string, domain: PseudonymDomain): string {
+  const trimmed = value.trim();
+  // Case-insensitive so IPv6 spellings of the same address share a pseudonym
+  return domain === 'ip' ? trimmed.toLowerCase() : trimmed;
+}
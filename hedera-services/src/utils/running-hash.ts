@@ -0,0 +1,59 @@
+// utils/running-hash.ts
+import * as crypto from 'crypto';
+
+export const RUNNING_HASH_VERSION = 3;
+export const EMPTY_RUNNING_HASH = Buffer.alloc(48);
+
+/**
+ * Computes the version 3 HCS topic running hash for a message:
+ * SHA-384(previousRunningHash || version || payer shard/realm/num ||
+ * topic shard/realm/num || consensus seconds/nanos || sequenceNumber || SHA-384(message))
+ */
+export function computeRunningHash(input: {
+  previousRunningHash: Uint8Array;
+  payerAccountId: string;
+  topicId: string;
+  consensusTimestamp: string; // "seconds.nanos"
+  sequenceNumber: number;
+  message: Uint8Array;
+}): Buffer {
+  const [seconds, nanos] = parseTimestamp(input.consensusTimestamp);
+
+  const buffer = Buffer.concat([
+    Buffer.from(input.previousRunningHash),
+    int64(RUNNING_HASH_VERSION),
+    ...entityId(input.payerAccountId).map(int64),
+    ...entityId(input.topicId).map(int64),
+    int64(seconds),
+    int32(nanos),
+    int64(input.sequenceNumber),
+    crypto.createHash('sha384').update(input.message).digest()
+  ]);
+
+  return crypto.createHash('sha384').update(buffer).digest();
+}
+
+function parseTimestamp(timestamp: string): [bigint, number] {
+  const [seconds, nanos = '0'] = timestamp.split('.');
+  return [BigInt(seconds), Number(nanos.padEnd(9, '0'))];
+}
+
+function entityId(id: string): bigint[] {
+  const parts = id.split('.');
+  if (parts.length !== 3) {
+    throw new Error(`Invalid entity id: ${id}`);
+  }
+  return parts.map(part => BigInt(part));
+}
+
+function int64(value: bigint | number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigInt64BE(BigInt(value));
+  return buffer;
+}
+
+function int32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32BE(value);
+  return buffer;
+}
@@ -0,0 +1,108 @@
+// utils/signer.test.ts
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { inspect } from 'util';
+import { PrivateKey } from '@hashgraph/sdk';
+import { createTestEnvironment } from '../simulator/test-environment';
+import { InMemoryAccountKeyStore } from './account-key-store';
+import { InMemorySigner, KeystoreSigner, RemoteSigner, signerAccountId, signerFromEnv } from './signer';
+
+const message = Buffer.from('transaction body bytes');
+
+describe('Signers', () => {
+  test('never print the private key', () => {
+    const privateKey = PrivateKey.generateED25519();
+    const signer = new InMemorySigner(privateKey, '0.0.1001');
+
+    for (const printed of [JSON.stringify(signer), inspect({ signer })]) {
+      assert.ok(!printed.includes(privateKey.toStringRaw()));
+      assert.ok(printed.includes(privateKey.publicKey.toString()));
+    }
+  });
+
+  test('sign with a keystore key only while it is the key they were opened with', async () => {
+    const keyStore = new InMemoryAccountKeyStore();
+    await keyStore.saveKey('0.0.1001', PrivateKey.generateED25519());
+    const signer = await KeystoreSigner.open(keyStore, '0.0.1001');
+
+    assert.ok(signer.publicKey.verify(message, await signer.sign(message)));
+
+    await keyStore.stageKey('0.0.1001', PrivateKey.generateED25519());
+    await keyStore.commitKey('0.0.1001'); // Rotated
+    await assert.rejects(signer.sign(message), /changed since the signer was opened/);
+    await assert.rejects(KeystoreSigner.open(keyStore, '0.0.1002'), /not in the key store/);
+  });
+
+  test('need an account where one pays', () => {
+    const coSigner = new InMemorySigner(PrivateKey.generateED25519());
+
+    assert.throws(() => signerAccountId(coSigner), /is not bound to an account/);
+    assert.equal(signerAccountId(new InMemorySigner(PrivateKey.generateED25519(), '0.0.7')), '0.0.7');
+  });
+});
+
+describe('RemoteSigner', () => {
+  const privateKey = PrivateKey.generateECDSA();
+  const requests: { url: string; authorization?: string }[] = [];
+  let forge = false;
+  let server: http.Server;
+  let url: string;
+
+  // Stand-in signing service holding `privateKey` under any key id
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        requests.push({ url: request.url!, authorization: request.headers.authorization });
+        const signed = forge ? PrivateKey.generateECDSA().sign(message) : privateKey.sign(Buffer.from(JSON.parse(body).message, 'base64'));
+        response.setHeader('content-type', 'application/json');
+        response.end(JSON.stringify({ signature: Buffer.from(signed).toString('base64') }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  test('signs through the service with the bearer token', async () => {
+    const signer = new RemoteSigner({ url, keyId: '0.0.1001', publicKey: privateKey.publicKey.toString(), authToken: 'secret' }, '0.0.1001');
+
+    assert.ok(privateKey.publicKey.verify(message, await signer.sign(message)));
+    assert.deepEqual(requests.at(-1), { url: '/keys/0.0.1001/sign', authorization: 'Bearer secret' });
+    assert.ok(!JSON.stringify(signer).includes('secret'));
+  });
+
+  test('rejects a signature that does not match the expected key', async () => {
+    const signer = new RemoteSigner({ url, keyId: 'treasury', publicKey: privateKey.publicKey });
+
+    forge = true;
+    try {
+      await assert.rejects(signer.sign(message), /invalid signature for key treasury/);
+    } finally {
+      forge = false;
+    }
+  });
+
+  test('is what signerFromEnv returns for an account with only a public key', async () => {
+    const env = await createTestEnvironment();
+    try {
+      delete process.env.HEDERA_TREASURY_PRIVATE_KEY;
+      assert.throws(() => signerFromEnv('TREASURY'), /Missing treasury credentials/);
+
+      process.env.HEDERA_TREASURY_PUBLIC_KEY = privateKey.publicKey.toString();
+      process.env.HEDERA_SIGNING_SERVICE_URL = url;
+      const signer = signerFromEnv('TREASURY');
+
+      assert.ok(signer instanceof RemoteSigner);
+      assert.equal(signer.accountId, env.treasury.accountId);
+      assert.ok(signerFromEnv('OPERATOR') instanceof InMemorySigner);
+      assert.ok(privateKey.publicKey.verify(message, await signer.sign(message)));
+    } finally {
+      env.cleanup();
+    }
+  });
+});
@@ -0,0 +1,170 @@
+// utils/signer.ts
+import { inspect } from 'util';
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { AccountKeyStore } from './account-key-store';
+
+/**
+ * Signs on behalf of an account without handing out its private key. The ledger
+ * and the services only ever see signers; where the key lives (process memory,
+ * the encrypted account keystore, a remote signing service) is up to the
+ * implementation. Signers print as their account and public key only.
+ */
+export interface Signer {
+  accountId: string | null; // Account the key belongs to; null for keys that only co-sign
+  publicKey: PublicKey;
+  sign(message: Uint8Array): Promise<Uint8Array>;
+}
+
+export type SignerRole = 'OPERATOR' | 'TREASURY';
+
+/**
+ * Key held in process memory, e.g. loaded from the environment or freshly generated
+ */
+export class InMemorySigner implements Signer {
+  readonly publicKey: PublicKey;
+  private readonly privateKey: PrivateKey;
+
+  constructor(privateKey: PrivateKey | string, readonly accountId: string | null = null) {
+    this.privateKey = typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey;
+    this.publicKey = this.privateKey.publicKey;
+  }
+
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    return this.privateKey.sign(message);
+  }
+
+  toJSON() {
+    return describeSigner(this);
+  }
+
+  [inspect.custom]() {
+    return `InMemorySigner ${inspect(describeSigner(this))}`;
+  }
+}
+
+/**
+ * Key of a custodial account in an AccountKeyStore (the encrypted
+ * HEDERA_KEYSTORE_PATH file by default). The key is unwrapped for each signature
+ * and not kept; signing fails once the stored key no longer matches the public
+ * key the signer was opened with, e.g. after a key rotation.
+ */
+export class KeystoreSigner implements Signer {
+  private constructor(
+    private keyStore: AccountKeyStore,
+    readonly accountId: string,
+    readonly publicKey: PublicKey
+  ) {}
+
+  static async open(keyStore: AccountKeyStore, accountId: string): Promise<KeystoreSigner> {
+    const privateKey = await keyStore.getKey(accountId);
+    if (!privateKey) {
+      throw new Error(`Account ${accountId} is not in the key store`);
+    }
+    return new KeystoreSigner(keyStore, accountId, privateKey.publicKey);
+  }
+
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    const privateKey = await this.keyStore.getKey(this.accountId);
+    if (!privateKey || !privateKey.publicKey.equals(this.publicKey)) {
+      throw new Error(`Stored key of account ${this.accountId} changed since the signer was opened`);
+    }
+    return privateKey.sign(message);
+  }
+
+  toJSON() {
+    return describeSigner(this);
+  }
+
+  [inspect.custom]() {
+    return `KeystoreSigner ${inspect(describeSigner(this))}`;
+  }
+}
+
+/**
+ * Key held by a remote signing service (HSM / KMS front end). Messages are sent
+ * as `POST {url}/keys/{keyId}/sign` with `{ message }` (base64) and a bearer
+ * token; the service answers `{ signature }` (base64). Every signature is checked
+ * against the expected public key before it is used.
+ */
+export class RemoteSigner implements Signer {
+  readonly publicKey: PublicKey;
+
+  constructor(private options: RemoteSignerOptions, readonly accountId: string | null = null) {
+    this.publicKey = typeof options.publicKey === 'string' ? PublicKey.fromString(options.publicKey) : options.publicKey;
+  }
+
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    const url = `${this.options.url.replace(/\/+$/, '')}/keys/${encodeURIComponent(this.options.keyId)}/sign`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(this.options.authToken ? { authorization: `Bearer ${this.options.authToken}` } : {})
+      },
+      body: JSON.stringify({ message: Buffer.from(message).toString('base64') })
+    });
+    if (!response.ok) {
+      throw new Error(`Signing service returned ${response.status} for key ${this.options.keyId}`);
+    }
+
+    const signature = Buffer.from(((await response.json()) as { signature: string }).signature, 'base64');
+    if (!this.publicKey.verify(message, signature)) {
+      throw new Error(`Signing service returned an invalid signature for key ${this.options.keyId}`);
+    }
+    return signature;
+  }
+
+  toJSON() {
+    return { ...describeSigner(this), keyId: this.options.keyId, url: this.options.url };
+  }
+
+  [inspect.custom]() {
+    return `RemoteSigner ${inspect(this.toJSON())}`;
+  }
+}
+
+/**
+ * Signer for the operator or treasury account (HEDERA_<ROLE>_ACCOUNT_ID): its
+ * HEDERA_<ROLE>_PRIVATE_KEY held in memory or, without one, the key
+ * HEDERA_<ROLE>_PUBLIC_KEY held by the signing service at HEDERA_SIGNING_SERVICE_URL
+ * under the account id (authenticated with HEDERA_SIGNING_SERVICE_TOKEN)
+ */
+export function signerFromEnv(role: SignerRole): Signer {
+  const accountId = process.env[`HEDERA_${role}_ACCOUNT_ID`];
+  const privateKey = process.env[`HEDERA_${role}_PRIVATE_KEY`];
+  const publicKey = process.env[`HEDERA_${role}_PUBLIC_KEY`];
+
+  if (accountId && privateKey) {
+    return new InMemorySigner(privateKey, accountId);
+  }
+  if (accountId && publicKey && process.env.HEDERA_SIGNING_SERVICE_URL) {
+    return new RemoteSigner({
+      url: process.env.HEDERA_SIGNING_SERVICE_URL,
+      keyId: accountId,
+      publicKey,
+      authToken: process.env.HEDERA_SIGNING_SERVICE_TOKEN
+    }, accountId);
+  }
+  throw new Error(`Missing ${role.toLowerCase()} credentials in environment`);
+}
+
+/**
+ * Account of a signer that must belong to one, e.g. a fee payer
+ */
+export function signerAccountId(signer: Signer): string {
+  if (!signer.accountId) {
+    throw new Error(`Signer ${signer.publicKey.toStringRaw().slice(0, 8)}… is not bound to an account`);
+  }
+  return signer.accountId;
+}
+
+function describeSigner(signer: Signer) {
+  return { accountId: signer.accountId, publicKey: signer.publicKey.toString() };
+}
+
+export interface RemoteSignerOptions {
+  url: string; // Signing service base URL
+  keyId: string; // Key name at the service
+  publicKey: PublicKey | string; // Expected key, DER hex
+  authToken?: string;
+}
@@ -0,0 +1,58 @@
+// utils/token-amount.test.ts
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { HederaTokenService } from '../services/hedera/token.service';
+import { createTestEnvironment } from '../simulator/test-environment';
+import { TokenAmount, TokenDecimalsCache } from './token-amount';
+
+describe('TokenAmount', () => {
+  test('parses display values into exact base units', () => {
+    assert.equal(TokenAmount.parse('0.0.5', '10.5', 2).units, 1050n);
+    assert.equal(TokenAmount.parse('0.0.5', '0.10', 1).units, 1n); // Trailing zeros are not extra precision
+    assert.equal(TokenAmount.parse('0.0.5', '1500', 0).toString(), '1500');
+    assert.equal(TokenAmount.fromUnits('0.0.5', 5n, 3).toString(), '0.005');
+  });
+
+  test('rejects values that would lose precision or overflow', () => {
+    assert.throws(() => TokenAmount.parse('0.0.5', '0.005', 2), /more than the 2 decimals of 0.0.5/);
+    assert.throws(() => TokenAmount.parse('0.0.5', '-1', 2), /Invalid token amount/);
+    assert.throws(() => TokenAmount.parse('0.0.5', '1e3', 2), /Invalid token amount/);
+    assert.throws(() => TokenAmount.fromUnits('0.0.5', BigInt(Number.MAX_SAFE_INTEGER) + 1n, 0), /exceeds/);
+    assert.throws(() => TokenAmount.parse('0.0.5', '1', 19), /Invalid token decimals/);
+  });
+
+  test('adds and subtracts amounts of the same token only', () => {
+    const ten = TokenAmount.parse('0.0.5', '10', 2);
+    const quarter = TokenAmount.parse('0.0.5', '0.25', 2);
+
+    assert.equal(ten.plus(quarter).toString(), '10.25');
+    assert.equal(ten.minus(quarter).toString(), '9.75');
+    assert.throws(() => quarter.minus(ten), /must not be negative/);
+    assert.throws(() => ten.plus(TokenAmount.parse('0.0.6', '1', 2)), /Cannot combine amounts of 0.0.5 and 0.0.6/);
+    assert.throws(() => TokenAmount.from('0.0.5', quarter, 3), /used for 0.0.5 \(3 decimals\)/);
+  });
+
+  test('reads decimals from the ledger and keeps services from submitting imprecise amounts', async () => {
+    const env = await createTestEnvironment();
+    try {
+      const tokens = new HederaTokenService(env.simulator);
+      const holder = env.account();
+      const { tokenId } = await tokens.createFungibleToken({ name: 'Naira', symbol: 'NGNT', decimals: 2, initialSupply: '1000' });
+      await tokens.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+
+      const decimals = new TokenDecimalsCache(env.simulator.connect(env.operator.signer));
+      assert.equal((await decimals.amount(tokenId, '12.3')).units, 1230n);
+
+      await assert.rejects(tokens.transferTokens({
+        tokenId,
+        fromAccountId: env.treasury.accountId,
+        fromSigner: env.treasury.signer,
+        toAccountId: holder.accountId,
+        amount: '0.001'
+      }), /more than the 2 decimals/);
+      assert.equal(env.simulator.getTokenBalance(holder.accountId, tokenId), 0n);
+    } finally {
+      env.cleanup();
+    }
+  });
+});
@@ -0,0 +1,150 @@
+// utils/token-amount.ts
+import { HederaLedger } from '../services/hedera/ledger';
+
+const MAX_SAFE_UNITS = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * A decimal string in the token's display unit ("10.50") or a bigint in base units (1050n)
+ */
+export type TokenAmountInput = string | bigint | TokenAmount;
+
+/**
+ * Amount of one token, held in base units together with the token's decimals.
+ * Construction rejects values that would lose precision (more fraction digits
+ * than the token has) or exceed Number.MAX_SAFE_INTEGER base units, so an
+ * amount can always be passed to the SDK as a number without rounding.
+ */
+export class TokenAmount {
+  private constructor(
+    readonly tokenId: string,
+    readonly units: bigint,
+    readonly decimals: number
+  ) {}
+
+  static fromUnits(tokenId: string, units: bigint, decimals: number): TokenAmount {
+    checkDecimals(decimals);
+    if (units < 0n) {
+      throw new Error(`Token amount for ${tokenId} must not be negative: ${units}`);
+    }
+    if (units > MAX_SAFE_UNITS) {
+      throw new Error(`Token amount for ${tokenId} exceeds ${Number.MAX_SAFE_INTEGER} base units: ${units}`);
+    }
+    return new TokenAmount(tokenId, units, decimals);
+  }
+
+  /**
+   * Parses a decimal string such as "1500", "10.5" or "0.01" in the token's display unit
+   */
+  static parse(tokenId: string, value: string, decimals: number): TokenAmount {
+    checkDecimals(decimals);
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+    if (!match) {
+      throw new Error(`Invalid token amount for ${tokenId}: "${value}"`);
+    }
+
+    const [, whole, fraction = ''] = match;
+    if (fraction.replace(/0+$/, '').length > decimals) {
+      throw new Error(`Token amount ${value} has more than the ${decimals} decimals of ${tokenId}`);
+    }
+
+    const units = BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0').slice(0, decimals) || '0');
+    return TokenAmount.fromUnits(tokenId, units, decimals);
+  }
+
+  static from(tokenId: string, value: TokenAmountInput, decimals: number): TokenAmount {
+    if (value instanceof TokenAmount) {
+      if (value.tokenId !== tokenId || value.decimals !== decimals) {
+        throw new Error(`Amount of ${value.tokenId} (${value.decimals} decimals) used for ${tokenId} (${decimals} decimals)`);
+      }
+      return value;
+    }
+    return typeof value === 'bigint'
+      ? TokenAmount.fromUnits(tokenId, value, decimals)
+      : TokenAmount.parse(tokenId, value, decimals);
+  }
+
+  plus(other: TokenAmount): TokenAmount {
+    this.requireSameToken(other);
+    return TokenAmount.fromUnits(this.tokenId, this.units + other.units, this.decimals);
+  }
+
+  minus(other: TokenAmount): TokenAmount {
+    this.requireSameToken(other);
+    return TokenAmount.fromUnits(this.tokenId, this.units - other.units, this.decimals);
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  /**
+   * Base units as a number, exact by construction
+   */
+  toNumber(): number {
+    return Number(this.units);
+  }
+
+  /**
+   * Display value with all of the token's decimals, e.g. "10.00"
+   */
+  toString(): string {
+    if (this.decimals === 0) {
+      return this.units.toString();
+    }
+    const digits = this.units.toString().padStart(this.decimals + 1, '0');
+    return `${digits.slice(0, -this.decimals)}.${digits.slice(-this.decimals)}`;
+  }
+
+  toJSON(): { tokenId: string; amount: string; units: string; decimals: number } {
+    return { tokenId: this.tokenId, amount: this.toString(), units: this.units.toString(), decimals: this.decimals };
+  }
+
+  private requireSameToken(other: TokenAmount): void {
+    if (other.tokenId !== this.tokenId) {
+      throw new Error(`Cannot combine amounts of ${this.tokenId} and ${other.tokenId}`);
+    }
+  }
+}
+
+/**
+ * Looks up token decimals on the ledger once per token and builds TokenAmounts with them.
+ * Decimals cannot change after a token is created, so entries never expire.
+ */
+export class TokenDecimalsCache {
+  private decimals = new Map<string, Promise<number>>();
+
+  constructor(private ledger: HederaLedger) {}
+
+  getDecimals(tokenId: string): Promise<number> {
+    let decimals = this.decimals.get(tokenId);
+    if (!decimals) {
+      decimals = this.ledger.getTokenInfo(tokenId).then(info => info.decimals);
+      // A failed lookup is not cached, so the next call retries it
+      decimals.catch(() => this.decimals.delete(tokenId));
+      this.decimals.set(tokenId, decimals);
+    }
+    return decimals;
+  }
+
+  /**
+   * Records decimals already known, e.g. right after creating the token
+   */
+  remember(tokenId: string, decimals: number): void {
+    checkDecimals(decimals);
+    this.decimals.set(tokenId, Promise.resolve(decimals));
+  }
+
+  async amount(tokenId: string, value: TokenAmountInput): Promise<TokenAmount> {
+    return TokenAmount.from(tokenId, value, await this.getDecimals(tokenId));
+  }
+
+  async fromUnits(tokenId: string, units: bigint): Promise<TokenAmount> {
+    return TokenAmount.fromUnits(tokenId, units, await this.getDecimals(tokenId));
+  }
+}
+
+function checkDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
+    throw new Error(`Invalid token decimals: ${decimals}`);
+  }
+}
@@ -0,0 +1,85 @@
+// utils/transaction-monitor.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { HederaTokenService } from '../services/hedera/token.service';
+import { createTestEnvironment, TestEnvironment } from '../simulator/test-environment';
+import { LedgerStatusError } from './error-handler';
+import { toMirrorTransactionId } from './mirror-node-client';
+import { TransactionMonitor, TransactionOutcome } from './transaction-monitor';
+
+describe('TransactionMonitor', () => {
+  let env: TestEnvironment;
+  let monitor: TransactionMonitor;
+  let tokens: HederaTokenService;
+  let tokenId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnvironment();
+    monitor = new TransactionMonitor(env.simulator, { initialDelayMs: 1, maxDelayMs: 5, timeoutMs: 200 });
+    tokens = new HederaTokenService(env.simulator, { monitor });
+    ({ tokenId } = await tokens.createFungibleToken({ name: 'Naira Stable', symbol: 'NGNS', decimals: 2, initialSupply: '100' }));
+  });
+
+  afterEach(() => env.cleanup());
+
+  const sendTokens = (toAccountId: string) => tokens.transferTokens({
+    tokenId,
+    fromAccountId: env.treasury.accountId,
+    fromSigner: env.treasury.signer,
+    toAccountId,
+    amount: '1'
+  });
+
+  test('reports the consensus timestamp, fee and transfers of a transaction', async () => {
+    const holder = env.account();
+    await tokens.associateTokenToAccount(holder.accountId, holder.signer, tokenId);
+    const { transactionId } = await sendTokens(holder.accountId);
+
+    const outcome = await monitor.track(transactionId);
+
+    const record = env.simulator.getTransactionRecords().find(record => record.transactionId === transactionId)!;
+    assert.equal(outcome.status, 'SUCCESS');
+    assert.equal(outcome.mirrorTransactionId, toMirrorTransactionId(transactionId));
+    assert.equal(outcome.consensusTimestamp, record.consensusTimestamp);
+    assert.equal(outcome.chargedFee, record.chargedTxFee);
+    assert.deepEqual(outcome.tokenTransfers.map(transfer => [transfer.accountId, transfer.amount]).sort(), [
+      [env.treasury.accountId, -100n],
+      [holder.accountId, 100n]
+    ]);
+  });
+
+  test('emits the result code of a transaction the network rejected', async () => {
+    const unassociated = env.account();
+    const error = await sendTokens(unassociated.accountId).then(() => assert.fail('Expected the transfer to fail'), error => error);
+    assert.ok(error instanceof LedgerStatusError);
+    const failures: TransactionOutcome[] = [];
+    monitor.on('failure', outcome => failures.push(outcome));
+
+    const outcome = await monitor.track(error.transactionId);
+
+    assert.equal(outcome.status, 'FAILED');
+    assert.equal(outcome.result, 'TOKEN_NOT_ASSOCIATED_TO_ACCOUNT');
+    assert.ok(outcome.chargedFee! > 0n);
+    assert.deepEqual(failures, [outcome]);
+  });
+
+  test('polls a transaction once however it is tracked, and times out when it never appears', async () => {
+    const unknown = `${env.operator.accountId}@1700000000.000000001`;
+    const timeouts: TransactionOutcome[] = [];
+    monitor.on('timeout', outcome => timeouts.push(outcome));
+
+    monitor.watch(unknown);
+    const tracked = monitor.track(toMirrorTransactionId(unknown));
+    assert.deepEqual(monitor.pending, [unknown]);
+    const outcome = await tracked;
+
+    assert.equal(outcome.status, 'TIMEOUT');
+    assert.ok(outcome.polls > 1);
+    assert.deepEqual(timeouts, [outcome]);
+    assert.deepEqual(monitor.pending, []);
+  });
+
+  test('rejects malformed transaction ids', async () => {
+    await assert.rejects(monitor.track('not-a-transaction'), /Invalid transaction id/);
+  });
+});
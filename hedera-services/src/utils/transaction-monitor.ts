@@ -1,24 +1,226 @@
 // utils/transaction-monitor.ts
-export async function monitorTransaction(transactionId: string): Promise<void> {
-  const mirrorNodeUrl = 'https://mainnet-public.mirrornode.hedera.com';
-  
-  for (let i = 0; i < 10; i++) {
-    try {
-      const response = await fetch(`${mirrorNodeUrl}/api/v1/transactions/${transactionId}`);
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data.transactions && data.transactions.length > 0 && data.transactions[0].consensus_timestamp) {
-          console.log('Transaction confirmed:', data);
-          return;
+import { EventEmitter } from 'events';
+import { MirrorNodeClient, MirrorTransaction, toMirrorTransactionId } from './mirror-node-client';
+import { HederaNetwork } from './network';
+
+const DEFAULT_MONITOR_OPTIONS: Required<Omit<TransactionMonitorOptions, 'mirror'>> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 10_000,
+  backoffFactor: 2,
+  timeoutMs: 60_000
+};
+
+const sharedMonitors = new WeakMap<HederaNetwork, TransactionMonitor>();
+
+/**
+ * Follows submitted transactions until their record shows up on the mirror node,
+ * polling with exponential backoff up to a deadline. Each transaction is polled
+ * once however often it is tracked, and many can be followed concurrently.
+ *
+ * Callers either `await track(id)` for the outcome or `watch(id)` and subscribe:
+ * every outcome is emitted as `outcome` and as `success`, `failure` (the network
+ * rejected it, e.g. INSUFFICIENT_PAYER_BALANCE) or `timeout`. Watched
+ * transactions don't keep the process alive; tracked ones do until they resolve.
+ */
+export class TransactionMonitor extends EventEmitter {
+  private options: Required<Omit<TransactionMonitorOptions, 'mirror'>>;
+  private mirror: MirrorNodeClient;
+  private tracked = new Map<string, Tracking>();
+
+  constructor(network: HederaNetwork, options: TransactionMonitorOptions = {}) {
+    super();
+    const { mirror, ...polling } = options;
+    this.options = { ...DEFAULT_MONITOR_OPTIONS, ...polling };
+    this.mirror = mirror ?? MirrorNodeClient.forNetwork(network);
+  }
+
+  /**
+   * Monitor with default polling shared by every service on the network, unless
+   * a service is given its own
+   */
+  static forNetwork(network: HederaNetwork): TransactionMonitor {
+    let monitor = sharedMonitors.get(network);
+    if (!monitor) {
+      monitor = new TransactionMonitor(network);
+      sharedMonitors.set(network, monitor);
+    }
+    return monitor;
+  }
+
+  /**
+   * Outcome of a transaction (SDK `0.0.x@seconds.nanos` or mirror `0.0.x-seconds-nanos` id).
+   * Only rejects for a malformed id: lookups that keep failing end in a TIMEOUT outcome.
+   */
+  async track(transactionId: string): Promise<TransactionOutcome> {
+    const tracking = this.start(transactionId);
+    tracking.awaited = true;
+    tracking.timer?.ref();
+    return tracking.outcome;
+  }
+
+  async trackAll(transactionIds: string[]): Promise<TransactionOutcome[]> {
+    return Promise.all(transactionIds.map(transactionId => this.track(transactionId)));
+  }
+
+  /**
+   * Follows a transaction in the background; its outcome is only emitted
+   */
+  watch(transactionId: string): void {
+    this.start(transactionId);
+  }
+
+  /**
+   * Ids of the transactions still being polled
+   */
+  get pending(): string[] {
+    return [...this.tracked.values()].map(tracking => tracking.transactionId);
+  }
+
+  private start(transactionId: string): Tracking {
+    const mirrorTransactionId = toMirrorTransactionId(transactionId);
+    const existing = this.tracked.get(mirrorTransactionId);
+    if (existing) {
+      return existing;
+    }
+
+    const tracking: Tracking = { transactionId, mirrorTransactionId, awaited: false, timer: null, outcome: null! };
+    tracking.outcome = this.poll(tracking).then(outcome => {
+      this.tracked.delete(mirrorTransactionId);
+      this.report(outcome);
+      return outcome;
+    });
+    this.tracked.set(mirrorTransactionId, tracking);
+    return tracking;
+  }
+
+  private async poll(tracking: Tracking): Promise<TransactionOutcome> {
+    const { initialDelayMs, maxDelayMs, backoffFactor, timeoutMs } = this.options;
+    const deadline = Date.now() + timeoutMs;
+    let delay = initialDelayMs;
+    let polls = 0;
+    let lastError: string | null = null;
+
+    while (true) {
+      await this.sleep(tracking, Math.min(delay, Math.max(0, deadline - Date.now())));
+      polls++;
+
+      try {
+        const record = await this.lookup(tracking.mirrorTransactionId);
+        if (record) {
+          return toOutcome(tracking, record, polls);
         }
+        lastError = null;
+      } catch (error: any) {
+        lastError = error.message;
+      }
+
+      if (Date.now() >= deadline) {
+        return {
+          transactionId: tracking.transactionId,
+          mirrorTransactionId: tracking.mirrorTransactionId,
+          status: 'TIMEOUT',
+          result: null,
+          consensusTimestamp: null,
+          chargedFee: null,
+          transfers: [],
+          tokenTransfers: [],
+          polls,
+          error: lastError
+        };
       }
-    } catch (error) {
-      console.warn('Monitor poll failed:', error);
+      delay = Math.min(delay * backoffFactor, maxDelayMs);
+    }
+  }
+
+  /**
+   * The transaction's own record; a scheduled transaction and child records share its id
+   */
+  private async lookup(mirrorTransactionId: string): Promise<MirrorTransaction | null> {
+    const transactions = await this.mirror.getTransaction(mirrorTransactionId);
+    return transactions.find(transaction => !transaction.scheduled && !transaction.nonce) ?? transactions[0] ?? null;
+  }
+
+  private sleep(tracking: Tracking, ms: number): Promise<void> {
+    return new Promise(resolve => {
+      tracking.timer = setTimeout(resolve, ms);
+      if (!tracking.awaited) {
+        tracking.timer.unref();
+      }
+    });
+  }
+
+  private report(outcome: TransactionOutcome): void {
+    if (outcome.status === 'FAILED') {
+      console.warn(`Transaction ${outcome.transactionId} failed on the network: ${outcome.result}`);
+    } else if (outcome.status === 'TIMEOUT') {
+      console.warn(`Transaction ${outcome.transactionId} not on the mirror node after ${outcome.polls} polls${outcome.error ? ` (${outcome.error})` : ''}`);
+    }
+
+    // A throwing listener must not turn a watched transaction into an unhandled rejection
+    try {
+      this.emit('outcome', outcome);
+      this.emit(outcome.status === 'SUCCESS' ? 'success' : outcome.status === 'FAILED' ? 'failure' : 'timeout', outcome);
+    } catch (error: any) {
+      console.error(`Transaction monitor listener failed for ${outcome.transactionId}:`, error.message);
     }
-    
-    await new Promise(resolve => setTimeout(resolve, 2000));
   }
-  
-  console.warn(`Transaction ${transactionId} not confirmed after 10 polls`);
-}
\ No newline at end of file
+}
+
+export interface TransactionMonitor {
+  on(event: TransactionMonitorEvent, listener: (outcome: TransactionOutcome) => void): this;
+  once(event: TransactionMonitorEvent, listener: (outcome: TransactionOutcome) => void): this;
+  off(event: TransactionMonitorEvent, listener: (outcome: TransactionOutcome) => void): this;
+}
+
+/**
+ * Outcome of a transaction on the network's shared monitor
+ */
+export function monitorTransaction(transactionId: string, network: HederaNetwork): Promise<TransactionOutcome> {
+  return TransactionMonitor.forNetwork(network).track(transactionId);
+}
+
+function toOutcome(tracking: Tracking, record: MirrorTransaction, polls: number): TransactionOutcome {
+  return {
+    transactionId: tracking.transactionId,
+    mirrorTransactionId: tracking.mirrorTransactionId,
+    status: record.result === 'SUCCESS' ? 'SUCCESS' : 'FAILED',
+    result: record.result,
+    consensusTimestamp: record.consensus_timestamp,
+    chargedFee: BigInt(record.charged_tx_fee),
+    transfers: (record.transfers ?? []).map(t => ({ accountId: t.account, amount: BigInt(t.amount) })),
+    tokenTransfers: (record.token_transfers ?? []).map(t => ({ tokenId: t.token_id, accountId: t.account, amount: BigInt(t.amount) })),
+    polls,
+    error: null
+  };
+}
+
+interface Tracking {
+  transactionId: string;
+  mirrorTransactionId: string;
+  awaited: boolean; // Someone awaits the outcome, so polling keeps the process alive
+  timer: NodeJS.Timeout | null;
+  outcome: Promise<TransactionOutcome>;
+}
+
+export type TransactionMonitorEvent = 'outcome' | 'success' | 'failure' | 'timeout';
+
+export interface TransactionMonitorOptions {
+  mirror?: MirrorNodeClient; // Default: the network's shared client
+  initialDelayMs?: number; // Before the first poll; the mirror node trails consensus by a few seconds
+  maxDelayMs?: number; // Cap on the backoff between polls
+  backoffFactor?: number;
+  timeoutMs?: number; // Deadline per transaction, from when it is first tracked
+}
+
+export interface TransactionOutcome {
+  transactionId: string; // As tracked
+  mirrorTransactionId: string;
+  status: 'SUCCESS' | 'FAILED' | 'TIMEOUT';
+  result: string | null; // Network result code, e.g. SUCCESS or INVALID_SIGNATURE; null on timeout
+  consensusTimestamp: string | null; // seconds.nanos
+  chargedFee: bigint | null; // Tinybars
+  transfers: { accountId: string; amount: bigint }[]; // HBAR, tinybars, fees included
+  tokenTransfers: { tokenId: string; accountId: string; amount: bigint }[]; // Base units
+  polls: number;
+  error: string | null; // Last lookup error, when it timed out because the mirror node kept failing
+}
@@ -0,0 +1,52 @@
+// utils/user-key-store.test.ts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseEnvelope } from './encryption';
+import { EncryptionKeyring } from './keyring';
+import { FileUserKeyStore } from './user-key-store';
+
+describe('FileUserKeyStore', () => {
+  let dir: string;
+  let keyring: EncryptionKeyring;
+  let store: FileUserKeyStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'afrione-test-'));
+    keyring = new EncryptionKeyring([{ id: 'hcs', version: 1, key: crypto.randomBytes(32).toString('hex'), status: 'active' }]);
+    store = new FileUserKeyStore(path.join(dir, 'user-keys.json'), keyring);
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('returns the same key for a subject and finds it by key id', async () => {
+    const key = await store.getOrCreateKey('subject-1');
+
+    assert.deepEqual(await store.getOrCreateKey('subject-1'), key);
+    assert.deepEqual(await store.findKey(key.id), key);
+    assert.notEqual((await store.getOrCreateKey('subject-2')).id, key.id);
+  });
+
+  test('shreds a subject by deleting their key', async () => {
+    const key = await store.getOrCreateKey('subject-1');
+
+    assert.equal(await store.deleteKey('subject-1'), true);
+    assert.equal(await store.findKey(key.id), null);
+    assert.equal(await store.deleteKey('subject-1'), false);
+  });
+
+  test('keeps keys readable after rotating, re-wrapping and destroying the old version', async () => {
+    const key = await store.getOrCreateKey('subject-1');
+    const rotated = keyring.rotate('hcs');
+
+    assert.equal(await store.rewrapKeys(), 1);
+    keyring.destroy('hcs', 1);
+
+    assert.deepEqual(await store.findKey(key.id), key);
+    const stored = JSON.parse(fs.readFileSync(path.join(dir, 'user-keys.json'), 'utf-8'));
+    assert.equal(parseEnvelope(stored.subjects['subject-1'].wrappedKey)!.keyVersion, rotated.version);
+  });
+});
@@ -0,0 +1,150 @@
+// utils/user-key-store.ts
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { EncryptionKey } from './encryption';
+import { EncryptionKeyring } from './keyring';
+
+/**
+ * Per-data-subject encryption keys. Payloads about a subject are encrypted with
+ * their key, so destroying the key (crypto-shredding) makes every historical HCS
+ * entry about them unreadable even though the ledger itself is immutable.
+ *
+ * Subjects are identified by their pseudonym, never the raw user id. Key ids are
+ * random and carry no link to the subject.
+ */
+export interface UserKeyStore {
+  getOrCreateKey(subject: string): Promise<EncryptionKey>;
+  findKey(keyId: string): Promise<EncryptionKey | null>;
+  /**
+   * Destroys the subject's key; returns false if they had none
+   */
+  deleteKey(subject: string): Promise<boolean>;
+}
+
+export class InMemoryUserKeyStore implements UserKeyStore {
+  private keys = new Map<string, EncryptionKey>();
+
+  async getOrCreateKey(subject: string): Promise<EncryptionKey> {
+    let key = this.keys.get(subject);
+    if (!key) {
+      key = generateDataKey();
+      this.keys.set(subject, key);
+    }
+    return key;
+  }
+
+  async findKey(keyId: string): Promise<EncryptionKey | null> {
+    return [...this.keys.values()].find(key => key.id === keyId) || null;
+  }
+
+  async deleteKey(subject: string): Promise<boolean> {
+    return this.keys.delete(subject);
+  }
+}
+
+/**
+ * JSON file store; data keys are kept wrapped (encrypted) under the HCS keyring.
+ * Deleting a key rewrites the file, but copies in backups survive: backups of this
+ * file must expire within the erasure deadline for shredding to be complete.
+ * After rotating the HCS key, `rewrapKeys()` re-encrypts every entry so retired
+ * versions can be destroyed without shredding every subject at once.
+ */
+export class FileUserKeyStore implements UserKeyStore {
+  constructor(private path: string, private keyring: EncryptionKeyring) {}
+
+  /**
+   * Store at HCS_USER_KEYSTORE_PATH, or null when per-user keys are not configured
+   */
+  static fromEnv(keyring: EncryptionKeyring = EncryptionKeyring.fromEnv()): FileUserKeyStore | null {
+    return process.env.HCS_USER_KEYSTORE_PATH ? new FileUserKeyStore(process.env.HCS_USER_KEYSTORE_PATH, keyring) : null;
+  }
+
+  async getOrCreateKey(subject: string): Promise<EncryptionKey> {
+    const file = this.load();
+    const existing = file.subjects[subject];
+    if (existing) {
+      return this.unwrap(existing);
+    }
+
+    const key = generateDataKey();
+    file.subjects[subject] = {
+      keyId: key.id,
+      wrappedKey: this.keyring.encrypt(key.key),
+      createdAt: new Date().toISOString()
+    };
+    this.save(file);
+
+    return key;
+  }
+
+  async findKey(keyId: string): Promise<EncryptionKey | null> {
+    const stored = Object.values(this.load().subjects).find(entry => entry.keyId === keyId);
+    return stored ? this.unwrap(stored) : null;
+  }
+
+  async deleteKey(subject: string): Promise<boolean> {
+    const file = this.load();
+    if (!file.subjects[subject]) {
+      return false;
+    }
+
+    delete file.subjects[subject];
+    this.save(file);
+
+    console.log(`✅ Data key destroyed for subject ${subject.substring(0, 12)}…`);
+
+    return true;
+  }
+
+  /**
+   * Re-encrypts every stored key with the active keyring version; returns how many entries were rewritten
+   */
+  async rewrapKeys(): Promise<number> {
+    const file = this.load();
+    const entries = Object.values(file.subjects);
+    for (const entry of entries) {
+      entry.wrappedKey = this.keyring.reencrypt(entry.wrappedKey);
+    }
+    this.save(file);
+
+    console.log(`✅ Rewrapped ${entries.length} user data keys`);
+
+    return entries.length;
+  }
+
+  private unwrap(stored: StoredUserKey): EncryptionKey {
+    return { id: stored.keyId, version: 1, key: this.keyring.decrypt(stored.wrappedKey) };
+  }
+
+  private load(): UserKeyFile {
+    if (!fs.existsSync(this.path)) {
+      return { subjects: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.path, 'utf-8'));
+  }
+
+  private save(file: UserKeyFile): void {
+    // Write-then-rename so a crash never leaves a truncated key file
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(temporary, this.path);
+  }
+}
+
+function generateDataKey(): EncryptionKey {
+  return {
+    id: `dk-${crypto.randomBytes(8).toString('hex')}`,
+    version: 1,
+    key: crypto.randomBytes(32).toString('hex')
+  };
+}
+
+interface StoredUserKey {
+  keyId: string;
+  wrappedKey: string; // Keyring envelope around the hex key
+  createdAt: string;
+}
+
+interface UserKeyFile {
+  subjects: { [subject: string]: StoredUserKey };
+}